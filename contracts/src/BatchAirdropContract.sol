@@ -9,9 +9,55 @@ interface IERC20 {
     function transferFrom(address from, address to, uint256 amount) external returns (bool);
 }
 
+/**
+ * @title Minimal EIP-2612 Interface
+ * @dev Only includes permit; the owner signs an allowance for this contract off-chain
+ */
+interface IERC20Permit {
+    function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external;
+}
+
+/**
+ * @title Minimal Uniswap Permit2 AllowanceTransfer Interface
+ * @dev The owner must have approved Permit2 on the token; Permit2 allowances expire on their own
+ */
+interface IPermit2 {
+    struct PermitDetails {
+        address token;
+        uint160 amount;
+        uint48 expiration;
+        uint48 nonce;
+    }
+
+    struct PermitSingle {
+        PermitDetails details;
+        address spender;
+        uint256 sigDeadline;
+    }
+
+    function permit(address owner, PermitSingle calldata permitSingle, bytes calldata signature) external;
+    function transferFrom(address from, address to, uint160 amount, address token) external;
+}
+
+/**
+ * @title Minimal ERC721 Interface
+ * @dev Only includes safeTransferFrom; the sender must call setApprovalForAll(this, true) first
+ */
+interface IERC721 {
+    function safeTransferFrom(address from, address to, uint256 tokenId) external;
+}
+
+/**
+ * @title Minimal ERC1155 Interface
+ * @dev Only includes safeTransferFrom; the sender must call setApprovalForAll(this, true) first
+ */
+interface IERC1155 {
+    function safeTransferFrom(address from, address to, uint256 id, uint256 amount, bytes calldata data) external;
+}
+
 /**
  * @title BatchAirdropContract - Gas Optimized
- * @dev Ultra-lightweight batch transfer contract for ERC20 tokens and native tokens
+ * @dev Ultra-lightweight batch transfer contract for ERC20 tokens, native tokens and NFTs (ERC721 / ERC1155)
  *
  * Gas Optimizations:
  * - No external dependencies (OpenZeppelin removed)
@@ -22,16 +68,43 @@ interface IERC20 {
  * - Uses custom errors instead of require strings (saves ~50 gas per error)
  *
  * Security:
- * - Atomic transactions: all transfers succeed or all fail (no partial success)
- * - No reentrancy risk: only calls transferFrom with no state changes after
- * - Reverts on any transfer failure (insufficient balance/allowance)
+ * - Atomic functions: all transfers succeed or all fail (no partial success)
+ * - Best-effort functions: failed transfers are skipped and reported via TransferFailed events
+ * - No reentrancy risk: the contract keeps no state, refunds are computed from local variables
+ * - Atomic functions revert on any transfer failure (insufficient balance/allowance)
  */
 contract BatchAirdropContract {
+    /// @notice Canonical Permit2 deployment (same address on every chain)
+    address public constant PERMIT2 = 0x000000000022D473030F116dDEE9F6B43aC78BA3;
+
+    /// @notice How the signed allowance in TokenPermit is granted
+    enum PermitKind {
+        EIP2612,
+        PERMIT2
+    }
+
+    /**
+     * @notice Signed, exact-amount, time-bounded allowance for this contract
+     * @param kind EIP2612 calls token.permit, PERMIT2 calls Permit2.permit and transfers through Permit2
+     * @param amount Allowance granted by the signature (in token's smallest unit)
+     * @param deadline Signature deadline; for Permit2 also the allowance expiration
+     * @param nonce Permit2 allowance nonce (ignored for EIP-2612, the token tracks its own nonces)
+     */
+    struct TokenPermit {
+        PermitKind kind;
+        uint256 amount;
+        uint256 deadline;
+        uint48 nonce;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
     /// @notice Thrown when recipients and amounts arrays have different lengths
     error LengthMismatch();
 
     /// @notice Thrown when a token transfer fails
-    error TransferFailed();
+    error TokenTransferFailed();
 
     /// @notice Thrown when native token transfer fails
     error NativeTransferFailed();
@@ -39,6 +112,19 @@ contract BatchAirdropContract {
     /// @notice Thrown when insufficient native token sent
     error InsufficientValue();
 
+    /// @notice Thrown when the token address has no contract code
+    error InvalidToken();
+
+    /// @notice Thrown when Permit2 is not deployed on this chain or an amount does not fit Permit2's uint160
+    error Permit2Unavailable();
+
+    /// @notice Emitted by best-effort functions for each transfer that went through
+    event TransferSucceeded(address indexed recipient, uint256 amount);
+
+    /// @notice Emitted by best-effort functions for each skipped transfer
+    /// @param reason Revert data of the failed call (empty when the token returned false)
+    event TransferFailed(address indexed recipient, uint256 amount, bytes reason);
+
     /**
      * @notice Executes batch transfers of ERC20 tokens to multiple recipients
      * @dev Caller must have approved this contract to spend tokens beforehand
@@ -67,7 +153,7 @@ contract BatchAirdropContract {
 
         for (uint256 i = 0; i < length; ) {
             if (!tokenContract.transferFrom(msg.sender, recipients[i], amounts[i])) {
-                revert TransferFailed();
+                revert TokenTransferFailed();
             }
             unchecked { ++i; }
         }
@@ -118,4 +204,267 @@ contract BatchAirdropContract {
             if (!success) revert NativeTransferFailed();
         }
     }
+
+    /**
+     * @notice Executes one batch that mixes several tokens: recipients[i] receives amounts[i] of tokens[i]
+     * @dev Used by multi-token campaigns; every ERC20 token must be approved for this contract beforehand
+     * @param tokens Array of token addresses, address(0) sends native tokens from msg.value
+     * @param recipients Array of recipient addresses
+     * @param amounts Array of amounts, each in the smallest unit of its own token
+     *
+     * Requirements:
+     * - tokens, recipients and amounts must have the same length
+     * - msg.value must cover the sum of all native amounts
+     *
+     * Effects:
+     * - Transfers every entry in order, refunds excess native value to the caller
+     * - Reverts entirely if any single transfer fails (atomic operation)
+     */
+    function batchTransferMultiToken(
+        address[] calldata tokens,
+        address[] calldata recipients,
+        uint256[] calldata amounts
+    ) external payable {
+        uint256 length = recipients.length;
+        if (length != tokens.length || length != amounts.length) revert LengthMismatch();
+
+        uint256 nativeTotal = 0;
+        for (uint256 i = 0; i < length; ) {
+            address token = tokens[i];
+            if (token == address(0)) {
+                nativeTotal += amounts[i];
+                if (nativeTotal > msg.value) revert InsufficientValue();
+                (bool success, ) = recipients[i].call{value: amounts[i]}("");
+                if (!success) revert NativeTransferFailed();
+            } else if (!IERC20(token).transferFrom(msg.sender, recipients[i], amounts[i])) {
+                revert TokenTransferFailed();
+            }
+            unchecked { ++i; }
+        }
+
+        // Refund excess if any
+        uint256 excess = msg.value - nativeTotal;
+        if (excess > 0) {
+            (bool success, ) = msg.sender.call{value: excess}("");
+            if (!success) revert NativeTransferFailed();
+        }
+    }
+
+    /**
+     * @notice Executes batch transfers of ERC721 tokens, one token ID per recipient
+     * @dev Caller must have called setApprovalForAll(this, true) on the collection beforehand
+     * @param token The ERC721 collection address
+     * @param recipients Array of recipient addresses (may repeat for multiple token IDs)
+     * @param tokenIds Array of token IDs, recipients[i] receives tokenIds[i]
+     *
+     * Effects:
+     * - Transfers each token from msg.sender with safeTransferFrom (contract recipients must implement onERC721Received)
+     * - Reverts entirely if any single transfer fails (atomic operation)
+     */
+    function batchTransferERC721(
+        address token,
+        address[] calldata recipients,
+        uint256[] calldata tokenIds
+    ) external {
+        uint256 length = recipients.length;
+        if (length != tokenIds.length) revert LengthMismatch();
+        if (token.code.length == 0) revert InvalidToken();
+
+        IERC721 collection = IERC721(token);
+
+        for (uint256 i = 0; i < length; ) {
+            collection.safeTransferFrom(msg.sender, recipients[i], tokenIds[i]);
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Executes batch transfers of ERC1155 tokens
+     * @dev Caller must have called setApprovalForAll(this, true) on the collection beforehand
+     * @param token The ERC1155 collection address
+     * @param recipients Array of recipient addresses
+     * @param ids Array of token IDs
+     * @param amounts Array of token amounts, recipients[i] receives amounts[i] of ids[i]
+     *
+     * Effects:
+     * - Transfers each token from msg.sender with safeTransferFrom (contract recipients must implement onERC1155Received)
+     * - Reverts entirely if any single transfer fails (atomic operation)
+     */
+    function batchTransferERC1155(
+        address token,
+        address[] calldata recipients,
+        uint256[] calldata ids,
+        uint256[] calldata amounts
+    ) external {
+        uint256 length = recipients.length;
+        if (length != ids.length || length != amounts.length) revert LengthMismatch();
+        if (token.code.length == 0) revert InvalidToken();
+
+        IERC1155 collection = IERC1155(token);
+
+        for (uint256 i = 0; i < length; ) {
+            collection.safeTransferFrom(msg.sender, recipients[i], ids[i], amounts[i], "");
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Best-effort batch transfer of ERC20 tokens: failed transfers are skipped instead of reverting
+     * @dev Uses low-level calls so that a reverting recipient (e.g. blacklisted) does not revert the batch
+     * @param token The ERC20 token contract address
+     * @param recipients Array of recipient addresses
+     * @param amounts Array of token amounts (in token's smallest unit)
+     * @return failed Number of skipped transfers
+     *
+     * Effects:
+     * - Emits TransferSucceeded or TransferFailed for every recipient, in order
+     * - Supports tokens that return no value from transferFrom
+     */
+    function batchTransferBestEffort(
+        address token,
+        address[] calldata recipients,
+        uint256[] calldata amounts
+    ) external returns (uint256 failed) {
+        uint256 length = recipients.length;
+        if (length != amounts.length) revert LengthMismatch();
+        if (token.code.length == 0) revert InvalidToken();
+
+        for (uint256 i = 0; i < length; ) {
+            (bool success, bytes memory result) = token.call(
+                abi.encodeCall(IERC20.transferFrom, (msg.sender, recipients[i], amounts[i]))
+            );
+            if (success && (result.length == 0 || (result.length >= 32 && abi.decode(result, (bool))))) {
+                emit TransferSucceeded(recipients[i], amounts[i]);
+            } else {
+                emit TransferFailed(recipients[i], amounts[i], success ? bytes("") : result);
+                unchecked { ++failed; }
+            }
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @notice Best-effort batch transfer of native tokens: failed transfers are skipped and refunded
+     * @param recipients Array of recipient addresses
+     * @param amounts Array of native token amounts (in wei)
+     * @return failed Number of skipped transfers
+     *
+     * Requirements:
+     * - msg.value must cover the sum of all amounts
+     *
+     * Effects:
+     * - Emits TransferSucceeded or TransferFailed for every recipient, in order
+     * - Refunds the amounts of skipped transfers together with any excess value
+     */
+    function batchTransferNativeBestEffort(
+        address[] calldata recipients,
+        uint256[] calldata amounts
+    ) external payable returns (uint256 failed) {
+        uint256 length = recipients.length;
+        if (length != amounts.length) revert LengthMismatch();
+
+        uint256 totalAmount = 0;
+        for (uint256 i = 0; i < length; ) {
+            totalAmount += amounts[i];
+            unchecked { ++i; }
+        }
+
+        if (msg.value < totalAmount) revert InsufficientValue();
+
+        uint256 refund = msg.value - totalAmount;
+        for (uint256 i = 0; i < length; ) {
+            (bool success, bytes memory result) = recipients[i].call{value: amounts[i]}("");
+            if (success) {
+                emit TransferSucceeded(recipients[i], amounts[i]);
+            } else {
+                emit TransferFailed(recipients[i], amounts[i], result);
+                refund += amounts[i];
+                unchecked { ++failed; }
+            }
+            unchecked { ++i; }
+        }
+
+        if (refund > 0) {
+            (bool success, ) = msg.sender.call{value: refund}("");
+            if (!success) revert NativeTransferFailed();
+        }
+    }
+
+    /**
+     * @notice Batch transfer of ERC20 tokens authorized by a signed permit instead of a prior approve transaction
+     * @dev The permit is submitted with try/catch: every batch of a campaign carries the same signature, only the
+     *      first one to be mined consumes it and later batches spend the remaining allowance. A permit that was
+     *      front-run is ignored the same way, the transfers then fail only if the allowance is actually missing.
+     * @param token The ERC20 token contract address
+     * @param recipients Array of recipient addresses
+     * @param amounts Array of token amounts (in token's smallest unit)
+     * @param permit Signed allowance for this contract, see TokenPermit
+     * @param bestEffort false: revert the whole batch on any failure; true: skip failed transfers like batchTransferBestEffort
+     * @return failed Number of skipped transfers (always 0 in atomic mode)
+     *
+     * Effects:
+     * - EIP2612: transfers with token.transferFrom, the permit sets this contract's allowance on the token
+     * - PERMIT2: transfers with Permit2.transferFrom, the permit sets this contract's allowance inside Permit2
+     * - In best-effort mode emits TransferSucceeded or TransferFailed for every recipient, in order
+     */
+    function batchTransferWithPermit(
+        address token,
+        address[] calldata recipients,
+        uint256[] calldata amounts,
+        TokenPermit calldata permit,
+        bool bestEffort
+    ) external returns (uint256 failed) {
+        uint256 length = recipients.length;
+        if (length != amounts.length) revert LengthMismatch();
+        if (token.code.length == 0) revert InvalidToken();
+
+        bool viaPermit2 = permit.kind == PermitKind.PERMIT2;
+        _usePermit(token, permit);
+
+        address target = viaPermit2 ? PERMIT2 : token;
+        for (uint256 i = 0; i < length; ) {
+            bytes memory callData;
+            if (viaPermit2) {
+                if (amounts[i] > type(uint160).max) revert Permit2Unavailable();
+                callData = abi.encodeCall(IPermit2.transferFrom, (msg.sender, recipients[i], uint160(amounts[i]), token));
+            } else {
+                callData = abi.encodeCall(IERC20.transferFrom, (msg.sender, recipients[i], amounts[i]));
+            }
+
+            (bool success, bytes memory result) = target.call(callData);
+            if (success && (result.length == 0 || (result.length >= 32 && abi.decode(result, (bool))))) {
+                if (bestEffort) emit TransferSucceeded(recipients[i], amounts[i]);
+            } else if (bestEffort) {
+                emit TransferFailed(recipients[i], amounts[i], success ? bytes("") : result);
+                unchecked { ++failed; }
+            } else if (success) {
+                revert TokenTransferFailed();
+            } else {
+                // Bubble up the original revert reason
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+            unchecked { ++i; }
+        }
+    }
+
+    /**
+     * @dev Submits the permit for msg.sender, ignoring failures (already used in an earlier batch or front-run)
+     */
+    function _usePermit(address token, TokenPermit calldata permit) private {
+        if (permit.kind == PermitKind.PERMIT2) {
+            if (PERMIT2.code.length == 0 || permit.amount > type(uint160).max) revert Permit2Unavailable();
+            IPermit2.PermitSingle memory permitSingle = IPermit2.PermitSingle(
+                IPermit2.PermitDetails(token, uint160(permit.amount), uint48(permit.deadline), permit.nonce),
+                address(this),
+                permit.deadline
+            );
+            try IPermit2(PERMIT2).permit(msg.sender, permitSingle, abi.encodePacked(permit.r, permit.s, permit.v)) {} catch {}
+        } else {
+            try IERC20Permit(token).permit(
+                msg.sender, address(this), permit.amount, permit.deadline, permit.v, permit.r, permit.s
+            ) {} catch {}
+        }
+    }
 }
@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+/**
+ * @title Minimal ERC20 Interface
+ * @dev Only includes the functions needed to pay out claims and sweep the remainder
+ */
+interface IERC20Claimable {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function balanceOf(address account) external view returns (uint256);
+}
+
+/**
+ * @title MerkleDistributor
+ * @dev Claim-based distribution for very large recipient lists: instead of pushing tokens,
+ *      each recipient claims their own allocation with a Merkle proof.
+ *
+ * Tree format:
+ * - Leaf = keccak256(abi.encodePacked(uint256 index, address account, uint256 amount))
+ * - Parent = keccak256 of the two children in ascending order (sorted pairs, no leaf/parent prefix)
+ * - An unpaired node is carried up to the next level unchanged
+ *
+ * Funding:
+ * - Native tokens (token == address(0)): msg.value of the deployment
+ * - ERC20 tokens: transferred to the contract after deployment
+ *
+ * Security:
+ * - Each index can be claimed once (bitmap), tokens always go to the account in the leaf
+ * - Claims close at the expiry; only the deployer can sweep the remainder, and only after the expiry
+ */
+contract MerkleDistributor {
+    /// @notice Thrown when the index has already been claimed
+    error AlreadyClaimed();
+
+    /// @notice Thrown when the proof does not match the Merkle root
+    error InvalidProof();
+
+    /// @notice Thrown when claiming after the expiry
+    error ClaimWindowClosed();
+
+    /// @notice Thrown when sweeping before the expiry
+    error ClaimWindowOpen();
+
+    /// @notice Thrown when someone other than the deployer sweeps
+    error NotOwner();
+
+    /// @notice Thrown when a payout fails
+    error PayoutFailed();
+
+    /// @notice Emitted for every successful claim
+    event Claimed(uint256 indexed index, address indexed account, uint256 amount);
+
+    /// @notice Emitted when the unclaimed remainder is swept
+    event Swept(address indexed to, uint256 amount);
+
+    /// @notice Distributed token, address(0) for the chain's native token
+    address public immutable token;
+
+    /// @notice Root of the claim tree
+    bytes32 public immutable merkleRoot;
+
+    /// @notice Unix timestamp at which claims close and sweeping opens
+    uint256 public immutable expiry;
+
+    /// @notice Deployer, the only account allowed to sweep
+    address public immutable owner;
+
+    mapping(uint256 => uint256) private claimedBitMap;
+
+    constructor(address token_, bytes32 merkleRoot_, uint256 expiry_) payable {
+        token = token_;
+        merkleRoot = merkleRoot_;
+        expiry = expiry_;
+        owner = msg.sender;
+    }
+
+    /**
+     * @notice Returns whether the allocation at `index` has been claimed
+     */
+    function isClaimed(uint256 index) public view returns (bool) {
+        uint256 word = claimedBitMap[index / 256];
+        uint256 mask = 1 << (index % 256);
+        return word & mask == mask;
+    }
+
+    /**
+     * @notice Claims the allocation at `index` for `account`
+     * @dev Anyone may submit the claim; the tokens always go to `account`
+     */
+    function claim(uint256 index, address account, uint256 amount, bytes32[] calldata merkleProof) external {
+        if (block.timestamp >= expiry) revert ClaimWindowClosed();
+        if (isClaimed(index)) revert AlreadyClaimed();
+
+        bytes32 node = keccak256(abi.encodePacked(index, account, amount));
+        uint256 length = merkleProof.length;
+        for (uint256 i = 0; i < length; ) {
+            bytes32 sibling = merkleProof[i];
+            node = node < sibling
+                ? keccak256(abi.encodePacked(node, sibling))
+                : keccak256(abi.encodePacked(sibling, node));
+            unchecked { ++i; }
+        }
+        if (node != merkleRoot) revert InvalidProof();
+
+        claimedBitMap[index / 256] |= 1 << (index % 256);
+        _pay(account, amount);
+
+        emit Claimed(index, account, amount);
+    }
+
+    /**
+     * @notice Sends everything left in the contract to `to` once the claim window has closed
+     */
+    function sweep(address to) external returns (uint256 amount) {
+        if (msg.sender != owner) revert NotOwner();
+        if (block.timestamp < expiry) revert ClaimWindowOpen();
+
+        amount = token == address(0)
+            ? address(this).balance
+            : IERC20Claimable(token).balanceOf(address(this));
+        _pay(to, amount);
+
+        emit Swept(to, amount);
+    }
+
+    /**
+     * @dev Low-level ERC20 call so that tokens without a return value are supported
+     */
+    function _pay(address to, uint256 amount) private {
+        if (token == address(0)) {
+            (bool sent, ) = to.call{value: amount}("");
+            if (!sent) revert PayoutFailed();
+            return;
+        }
+
+        (bool success, bytes memory result) = token.call(abi.encodeCall(IERC20Claimable.transfer, (to, amount)));
+        if (!success || (result.length != 0 && !abi.decode(result, (bool)))) revert PayoutFailed();
+    }
+}
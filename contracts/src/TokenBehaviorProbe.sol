@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.0;
+
+/**
+ * @title Minimal ERC20 Interface
+ * @dev Only includes the balance query the probe compares around the transfer
+ */
+interface IERC20Balance {
+    function balanceOf(address account) external view returns (uint256);
+}
+
+/**
+ * @title TokenBehaviorProbe
+ * @dev Never deployed. The app places this runtime code on a token holder through an eth_call
+ *      state override and calls it on that address, so the token sees the holder as msg.sender.
+ *
+ * Measurement:
+ * - debited  = holder balance before - holder balance after
+ * - received = recipient balance after - recipient balance before
+ * - A fee-on-transfer token delivers less than the transfer amount; a token charging the fee on
+ *   top debits more; share-based rebasing tokens are usually off by a rounding wei
+ *
+ * The transfer call's revert reason is bubbled up unchanged so blocklists and pauses stay visible.
+ */
+contract TokenBehaviorProbe {
+    /// @notice Thrown when the token returns false instead of reverting
+    error TransferReturnedFalse();
+
+    /**
+     * @notice Transfer tokens from this address and report the balance changes on both sides
+     * @param token ERC20 token to probe
+     * @param to Recipient of the probe transfer, normally a fresh throwaway address
+     * @param amount Amount passed to transfer
+     * @return debited Amount that left this address
+     * @return received Amount that arrived at the recipient
+     */
+    function probeTransfer(address token, address to, uint256 amount) external returns (uint256 debited, uint256 received) {
+        uint256 senderBefore = IERC20Balance(token).balanceOf(address(this));
+        uint256 recipientBefore = IERC20Balance(token).balanceOf(to);
+
+        (bool success, bytes memory data) = token.call(abi.encodeWithSelector(0xa9059cbb, to, amount));
+        if (!success) {
+            assembly {
+                revert(add(data, 32), mload(data))
+            }
+        }
+        if (data.length > 0 && !abi.decode(data, (bool))) {
+            revert TransferReturnedFalse();
+        }
+
+        uint256 senderAfter = IERC20Balance(token).balanceOf(address(this));
+        uint256 recipientAfter = IERC20Balance(token).balanceOf(to);
+        debited = senderBefore > senderAfter ? senderBefore - senderAfter : 0;
+        received = recipientAfter > recipientBefore ? recipientAfter - recipientBefore : 0;
+    }
+}
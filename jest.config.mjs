@@ -9,9 +9,11 @@ export default {
     '!**/__tests__/e2e/**/*.spec.ts'
   ],
   transform: {
-    '^.+\\.tsx?$': ['ts-jest', {
+    // uuid 只发布 ESM，与 TypeScript 一起编译为 CommonJS（见 transformIgnorePatterns）
+    '^.+\\.[tj]sx?$': ['ts-jest', {
       tsconfig: {
         module: 'commonjs',
+        allowJs: true,
         esModuleInterop: true,
         allowSyntheticDefaultImports: true,
         skipLibCheck: true,
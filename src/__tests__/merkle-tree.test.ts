@@ -0,0 +1,55 @@
+import { ethers } from 'ethers';
+import { MerkleTree } from '../main/utils/merkle-tree';
+
+describe('MerkleTree', () => {
+  const accounts = [
+    '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266',
+    '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+    '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC',
+    '0x90F79bf6EB2c4f870365E785982E1f101E93b906',
+    '0x15d34AAf54267DB7D7c367839AAf71A00a2C6A65',
+  ];
+
+  const buildLeaves = (count: number) =>
+    accounts.slice(0, count).map((account, index) => MerkleTree.claimLeaf(index, account, BigInt(index + 1) * 10n ** 18n));
+
+  it('hashes leaves like abi.encodePacked(index, account, amount)', () => {
+    const leaf = MerkleTree.claimLeaf(3, accounts[0], 1000n);
+    const packed = ethers.concat([
+      ethers.toBeHex(3, 32),
+      accounts[0],
+      ethers.toBeHex(1000n, 32),
+    ]);
+    expect(leaf).toBe(ethers.keccak256(packed));
+  });
+
+  it.each([1, 2, 3, 4, 5])('verifies the proof of every leaf in a tree of %i', (count) => {
+    const leaves = buildLeaves(count);
+    const tree = new MerkleTree(leaves);
+
+    leaves.forEach((leaf, index) => {
+      expect(MerkleTree.verify(tree.getProof(index), leaf, tree.getRoot())).toBe(true);
+    });
+  });
+
+  it('uses the only leaf as the root', () => {
+    const [leaf] = buildLeaves(1);
+    const tree = new MerkleTree([leaf]);
+    expect(tree.getRoot()).toBe(leaf);
+    expect(tree.getProof(0)).toEqual([]);
+  });
+
+  it('rejects a proof for a different amount or index', () => {
+    const leaves = buildLeaves(4);
+    const tree = new MerkleTree(leaves);
+    const proof = tree.getProof(1);
+
+    expect(MerkleTree.verify(proof, MerkleTree.claimLeaf(1, accounts[1], 3n * 10n ** 18n), tree.getRoot())).toBe(false);
+    expect(MerkleTree.verify(proof, MerkleTree.claimLeaf(2, accounts[1], 2n * 10n ** 18n), tree.getRoot())).toBe(false);
+  });
+
+  it('rejects empty trees and out of range proofs', () => {
+    expect(() => new MerkleTree([])).toThrow('Merkle tree needs at least one leaf');
+    expect(() => new MerkleTree(buildLeaves(2)).getProof(2)).toThrow('Leaf index 2 is out of range');
+  });
+});
@@ -0,0 +1,138 @@
+import { buildRecipientRows, CampaignData, TokenLeg } from '../../main/services/CampaignService';
+
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const CAROL = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const NAMES: Record<string, string> = { [ALICE]: 'alice', [BOB]: 'bob', [CAROL]: 'carol' };
+
+const START = '2026-01-01T00:00:00.000Z';
+const at = (seconds: number) => new Date(Date.parse(START) + seconds * 1000).toISOString();
+
+const campaignData = (recipients: CampaignData['recipients'], extra: Partial<CampaignData> = {}): CampaignData => ({
+  name: 'Test',
+  chain: '1',
+  tokenAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  tokenDecimals: 6,
+  batchSize: 2,
+  recipients,
+  ...extra,
+});
+
+describe('buildRecipientRows', () => {
+  it('splits plain recipients into fixed size batches', () => {
+    const rows = buildRecipientRows(campaignData([
+      { address: ALICE, amount: '1' },
+      { address: BOB, amount: '2' },
+      { address: CAROL, amount: '3' },
+    ]), false, 'ERC20', null);
+
+    expect(rows.map(row => [NAMES[row.address], row.amount, row.batchNumber])).toEqual([
+      ['alice', '1', 1],
+      ['bob', '2', 1],
+      ['carol', '3', 2],
+    ]);
+    expect(rows.every(row => row.trancheIndex === 0 && row.unlockAt === null && row.tokenId === null && row.legIndex === null)).toBe(true);
+  });
+
+  describe('multi-token legs', () => {
+    const legs: TokenLeg[] = [
+      { tokenAddress: '0x5FbDB2315678afecb367f032d93F642f64180aa3', tokenDecimals: 6 },
+      { tokenAddress: '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512', tokenDecimals: 18 },
+    ];
+
+    it('creates one row per non-zero leg, leg by leg', () => {
+      const rows = buildRecipientRows(campaignData([
+        { address: ALICE, amount: '', amounts: ['1.50', '2'] },
+        { address: BOB, amount: '', amounts: ['3', ''] },
+        { address: CAROL, amount: '', amounts: ['0', '5'] },
+      ]), false, 'ERC20', legs);
+
+      expect(rows.map(row => [NAMES[row.address], row.legIndex, row.trancheIndex, row.amount, row.batchNumber])).toEqual([
+        ['alice', 0, 0, '1.5', 1],
+        ['bob', 0, 0, '3', 1],
+        ['alice', 1, 1, '2', 2],
+        ['carol', 1, 1, '5', 2],
+      ]);
+    });
+
+    it('mixes legs in a batch but never repeats an address', () => {
+      const rows = buildRecipientRows(campaignData([
+        { address: ALICE, amount: '', amounts: ['1', '2'] },
+      ], { batchSize: 10 }), false, 'ERC20', legs);
+
+      expect(rows.map(row => [row.legIndex, row.batchNumber])).toEqual([[0, 1], [1, 2]]);
+
+      const mixed = buildRecipientRows(campaignData([
+        { address: ALICE, amount: '', amounts: ['1', ''] },
+        { address: BOB, amount: '', amounts: ['', '2'] },
+      ], { batchSize: 10 }), false, 'ERC20', legs);
+
+      expect(mixed.map(row => [NAMES[row.address], row.legIndex, row.batchNumber])).toEqual([['alice', 0, 1], ['bob', 1, 1]]);
+    });
+  });
+
+  describe('NFT rounds', () => {
+    it('numbers repeated addresses as rounds so a batch holds each address once', () => {
+      const rows = buildRecipientRows(campaignData([
+        { address: ALICE, amount: '1', tokenId: '1' },
+        { address: BOB, amount: '1', tokenId: ' 2 ' },
+        { address: ALICE, amount: '1', tokenId: '3' },
+        { address: CAROL, amount: '1', tokenId: '4' },
+        { address: ALICE, amount: '1', tokenId: '0x10' },
+      ], { batchSize: 10 }), false, 'ERC721', null);
+
+      expect(rows.map(row => [NAMES[row.address], row.tokenId, row.trancheIndex, row.batchNumber])).toEqual([
+        ['alice', '1', 0, 1],
+        ['bob', '2', 0, 1],
+        ['carol', '4', 0, 1],
+        ['alice', '3', 1, 2],
+        ['alice', '16', 2, 3],
+      ]);
+    });
+
+    it('still honours the batch size within a round', () => {
+      const rows = buildRecipientRows(campaignData([
+        { address: ALICE, amount: '2', tokenId: '1' },
+        { address: BOB, amount: '5', tokenId: '1' },
+        { address: CAROL, amount: '1', tokenId: '1' },
+      ]), false, 'ERC1155', null);
+
+      expect(rows.map(row => [NAMES[row.address], row.amount, row.batchNumber])).toEqual([
+        ['alice', '2', 1],
+        ['bob', '5', 1],
+        ['carol', '1', 2],
+      ]);
+    });
+  });
+
+  describe('vesting tranches', () => {
+    const vesting = { startAt: START, cliffSeconds: 0, durationSeconds: 300, intervalSeconds: 100 };
+
+    it('groups tranches by unlock time and batches each group separately', () => {
+      const rows = buildRecipientRows(campaignData([
+        { address: ALICE, amount: '300' },
+        { address: BOB, amount: '1', vesting: { startAt: START, cliffSeconds: 200, durationSeconds: 0, intervalSeconds: 0 } },
+        { address: CAROL, amount: '1' },
+      ], { vesting }), false, 'ERC20', null);
+
+      expect(rows.map(row => [NAMES[row.address], row.amount, row.trancheIndex, row.unlockAt, row.batchNumber])).toEqual([
+        ['alice', '100.0', 0, at(100), 1],
+        ['carol', '0.333333', 0, at(100), 1],
+        ['alice', '100.0', 1, at(200), 2],
+        ['bob', '1.0', 0, at(200), 2],
+        ['carol', '0.333333', 1, at(200), 3],
+        ['alice', '100.0', 2, at(300), 4],
+        ['carol', '0.333334', 2, at(300), 4],
+      ]);
+    });
+
+    it('rejects schedules it cannot split', () => {
+      expect(() => buildRecipientRows(campaignData([{ address: ALICE, amount: '1' }], { vesting }), true, 'ERC20', null))
+        .toThrow('Vesting is not available for Merkle claim campaigns');
+      expect(() => buildRecipientRows(campaignData([{ address: ALICE, amount: '1' }], { vesting, tokenDecimals: undefined }), false, 'ERC20', null))
+        .toThrow('Token decimals are required to split vesting tranches');
+      expect(() => buildRecipientRows(campaignData([{ address: ALICE, amount: '1', vesting }]), false, 'ERC20', null))
+        .toThrow('Per-recipient vesting schedules require a vesting campaign');
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { ethers } from 'ethers';
+import { isBroadcastRejected } from '../../main/services/ContractService';
+
+describe('isBroadcastRejected', () => {
+  const rpcError = (message: string) =>
+    ethers.makeError('could not coalesce error', 'UNKNOWN_ERROR', { error: { code: -32000, message } });
+
+  it.each([
+    ['insufficient funds', ethers.makeError('insufficient funds', 'INSUFFICIENT_FUNDS', { transaction: {} as any })],
+    ['nonce too low', ethers.makeError('nonce has already been used', 'NONCE_EXPIRED', { transaction: {} as any })],
+    ['underpriced replacement', ethers.makeError('replacement fee too low', 'REPLACEMENT_UNDERPRICED', { transaction: {} as any })],
+    ['other JSON-RPC rejections', rpcError('exceeds block gas limit')],
+  ])('treats %s as not broadcast', (_name, error) => {
+    expect(isBroadcastRejected(error)).toBe(true);
+  });
+
+  it.each([
+    ['timeouts', ethers.makeError('timeout', 'TIMEOUT', { operation: 'broadcastTransaction' })],
+    ['HTTP errors', ethers.makeError('server response 502', 'SERVER_ERROR', {})],
+    ['connection failures', new Error('fetch failed')],
+    ['already known transactions', rpcError('already known')],
+  ])('treats %s as possibly broadcast', (_name, error) => {
+    expect(isBroadcastRejected(error)).toBe(false);
+  });
+});
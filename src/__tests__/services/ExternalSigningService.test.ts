@@ -0,0 +1,81 @@
+import { ethers } from 'ethers';
+import { ExternalSigningService } from '../../main/services/ExternalSigningService';
+import { createFakeDatabase } from '../utils/fakeDatabase';
+
+jest.mock('ethers', () => {
+  const actual = jest.requireActual('ethers');
+  return { ...actual, ethers: { ...actual.ethers, JsonRpcProvider: jest.fn() } };
+});
+
+const { ethers: realEthers } = jest.requireActual('ethers') as typeof import('ethers');
+
+const UNSIGNED = { chainType: 'evm', transaction: {} } as any;
+
+describe('ExternalSigningService EVM broadcast', () => {
+  let provider: Record<string, jest.Mock>;
+  let service: ExternalSigningService;
+  let signedTransaction: string;
+  let txHash: string;
+
+  const broadcast = (timeoutSeconds: number) =>
+    (service as any).broadcast('http://localhost:8545', UNSIGNED, signedTransaction, timeoutSeconds);
+
+  beforeAll(async () => {
+    const signer = new realEthers.Wallet('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80');
+    signedTransaction = await signer.signTransaction({
+      to: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+      value: 1n,
+      nonce: 0,
+      gasLimit: 21000n,
+      gasPrice: 1000000000n,
+      chainId: 1n,
+    });
+    txHash = realEthers.Transaction.from(signedTransaction).hash!;
+  });
+
+  beforeEach(() => {
+    provider = {
+      broadcastTransaction: jest.fn().mockResolvedValue({ hash: 'ignored' }),
+      waitForTransaction: jest.fn(),
+    };
+    (ethers.JsonRpcProvider as unknown as jest.Mock).mockImplementation(() => provider);
+    service = new ExternalSigningService(createFakeDatabase().manager, '/tmp');
+  });
+
+  it('returns the receipt once the transaction is mined', async () => {
+    provider.waitForTransaction.mockResolvedValue({ status: 1, gasUsed: 21000n, blockNumber: 12, contractAddress: null });
+
+    await expect(broadcast(180)).resolves.toEqual({
+      transactionHash: txHash,
+      gasUsed: '21000',
+      blockNumber: 12,
+      contractAddress: undefined,
+    });
+    expect(provider.waitForTransaction).toHaveBeenCalledWith(txHash, 1, 180000);
+  });
+
+  it('reports a timed out transaction as unconfirmed instead of failing', async () => {
+    provider.waitForTransaction.mockRejectedValue(realEthers.makeError('timeout', 'TIMEOUT', { operation: 'waitForTransaction' }));
+
+    await expect(broadcast(30)).resolves.toEqual({ transactionHash: txHash, gasUsed: '0', unconfirmed: true });
+  });
+
+  it('keeps the signed hash when the broadcast fails after it may have reached the node', async () => {
+    provider.broadcastTransaction.mockRejectedValue(realEthers.makeError('server response 502', 'SERVER_ERROR', {}));
+
+    await expect(broadcast(30)).resolves.toEqual({ transactionHash: txHash, gasUsed: '0', unconfirmed: true });
+    expect(provider.waitForTransaction).not.toHaveBeenCalled();
+  });
+
+  it('reports network errors while waiting as unconfirmed', async () => {
+    provider.waitForTransaction.mockRejectedValue(new Error('fetch failed'));
+
+    await expect(broadcast(30)).resolves.toEqual({ transactionHash: txHash, gasUsed: '0', unconfirmed: true });
+  });
+
+  it('throws when the transaction reverted', async () => {
+    provider.waitForTransaction.mockResolvedValue({ status: 0, gasUsed: 21000n, blockNumber: 12, contractAddress: null });
+
+    await expect(broadcast(30)).rejects.toThrow(`Transaction ${txHash} reverted`);
+  });
+});
@@ -0,0 +1,115 @@
+import { ethers } from 'ethers';
+import { HDWalletService } from '../../main/services/HDWalletService';
+import type { KeyVaultService } from '../../main/services/KeyVaultService';
+import { createFakeDatabase } from '../utils/fakeDatabase';
+
+jest.mock('ethers', () => {
+  const actual = jest.requireActual('ethers');
+  return { ...actual, ethers: { ...actual.ethers, JsonRpcProvider: jest.fn() } };
+});
+
+const MNEMONIC = 'test test test test test test test test test test test junk';
+const EVM_NETWORK = { type: 'evm' as const, name: 'Sepolia', rpcUrl: 'http://localhost:8545' };
+
+describe('HDWalletService', () => {
+  let seedRow: any;
+  let campaigns: any[];
+  let db: ReturnType<typeof createFakeDatabase>;
+  let service: HDWalletService;
+  let getTransactionCount: jest.Mock;
+  let getBalance: jest.Mock;
+
+  beforeEach(() => {
+    seedRow = { id: 1, mnemonic_encrypted: MNEMONIC, fingerprint: 'abcd', next_evm_index: 0, next_solana_index: 0 };
+    campaigns = [];
+    db = createFakeDatabase((sql, params) => {
+      if (sql.includes('FROM hd_seed')) {
+        return sql.includes('as next_index')
+          ? { next_index: sql.includes('next_solana_index') ? seedRow.next_solana_index : seedRow.next_evm_index }
+          : seedRow;
+      }
+      if (sql.includes('MAX(next_evm_index')) {
+        seedRow.next_evm_index = Math.max(seedRow.next_evm_index, params[0]);
+        seedRow.next_solana_index = Math.max(seedRow.next_solana_index, params[1]);
+        return undefined;
+      }
+      if (sql.startsWith('UPDATE hd_seed SET next_evm_index')) {
+        seedRow.next_evm_index = params[0];
+        return undefined;
+      }
+      if (sql.includes('derivation_index IS NOT NULL')) {
+        return sql.includes('COUNT(*)') ? { count: campaigns.length } : campaigns.filter(row => row.chain_type === params[0]);
+      }
+      return undefined;
+    });
+
+    // 保险库只做透传，助记词以明文保存在假数据库里
+    const keyVault = { sealSecret: (secret: string) => secret, openSecret: (sealed: string) => sealed } as unknown as KeyVaultService;
+    service = new HDWalletService(db.manager, keyVault);
+
+    getTransactionCount = jest.fn().mockResolvedValue(0);
+    getBalance = jest.fn().mockResolvedValue(0n);
+    (ethers.JsonRpcProvider as unknown as jest.Mock).mockImplementation(() => ({ getTransactionCount, getBalance }));
+  });
+
+  describe('allocateWallet', () => {
+    it('derives consecutive BIP-44 wallets and advances the index', async () => {
+      const first = await service.allocateWallet('evm');
+      const second = await service.allocateWallet('evm');
+
+      expect(first).toMatchObject({ derivationIndex: 0, address: '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266' });
+      expect(second).toMatchObject({ derivationIndex: 1, address: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8' });
+      expect(seedRow.next_evm_index).toBe(2);
+    });
+
+    it('re-derives the campaign key from the stored index', async () => {
+      const wallet = await service.allocateWallet('evm');
+      const key = await service.openCampaignKey({
+        id: 'campaign-1',
+        chainType: 'evm',
+        walletAddress: wallet.address,
+        derivationIndex: wallet.derivationIndex,
+      });
+
+      expect(key).toBe(wallet.privateKeyBase64);
+      await expect(service.openCampaignKey({
+        id: 'campaign-1',
+        chainType: 'evm',
+        walletAddress: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+        derivationIndex: 0,
+      })).rejects.toThrow('Derived wallet does not match campaign wallet');
+    });
+  });
+
+  describe('discoverWallets', () => {
+    it('finds used addresses and advances past them', async () => {
+      getTransactionCount.mockImplementation(async (address: string) =>
+        address === '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC' ? 4 : 0
+      );
+      campaigns = [{ id: 'campaign-1', name: 'Airdrop', chain_type: 'evm', derivation_index: 0 }];
+
+      const result = await service.discoverWallets([EVM_NETWORK], 3);
+
+      expect(result.wallets.map(wallet => [wallet.index, wallet.campaignId, wallet.activeNetworks])).toEqual([
+        [0, 'campaign-1', []],
+        [2, undefined, ['Sepolia']],
+      ]);
+      expect(result.nextEvmIndex).toBe(3);
+      expect(result.nextSolanaIndex).toBe(0);
+    });
+
+    it('aborts without advancing when an RPC query fails', async () => {
+      getTransactionCount.mockImplementation(async (address: string) => {
+        if (address === '0x70997970C51812dc3A010C7d01b50e0d17dc79C8') {
+          throw new Error('rate limited');
+        }
+        return 0;
+      });
+
+      await expect(service.discoverWallets([EVM_NETWORK], 3))
+        .rejects.toThrow('Failed to query wallet activity on Sepolia for 0x70997970C51812dc3A010C7d01b50e0d17dc79C8: rate limited');
+      expect(db.runs('MAX(next_evm_index')).toHaveLength(0);
+      expect(seedRow.next_evm_index).toBe(0);
+    });
+  });
+});
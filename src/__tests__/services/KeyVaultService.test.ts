@@ -0,0 +1,99 @@
+import { KeyVaultService } from '../../main/services/KeyVaultService';
+import { createFakeDatabase } from '../utils/fakeDatabase';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+describe('KeyVaultService', () => {
+  let vaultRow: any;
+  let vault: KeyVaultService;
+
+  const createVault = () => {
+    const { manager } = createFakeDatabase((sql, params) => {
+      if (sql.includes('INSERT INTO key_vault')) {
+        const [kdf_salt, kdf_params, wrapped_data_key, auto_lock_minutes] = params;
+        vaultRow = { id: 1, kdf: 'scrypt', kdf_salt, kdf_params, wrapped_data_key, auto_lock_minutes };
+        return undefined;
+      }
+      if (sql.includes('UPDATE key_vault SET auto_lock_minutes')) {
+        vaultRow = { ...vaultRow, auto_lock_minutes: params[0] };
+        return undefined;
+      }
+      if (sql.includes('FROM key_vault')) {
+        return vaultRow;
+      }
+      if (sql.includes('COUNT(*) as count FROM campaigns')) {
+        return { count: 0 };
+      }
+      return undefined;
+    });
+    return new KeyVaultService(manager);
+  };
+
+  beforeEach(async () => {
+    vaultRow = undefined;
+    vault = createVault();
+    await vault.initialize(PASSPHRASE);
+  });
+
+  afterEach(() => {
+    vault.lock();
+  });
+
+  it('opens what it sealed', () => {
+    const sealed = vault.sealSecret('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about');
+
+    expect(sealed).toMatch(/^v1:[^:]+:[^:]+:[^:]+$/);
+    expect(sealed).not.toContain('abandon');
+    expect(vault.openSecret(sealed)).toBe('abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about');
+  });
+
+  it('uses a fresh IV for every envelope', () => {
+    const key = Buffer.alloc(32, 7).toString('base64');
+    const first = vault.sealPrivateKey(key);
+    const second = vault.sealPrivateKey(key);
+
+    expect(first).not.toBe(second);
+    expect(vault.openPrivateKey(first)).toBe(key);
+    expect(vault.openPrivateKey(second)).toBe(key);
+  });
+
+  it('rejects tampered envelopes', () => {
+    const [version, iv, authTag, ciphertext] = vault.sealSecret('secret').split(':');
+    const flipped = Buffer.from(ciphertext, 'base64');
+    flipped[0] ^= 1;
+
+    expect(() => vault.openSecret([version, iv, authTag, flipped.toString('base64')].join(':'))).toThrow();
+    expect(() => vault.openSecret('plaintext-key')).toThrow('Unsupported key envelope format');
+  });
+
+  it('requires the vault to be unlocked', () => {
+    const sealed = vault.sealSecret('secret');
+    vault.lock();
+
+    expect(() => vault.openSecret(sealed)).toThrow('Key vault is locked');
+    expect(() => vault.sealSecret('secret')).toThrow('Key vault is locked');
+  });
+
+  it('only changes the auto-lock timeout of an initialized, unlocked vault', async () => {
+    vault.lock();
+    await expect(vault.setAutoLockMinutes(30)).rejects.toThrow('Key vault is locked');
+
+    await vault.unlock(PASSPHRASE);
+    await vault.setAutoLockMinutes(30);
+    expect((await vault.getStatus()).autoLockMinutes).toBe(30);
+
+    vaultRow = undefined;
+    await expect(createVault().setAutoLockMinutes(30)).rejects.toThrow('Key vault is not initialized');
+  });
+
+  it('unwraps the same data key after a restart', async () => {
+    const sealed = vault.sealSecret('secret');
+    vault.lock();
+
+    const restarted = createVault();
+    await expect(restarted.unlock('wrong passphrase!')).rejects.toThrow('Incorrect master passphrase');
+    await restarted.unlock(PASSPHRASE);
+    expect(restarted.openSecret(sealed)).toBe('secret');
+    restarted.lock();
+  });
+});
@@ -0,0 +1,77 @@
+import { ethers } from 'ethers';
+import { RecipientClassifier } from '../../main/services/RecipientClassifier';
+
+jest.mock('ethers', () => {
+  const actual = jest.requireActual('ethers');
+  return { ...actual, ethers: { ...actual.ethers, JsonRpcProvider: jest.fn() } };
+});
+
+const { ethers: realEthers } = jest.requireActual('ethers') as typeof import('ethers');
+
+const CONTRACT = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const callException = (message: string) => {
+  const error = realEthers.makeError('missing revert data', 'CALL_EXCEPTION', { action: 'call', data: null, reason: null, transaction: {} as any, invocation: null, revert: null });
+  (error as any).info = { error: { code: -32000, message } };
+  return error;
+};
+
+describe('RecipientClassifier native token check', () => {
+  let provider: Record<string, jest.Mock>;
+  let rpcUrl: string;
+  let rpcCount = 0;
+  const classifier = new RecipientClassifier();
+
+  beforeEach(() => {
+    // 分类结果按 RPC 缓存，每个用例使用不同的 RPC
+    rpcUrl = `http://localhost:${8545 + ++rpcCount}`;
+    provider = {
+      getCode: jest.fn().mockImplementation(async (address: string) => (address === CONTRACT ? '0x6080' : '0x')),
+      call: jest.fn().mockResolvedValue('0x'),
+      send: jest.fn().mockResolvedValue('0x'),
+    };
+    (ethers.JsonRpcProvider as unknown as jest.Mock).mockImplementation(() => provider);
+  });
+
+  it('simulates the largest amount sent to each contract', async () => {
+    const result = await classifier.classify(rpcUrl, [CONTRACT, ALICE, CONTRACT], true, ['0.5', '9', '1.25']);
+
+    const [transaction, , overrides] = provider.send.mock.calls.find(([method]) => method === 'eth_call')![1];
+    expect(transaction).toMatchObject({ to: CONTRACT, value: realEthers.toQuantity(realEthers.parseEther('1.25')) });
+    expect(overrides[transaction.from]).toEqual({ balance: transaction.value });
+    expect(result.accounts).toEqual([expect.objectContaining({ address: CONTRACT, rejectsNative: false, flagged: false })]);
+  });
+
+  it('simulates one wei when the amount is missing', async () => {
+    await classifier.classify(rpcUrl, [CONTRACT], true);
+
+    expect(provider.send.mock.calls.find(([method]) => method === 'eth_call')![1][0].value).toBe('0x1');
+  });
+
+  it('flags contracts that revert on the simulated transfer', async () => {
+    provider.send.mockRejectedValue(callException('execution reverted'));
+
+    const result = await classifier.classify(rpcUrl, [CONTRACT], true, ['1']);
+
+    expect(result.accounts).toEqual([expect.objectContaining({ address: CONTRACT, rejectsNative: true, flagged: true })]);
+    expect(provider.call).not.toHaveBeenCalledWith(expect.objectContaining({ value: 0n }));
+  });
+
+  it('falls back to a zero value call when the RPC has no state overrides', async () => {
+    provider.send.mockRejectedValue(callException('invalid argument 2: json: cannot unmarshal'));
+
+    const result = await classifier.classify(rpcUrl, [CONTRACT], true, ['1']);
+
+    expect(provider.call).toHaveBeenCalledWith({ to: CONTRACT, value: 0n, data: '0x' });
+    expect(result.accounts[0].rejectsNative).toBe(false);
+  });
+
+  it('simulates again when the amount changes', async () => {
+    await classifier.classify(rpcUrl, [CONTRACT], true, ['1']);
+    await classifier.classify(rpcUrl, [CONTRACT], true, ['1']);
+    await classifier.classify(rpcUrl, [CONTRACT], true, ['2']);
+
+    expect(provider.getCode).toHaveBeenCalledTimes(2);
+  });
+});
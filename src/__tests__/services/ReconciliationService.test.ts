@@ -0,0 +1,253 @@
+import { ethers } from 'ethers';
+import { ReconciliationService } from '../../main/services/ReconciliationService';
+import { createFakeDatabase, QueryHandler } from '../utils/fakeDatabase';
+
+jest.mock('ethers', () => {
+  const actual = jest.requireActual('ethers');
+  return { ...actual, ethers: { ...actual.ethers, JsonRpcProvider: jest.fn() } };
+});
+
+const { ethers: realEthers } = jest.requireActual('ethers') as typeof import('ethers');
+
+const WALLET = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const CONTRACT = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const ALICE = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const BOB = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const CAROL = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+const BATCH_HASH = '0x' + '11'.repeat(32);
+const CANCEL_HASH = '0x' + '22'.repeat(32);
+
+const campaign = {
+  id: 'campaign-1',
+  chain: '1',
+  tokenAddress: TOKEN,
+  tokenStandard: 'ERC20',
+  walletAddress: WALLET,
+  contractAddress: CONTRACT,
+};
+
+const member = (id: number, address: string, amount: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  address,
+  amount,
+  batchNumber: 3,
+  updatedAt: '2026-01-01T00:00:00.000Z',
+  ...extra,
+});
+
+const transferLog = (to: string, amount: bigint, from: string = WALLET, token: string = TOKEN) => ({
+  address: token,
+  topics: [
+    realEthers.id('Transfer(address,address,uint256)'),
+    realEthers.zeroPadValue(from, 32),
+    realEthers.zeroPadValue(to, 32),
+  ],
+  data: realEthers.toBeHex(amount, 32),
+});
+
+const decisionsOf = (outcome: any) =>
+  Object.fromEntries([...outcome.decisions].map(([id, { decision, txHash }]: [number, any]) => [id, txHash ? `${decision}:${txHash}` : decision]));
+
+describe('ReconciliationService', () => {
+  let provider: Record<string, jest.Mock>;
+  let db: ReturnType<typeof createFakeDatabase>;
+  let service: ReconciliationService;
+  let transactions: any[];
+  let signedHashes: string[];
+  let recordedMaxNonce: number | null;
+
+  const handler: QueryHandler = (sql) => {
+    if (sql.includes('SELECT tx_hash, tx_type, nonce FROM transactions')) {
+      return transactions;
+    }
+    if (sql.includes('FROM signing_requests')) {
+      return signedHashes.map(tx_hash => ({ tx_hash }));
+    }
+    if (sql.includes('MAX(nonce) as max_nonce')) {
+      return { max_nonce: recordedMaxNonce };
+    }
+    return undefined;
+  };
+
+  const reconcileEvmBatch = (target: any, members: any[]) =>
+    (service as any).reconcileEvmBatch(target, 'http://localhost:8545', members);
+
+  beforeEach(() => {
+    transactions = [];
+    signedHashes = [];
+    recordedMaxNonce = null;
+    provider = {
+      getTransactionReceipt: jest.fn().mockResolvedValue(null),
+      getTransaction: jest.fn().mockResolvedValue(null),
+      getTransactionCount: jest.fn().mockResolvedValue(0),
+    };
+    (ethers.JsonRpcProvider as unknown as jest.Mock).mockImplementation(() => provider);
+
+    db = createFakeDatabase(handler);
+    service = new ReconciliationService(db.adapter, async () => 'http://localhost:8545');
+    jest.spyOn((service as any).contractService, 'getTokenDecimals').mockResolvedValue(6);
+  });
+
+  describe('matchTransfers', () => {
+    const matchTransfers = (members: any[], transfers: Array<{ to: string; amount: string; txHash: string }>, fallback?: string) =>
+      (service as any).matchTransfers(members, transfers, (m: any) => m.amount, 'reason', BATCH_HASH, fallback);
+
+    it('matches by address case-insensitively and amount', () => {
+      const outcome = matchTransfers(
+        [member(1, ALICE, '100'), member(2, BOB, '200')],
+        [
+          { to: BOB.toLowerCase(), amount: '200', txHash: BATCH_HASH },
+          { to: ALICE, amount: '100', txHash: BATCH_HASH },
+        ]
+      );
+
+      expect(decisionsOf(outcome)).toEqual({ 1: `SENT:${BATCH_HASH}`, 2: `SENT:${BATCH_HASH}` });
+      expect(outcome.txHash).toBe(BATCH_HASH);
+    });
+
+    it('consumes each transfer once for duplicate recipients', () => {
+      const outcome = matchTransfers(
+        [member(1, ALICE, '100'), member(2, ALICE, '100'), member(3, ALICE, '100')],
+        [
+          { to: ALICE, amount: '100', txHash: BATCH_HASH },
+          { to: ALICE, amount: '100', txHash: CANCEL_HASH },
+        ]
+      );
+
+      expect(decisionsOf(outcome)).toEqual({ 1: `SENT:${BATCH_HASH}`, 2: `SENT:${CANCEL_HASH}`, 3: 'REVIEW' });
+    });
+
+    it('uses the fallback for amount mismatches', () => {
+      const outcome = matchTransfers(
+        [member(1, ALICE, '100'), member(2, BOB, '200')],
+        [{ to: ALICE, amount: '99', txHash: BATCH_HASH }, { to: BOB, amount: '200', txHash: BATCH_HASH }],
+        'PENDING'
+      );
+
+      expect(decisionsOf(outcome)).toEqual({ 1: 'PENDING', 2: `SENT:${BATCH_HASH}` });
+    });
+  });
+
+  describe('reconcileEvmBatch', () => {
+    it('confirms recipients from the Transfer events of the mined batch', async () => {
+      transactions = [{ tx_hash: BATCH_HASH, tx_type: 'BATCH_SEND', nonce: 7 }];
+      provider.getTransactionReceipt.mockResolvedValue({
+        status: 1,
+        blockNumber: 100,
+        blockHash: '0x' + 'aa'.repeat(32),
+        logs: [
+          transferLog(ALICE, 1_500_000n),
+          transferLog(BOB, 2_000_000n, CAROL), // 不是发送钱包转出的事件
+          transferLog(CAROL, 3_000_000n, WALLET, CONTRACT), // 其他代币
+        ],
+      });
+
+      const outcome = await reconcileEvmBatch(campaign, [
+        member(1, ALICE, '1.5'),
+        member(2, BOB, '2'),
+        member(3, CAROL, '3'),
+      ]);
+
+      expect(decisionsOf(outcome)).toEqual({ 1: `SENT:${BATCH_HASH}`, 2: 'REVIEW', 3: 'REVIEW' });
+      expect(db.runs("UPDATE transactions SET status = ?")[0].params.slice(0, 2)).toEqual(['CONFIRMED', 100]);
+    });
+
+    it('requeues the batch when the transaction reverted', async () => {
+      transactions = [{ tx_hash: BATCH_HASH, tx_type: 'BATCH_SEND', nonce: 7 }];
+      provider.getTransactionReceipt.mockResolvedValue({ status: 0, blockNumber: 100, blockHash: '0x' + 'aa'.repeat(32), logs: [] });
+
+      const outcome = await reconcileEvmBatch(campaign, [member(1, ALICE, '1'), member(2, BOB, '2')]);
+
+      expect(decisionsOf(outcome)).toEqual({ 1: 'PENDING', 2: 'PENDING' });
+      expect(db.runs("UPDATE transactions SET status = ?")[0].params[0]).toBe('FAILED');
+    });
+
+    it('requeues the batch when its cancel transaction was mined', async () => {
+      transactions = [
+        { tx_hash: CANCEL_HASH, tx_type: 'CANCEL_NONCE', nonce: 7 },
+        { tx_hash: BATCH_HASH, tx_type: 'BATCH_SEND', nonce: 7 },
+      ];
+      provider.getTransactionReceipt.mockImplementation(async (hash: string) =>
+        hash === CANCEL_HASH ? { status: 1, blockNumber: 100, blockHash: '0x' + 'aa'.repeat(32), logs: [] } : null
+      );
+
+      const outcome = await reconcileEvmBatch(campaign, [member(1, ALICE, '1')]);
+
+      expect(decisionsOf(outcome)).toEqual({ 1: 'PENDING' });
+      expect(db.runs("SET status = 'REPLACED'").map(run => run.params[0])).toEqual([BATCH_HASH]);
+    });
+
+    it('marks every leg sent when a multi-token batch was mined', async () => {
+      transactions = [{ tx_hash: BATCH_HASH, tx_type: 'BATCH_SEND', nonce: 7 }];
+      provider.getTransactionReceipt.mockResolvedValue({ status: 1, blockNumber: 100, blockHash: '0x' + 'aa'.repeat(32), logs: [] });
+
+      const outcome = await reconcileEvmBatch(
+        { ...campaign, tokenLegs: [{ tokenAddress: TOKEN }, { tokenAddress: CONTRACT }] },
+        [member(1, ALICE, '1'), member(2, ALICE, '5')]
+      );
+
+      expect(decisionsOf(outcome)).toEqual({ 1: `SENT:${BATCH_HASH}`, 2: `SENT:${BATCH_HASH}` });
+    });
+
+    it('checks transactions broadcast from signing requests', async () => {
+      signedHashes = [BATCH_HASH];
+      provider.getTransactionReceipt.mockResolvedValue({
+        status: 1,
+        blockNumber: 100,
+        blockHash: '0x' + 'aa'.repeat(32),
+        logs: [transferLog(ALICE, 1_000_000n)],
+      });
+
+      const outcome = await reconcileEvmBatch(campaign, [member(1, ALICE, '1')]);
+
+      expect(provider.getTransactionReceipt).toHaveBeenCalledWith(BATCH_HASH);
+      expect(decisionsOf(outcome)).toEqual({ 1: `SENT:${BATCH_HASH}` });
+    });
+
+    it('waits while the batch transaction is still in the mempool', async () => {
+      transactions = [{ tx_hash: BATCH_HASH, tx_type: 'BATCH_SEND', nonce: 7 }];
+      provider.getTransaction.mockResolvedValue({ hash: BATCH_HASH });
+
+      const outcome = await reconcileEvmBatch(campaign, [member(1, ALICE, '1')]);
+
+      expect(decisionsOf(outcome)).toEqual({ 1: 'IN_FLIGHT' });
+    });
+
+    it('requeues the batch when its nonce was used by another transaction', async () => {
+      transactions = [{ tx_hash: BATCH_HASH, tx_type: 'BATCH_SEND', nonce: 7 }];
+      provider.getTransactionCount.mockResolvedValue(8);
+
+      const outcome = await reconcileEvmBatch(campaign, [member(1, ALICE, '1')]);
+
+      expect(decisionsOf(outcome)).toEqual({ 1: 'PENDING' });
+      expect(db.runs("SET status = 'REPLACED'").map(run => run.params[0])).toEqual([BATCH_HASH]);
+    });
+
+    it('waits while the wallet has unmined transactions', async () => {
+      provider.getTransactionCount.mockImplementation(async (_address: string, tag: string) => (tag === 'pending' ? 6 : 5));
+
+      const outcome = await reconcileEvmBatch(campaign, [member(1, ALICE, '1')]);
+
+      expect(decisionsOf(outcome)).toEqual({ 1: 'IN_FLIGHT' });
+    });
+
+    it('requeues the batch when every used nonce is accounted for', async () => {
+      recordedMaxNonce = 4;
+      provider.getTransactionCount.mockResolvedValue(5);
+
+      const outcome = await reconcileEvmBatch(campaign, [member(1, ALICE, '1')]);
+
+      expect(decisionsOf(outcome)).toEqual({ 1: 'PENDING' });
+    });
+
+    it('asks for review when a multi-token batch has no evidence either way', async () => {
+      recordedMaxNonce = 2;
+      provider.getTransactionCount.mockResolvedValue(5);
+
+      const outcome = await reconcileEvmBatch({ ...campaign, tokenLegs: [{ tokenAddress: TOKEN }] }, [member(1, ALICE, '1')]);
+
+      expect(decisionsOf(outcome)).toEqual({ 1: 'REVIEW' });
+    });
+  });
+});
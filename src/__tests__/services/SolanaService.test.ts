@@ -0,0 +1,57 @@
+import { Connection } from '@solana/web3.js';
+import { SolanaService, SIGNATURE_STATUS_UNKNOWN_MESSAGE } from '../../main/services/SolanaService';
+
+const SIGNATURE = '5'.repeat(88);
+const LAST_VALID_BLOCK_HEIGHT = 1000;
+
+describe('SolanaService.broadcastUntilExpired', () => {
+  let connection: Record<string, jest.Mock>;
+  const service = new SolanaService();
+
+  const broadcast = () =>
+    service.broadcastUntilExpired(connection as unknown as Connection, new Uint8Array([1]), SIGNATURE, LAST_VALID_BLOCK_HEIGHT);
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    connection = {
+      sendRawTransaction: jest.fn().mockResolvedValue(SIGNATURE),
+      getBlockHeight: jest.fn().mockResolvedValue(990),
+      getSignatureStatuses: jest.fn().mockResolvedValue({ value: [null] }),
+    };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('returns true once the signature is confirmed', async () => {
+    connection.getSignatureStatuses.mockResolvedValue({ value: [{ confirmationStatus: 'confirmed', err: null }] });
+
+    const result = broadcast();
+    await jest.advanceTimersByTimeAsync(2000);
+
+    await expect(result).resolves.toBe(true);
+  });
+
+  it('returns false when the blockhash expired and the signature is not on chain', async () => {
+    connection.getBlockHeight.mockResolvedValueOnce(990).mockResolvedValue(1001);
+
+    const result = broadcast();
+    await jest.advanceTimersByTimeAsync(2000);
+
+    await expect(result).resolves.toBe(false);
+    expect(connection.getSignatureStatuses).toHaveBeenCalledWith([SIGNATURE], { searchTransactionHistory: true });
+  });
+
+  it('gives up with an unknown status when the status checks keep failing', async () => {
+    connection.getBlockHeight.mockRejectedValue(new Error('fetch failed'));
+
+    const result = broadcast();
+    const assertion = expect(result).rejects.toThrow(SIGNATURE_STATUS_UNKNOWN_MESSAGE);
+    // 查不到区块高度时按完整有效期 150 个区块估算，另加 60 秒余量
+    await jest.advanceTimersByTimeAsync(150 * 400 + 60000 + 2000);
+
+    await assertion;
+    expect(connection.sendRawTransaction.mock.calls.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,53 @@
+import { WalletService } from '../../main/services/WalletService';
+import { KeyUtils } from '../../main/utils/keyUtils';
+
+const ABANDON_MNEMONIC = 'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+const HARDHAT_MNEMONIC = 'test test test test test test test test test test test junk';
+
+describe('WalletService HD derivation', () => {
+  const walletService = new WalletService();
+
+  it.each([
+    [ABANDON_MNEMONIC, 0, '0x9858EfFD232B4033E47d90003D41EC34EcaEda94'],
+    [HARDHAT_MNEMONIC, 0, '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266'],
+    [HARDHAT_MNEMONIC, 1, '0x70997970C51812dc3A010C7d01b50e0d17dc79C8'],
+    [HARDHAT_MNEMONIC, 2, '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC'],
+  ])('derives the BIP-44 EVM address (%#)', (mnemonic, index, address) => {
+    expect(walletService.deriveEVMWallet(mnemonic, index).address).toBe(address);
+  });
+
+  it('encodes the derived EVM private key', () => {
+    const wallet = walletService.deriveEVMWallet(HARDHAT_MNEMONIC, 0);
+    expect(wallet.type).toBe('evm');
+    expect(wallet.privateKeyBase64).toBe(
+      KeyUtils.encodeEVMPrivateKey('0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80')
+    );
+  });
+
+  it('derives the Phantom / Solflare Solana address', () => {
+    const wallet = walletService.deriveSolanaWallet(ABANDON_MNEMONIC, 0);
+    expect(wallet.type).toBe('solana');
+    expect(wallet.address).toBe('HAgk14JpMQLgt6rVgv7cBQFJWFto5Dqxi472uT3DKpqk');
+    expect(walletService.deriveSolanaWallet(ABANDON_MNEMONIC, 1).address).not.toBe(wallet.address);
+  });
+
+  it('uses per-account hardened Solana paths', () => {
+    expect(walletService.getEVMDerivationPath(3)).toBe("m/44'/60'/0'/0/3");
+    expect(walletService.getSolanaDerivationPath(3)).toBe("m/44'/501'/3'/0'");
+  });
+
+  // SLIP-0010 ed25519 test vector 1
+  it.each([
+    ['m', '2b4be7f19ee27bbf30c667b642d5f4aa69fd169872f8fc3059c08ebae2eb19e7'],
+    ["m/0'", '68e0fe46dfb67e368c75379acec591dad19df3cde26e63b93a8e704f1dade7a3'],
+    ["m/0'/1'/2'/2'/1000000000'", '8f94d394a8e8fd6b1bc2f3f49f5c47e385281d5c17e65324b0f62483e37e8793'],
+  ])('matches the SLIP-0010 vector for %s', (path, privateKey) => {
+    const seed = Buffer.from('000102030405060708090a0b0c0d0e0f', 'hex');
+    expect((walletService as any).deriveEd25519Key(seed, path).toString('hex')).toBe(privateKey);
+  });
+
+  it('rejects non-hardened ed25519 segments', () => {
+    const seed = Buffer.alloc(16);
+    expect(() => (walletService as any).deriveEd25519Key(seed, "m/44'/501'/0")).toThrow('only supports hardened segments');
+  });
+});
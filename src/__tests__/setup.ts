@@ -0,0 +1,11 @@
+// 日志模块在导入时即创建写文件的单例，测试中替换为静默实现
+jest.mock('../main/utils/logger', () => {
+  const noop = () => undefined;
+  const child = { debug: noop, info: noop, warn: noop, error: noop, fatal: noop };
+  const logger = { ...child, child: () => child };
+  return {
+    LogLevel: { DEBUG: 0, INFO: 1, WARN: 2, ERROR: 3, FATAL: 4 },
+    Logger: { getInstance: () => logger },
+    logger,
+  };
+});
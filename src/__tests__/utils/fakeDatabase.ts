@@ -0,0 +1,54 @@
+import type { DatabaseAdapter } from '../../main/database/db-adapter';
+import type { DatabaseManager } from '../../main/database/sqlite-schema';
+
+export type StatementMethod = 'all' | 'get' | 'run';
+
+export interface ExecutedStatement {
+  method: StatementMethod;
+  sql: string;
+  params: any[];
+}
+
+/**
+ * 按 SQL 片段应答的内存数据库，返回 undefined 时 all 为空数组、run 影响 1 行
+ */
+export type QueryHandler = (sql: string, params: any[], method: StatementMethod) => any;
+
+export interface FakeDatabase {
+  adapter: DatabaseAdapter;
+  manager: DatabaseManager;
+  executed: ExecutedStatement[];
+  runs: (fragment: string) => ExecutedStatement[];
+}
+
+export function createFakeDatabase(handler: QueryHandler = () => undefined): FakeDatabase {
+  const executed: ExecutedStatement[] = [];
+
+  const execute = async (method: StatementMethod, sql: string, params: any[]) => {
+    executed.push({ method, sql, params });
+    const result = handler(sql, params, method);
+    if (method === 'all') {
+      return result ?? [];
+    }
+    if (method === 'run') {
+      return result ?? { lastInsertRowid: 0, changes: 1 };
+    }
+    return result;
+  };
+
+  const adapter: any = {
+    prepare: (sql: string) => ({
+      all: (...params: any[]) => execute('all', sql, params),
+      get: (...params: any[]) => execute('get', sql, params),
+      run: (...params: any[]) => execute('run', sql, params),
+    }),
+    transaction: async <T>(fn: (tx: DatabaseAdapter) => Promise<T>) => fn(adapter),
+  };
+
+  return {
+    adapter: adapter as DatabaseAdapter,
+    manager: { getDatabase: () => adapter } as unknown as DatabaseManager,
+    executed,
+    runs: (fragment: string) => executed.filter(statement => statement.method === 'run' && statement.sql.includes(fragment)),
+  };
+}
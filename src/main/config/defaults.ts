@@ -12,7 +12,7 @@ export const DEFAULTS = {
 
   BATCH_SIZES: {
     evm: 100,       // EVM 默认 100 笔/批
-    solana: 10,     // Solana 默认 10 笔/批 (简化的保守值)
+    solana: 20,     // Solana 默认 20 笔/批 (v0 交易按大小打包，一批可能拆成多笔交易)
   },
 
   GAS_LIMITS: {
@@ -21,7 +21,8 @@ export const DEFAULTS = {
     token: 50000,          // ERC20转账
     deploy: 500000,        // 合约部署
     campaign: 200000,      // 活动合约调用
-    campaign_deploy: 600000, // 活动合约部署（新增原生代币支持后需要更多 gas）
+    campaign_deploy: 1900000, // 活动合约部署（含原生代币、尽力模式、NFT、permit 与多代币函数，运行时代码约 7.0KB）
+    merkle_distributor_deploy: 800000, // 领取式空投分发合约部署
 
     // Solana
     solana_base: 5000,     // Solana基础交易费用
@@ -73,5 +74,23 @@ export const DEFAULTS = {
     pagination_limit: 10,    // 分页大小
     refresh_interval: 30000, // 自动刷新间隔
     min_window_width: 1000,  // 最小窗口宽度
+  },
+
+  KEY_VAULT: {
+    // 密钥保险库配置
+    scrypt_n: 65536,             // scrypt CPU/内存成本 (2^16，约 64MB)
+    scrypt_r: 8,                 // scrypt 块大小
+    scrypt_p: 1,                 // scrypt 并行度
+    scrypt_maxmem: 134217728,    // scrypt 最大内存 128MB
+    min_passphrase_length: 8,    // 主密码最小长度
+    auto_lock_minutes: 15,       // 默认自动锁定时间（分钟）
+    max_auto_lock_minutes: 1440, // 自动锁定时间上限（24小时）
+  },
+
+  HD_WALLET: {
+    // HD 派生钱包配置
+    mnemonic_entropy_bytes: 32,  // 助记词熵长度（32 字节 = 24 个单词）
+    discovery_gap_limit: 20,     // 恢复时连续未使用地址数达到该值即停止扫描 (BIP-44 gap limit)
+    max_discovery_index: 1000,   // 恢复扫描的索引上限
   }
 } as const;
\ No newline at end of file
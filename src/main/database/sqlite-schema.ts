@@ -15,15 +15,42 @@ export interface Campaign {
   chain_type: 'evm' | 'solana';
   token_address: string;
   token_symbol?: string;
+  token_standard?: 'ERC20' | 'ERC721' | 'ERC1155';
+  net_delivery?: number;
+  token_warnings?: string; // JSON 数组
+  token_legs?: string; // 多代币活动的代币列表（JSON 数组），第 0 个与 token_address 相同
+  lookup_table_address?: string;
+  priority_fee_level?: 'economy' | 'normal' | 'urgent';
+  max_priority_fee_lamports?: number;
   status: 'CREATED' | 'FUNDED' | 'READY' | 'SENDING' | 'PAUSED' | 'COMPLETED' | 'FAILED';
   total_recipients: number;
   completed_recipients: number;
   failed_recipients: number;
   wallet_address?: string;
   wallet_private_key_base64?: string;
+  wallet_private_key_encrypted?: string;
+  derivation_index?: number;
+  wallet_imported?: number;
+  signing_mode?: 'LOCAL' | 'EXTERNAL';
   contract_address?: string;
   contract_deployed_at?: string;
   batch_size: number;
+  pipeline_depth?: number;
+  batch_mode?: 'ATOMIC' | 'BEST_EFFORT';
+  isolate_failures?: number;
+  distribution_mode?: 'PUSH' | 'MERKLE_CLAIM';
+  claim_expires_at?: string;
+  merkle_root?: string;
+  distributor_address?: string;
+  distributor_deploy_block?: number;
+  claims_synced_block?: number;
+  vesting_start_at?: string;
+  vesting_cliff_seconds?: number;
+  vesting_duration_seconds?: number;
+  vesting_interval_seconds?: number;
+  vesting_activated_at?: string;
+  stuck_timeout_seconds?: number;
+  max_fee_per_gas_gwei?: string;
   send_interval: number;
   gas_used: number;
   gas_cost_usd: number;
@@ -48,6 +75,9 @@ export interface ChainInfo {
   color: string;
   badge_color: string;
   is_custom: boolean;
+  batch_contract_address?: string;
+  batch_contract_code_hash?: string;
+  batch_contract_verified_at?: string;
   created_at: string;
 }
 
@@ -129,6 +159,91 @@ export class DatabaseManager {
     }
   }
 
+  /**
+   * Recipients table definition (shared with the rebuild migration)
+   * Vesting campaigns store one row per unlock tranche: tranche_index 0 is the only row of a regular campaign
+   * NFT campaigns use tranche_index to number several token IDs sent to the same address
+   * Multi-token campaigns store one row per token leg: leg_index points into campaigns.token_legs and doubles as tranche_index
+   */
+  private getRecipientsTableSql(tableName: string): string {
+    return `
+      CREATE TABLE IF NOT EXISTS ${tableName} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        campaign_id TEXT NOT NULL,
+        address TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('PENDING', 'PROCESSING', 'SENT', 'FAILED')),
+        tx_hash TEXT,
+        gas_used REAL DEFAULT 0,
+        error_message TEXT,
+        batch_number INTEGER,
+        claim_index INTEGER,
+        tranche_index INTEGER NOT NULL DEFAULT 0,
+        unlock_at TEXT,
+        token_id TEXT,
+        leg_index INTEGER,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (campaign_id) REFERENCES campaigns (id) ON DELETE CASCADE,
+        UNIQUE(campaign_id, address, tranche_index)
+      )
+    `;
+  }
+
+  /**
+   * Transactions table definition (shared with the rebuild migration)
+   * nonce / batch_number / fee columns track in-flight EVM transactions for the nonce manager
+   */
+  private getTransactionsTableSql(tableName: string): string {
+    return `
+      CREATE TABLE IF NOT EXISTS ${tableName} (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        campaign_id TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        tx_type TEXT NOT NULL CHECK (tx_type IN ('DEPLOY_CONTRACT', 'TRANSFER_TO_CONTRACT', 'APPROVE_TOKENS', 'BATCH_SEND', 'WITHDRAW_REMAINING', 'CANCEL_NONCE')),
+        from_address TEXT NOT NULL,
+        to_address TEXT,
+        amount TEXT,
+        gas_used REAL DEFAULT 0,
+        gas_price TEXT,
+        gas_cost REAL DEFAULT 0,
+        status TEXT NOT NULL CHECK (status IN ('PENDING', 'CONFIRMED', 'FAILED', 'REPLACED')),
+        block_number INTEGER,
+        block_hash TEXT,
+        nonce INTEGER,
+        batch_number INTEGER,
+        max_fee_per_gas TEXT,
+        max_priority_fee_per_gas TEXT,
+        replaces_tx_hash TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        confirmed_at TEXT,
+        FOREIGN KEY (campaign_id) REFERENCES campaigns (id) ON DELETE CASCADE,
+        UNIQUE(tx_hash)
+      )
+    `;
+  }
+
+  /**
+   * Reconciliation reports table definition (shared with the rebuild migration)
+   * NONCE_CONSUMED reports come from the pipeline when a batch nonce was used without a receipt for any attempt
+   */
+  private getReconciliationReportsTableSql(tableName: string): string {
+    return `
+      CREATE TABLE IF NOT EXISTS ${tableName} (
+        id TEXT PRIMARY KEY,
+        campaign_id TEXT NOT NULL,
+        trigger TEXT NOT NULL CHECK (trigger IN ('STARTUP', 'RESUME', 'NONCE_CONSUMED')),
+        sent_count INTEGER NOT NULL DEFAULT 0,
+        requeued_count INTEGER NOT NULL DEFAULT 0,
+        review_count INTEGER NOT NULL DEFAULT 0,
+        in_flight_count INTEGER NOT NULL DEFAULT 0,
+        details TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (campaign_id) REFERENCES campaigns (id) ON DELETE CASCADE
+      )
+    `;
+  }
+
   /**
    * Create all database tables
    */
@@ -149,15 +264,42 @@ export class DatabaseManager {
         token_symbol TEXT,
         token_name TEXT,
         token_decimals INTEGER,
+        token_standard TEXT NOT NULL DEFAULT 'ERC20',
+        net_delivery INTEGER NOT NULL DEFAULT 0,
+        token_warnings TEXT,
+        token_legs TEXT,
+        lookup_table_address TEXT,
+        priority_fee_level TEXT NOT NULL DEFAULT 'normal',
+        max_priority_fee_lamports INTEGER,
         status TEXT NOT NULL CHECK (status IN ('CREATED', 'FUNDED', 'READY', 'SENDING', 'PAUSED', 'COMPLETED', 'FAILED')),
         total_recipients INTEGER NOT NULL,
         completed_recipients INTEGER DEFAULT 0,
         failed_recipients INTEGER DEFAULT 0,
         wallet_address TEXT,
         wallet_private_key_base64 TEXT,
+        wallet_private_key_encrypted TEXT,
+        derivation_index INTEGER,
+        wallet_imported INTEGER NOT NULL DEFAULT 0,
+        signing_mode TEXT NOT NULL DEFAULT 'LOCAL' CHECK (signing_mode IN ('LOCAL', 'EXTERNAL')),
         contract_address TEXT,
         contract_deployed_at TEXT,
         batch_size INTEGER DEFAULT 100,
+        pipeline_depth INTEGER NOT NULL DEFAULT 1,
+        batch_mode TEXT NOT NULL DEFAULT 'ATOMIC' CHECK (batch_mode IN ('ATOMIC', 'BEST_EFFORT')),
+        isolate_failures INTEGER NOT NULL DEFAULT 1,
+        distribution_mode TEXT NOT NULL DEFAULT 'PUSH' CHECK (distribution_mode IN ('PUSH', 'MERKLE_CLAIM')),
+        claim_expires_at TEXT,
+        merkle_root TEXT,
+        distributor_address TEXT,
+        distributor_deploy_block INTEGER,
+        claims_synced_block INTEGER,
+        vesting_start_at TEXT,
+        vesting_cliff_seconds INTEGER,
+        vesting_duration_seconds INTEGER,
+        vesting_interval_seconds INTEGER,
+        vesting_activated_at TEXT,
+        stuck_timeout_seconds INTEGER NOT NULL DEFAULT 180,
+        max_fee_per_gas_gwei TEXT,
         send_interval INTEGER DEFAULT 2000,
         total_gas_used REAL DEFAULT 0,
         total_cost_usd REAL DEFAULT 0,
@@ -168,47 +310,11 @@ export class DatabaseManager {
     `);
 
     // Recipients table
-    await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS recipients (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        campaign_id TEXT NOT NULL,
-        address TEXT NOT NULL,
-        amount TEXT NOT NULL,
-        status TEXT NOT NULL CHECK (status IN ('PENDING', 'PROCESSING', 'SENT', 'FAILED')),
-        tx_hash TEXT,
-        gas_used REAL DEFAULT 0,
-        error_message TEXT,
-        batch_number INTEGER,
-        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (campaign_id) REFERENCES campaigns (id) ON DELETE CASCADE,
-        UNIQUE(campaign_id, address)
-      )
-    `);
+    await this.db.exec(this.getRecipientsTableSql('recipients'));
 
     
     // Transactions table
-    await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS transactions (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        campaign_id TEXT NOT NULL,
-        tx_hash TEXT NOT NULL,
-        tx_type TEXT NOT NULL CHECK (tx_type IN ('DEPLOY_CONTRACT', 'TRANSFER_TO_CONTRACT', 'APPROVE_TOKENS', 'BATCH_SEND', 'WITHDRAW_REMAINING')),
-        from_address TEXT NOT NULL,
-        to_address TEXT,
-        amount TEXT,
-        gas_used REAL DEFAULT 0,
-        gas_price TEXT,
-        gas_cost REAL DEFAULT 0,
-        status TEXT NOT NULL CHECK (status IN ('PENDING', 'CONFIRMED', 'FAILED')),
-        block_number INTEGER,
-        block_hash TEXT,
-        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
-        confirmed_at TEXT,
-        FOREIGN KEY (campaign_id) REFERENCES campaigns (id) ON DELETE CASCADE,
-        UNIQUE(tx_hash)
-      )
-    `);
+    await this.db.exec(this.getTransactionsTableSql('transactions'));
 
     // Chains table (unified for both EVM and Solana)
     await this.db.exec(`
@@ -229,6 +335,97 @@ export class DatabaseManager {
       )
     `);
 
+    // Key vault table (single row: wrapped data key + KDF parameters)
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS key_vault (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        kdf TEXT NOT NULL DEFAULT 'scrypt',
+        kdf_salt TEXT NOT NULL,
+        kdf_params TEXT NOT NULL,
+        wrapped_data_key TEXT NOT NULL,
+        auto_lock_minutes INTEGER NOT NULL DEFAULT 15,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // HD treasury seed (single row: encrypted BIP-39 mnemonic + next derivation index per chain type)
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS hd_seed (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        mnemonic_encrypted TEXT NOT NULL,
+        fingerprint TEXT NOT NULL,
+        next_evm_index INTEGER NOT NULL DEFAULT 0,
+        next_solana_index INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Key usage audit log (exports and other key-material operations)
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS key_audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        campaign_id TEXT,
+        wallet_address TEXT,
+        action TEXT NOT NULL,
+        detail TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // External signing requests (unsigned transactions handed to an offline signer)
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS signing_requests (
+        id TEXT PRIMARY KEY,
+        campaign_id TEXT NOT NULL,
+        chain_type TEXT NOT NULL CHECK (chain_type IN ('evm', 'solana')),
+        purpose TEXT NOT NULL CHECK (purpose IN ('DEPLOY_CONTRACT', 'APPROVE_TOKENS', 'CREATE_TOKEN_ACCOUNTS', 'BATCH_SEND')),
+        batch_number INTEGER,
+        from_address TEXT NOT NULL,
+        summary TEXT,
+        file_path TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('PENDING', 'SIGNED', 'BROADCAST', 'EXPIRED', 'CANCELLED', 'FAILED')),
+        tx_hash TEXT,
+        error_message TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (campaign_id) REFERENCES campaigns (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Safe multisig batches exported as Transaction Builder files
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS safe_batches (
+        id TEXT PRIMARY KEY,
+        campaign_id TEXT NOT NULL,
+        safe_address TEXT NOT NULL,
+        batch_number INTEGER NOT NULL,
+        recipient_count INTEGER NOT NULL,
+        total_amount TEXT NOT NULL,
+        file_path TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('EXPORTED', 'EXECUTED', 'DISCARDED')),
+        tx_hash TEXT,
+        created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (campaign_id) REFERENCES campaigns (id) ON DELETE CASCADE
+      )
+    `);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS safe_batch_recipients (
+        safe_batch_id TEXT NOT NULL,
+        recipient_id INTEGER NOT NULL,
+        amount_raw TEXT NOT NULL,
+        PRIMARY KEY (safe_batch_id, recipient_id),
+        FOREIGN KEY (safe_batch_id) REFERENCES safe_batches (id) ON DELETE CASCADE,
+        FOREIGN KEY (recipient_id) REFERENCES recipients (id) ON DELETE CASCADE
+      )
+    `);
+
+    // Reconciliation of in-doubt PROCESSING recipients after an interrupted run
+    await this.db.exec(this.getReconciliationReportsTableSql('reconciliation_reports'));
+
     // Price history table
     await this.db.exec(`
       CREATE TABLE IF NOT EXISTS price_history (
@@ -266,8 +463,170 @@ export class DatabaseManager {
    * Migrate existing database to handle schema changes
    */
   private async migrateDatabase(): Promise<void> {
-    // No migrations needed for fresh installations
-    console.log('[Database] Database migrations skipped (using final schema)');
+    if (!this.db) throw new Error('Database not initialized');
+
+    console.log('[Database] Running schema migrations...');
+
+    // 加密后的活动钱包私钥（明文列仅保留给待迁移的旧数据）
+    await this.addColumnIfMissing('campaigns', 'wallet_private_key_encrypted', 'TEXT');
+    // HD 派生钱包只保存派生索引，私钥由助记词按需派生
+    await this.addColumnIfMissing('campaigns', 'derivation_index', 'INTEGER');
+    // 用户导入的自有钱包：回收资金前必须明确确认
+    await this.addColumnIfMissing('campaigns', 'wallet_imported', 'INTEGER NOT NULL DEFAULT 0');
+    // 外部签名模式：本机不保存私钥，交易由离线签名者签名后导入
+    await this.addColumnIfMissing('campaigns', 'signing_mode', "TEXT NOT NULL DEFAULT 'LOCAL'");
+    // EVM 批次流水线深度（同时在途的批次数，1 为逐批串行）
+    await this.addColumnIfMissing('campaigns', 'pipeline_depth', 'INTEGER NOT NULL DEFAULT 1');
+    // 交易表新增 nonce 跟踪列及 CANCEL_NONCE / REPLACED 取值，CHECK 约束只能重建表
+    await this.rebuildTransactionsTableIfOutdated();
+    // 加速/取消：卡住判定时间与费用上限，替换交易记录被替换的原交易
+    await this.addColumnIfMissing('campaigns', 'stuck_timeout_seconds', 'INTEGER NOT NULL DEFAULT 180');
+    await this.addColumnIfMissing('campaigns', 'max_fee_per_gas_gwei', 'TEXT');
+    await this.addColumnIfMissing('transactions', 'replaces_tx_hash', 'TEXT');
+    // 失败隔离：原子批次回滚时二分定位失败的接收者（默认开启）
+    await this.addColumnIfMissing('campaigns', 'isolate_failures', 'INTEGER NOT NULL DEFAULT 1');
+    // EVM 批次模式：ATOMIC 整批回滚，BEST_EFFORT 跳过失败的转账并按事件记录结果
+    await this.addColumnIfMissing('campaigns', 'batch_mode', "TEXT NOT NULL DEFAULT 'ATOMIC'");
+    // 领取式空投：Merkle 根、分发合约与已同步的领取事件区块
+    await this.addColumnIfMissing('campaigns', 'distribution_mode', "TEXT NOT NULL DEFAULT 'PUSH'");
+    await this.addColumnIfMissing('campaigns', 'claim_expires_at', 'TEXT');
+    await this.addColumnIfMissing('campaigns', 'merkle_root', 'TEXT');
+    await this.addColumnIfMissing('campaigns', 'distributor_address', 'TEXT');
+    await this.addColumnIfMissing('campaigns', 'distributor_deploy_block', 'INTEGER');
+    await this.addColumnIfMissing('campaigns', 'claims_synced_block', 'INTEGER');
+    await this.addColumnIfMissing('recipients', 'claim_index', 'INTEGER');
+    // 锁仓释放：活动的默认释放计划，每个解锁批次是一行接收者记录（唯一约束包含 tranche_index，只能重建表）
+    await this.addColumnIfMissing('campaigns', 'vesting_start_at', 'TEXT');
+    await this.addColumnIfMissing('campaigns', 'vesting_cliff_seconds', 'INTEGER');
+    await this.addColumnIfMissing('campaigns', 'vesting_duration_seconds', 'INTEGER');
+    await this.addColumnIfMissing('campaigns', 'vesting_interval_seconds', 'INTEGER');
+    await this.addColumnIfMissing('campaigns', 'vesting_activated_at', 'TEXT');
+    await this.rebuildRecipientsTableIfOutdated();
+    // NFT 空投：活动的代币标准与每个接收者的 tokenId
+    await this.addColumnIfMissing('campaigns', 'token_standard', "TEXT NOT NULL DEFAULT 'ERC20'");
+    await this.addColumnIfMissing('recipients', 'token_id', 'TEXT');
+    // Solana 转账手续费代币：按到账金额反推发送金额
+    await this.addColumnIfMissing('campaigns', 'net_delivery', 'INTEGER NOT NULL DEFAULT 0');
+    // Solana v0 交易：活动的地址查找表，发送完毕后停用并关闭
+    await this.addColumnIfMissing('campaigns', 'lookup_table_address', 'TEXT');
+    // Solana 优先费策略：费率档位与每笔交易的优先费上限 (lamports)
+    await this.addColumnIfMissing('campaigns', 'priority_fee_level', "TEXT NOT NULL DEFAULT 'normal'");
+    await this.addColumnIfMissing('campaigns', 'max_priority_fee_lamports', 'INTEGER');
+    // 每条链复用一个批量转账合约：登记已验证的部署地址与运行时代码哈希
+    await this.addColumnIfMissing('chains', 'batch_contract_address', 'TEXT');
+    await this.addColumnIfMissing('chains', 'batch_contract_code_hash', 'TEXT');
+    await this.addColumnIfMissing('chains', 'batch_contract_verified_at', 'TEXT');
+    // 创建活动时代币行为探测（手续费、rebase、黑名单）发现的问题
+    await this.addColumnIfMissing('campaigns', 'token_warnings', 'TEXT');
+    // 多代币活动：活动的代币列表，每个接收者按代币拆成多条记录
+    await this.addColumnIfMissing('campaigns', 'token_legs', 'TEXT');
+    await this.addColumnIfMissing('recipients', 'leg_index', 'INTEGER');
+    // 流水线中 nonce 被使用但找不到回执的批次立即对账，对账记录新增 NONCE_CONSUMED 触发方式（CHECK 约束只能重建表）
+    await this.rebuildReconciliationReportsTableIfOutdated();
+
+    console.log('[Database] Schema migrations completed');
+  }
+
+  /**
+   * Add a column to an existing table when it is not present yet
+   */
+  private async addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const columns = await this.db.all(`PRAGMA table_info(${table})`);
+    if (columns.some((c: any) => c.name === column)) {
+      return;
+    }
+
+    console.log(`[Database] Adding column ${table}.${column}`);
+    await this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+
+  /**
+   * Rebuild the transactions table when it predates the nonce tracking columns
+   */
+  private async rebuildTransactionsTableIfOutdated(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const table = await this.db.get(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'transactions'"
+    ) as { sql: string } | undefined;
+    if (!table || table.sql.includes('CANCEL_NONCE')) {
+      return;
+    }
+
+    console.log('[Database] Rebuilding transactions table for nonce tracking');
+    const columns = (await this.db.all('PRAGMA table_info(transactions)')).map((c: any) => c.name).join(', ');
+
+    await this.db.exec('BEGIN');
+    try {
+      await this.db.exec(this.getTransactionsTableSql('transactions_new'));
+      await this.db.exec(`INSERT INTO transactions_new (${columns}) SELECT ${columns} FROM transactions`);
+      await this.db.exec('DROP TABLE transactions');
+      await this.db.exec('ALTER TABLE transactions_new RENAME TO transactions');
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild the recipients table when it predates vesting tranches
+   */
+  private async rebuildRecipientsTableIfOutdated(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const table = await this.db.get(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'recipients'"
+    ) as { sql: string } | undefined;
+    if (!table || table.sql.includes('tranche_index')) {
+      return;
+    }
+
+    console.log('[Database] Rebuilding recipients table for vesting tranches');
+    const columns = (await this.db.all('PRAGMA table_info(recipients)')).map((c: any) => c.name).join(', ');
+
+    await this.db.exec('BEGIN');
+    try {
+      await this.db.exec(this.getRecipientsTableSql('recipients_new'));
+      await this.db.exec(`INSERT INTO recipients_new (${columns}) SELECT ${columns} FROM recipients`);
+      await this.db.exec('DROP TABLE recipients');
+      await this.db.exec('ALTER TABLE recipients_new RENAME TO recipients');
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Rebuild the reconciliation reports table when it predates the NONCE_CONSUMED trigger
+   */
+  private async rebuildReconciliationReportsTableIfOutdated(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const table = await this.db.get(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'reconciliation_reports'"
+    ) as { sql: string } | undefined;
+    if (!table || table.sql.includes('NONCE_CONSUMED')) {
+      return;
+    }
+
+    console.log('[Database] Rebuilding reconciliation_reports table for pipeline reconciliation');
+    const columns = (await this.db.all('PRAGMA table_info(reconciliation_reports)')).map((c: any) => c.name).join(', ');
+
+    await this.db.exec('BEGIN');
+    try {
+      await this.db.exec(this.getReconciliationReportsTableSql('reconciliation_reports_new'));
+      await this.db.exec(`INSERT INTO reconciliation_reports_new (${columns}) SELECT ${columns} FROM reconciliation_reports`);
+      await this.db.exec('DROP TABLE reconciliation_reports');
+      await this.db.exec('ALTER TABLE reconciliation_reports_new RENAME TO reconciliation_reports');
+      await this.db.exec('COMMIT');
+    } catch (error) {
+      await this.db.exec('ROLLBACK');
+      throw error;
+    }
   }
 
   /**
@@ -285,6 +644,7 @@ export class DatabaseManager {
       CREATE INDEX IF NOT EXISTS idx_campaigns_created_at ON campaigns(created_at DESC);
       CREATE INDEX IF NOT EXISTS idx_campaigns_status_updated ON campaigns(status, updated_at DESC);
       CREATE INDEX IF NOT EXISTS idx_campaigns_chain_status ON campaigns(chain_id, status);
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_campaigns_derivation ON campaigns(chain_type, derivation_index) WHERE derivation_index IS NOT NULL;
 
       -- Recipient indexes for batch processing and status tracking
       CREATE INDEX IF NOT EXISTS idx_recipients_campaign_id ON recipients(campaign_id);
@@ -293,6 +653,8 @@ export class DatabaseManager {
       CREATE INDEX IF NOT EXISTS idx_recipients_campaign_status_created ON recipients(campaign_id, status, created_at);
       CREATE INDEX IF NOT EXISTS idx_recipients_campaign_status_id ON recipients(campaign_id, status, id);
       CREATE INDEX IF NOT EXISTS idx_recipients_batch_number ON recipients(campaign_id, batch_number);
+      CREATE INDEX IF NOT EXISTS idx_recipients_campaign_unlock ON recipients(campaign_id, status, unlock_at) WHERE unlock_at IS NOT NULL;
+      CREATE INDEX IF NOT EXISTS idx_recipients_claim_index ON recipients(campaign_id, claim_index) WHERE claim_index IS NOT NULL;
       CREATE INDEX IF NOT EXISTS idx_recipients_tx_hash ON recipients(tx_hash) WHERE tx_hash IS NOT NULL;
 
       -- Transaction indexes for lookups and filtering
@@ -302,12 +664,23 @@ export class DatabaseManager {
       CREATE INDEX IF NOT EXISTS idx_transactions_type ON transactions(tx_type);
       CREATE INDEX IF NOT EXISTS idx_transactions_campaign_created ON transactions(campaign_id, created_at DESC);
       CREATE INDEX IF NOT EXISTS idx_transactions_status_created ON transactions(status, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_transactions_nonce ON transactions(from_address, nonce) WHERE nonce IS NOT NULL;
 
       -- Chain indexes
       CREATE INDEX IF NOT EXISTS idx_chains_type ON chains(type);
       CREATE INDEX IF NOT EXISTS idx_chains_chain_id ON chains(chain_id);
       CREATE UNIQUE INDEX IF NOT EXISTS idx_chains_name_unique ON chains(name);
 
+      -- Key audit log indexes
+      CREATE INDEX IF NOT EXISTS idx_key_audit_log_campaign ON key_audit_log(campaign_id, created_at DESC);
+
+      -- Signing request indexes
+      CREATE INDEX IF NOT EXISTS idx_signing_requests_campaign ON signing_requests(campaign_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_signing_requests_status ON signing_requests(status);
+      CREATE INDEX IF NOT EXISTS idx_safe_batches_campaign ON safe_batches(campaign_id, status);
+      CREATE INDEX IF NOT EXISTS idx_reconciliation_reports_campaign ON reconciliation_reports(campaign_id, created_at DESC);
+      CREATE INDEX IF NOT EXISTS idx_safe_batch_recipients_recipient ON safe_batch_recipients(recipient_id);
+
       -- Price history indexes for time-series queries
       CREATE INDEX IF NOT EXISTS idx_price_symbol_timestamp ON price_history(symbol, timestamp DESC);
       CREATE INDEX IF NOT EXISTS idx_price_timestamp ON price_history(timestamp DESC);
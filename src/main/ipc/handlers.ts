@@ -1,4 +1,6 @@
-import { ipcMain } from 'electron';
+import { ipcMain, dialog, app, BrowserWindow, IpcMainInvokeEvent } from 'electron';
+import * as path from 'path';
+import { promises as fs } from 'fs';
 import { DatabaseManager } from '../database/sqlite-schema';
 import { CampaignService } from '../services/CampaignService';
 import { WalletService } from '../services/WalletService';
@@ -7,11 +9,19 @@ import { BlockchainService } from '../services/BlockchainService';
 import { ChainService } from '../services/ChainService';
 import { FileService } from '../services/FileService';
 import { PriceService } from '../services/PriceService';
-import { ContractService } from '../services/ContractService';
+import { ContractService, ContractDeploymentResult } from '../services/ContractService';
 import { CampaignEstimator } from '../services/CampaignEstimator';
 import { TokenService } from '../services/TokenService';
 import { SolanaService } from '../services/SolanaService';
+import { KeyVaultService } from '../services/KeyVaultService';
+import { SignerRegistry } from '../services/SignerRegistry';
+import { HDWalletService } from '../services/HDWalletService';
+import { ExternalSigningService } from '../services/ExternalSigningService';
+import { MerkleClaimService } from '../services/MerkleClaimService';
+import { RecipientClassifier } from '../services/RecipientClassifier';
 import { KeyUtils } from '../utils/keyUtils';
+import { ChainUtils } from '../utils/chain-utils';
+import { isNativeToken } from '../config/constants';
 import { Logger } from '../utils/logger';
 import type {
   CreateCampaignRequest,
@@ -19,7 +29,11 @@ import type {
   EstimateRequest,
   WalletListOptions,
   EVMChainData,
-  SolanaRPCData
+  SolanaRPCData,
+  KeystoreExportRequest,
+  HDDiscoveryRequest,
+  ImportedWalletInput,
+  WithdrawOptions
 } from '../types/ipc';
 
 const logger = Logger.getInstance().child('IPCHandlers');
@@ -36,6 +50,41 @@ let contractService: ContractService;
 let solanaService: SolanaService;
 let campaignEstimator: CampaignEstimator;
 let tokenService: TokenService;
+let keyVaultService: KeyVaultService;
+let hdWalletService: HDWalletService;
+let signerRegistry: SignerRegistry;
+let externalSigningService: ExternalSigningService;
+let merkleClaimService: MerkleClaimService;
+let recipientClassifier: RecipientClassifier;
+
+/**
+ * 在主进程中弹出原生确认框，涉及私钥的操作必须经过用户确认
+ */
+async function confirmKeyOperation(event: IpcMainInvokeEvent, message: string, detail: string): Promise<boolean> {
+  const window = BrowserWindow.fromWebContents(event.sender);
+  const options = {
+    type: 'warning' as const,
+    buttons: ['取消', '确认'],
+    defaultId: 0,
+    cancelId: 0,
+    title: 'CryptoCast',
+    message,
+    detail,
+  };
+  const { response } = window
+    ? await dialog.showMessageBox(window, options)
+    : await dialog.showMessageBox(options);
+  return response === 1;
+}
+
+/**
+ * 导入的自有钱包不是一次性地址，必须由用户明确选择才允许转出其中的资金
+ */
+function assertWithdrawAllowed(campaign: { walletImported?: boolean }, options: WithdrawOptions): void {
+  if (campaign.walletImported && !options.allowImportedWallet) {
+    throw new Error('该活动使用导入的自有钱包，请明确确认后再回收资金');
+  }
+}
 
 export async function setupIPCHandlers() {
   try {
@@ -44,7 +93,20 @@ export async function setupIPCHandlers() {
     databaseManager = new DatabaseManager();
     await databaseManager.initialize();
 
-    campaignService = new CampaignService(databaseManager);
+    keyVaultService = new KeyVaultService(databaseManager);
+    hdWalletService = new HDWalletService(databaseManager, keyVaultService);
+    signerRegistry = new SignerRegistry(databaseManager, hdWalletService);
+    externalSigningService = new ExternalSigningService(
+      databaseManager,
+      path.join(app.getPath('userData'), 'unsigned-transactions')
+    );
+    await externalSigningService.cancelStaleRequests();
+    campaignService = new CampaignService(databaseManager, keyVaultService, hdWalletService, externalSigningService);
+    // 上次退出时中断的批次在后台与链上对账，不阻塞启动
+    campaignService.reconcileInterruptedCampaigns().catch(error => {
+      logger.error('Failed to reconcile interrupted campaigns', error as Error);
+    });
+    campaignService.startVestingScheduler();
     walletService = new WalletService();
     walletManagementService = new WalletManagementService(databaseManager);
     priceService = new PriceService(databaseManager);
@@ -52,6 +114,8 @@ export async function setupIPCHandlers() {
     chainService = new ChainService(databaseManager);
     fileService = new FileService(databaseManager);
     contractService = new ContractService();
+    merkleClaimService = new MerkleClaimService(databaseManager);
+    recipientClassifier = new RecipientClassifier();
 
     solanaService = new SolanaService();
     campaignEstimator = new CampaignEstimator(databaseManager);
@@ -66,11 +130,37 @@ export async function setupIPCHandlers() {
   ipcMain.handle('campaign:create', async (_event, data: CreateCampaignRequest) => {
     try {
       logger.debug('Creating campaign', { name: data.name, chain: data.chain });
-      const campaign = await campaignService.createCampaign(data);
+      // EVM ERC20 活动创建前探测代币行为（转账手续费、rebase、黑名单），结果作为活动警告保存
+      // 多代币活动逐个探测其中的 ERC20 代币，警告带上代币符号
+      const tokenLegs = data.tokenLegs?.length ? data.tokenLegs : undefined;
+      const tokenLegWarnings: string[] = [];
+      for (const leg of tokenLegs && !ChainUtils.isSolanaChain(data.chain) ? tokenLegs : []) {
+        if (isNativeToken(leg.tokenAddress)) {
+          continue;
+        }
+        const legBehavior = await tokenService.probeTokenBehavior(
+          leg.tokenAddress,
+          data.chain,
+          data.recipients.map(recipient => recipient.address),
+          data.externalSignerAddress
+        );
+        tokenLegWarnings.push(...legBehavior.warnings.map(warning => `${leg.tokenSymbol || leg.tokenAddress}: ${warning}`));
+      }
+      const tokenBehavior = !tokenLegs && !ChainUtils.isSolanaChain(data.chain) && (data.tokenStandard || 'ERC20') === 'ERC20' && !isNativeToken(data.tokenAddress)
+        ? await tokenService.probeTokenBehavior(
+            data.tokenAddress,
+            data.chain,
+            data.recipients.map(recipient => recipient.address),
+            data.externalSignerAddress
+          )
+        : undefined;
+      const campaign = await campaignService.createCampaign(data, tokenBehavior, tokenLegWarnings);
       logger.info('Campaign created successfully', { campaignId: campaign });
       return campaign;
     } catch (error) {
-      logger.error('Failed to create campaign', error as Error, { data });
+      // 不记录 importedWallet，避免私钥进入日志
+      const { importedWallet, ...loggableData } = data;
+      logger.error('Failed to create campaign', error as Error, { data: loggableData, importedWallet: !!importedWallet });
       throw new Error(`创建活动失败: ${error instanceof Error ? error.message : '未知错误'}`);
     }
   });
@@ -83,7 +173,7 @@ export async function setupIPCHandlers() {
       }
       const campaigns = await campaignService.listCampaigns(filters);
       logger.debug('Campaigns listed', { count: campaigns.length });
-      return campaigns;
+      return campaigns.map(campaign => ({ ...campaign, walletId: signerRegistry.getWalletId(campaign.id) }));
     } catch (error) {
       logger.error('Failed to list campaigns', error as Error, { filters });
       throw new Error(`获取活动列表失败: ${error instanceof Error ? error.message : '未知错误'}`);
@@ -94,7 +184,7 @@ export async function setupIPCHandlers() {
     try {
       logger.debug('Getting campaign by ID', { campaignId: id });
       const campaign = await campaignService.getCampaignById(id);
-      return campaign;
+      return campaign ? { ...campaign, walletId: signerRegistry.getWalletId(campaign.id) } : null;
     } catch (error) {
       logger.error('Failed to get campaign', error as Error, { campaignId: id });
       throw new Error(`获取活动详情失败: ${error instanceof Error ? error.message : '未知错误'}`);
@@ -151,7 +241,13 @@ export async function setupIPCHandlers() {
     try {
       logger.debug('Getting campaign details', { campaignId: id });
       const details = await campaignService.getCampaignDetails(id);
-      return details;
+      if (!details) {
+        return null;
+      }
+      return {
+        ...details,
+        campaign: { ...details.campaign, walletId: signerRegistry.getWalletId(details.campaign.id) },
+      };
     } catch (error) {
       logger.error('Failed to get campaign details', error as Error, { campaignId: id });
       throw new Error(`获取活动详情失败: ${error instanceof Error ? error.message : '未知错误'}`);
@@ -180,6 +276,15 @@ export async function setupIPCHandlers() {
     }
   });
 
+  ipcMain.handle('campaign:getVestingSchedule', async (_event, id: string) => {
+    try {
+      return await campaignService.getVestingSchedule(id);
+    } catch (error) {
+      logger.error('Failed to get vesting schedule', error as Error, { campaignId: id });
+      throw new Error(`获取释放计划失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
   ipcMain.handle('campaign:estimate', async (_event, request) => {
     try {
       logger.info('Estimating campaign cost', { request });
@@ -203,17 +308,6 @@ export async function setupIPCHandlers() {
     }
   });
 
-  ipcMain.handle('solana:batchTransfer', async (_event, rpcUrl, privateKeyBase64, recipients, amounts, tokenAddress) => {
-    try {
-      logger.info('Initiating Solana batch transfer', { recipientCount: recipients.length, tokenAddress });
-      const result = await solanaService.batchTransfer(rpcUrl, privateKeyBase64, recipients, amounts, tokenAddress);
-      return { success: true, data: result };
-    } catch (error) {
-      logger.error('Failed to execute Solana batch transfer', error as Error);
-      throw new Error(`Solana批量转账失败: ${error instanceof Error ? error.message : '未知错误'}`);
-    }
-  });
-
   ipcMain.handle('solana:getTransactionStatus', async (_event, rpcUrl, transactionHash) => {
     try {
       logger.debug('Getting Solana transaction status', { transactionHash });
@@ -236,21 +330,7 @@ export async function setupIPCHandlers() {
     }
   });
 
-  // 钱包相关（简化版 - 无密码保护）
-  ipcMain.handle('wallet:create', async (_event, type = 'evm') => {
-    try {
-      logger.info('Creating wallet', { type });
-      const wallet = type === 'solana'
-        ? walletService.createSolanaWallet()
-        : walletService.createEVMWallet();
-      return wallet;
-    } catch (error) {
-      logger.error('Failed to create wallet', error as Error, { type });
-      throw new Error(`创建钱包失败: ${error instanceof Error ? error.message : '未知错误'}`);
-    }
-  });
-
-  
+  // 钱包相关（私钥只在主进程内使用，渲染进程仅持有不透明钱包ID）
   ipcMain.handle('wallet:getBalance', async (_event, address, chain, tokenAddress, tokenDecimals) => {
     try {
       logger.debug('Getting wallet balance', { address, chain, tokenAddress });
@@ -265,8 +345,11 @@ export async function setupIPCHandlers() {
   ipcMain.handle('wallet:list', async (_event, options) => {
     try {
       logger.debug('Listing wallets', { options });
-      const wallets = await walletManagementService.listActivityWallets(options);
-      return wallets;
+      const result = await walletManagementService.listActivityWallets(options);
+      return {
+        ...result,
+        wallets: result.wallets.map(wallet => ({ ...wallet, walletId: signerRegistry.getWalletId(wallet.campaignId) })),
+      };
     } catch (error) {
       logger.error('Failed to list wallets', error as Error, { options });
       throw new Error(`获取钱包列表失败: ${error instanceof Error ? error.message : '未知错误'}`);
@@ -466,6 +549,20 @@ export async function setupIPCHandlers() {
     }
   });
 
+  ipcMain.handle('blockchain:classifyRecipients', async (_event, chainId: string, addresses: string[], tokenAddress: string, amounts?: string[]) => {
+    try {
+      logger.debug('Classifying recipients', { chainId, count: addresses.length, tokenAddress });
+      const chain = await chainService.getChainById(parseInt(chainId));
+      if (!chain || chain.type !== 'evm') {
+        throw new Error('EVM chain not found');
+      }
+      return await recipientClassifier.classify(chain.rpcUrl, addresses, isNativeToken(tokenAddress), amounts);
+    } catch (error) {
+      logger.error('Failed to classify recipients', error as Error, { chainId });
+      throw new Error(`检查接收地址失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
   // 价格服务相关
   ipcMain.handle('price:getPrice', async (_event, symbol) => {
     try {
@@ -547,6 +644,51 @@ export async function setupIPCHandlers() {
     }
   });
 
+  // 加速卡住的批次交易（同 nonce 加价重发）
+  ipcMain.handle('campaign:speedUpTransaction', async (_event, campaignId: string, txHash: string) => {
+    try {
+      logger.info('Speeding up transaction', { campaignId, txHash });
+      const replacementHash = await campaignService.speedUpTransaction(campaignId, txHash);
+      return { success: true, txHash: replacementHash };
+    } catch (error) {
+      logger.error('Failed to speed up transaction', error as Error, { campaignId, txHash });
+      throw new Error(`加速交易失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  // 取消卡住的批次交易（同 nonce 发送 0 金额自转账）
+  ipcMain.handle('campaign:cancelTransaction', async (_event, campaignId: string, txHash: string) => {
+    try {
+      logger.info('Cancelling transaction', { campaignId, txHash });
+      const replacementHash = await campaignService.cancelTransaction(campaignId, txHash);
+      return { success: true, txHash: replacementHash };
+    } catch (error) {
+      logger.error('Failed to cancel transaction', error as Error, { campaignId, txHash });
+      throw new Error(`取消交易失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  // 模拟发送所有待发送批次（不广播）
+  ipcMain.handle('campaign:dryRun', async (_event, campaignId: string) => {
+    try {
+      logger.info('Dry-running campaign', { campaignId });
+      return await campaignService.dryRunCampaign(campaignId);
+    } catch (error) {
+      logger.error('Failed to dry-run campaign', error as Error, { campaignId });
+      throw new Error(`模拟发送失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  // 获取中断批次的对账记录
+  ipcMain.handle('campaign:getReconciliationReports', async (_event, campaignId: string) => {
+    try {
+      return await campaignService.getReconciliationReports(campaignId);
+    } catch (error) {
+      logger.error('Failed to get reconciliation reports', error as Error, { campaignId });
+      throw new Error(`获取对账记录失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
   // 为活动部署合约（使用活动专用地址 + 幂等性保护）
   ipcMain.handle('campaign:deployContract', async (_event, campaignId) => {
     // 使用幂等性锁保护
@@ -559,16 +701,12 @@ export async function setupIPCHandlers() {
         if (!campaign) {
           throw new Error('活动不存在');
         }
-
-        if (!campaign.walletPrivateKeyBase64) {
-          throw new Error('活动钱包信息缺失');
+        if (campaign.distributionMode === 'MERKLE_CLAIM') {
+          throw new Error('领取式活动请部署领取分发合约');
         }
 
-        // 2. 解码私钥
-        const chainInfo = await chainService.getChainById(parseInt(campaign.chain));
-        const privateKey = chainInfo?.type === 'solana'
-          ? walletService.exportSolanaPrivateKey(campaign.walletPrivateKeyBase64)
-          : walletService.exportEVMPrivateKey(campaign.walletPrivateKeyBase64);
+        // 2. 获取活动钱包签名者
+        const signer = await signerRegistry.getHandleForCampaign(campaignId);
 
         // 3. 获取链配置
         const chain = await chainService.getEVMChainById(parseInt(campaign.chain));
@@ -576,17 +714,59 @@ export async function setupIPCHandlers() {
           throw new Error('链配置不存在');
         }
 
-        // 4. 部署合约
-        const config = {
-          tokenAddress: campaign.tokenAddress,
-          chainId: parseInt(campaign.chain),
-          rpcUrl: chain.rpcUrl,
-          deployerPrivateKey: privateKey
-        };
+        // 4. 合约无状态、按 msg.sender 转账，本链已有代码哈希一致的合约时直接复用，不发送部署交易
+        const shared = await contractService.findSharedContract(chain.rpcUrl, chain.batchContractAddress, chain.batchContractCodeHash);
+        if (shared) {
+          await chainService.saveBatchContractDeployment(chain.chainId, shared.contractAddress, shared.codeHash);
+          await campaignService.updateCampaignContract(campaignId, shared.contractAddress, '');
+          logger.info('Reusing batch contract', { campaignId, contractAddress: shared.contractAddress });
+          return {
+            success: true,
+            contractAddress: shared.contractAddress,
+            transactionHash: '',
+            gasUsed: '0',
+            reused: true
+          };
+        }
+
+        // 5. 部署合约（私钥仅在主进程内解密使用；外部签名活动等待离线签名后广播）
+        let contractInfo: ContractDeploymentResult;
+        if (campaign.signingMode === 'EXTERNAL') {
+          const result = await externalSigningService.signAndBroadcast({
+            campaignId,
+            purpose: 'DEPLOY_CONTRACT',
+            fromAddress: signer.address,
+            rpcUrl: chain.rpcUrl,
+            summary: '部署批量转账合约',
+            confirmTimeoutSeconds: campaign.stuckTimeoutSeconds,
+            build: async () => ({
+              chainType: 'evm',
+              transaction: await contractService.buildDeployTransaction(chain.rpcUrl, signer.address),
+            }),
+          });
+          // 经 CREATE2 工厂部署时回执中没有合约地址，使用确定地址
+          contractInfo = {
+            contractAddress: result.contractAddress || contractService.getDeterministicContractAddress(),
+            transactionHash: result.transactionHash,
+            blockNumber: result.blockNumber || 0,
+            gasUsed: result.gasUsed,
+          };
+        } else {
+          contractInfo = await signerRegistry.withPrivateKey(signer, 'DEPLOY_CONTRACT', (privateKeyBase64) =>
+            contractService.deployContract({
+              tokenAddress: campaign.tokenAddress,
+              chainId: parseInt(campaign.chain),
+              rpcUrl: chain.rpcUrl,
+              deployerPrivateKey: walletService.exportEVMPrivateKey(privateKeyBase64)
+            })
+          );
+        }
 
-        const contractInfo = await contractService.deployContract(config);
+        // 6. 校验部署结果并登记为本链的共享合约
+        const codeHash = await contractService.verifyDeployedContract(chain.rpcUrl, contractInfo.contractAddress);
+        await chainService.saveBatchContractDeployment(chain.chainId, contractInfo.contractAddress, codeHash);
 
-        // 5. 记录部署交易
+        // 7. 记录部署交易
         await campaignService.recordTransaction(campaignId, {
           txHash: contractInfo.transactionHash,
           txType: 'DEPLOY_CONTRACT',
@@ -597,7 +777,7 @@ export async function setupIPCHandlers() {
           blockNumber: contractInfo.blockNumber
         });
 
-        // 6. 更新活动信息（包含状态验证）
+        // 8. 更新活动信息（包含状态验证）
         await campaignService.updateCampaignContract(
           campaignId,
           contractInfo.contractAddress,
@@ -613,7 +793,8 @@ export async function setupIPCHandlers() {
           success: true,
           contractAddress: contractInfo.contractAddress,
           transactionHash: contractInfo.transactionHash,
-          gasUsed: contractInfo.gasUsed
+          gasUsed: contractInfo.gasUsed,
+          reused: false
         };
       } catch (error) {
         logger.error('Failed to deploy contract', error as Error, { campaignId });
@@ -622,6 +803,137 @@ export async function setupIPCHandlers() {
     });
   });
 
+  // 领取式空投（Merkle 分发合约）
+  const getClaimCampaignContext = async (campaignId: string) => {
+    const campaign = await campaignService.getCampaignById(campaignId);
+    if (!campaign) {
+      throw new Error('活动不存在');
+    }
+    const chain = await chainService.getEVMChainById(parseInt(campaign.chain));
+    if (!chain) {
+      throw new Error('链配置不存在');
+    }
+    return { campaign, chain };
+  };
+
+  ipcMain.handle('campaign:deployDistributor', async (_event, campaignId: string) => {
+    // 与批量合约部署共用幂等性锁
+    return campaignService.deployContractWithLock(campaignId, async () => {
+      try {
+        logger.info('Deploying Merkle distributor for campaign', { campaignId });
+
+        const { campaign, chain } = await getClaimCampaignContext(campaignId);
+        const signer = await signerRegistry.getHandleForCampaign(campaignId);
+
+        const result = await signerRegistry.withPrivateKey(signer, 'DEPLOY_CONTRACT', async (privateKeyBase64) => {
+          return merkleClaimService.deployDistributor(campaignId, chain.rpcUrl, walletService.exportEVMPrivateKey(privateKeyBase64));
+        }, 'merkle distributor');
+
+        if (result.deployTxHash) {
+          await campaignService.recordTransaction(campaignId, {
+            txHash: result.deployTxHash,
+            txType: 'DEPLOY_CONTRACT',
+            fromAddress: campaign.walletAddress || '',
+            toAddress: result.distributorAddress,
+            amount: result.deployValue,
+            gasUsed: parseFloat(result.deployGasUsed || '0'),
+            status: 'CONFIRMED',
+            blockNumber: result.deployBlockNumber
+          });
+        }
+        if (result.fundTxHash) {
+          await campaignService.recordTransaction(campaignId, {
+            txHash: result.fundTxHash,
+            txType: 'TRANSFER_TO_CONTRACT',
+            fromAddress: campaign.walletAddress || '',
+            toAddress: result.distributorAddress,
+            amount: result.fundAmount,
+            status: 'CONFIRMED'
+          });
+        }
+
+        logger.info('Merkle distributor deployed successfully', { campaignId, distributorAddress: result.distributorAddress });
+        return { success: true, ...result };
+      } catch (error) {
+        logger.error('Failed to deploy Merkle distributor', error as Error, { campaignId });
+        throw new Error(`部署领取分发合约失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      }
+    });
+  });
+
+  ipcMain.handle('campaign:syncClaims', async (_event, campaignId: string) => {
+    try {
+      const { chain } = await getClaimCampaignContext(campaignId);
+      return await merkleClaimService.syncClaims(campaignId, chain.rpcUrl);
+    } catch (error) {
+      logger.error('Failed to sync claims', error as Error, { campaignId });
+      throw new Error(`同步领取记录失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('campaign:exportClaimProofs', async (event, campaignId: string, format: 'json' | 'csv') => {
+    try {
+      const { campaign, chain } = await getClaimCampaignContext(campaignId);
+
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const dialogOptions = {
+        title: '保存领取证明',
+        defaultPath: path.join(app.getPath('downloads'), `claims-${campaign.id}.${format}`),
+        filters: [format === 'csv' ? { name: 'CSV', extensions: ['csv'] } : { name: 'JSON', extensions: ['json'] }],
+      };
+      const { canceled, filePath } = window
+        ? await dialog.showSaveDialog(window, dialogOptions)
+        : await dialog.showSaveDialog(dialogOptions);
+      if (canceled || !filePath) {
+        return { success: false, cancelled: true };
+      }
+
+      const result = await merkleClaimService.exportProofs(campaignId, chain.rpcUrl, filePath, format);
+      return { success: true, ...result };
+    } catch (error) {
+      logger.error('Failed to export claim proofs', error as Error, { campaignId, format });
+      throw new Error(`导出领取证明失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('campaign:sweepUnclaimed', async (event, campaignId: string) => {
+    try {
+      logger.info('Sweeping unclaimed allocations', { campaignId });
+
+      const { campaign, chain } = await getClaimCampaignContext(campaignId);
+      const signer = await signerRegistry.getHandleForCampaign(campaignId);
+      const confirmed = await confirmKeyOperation(
+        event,
+        `确认回收未领取的 ${campaign.tokenSymbol || '代币'}？`,
+        `活动: ${campaign.name}\n分发合约: ${campaign.distributorAddress}\n接收地址: ${signer.address}\n网络: ${chain.name}\n回收后未领取的接收者将标记为失败。`
+      );
+      if (!confirmed) {
+        throw new Error('用户取消了操作');
+      }
+
+      const result = await signerRegistry.withPrivateKey(signer, 'SWEEP_UNCLAIMED', async (privateKeyBase64) => {
+        return merkleClaimService.sweepUnclaimed(campaignId, chain.rpcUrl, walletService.exportEVMPrivateKey(privateKeyBase64));
+      }, `from ${campaign.distributorAddress}`);
+
+      await campaignService.recordTransaction(campaignId, {
+        txHash: result.txHash,
+        txType: 'WITHDRAW_REMAINING',
+        fromAddress: signer.address,
+        toAddress: campaign.distributorAddress,
+        amount: result.amount,
+        gasUsed: parseFloat(result.gasUsed),
+        status: 'CONFIRMED',
+        blockNumber: result.blockNumber
+      });
+
+      logger.info('Unclaimed allocations swept', { campaignId, txHash: result.txHash });
+      return { success: true, ...result };
+    } catch (error) {
+      logger.error('Failed to sweep unclaimed allocations', error as Error, { campaignId });
+      throw new Error(`回收未领取资金失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
   // 代币相关处理器
   ipcMain.handle('token:getInfo', async (_event, tokenAddress: string, chainId: string) => {
     try {
@@ -656,8 +968,26 @@ export async function setupIPCHandlers() {
     }
   });
 
-  // Withdraw remaining tokens from campaign wallet
-  ipcMain.handle('campaign:withdrawTokens', async (_event, campaignId: string, recipientAddress: string) => {
+  ipcMain.handle('token:probeBehavior', async (_event, tokenAddress: string, chainId: string, addresses: string[], senderAddress?: string) => {
+    try {
+      logger.debug('Probing token behavior', { tokenAddress, chainId, addressCount: addresses.length });
+      const report = await tokenService.probeTokenBehavior(tokenAddress, chainId, addresses, senderAddress);
+      logger.info('Token behavior probed', {
+        tokenAddress,
+        simulated: report.simulated,
+        transferFeeBasisPoints: report.transferFeeBasisPoints,
+        rebasingInterface: report.rebasingInterface,
+        blockedCount: report.blockedAddresses.length
+      });
+      return report;
+    } catch (error) {
+      logger.error('Failed to probe token behavior', error as Error, { tokenAddress });
+      throw new Error(`检测代币行为失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  // Withdraw remaining tokens from campaign wallet (signed in main after native confirmation)
+  ipcMain.handle('campaign:withdrawTokens', async (event, campaignId: string, recipientAddress: string, options: WithdrawOptions = {}) => {
     try {
       logger.info('Withdrawing tokens', { campaignId, recipientAddress });
 
@@ -667,41 +997,57 @@ export async function setupIPCHandlers() {
         throw new Error('Campaign not found');
       }
 
-      if (!campaign.walletPrivateKeyBase64) {
-        throw new Error('活动钱包信息缺失');
-      }
-
       // Get chain config first
       const chain = await chainService.getChainById(parseInt(campaign.chain));
       if (!chain) {
         throw new Error('Chain not found');
       }
 
-      // Decode private key using chain-specific method
-      const privateKey = chain.type === 'solana'
-        ? Buffer.from(KeyUtils.decodeToSolanaBytes(campaign.walletPrivateKeyBase64)).toString('hex')
-        : walletService.exportEVMPrivateKey(campaign.walletPrivateKeyBase64);
+      assertWithdrawAllowed(campaign, options);
+      // 回收按 ERC20 余额整体转出，NFT 需要逐个 token ID 转出
+      if (campaign.tokenStandard !== 'ERC20') {
+        throw new Error('NFT 活动不支持一键回收，请从活动钱包逐个转出剩余 NFT');
+      }
 
-      let result;
+      // 多代币活动可指定回收其中一个 ERC20 代币，默认回收活动的主代币
+      const tokenLeg = options.tokenAddress
+        ? campaign.tokenLegs?.find(leg => leg.tokenAddress.toLowerCase() === options.tokenAddress!.toLowerCase())
+        : undefined;
+      if (options.tokenAddress && (!tokenLeg || isNativeToken(tokenLeg.tokenAddress))) {
+        throw new Error('指定的代币不是该活动的 ERC20 代币');
+      }
+      const tokenAddress = tokenLeg?.tokenAddress || campaign.tokenAddress;
+      const tokenSymbol = tokenLeg ? tokenLeg.tokenSymbol : campaign.tokenSymbol;
+
+      const signer = await signerRegistry.getHandleForCampaign(campaignId);
+      const confirmed = await confirmKeyOperation(
+        event,
+        `确认从${campaign.walletImported ? '导入的自有钱包' : '活动钱包'}回收全部 ${tokenSymbol || '代币'}？`,
+        `活动: ${campaign.name}\n来源钱包: ${signer.address}\n接收地址: ${recipientAddress}\n网络: ${chain.name}`
+      );
+      if (!confirmed) {
+        throw new Error('用户取消了操作');
+      }
 
-      // Check if it's a Solana chain
-      if (chain.type === 'solana' || chain.name.toLowerCase().includes('solana')) {
-        // Withdraw SPL tokens
-        result = await blockchainService.withdrawRemainingSPLTokens(
-          chain.rpcUrl,
-          privateKey,
-          recipientAddress,
-          campaign.tokenAddress
-        );
-      } else {
+      const isSolana = chain.type === 'solana' || chain.name.toLowerCase().includes('solana');
+      const result = await signerRegistry.withPrivateKey(signer, 'WITHDRAW_TOKENS', async (privateKeyBase64) => {
+        if (isSolana) {
+          // Withdraw SPL tokens
+          return blockchainService.withdrawRemainingSPLTokens(
+            chain.rpcUrl,
+            Buffer.from(KeyUtils.decodeToSolanaBytes(privateKeyBase64)).toString('hex'),
+            recipientAddress,
+            tokenAddress
+          );
+        }
         // Withdraw ERC20 tokens
-        result = await contractService.withdrawRemainingTokens(
+        return contractService.withdrawRemainingTokens(
           chain.rpcUrl,
-          privateKey,
+          walletService.exportEVMPrivateKey(privateKeyBase64),
           recipientAddress,
-          campaign.tokenAddress
+          tokenAddress
         );
-      }
+      }, `to ${recipientAddress}`);
 
       logger.info('Tokens withdrawn successfully', { result });
       return result;
@@ -712,7 +1058,7 @@ export async function setupIPCHandlers() {
   });
 
   // Withdraw remaining native token (ETH/BNB/MATIC/SOL/etc) from campaign wallet
-  ipcMain.handle('campaign:withdrawNative', async (_event, campaignId: string, recipientAddress: string) => {
+  ipcMain.handle('campaign:withdrawNative', async (event, campaignId: string, recipientAddress: string, options: WithdrawOptions = {}) => {
     try {
       logger.info('Withdrawing native tokens', { campaignId, recipientAddress });
 
@@ -722,39 +1068,41 @@ export async function setupIPCHandlers() {
         throw new Error('Campaign not found');
       }
 
-      if (!campaign.walletPrivateKeyBase64) {
-        throw new Error('活动钱包信息缺失');
-      }
-
       // Get chain config first
       const chain = await chainService.getChainById(parseInt(campaign.chain));
       if (!chain) {
         throw new Error('Chain not found');
       }
 
-      // Decode private key using chain-specific method
-      const privateKey = chain.type === 'solana'
-        ? Buffer.from(KeyUtils.decodeToSolanaBytes(campaign.walletPrivateKeyBase64)).toString('hex')
-        : walletService.exportEVMPrivateKey(campaign.walletPrivateKeyBase64);
+      assertWithdrawAllowed(campaign, options);
 
-      let result;
+      const signer = await signerRegistry.getHandleForCampaign(campaignId);
+      const confirmed = await confirmKeyOperation(
+        event,
+        `确认从${campaign.walletImported ? '导入的自有钱包' : '活动钱包'}回收剩余 ${chain.symbol}？`,
+        `活动: ${campaign.name}\n来源钱包: ${signer.address}\n接收地址: ${recipientAddress}\n网络: ${chain.name}`
+      );
+      if (!confirmed) {
+        throw new Error('用户取消了操作');
+      }
 
-      // Check if it's a Solana chain
-      if (chain.type === 'solana' || chain.name.toLowerCase().includes('solana')) {
-        // Withdraw SOL
-        result = await blockchainService.withdrawRemainingSOL(
-          chain.rpcUrl,
-          privateKey,
-          recipientAddress
-        );
-      } else {
+      const isSolana = chain.type === 'solana' || chain.name.toLowerCase().includes('solana');
+      const result = await signerRegistry.withPrivateKey(signer, 'WITHDRAW_NATIVE', async (privateKeyBase64) => {
+        if (isSolana) {
+          // Withdraw SOL
+          return blockchainService.withdrawRemainingSOL(
+            chain.rpcUrl,
+            Buffer.from(KeyUtils.decodeToSolanaBytes(privateKeyBase64)).toString('hex'),
+            recipientAddress
+          );
+        }
         // Withdraw native token (ETH/BNB/MATIC/AVAX/etc)
-        result = await contractService.withdrawRemainingETH(
+        return contractService.withdrawRemainingETH(
           chain.rpcUrl,
-          privateKey,
+          walletService.exportEVMPrivateKey(privateKeyBase64),
           recipientAddress
         );
-      }
+      }, `to ${recipientAddress}`);
 
       logger.info('Native tokens withdrawn successfully', { result });
       return result;
@@ -764,26 +1112,349 @@ export async function setupIPCHandlers() {
     }
   });
 
-  // Private key export handlers with chain type support
-  ipcMain.handle('wallet:exportEVMPrivateKey', async (_event, privateKeyBase64: string) => {
+  // 结束 Solana 活动钱包：转出剩余代币、关闭代币账户和查找表回收租金，最后转出全部 SOL
+  ipcMain.handle('campaign:finalizeWallet', async (event, campaignId: string, recipientAddress: string, options: WithdrawOptions = {}) => {
+    try {
+      logger.info('Finalizing campaign wallet', { campaignId, recipientAddress });
+
+      const campaign = await campaignService.getCampaignById(campaignId);
+      if (!campaign) {
+        throw new Error('Campaign not found');
+      }
+
+      const chain = await chainService.getChainById(parseInt(campaign.chain));
+      if (!chain) {
+        throw new Error('Chain not found');
+      }
+      if (chain.type !== 'solana' && !chain.name.toLowerCase().includes('solana')) {
+        throw new Error('Wallet finalization is only supported on Solana');
+      }
+
+      assertWithdrawAllowed(campaign, options);
+
+      const signer = await signerRegistry.getHandleForCampaign(campaignId);
+      const confirmed = await confirmKeyOperation(
+        event,
+        `确认结束${campaign.walletImported ? '导入的自有钱包' : '活动钱包'}并回收租金？`,
+        `活动: ${campaign.name}\n来源钱包: ${signer.address}\n接收地址: ${recipientAddress}\n网络: ${chain.name}\n\n` +
+          '剩余代币将转到接收地址，所有代币账户和地址查找表将被关闭，剩余 SOL 全部转出。'
+      );
+      if (!confirmed) {
+        throw new Error('用户取消了操作');
+      }
+
+      const result = await signerRegistry.withPrivateKey(
+        signer,
+        'FINALIZE_WALLET',
+        (privateKeyBase64) => campaignService.finalizeSolanaWallet(campaignId, chain.rpcUrl, privateKeyBase64, recipientAddress),
+        `to ${recipientAddress}`
+      );
+
+      logger.info('Campaign wallet finalized', {
+        campaignId,
+        rentRecoveredLamports: result.rentRecoveredLamports,
+        pendingLookupTables: result.pendingLookupTables.length,
+      });
+      return result;
+    } catch (error) {
+      logger.error('Failed to finalize campaign wallet', error as Error, { campaignId });
+      throw new Error(`结束钱包失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  // 导出密钥文件：重新验证主密码 + 主进程确认 + 审计，私钥不经过 IPC
+  ipcMain.handle('wallet:exportKeystore', async (event, request: KeystoreExportRequest) => {
+    try {
+      const signer = await signerRegistry.resolve(request.walletId);
+      logger.info('Exporting keystore', { campaignId: signer.campaignId, address: signer.address });
+
+      await keyVaultService.verifyPassphrase(request.masterPassphrase);
+
+      const confirmed = await confirmKeyOperation(
+        event,
+        '确认导出钱包密钥文件？',
+        signer.chainType === 'solana'
+          ? `钱包地址: ${signer.address}\nSolana keypair 文件未加密，任何获得该文件的人都可以控制钱包资金。`
+          : `钱包地址: ${signer.address}\n将导出使用您设置的密码加密的 keystore v3 文件。`
+      );
+      if (!confirmed) {
+        return { success: false, cancelled: true };
+      }
+
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const saveOptions = {
+        title: '保存钱包密钥文件',
+        defaultPath: path.join(app.getPath('downloads'), `${signer.address}.json`),
+        filters: [{ name: 'JSON', extensions: ['json'] }],
+      };
+      const { canceled, filePath } = window
+        ? await dialog.showSaveDialog(window, saveOptions)
+        : await dialog.showSaveDialog(saveOptions);
+      if (canceled || !filePath) {
+        return { success: false, cancelled: true };
+      }
+
+      const result = await signerRegistry.exportKeystore(signer, filePath, request.exportPassword);
+      return { success: true, ...result };
+    } catch (error) {
+      logger.error('Failed to export keystore', error as Error);
+      throw new Error(`导出密钥文件失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  // 预览导入的钱包地址（仅校验，不保存、不返回私钥）
+  ipcMain.handle('wallet:previewImport', async (_event, input: ImportedWalletInput, chain: string) => {
+    try {
+      const wallet = await walletService.importWallet(input, ChainUtils.getChainType(chain));
+      return { address: wallet.address, type: wallet.type };
+    } catch (error) {
+      logger.error('Failed to validate imported wallet', error as Error, { format: input?.format, chain });
+      throw new Error(`导入钱包校验失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('wallet:getKeyAuditLog', async (_event, limit?: number) => {
+    try {
+      return await signerRegistry.getAuditLog(limit);
+    } catch (error) {
+      logger.error('Failed to get key audit log', error as Error);
+      throw new Error(`获取密钥审计日志失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  // 外部签名（未签名交易导出、签名导入）
+  ipcMain.handle('signing:listRequests', async (_event, campaignId: string) => {
+    try {
+      return await externalSigningService.listRequests(campaignId);
+    } catch (error) {
+      logger.error('Failed to list signing requests', error as Error, { campaignId });
+      throw new Error(`获取待签名交易失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('signing:submitSignature', async (_event, requestId: string, signedTransaction: string) => {
+    try {
+      logger.info('Submitting external signature', { requestId });
+      return await externalSigningService.submitSignature(requestId, signedTransaction);
+    } catch (error) {
+      logger.error('Failed to submit external signature', error as Error, { requestId });
+      throw new Error(`导入签名失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('signing:cancel', async (_event, requestId: string) => {
+    try {
+      logger.info('Cancelling signing request', { requestId });
+      await externalSigningService.cancelRequest(requestId);
+      return { success: true };
+    } catch (error) {
+      logger.error('Failed to cancel signing request', error as Error, { requestId });
+      throw new Error(`取消签名请求失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('signing:saveUnsignedFile', async (event, requestId: string) => {
+    try {
+      const request = await externalSigningService.getRequest(requestId);
+      if (!request) {
+        throw new Error('签名请求不存在');
+      }
+
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const dialogOptions = {
+        title: '保存未签名交易',
+        defaultPath: path.join(app.getPath('downloads'), path.basename(request.filePath)),
+        filters: [{ name: 'JSON', extensions: ['json'] }],
+      };
+      const { canceled, filePath } = window
+        ? await dialog.showSaveDialog(window, dialogOptions)
+        : await dialog.showSaveDialog(dialogOptions);
+      if (canceled || !filePath) {
+        return { success: false, cancelled: true };
+      }
+
+      await fs.copyFile(request.filePath, filePath);
+      return { success: true, filePath };
+    } catch (error) {
+      logger.error('Failed to save unsigned transaction', error as Error, { requestId });
+      throw new Error(`保存未签名交易失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  // Safe 多签批次
+  const getSafeCampaignRpcUrl = async (campaignId: string) => {
+    const campaign = await campaignService.getCampaignById(campaignId);
+    if (!campaign) {
+      throw new Error('活动不存在');
+    }
+    const chain = await chainService.getEVMChainById(parseInt(campaign.chain));
+    if (!chain) {
+      throw new Error('链配置不存在');
+    }
+    return chain.rpcUrl;
+  };
+
+  ipcMain.handle('safe:exportBatches', async (event, campaignId: string, safeAddress: string) => {
+    try {
+      const rpcUrl = await getSafeCampaignRpcUrl(campaignId);
+
+      const window = BrowserWindow.fromWebContents(event.sender);
+      const dialogOptions: Electron.OpenDialogOptions = {
+        title: '选择 Safe 批次文件保存目录',
+        defaultPath: app.getPath('downloads'),
+        properties: ['openDirectory', 'createDirectory'],
+      };
+      const { canceled, filePaths } = window
+        ? await dialog.showOpenDialog(window, dialogOptions)
+        : await dialog.showOpenDialog(dialogOptions);
+      if (canceled || filePaths.length === 0) {
+        return { success: false, cancelled: true };
+      }
+
+      const result = await campaignService.exportSafeBatches(campaignId, {
+        safeAddress,
+        rpcUrl,
+        outputDir: filePaths[0],
+      });
+      return { success: true, ...result };
+    } catch (error) {
+      logger.error('Failed to export Safe batches', error as Error, { campaignId, safeAddress });
+      throw new Error(`导出 Safe 批次失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('safe:listBatches', async (_event, campaignId: string) => {
+    try {
+      return await campaignService.listSafeBatches(campaignId);
+    } catch (error) {
+      logger.error('Failed to list Safe batches', error as Error, { campaignId });
+      throw new Error(`获取 Safe 批次失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('safe:ingestExecution', async (_event, campaignId: string, txHash: string) => {
+    try {
+      const rpcUrl = await getSafeCampaignRpcUrl(campaignId);
+      return await campaignService.ingestSafeExecution(campaignId, txHash, rpcUrl);
+    } catch (error) {
+      logger.error('Failed to ingest Safe execution', error as Error, { campaignId, txHash });
+      throw new Error(`导入 Safe 执行结果失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('safe:discardBatch', async (_event, batchId: string) => {
+    try {
+      await campaignService.discardSafeBatch(batchId);
+      return { success: true };
+    } catch (error) {
+      logger.error('Failed to discard Safe batch', error as Error, { batchId });
+      throw new Error(`作废 Safe 批次失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  // 密钥保险库
+  ipcMain.handle('vault:getStatus', async (_event) => {
+    try {
+      return await keyVaultService.getStatus();
+    } catch (error) {
+      logger.error('Failed to get key vault status', error as Error);
+      throw new Error(`获取密钥保险库状态失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('vault:initialize', async (_event, passphrase: string) => {
+    try {
+      logger.info('Initializing key vault');
+      return await keyVaultService.initialize(passphrase);
+    } catch (error) {
+      logger.error('Failed to initialize key vault', error as Error);
+      throw new Error(`设置主密码失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('vault:unlock', async (_event, passphrase: string) => {
     try {
-      logger.info('Exporting EVM private key');
-      const privateKey = walletService.exportEVMPrivateKey(privateKeyBase64);
-      return { success: true, privateKey };
+      logger.info('Unlocking key vault');
+      return await keyVaultService.unlock(passphrase);
     } catch (error) {
-      logger.error('Failed to export EVM private key', error as Error);
-      throw new Error(`导出EVM私钥失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      logger.error('Failed to unlock key vault', error as Error);
+      throw new Error(`解锁密钥保险库失败: ${error instanceof Error ? error.message : '未知错误'}`);
     }
   });
 
-  ipcMain.handle('wallet:exportSolanaPrivateKey', async (_event, privateKeyBase64: string) => {
+  ipcMain.handle('vault:lock', async (_event) => {
     try {
-      logger.info('Exporting Solana private key');
-      const privateKey = walletService.exportSolanaPrivateKey(privateKeyBase64);
-      return { success: true, privateKey };
+      keyVaultService.lock();
+      return await keyVaultService.getStatus();
+    } catch (error) {
+      logger.error('Failed to lock key vault', error as Error);
+      throw new Error(`锁定密钥保险库失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('vault:changePassphrase', async (_event, currentPassphrase: string, newPassphrase: string) => {
+    try {
+      logger.info('Changing key vault passphrase');
+      await keyVaultService.changePassphrase(currentPassphrase, newPassphrase);
+      return { success: true };
+    } catch (error) {
+      logger.error('Failed to change key vault passphrase', error as Error);
+      throw new Error(`修改主密码失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('vault:setAutoLock', async (_event, minutes: number) => {
+    try {
+      logger.info('Updating key vault auto-lock timeout', { minutes });
+      await keyVaultService.setAutoLockMinutes(minutes);
+      return await keyVaultService.getStatus();
+    } catch (error) {
+      logger.error('Failed to update key vault auto-lock timeout', error as Error, { minutes });
+      throw new Error(`设置自动锁定时间失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  // HD 助记词（活动钱包派生）
+  ipcMain.handle('seed:getStatus', async (_event) => {
+    try {
+      return await hdWalletService.getStatus();
+    } catch (error) {
+      logger.error('Failed to get treasury seed status', error as Error);
+      throw new Error(`获取助记词状态失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('seed:create', async (_event) => {
+    try {
+      logger.info('Creating treasury seed');
+      return await hdWalletService.createSeed();
+    } catch (error) {
+      logger.error('Failed to create treasury seed', error as Error);
+      throw new Error(`生成助记词失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('seed:import', async (_event, mnemonic: string) => {
+    try {
+      logger.info('Importing treasury seed');
+      return await hdWalletService.importSeed(mnemonic);
+    } catch (error) {
+      logger.error('Failed to import treasury seed', error as Error);
+      throw new Error(`导入助记词失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  });
+
+  ipcMain.handle('seed:discover', async (_event, request: HDDiscoveryRequest = {}) => {
+    try {
+      logger.info('Discovering HD campaign wallets', { chainIds: request.chainIds, gapLimit: request.gapLimit });
+      const chains = await chainService.getAllChains();
+      const networks = chains
+        .filter(chain => !request.chainIds || (chain.chainId !== undefined && request.chainIds.includes(chain.chainId)))
+        .map(chain => ({ type: chain.type, name: chain.name, rpcUrl: chain.rpcUrl }));
+      return await hdWalletService.discoverWallets(networks, request.gapLimit);
     } catch (error) {
-      logger.error('Failed to export Solana private key', error as Error);
-      throw new Error(`导出Solana私钥失败: ${error instanceof Error ? error.message : '未知错误'}`);
+      logger.error('Failed to discover HD campaign wallets', error as Error);
+      throw new Error(`恢复活动钱包失败: ${error instanceof Error ? error.message : '未知错误'}`);
     }
   });
 
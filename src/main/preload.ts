@@ -7,9 +7,37 @@ import type {
   CampaignRecipient,
   Transaction,
   TransactionOptions,
+  TransactionReplacementResponse,
+  CampaignResumeResponse,
+  ReconciliationReport,
+  DryRunReport,
+  MerkleDeploymentResponse,
+  ClaimSyncResult,
+  ClaimProofExportResponse,
+  SweepUnclaimedResponse,
+  FinalizeWalletResult,
+  TokenBehaviorReport,
+  RecipientCheckResult,
+  VestingScheduleEntry,
   EstimateRequest,
   EstimateResponse,
-  CampaignProgress
+  CampaignProgress,
+  KeyVaultStatus,
+  KeystoreExportRequest,
+  KeystoreExportResult,
+  KeyAuditEntry,
+  HDSeedStatus,
+  HDSeedCreateResult,
+  HDDiscoveryRequest,
+  HDDiscoveryResult,
+  ImportedWalletInput,
+  WithdrawOptions,
+  SigningRequest,
+  SignatureSubmitResult,
+  UnsignedFileSaveResult,
+  SafeBatch,
+  SafeBatchExportResponse,
+  SafeExecutionResult
 } from './types/ipc';
 
 // 暴露安全的API给渲染进程
@@ -21,7 +49,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
     getById: (id: string): Promise<Campaign | null> => ipcRenderer.invoke('campaign:getById', id),
     start: (id: string): Promise<void> => ipcRenderer.invoke('campaign:start', id),
     pause: (id: string): Promise<void> => ipcRenderer.invoke('campaign:pause', id),
-    resume: (id: string): Promise<void> => ipcRenderer.invoke('campaign:resume', id),
+    resume: (id: string): Promise<CampaignResumeResponse> => ipcRenderer.invoke('campaign:resume', id),
     updateStatus: (id: string, status: string): Promise<void> => ipcRenderer.invoke('campaign:updateStatus', id, status),
     getDetails: (id: string): Promise<CampaignDetails | null> => ipcRenderer.invoke('campaign:getDetails', id),
     getTransactions: (id: string, options?: TransactionOptions): Promise<Transaction[]> => ipcRenderer.invoke('campaign:getTransactions', id, options),
@@ -29,8 +57,27 @@ contextBridge.exposeInMainWorld('electronAPI', {
     estimate: (request: EstimateRequest): Promise<EstimateResponse> => ipcRenderer.invoke('campaign:estimate', request),
     deployContract: (id: string): Promise<string> => ipcRenderer.invoke('campaign:deployContract', id),
     retryFailedTransactions: (id: string): Promise<void> => ipcRenderer.invoke('campaign:retryFailedTransactions', id),
-    withdrawTokens: (campaignId: string, recipientAddress: string): Promise<string> => ipcRenderer.invoke('campaign:withdrawTokens', campaignId, recipientAddress),
-    withdrawNative: (campaignId: string, recipientAddress: string): Promise<string> => ipcRenderer.invoke('campaign:withdrawNative', campaignId, recipientAddress),
+    speedUpTransaction: (campaignId: string, txHash: string): Promise<TransactionReplacementResponse> =>
+      ipcRenderer.invoke('campaign:speedUpTransaction', campaignId, txHash),
+    cancelTransaction: (campaignId: string, txHash: string): Promise<TransactionReplacementResponse> =>
+      ipcRenderer.invoke('campaign:cancelTransaction', campaignId, txHash),
+    getReconciliationReports: (campaignId: string): Promise<ReconciliationReport[]> =>
+      ipcRenderer.invoke('campaign:getReconciliationReports', campaignId),
+    dryRun: (campaignId: string): Promise<DryRunReport> => ipcRenderer.invoke('campaign:dryRun', campaignId),
+    deployDistributor: (campaignId: string): Promise<MerkleDeploymentResponse> =>
+      ipcRenderer.invoke('campaign:deployDistributor', campaignId),
+    syncClaims: (campaignId: string): Promise<ClaimSyncResult> => ipcRenderer.invoke('campaign:syncClaims', campaignId),
+    exportClaimProofs: (campaignId: string, format: 'json' | 'csv'): Promise<ClaimProofExportResponse> =>
+      ipcRenderer.invoke('campaign:exportClaimProofs', campaignId, format),
+    sweepUnclaimed: (campaignId: string): Promise<SweepUnclaimedResponse> => ipcRenderer.invoke('campaign:sweepUnclaimed', campaignId),
+    getVestingSchedule: (campaignId: string): Promise<VestingScheduleEntry[]> =>
+      ipcRenderer.invoke('campaign:getVestingSchedule', campaignId),
+    withdrawTokens: (campaignId: string, recipientAddress: string, options?: WithdrawOptions): Promise<string> =>
+      ipcRenderer.invoke('campaign:withdrawTokens', campaignId, recipientAddress, options),
+    withdrawNative: (campaignId: string, recipientAddress: string, options?: WithdrawOptions): Promise<string> =>
+      ipcRenderer.invoke('campaign:withdrawNative', campaignId, recipientAddress, options),
+    finalizeWallet: (campaignId: string, recipientAddress: string, options?: WithdrawOptions): Promise<FinalizeWalletResult> =>
+      ipcRenderer.invoke('campaign:finalizeWallet', campaignId, recipientAddress, options),
     onProgress: (callback: (data: CampaignProgress) => void): void => {
       ipcRenderer.on('campaign:progress', (_event, data) => callback(data));
     },
@@ -40,8 +87,6 @@ contextBridge.exposeInMainWorld('electronAPI', {
   solana: {
     getBalance: (rpcUrl: string, walletAddress: string, tokenAddress?: string): Promise<string> =>
       ipcRenderer.invoke('solana:getBalance', rpcUrl, walletAddress, tokenAddress),
-    batchTransfer: (rpcUrl: string, privateKeyBase64: string, recipients: string[], amounts: string[], tokenAddress: string): Promise<unknown> =>
-      ipcRenderer.invoke('solana:batchTransfer', rpcUrl, privateKeyBase64, recipients, amounts, tokenAddress),
     getTransactionStatus: (rpcUrl: string, transactionHash: string): Promise<unknown> =>
       ipcRenderer.invoke('solana:getTransactionStatus', rpcUrl, transactionHash),
     getTokenInfo: (rpcUrl: string, tokenAddress: string): Promise<unknown> =>
@@ -50,13 +95,52 @@ contextBridge.exposeInMainWorld('electronAPI', {
 
   // 钱包操作
   wallet: {
-    create: (type?: 'evm' | 'solana'): Promise<unknown> => ipcRenderer.invoke('wallet:create', type),
     getBalance: (address: string, chain: string, tokenAddress?: string): Promise<string> =>
       ipcRenderer.invoke('wallet:getBalance', address, chain, tokenAddress),
     list: (options?: Record<string, unknown>): Promise<unknown[]> => ipcRenderer.invoke('wallet:list', options),
     getBalances: (campaignId: string): Promise<unknown> => ipcRenderer.invoke('wallet:getBalances', campaignId),
-    exportEVMPrivateKey: (privateKeyBase64: string): Promise<string> => ipcRenderer.invoke('wallet:exportEVMPrivateKey', privateKeyBase64),
-    exportSolanaPrivateKey: (privateKeyBase64: string): Promise<string> => ipcRenderer.invoke('wallet:exportSolanaPrivateKey', privateKeyBase64),
+    exportKeystore: (request: KeystoreExportRequest): Promise<KeystoreExportResult> => ipcRenderer.invoke('wallet:exportKeystore', request),
+    getKeyAuditLog: (limit?: number): Promise<KeyAuditEntry[]> => ipcRenderer.invoke('wallet:getKeyAuditLog', limit),
+    previewImport: (input: ImportedWalletInput, chain: string): Promise<{ address: string; type: 'evm' | 'solana' }> =>
+      ipcRenderer.invoke('wallet:previewImport', input, chain),
+  },
+
+  // 密钥保险库
+  vault: {
+    getStatus: (): Promise<KeyVaultStatus> => ipcRenderer.invoke('vault:getStatus'),
+    initialize: (passphrase: string): Promise<KeyVaultStatus> => ipcRenderer.invoke('vault:initialize', passphrase),
+    unlock: (passphrase: string): Promise<KeyVaultStatus> => ipcRenderer.invoke('vault:unlock', passphrase),
+    lock: (): Promise<KeyVaultStatus> => ipcRenderer.invoke('vault:lock'),
+    changePassphrase: (currentPassphrase: string, newPassphrase: string): Promise<{ success: boolean }> =>
+      ipcRenderer.invoke('vault:changePassphrase', currentPassphrase, newPassphrase),
+    setAutoLock: (minutes: number): Promise<KeyVaultStatus> => ipcRenderer.invoke('vault:setAutoLock', minutes),
+  },
+
+  // HD 助记词
+  seed: {
+    getStatus: (): Promise<HDSeedStatus> => ipcRenderer.invoke('seed:getStatus'),
+    create: (): Promise<HDSeedCreateResult> => ipcRenderer.invoke('seed:create'),
+    import: (mnemonic: string): Promise<HDSeedStatus> => ipcRenderer.invoke('seed:import', mnemonic),
+    discover: (request?: HDDiscoveryRequest): Promise<HDDiscoveryResult> => ipcRenderer.invoke('seed:discover', request),
+  },
+
+  // 外部签名
+  signing: {
+    listRequests: (campaignId: string): Promise<SigningRequest[]> => ipcRenderer.invoke('signing:listRequests', campaignId),
+    submitSignature: (requestId: string, signedTransaction: string): Promise<SignatureSubmitResult> =>
+      ipcRenderer.invoke('signing:submitSignature', requestId, signedTransaction),
+    cancel: (requestId: string): Promise<{ success: boolean }> => ipcRenderer.invoke('signing:cancel', requestId),
+    saveUnsignedFile: (requestId: string): Promise<UnsignedFileSaveResult> => ipcRenderer.invoke('signing:saveUnsignedFile', requestId),
+  },
+
+  // Safe 多签批次
+  safe: {
+    exportBatches: (campaignId: string, safeAddress: string): Promise<SafeBatchExportResponse> =>
+      ipcRenderer.invoke('safe:exportBatches', campaignId, safeAddress),
+    listBatches: (campaignId: string): Promise<SafeBatch[]> => ipcRenderer.invoke('safe:listBatches', campaignId),
+    ingestExecution: (campaignId: string, txHash: string): Promise<SafeExecutionResult> =>
+      ipcRenderer.invoke('safe:ingestExecution', campaignId, txHash),
+    discardBatch: (batchId: string): Promise<{ success: boolean }> => ipcRenderer.invoke('safe:discardBatch', batchId),
   },
 
   // 区块链操作
@@ -67,6 +151,8 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('blockchain:estimateGas', chain, fromAddress, toAddress, tokenAddress, recipientCount),
     getTransactionStatus: (txHash: string, chain: string): Promise<unknown> =>
       ipcRenderer.invoke('blockchain:getTransactionStatus', txHash, chain),
+    classifyRecipients: (chainId: string, addresses: string[], tokenAddress: string, amounts?: string[]): Promise<RecipientCheckResult> =>
+      ipcRenderer.invoke('blockchain:classifyRecipients', chainId, addresses, tokenAddress, amounts),
   },
 
   // 链管理
@@ -124,5 +210,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
       ipcRenderer.invoke('token:validateAddress', tokenAddress, chainId),
     getMultipleInfo: (tokenAddresses: string[], chainId: string): Promise<unknown[]> =>
       ipcRenderer.invoke('token:getMultipleInfo', tokenAddresses, chainId),
+    probeBehavior: (tokenAddress: string, chainId: string, addresses: string[], senderAddress?: string): Promise<TokenBehaviorReport> =>
+      ipcRenderer.invoke('token:probeBehavior', tokenAddress, chainId, addresses, senderAddress),
   },
 });
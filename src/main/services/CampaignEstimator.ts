@@ -1,5 +1,7 @@
+import { LAMPORTS_PER_SOL } from '@solana/web3.js';
 import { GasService } from './GasService';
 import { ChainService } from './ChainService';
+import { SolanaService, SolanaPriorityLevel } from './SolanaService';
 import { ChainUtils } from '../utils/chain-utils';
 import type { DatabaseManager } from '../database/sqlite-schema';
 import { Logger } from '../utils/logger';
@@ -13,6 +15,8 @@ export interface EstimateRequest {
   tokenAddress: string;
   recipientCount: number;
   batchSize?: number;
+  priorityFeeLevel?: SolanaPriorityLevel; // Solana 优先费档位（默认 normal）
+  maxPriorityFeeLamports?: number; // Solana 每笔交易的优先费上限
 }
 
 export interface EstimateResult {
@@ -27,6 +31,8 @@ export interface EstimateResult {
   maxPriorityFeePerGas?: string; // EIP-1559
   isEIP1559?: boolean;
   tokenSymbol?: string; // Native token symbol (ETH, BNB, MATIC, etc.)
+  priorityFee?: string; // Solana 优先费合计 (SOL)，已计入 estimatedGasCost
+  computeUnitPrice?: string; // Solana 优先费单价 (micro-lamports / CU)
   recommendations: {
     optimalBatchSize: number;
     estimatedTimePerBatch: string; // in seconds
@@ -37,6 +43,7 @@ export interface EstimateResult {
 export class CampaignEstimator {
   private gasService: GasService;
   private chainService: ChainService;
+  private solanaService: SolanaService;
 
   // Updated gas constants based on actual usage data
   private readonly GAS_PER_TRANSFER = 21000; // Standard ETH transfer
@@ -44,6 +51,9 @@ export class CampaignEstimator {
   private readonly GAS_OVERHEAD_PER_BATCH = 80000; // Updated: Based on actual contract deployment (~80K)
   private readonly DEFAULT_BATCH_SIZE = 100;
   private readonly SECONDS_PER_BATCH = 15; // Default sending interval
+  // Solana 典型计算单元消耗（含 10% 余量），用于折算优先费
+  private readonly SOLANA_CU_PER_TRANSFER = 7000;
+  private readonly SOLANA_CU_PER_ATA_CREATION = 28000;
 
   // Chain-specific gas multipliers for better accuracy
   private readonly CHAIN_GAS_MULTIPLIERS: Record<string, number> = {
@@ -60,6 +70,7 @@ export class CampaignEstimator {
   constructor(databaseManager: DatabaseManager) {
     this.gasService = new GasService();
     this.chainService = new ChainService(databaseManager);
+    this.solanaService = new SolanaService();
   }
 
   /**
@@ -208,10 +219,20 @@ export class CampaignEstimator {
       // Assume 20% of recipients might need ATA creation
       const estimatedATACreations = Math.ceil(request.recipientCount * 0.2);
 
+      // 优先费：按全网最近的费率单价和典型计算单元消耗折算，设置了上限时按每批一笔交易封顶
+      const computeUnitPrice = await this.solanaService.getPriorityFeeEstimate(chainConfig.rpcUrl, request.priorityFeeLevel || 'normal');
+      const estimatedComputeUnits = request.recipientCount * this.SOLANA_CU_PER_TRANSFER
+        + estimatedATACreations * this.SOLANA_CU_PER_ATA_CREATION;
+      let priorityFeeLamports = (computeUnitPrice * estimatedComputeUnits) / 1_000_000;
+      if (request.maxPriorityFeeLamports) {
+        priorityFeeLamports = Math.min(priorityFeeLamports, request.maxPriorityFeeLamports * totalBatches);
+      }
+      const priorityFeeSOL = priorityFeeLamports / LAMPORTS_PER_SOL;
+
       // Calculate total fees
       const totalTransferFees = request.recipientCount * BASE_FEE_PER_TX;
       const totalATAFees = estimatedATACreations * ATA_CREATION_FEE;
-      const totalFeesSOL = totalTransferFees + totalATAFees;
+      const totalFeesSOL = totalTransferFees + totalATAFees + priorityFeeSOL;
 
       // Duration estimation
       // Solana is much faster than EVM chains
@@ -232,6 +253,8 @@ export class CampaignEstimator {
         gasPrice: BASE_FEE_PER_TX.toFixed(9), // Not really "gas price" but transaction fee
         isEIP1559: false,
         tokenSymbol: 'SOL',
+        priorityFee: priorityFeeSOL.toFixed(9),
+        computeUnitPrice: computeUnitPrice.toString(),
         recommendations: {
           optimalBatchSize,
           estimatedTimePerBatch: SECONDS_PER_SOLANA_BATCH.toString(),
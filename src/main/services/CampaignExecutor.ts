@@ -1,8 +1,15 @@
-import { ContractService } from './ContractService';
+import { ContractService, SentTransaction, SignedTransaction, RecipientTransferResult, NftTransferSpec, TokenLegTransferSpec, TokenPermit, FEE_CEILING_EXCEEDED_MESSAGE, toTokenLegTransfer, isBroadcastRejected } from './ContractService';
 import { WalletService } from './WalletService';
 import { GasService } from './GasService';
 import { BlockchainService } from './BlockchainService';
-import { SolanaService } from './SolanaService';
+import { SolanaService, SolanaBatchTransferResult, SIGNATURE_STATUS_UNKNOWN_MESSAGE } from './SolanaService';
+import { HDWalletService } from './HDWalletService';
+import { KeyVaultService } from './KeyVaultService';
+import { SignerRegistry } from './SignerRegistry';
+import { ExternalSigningService, SIGNING_CANCELLED_MESSAGE, BROADCAST_UNCONFIRMED_MESSAGE } from './ExternalSigningService';
+import { NonceManager } from './NonceManager';
+import { ReconciliationService, ReconciliationReport } from './ReconciliationService';
+import { PreflightService, DryRunReport, categorizeBatchError } from './PreflightService';
 import { ChainUtils } from '../utils/chain-utils';
 import { RetryUtils } from '../utils/retry-utils';
 import { TransactionUtils } from '../utils/transaction-utils';
@@ -15,6 +22,18 @@ import { ethers } from 'ethers';
 
 const logger = Logger.getInstance().child('CampaignExecutor');
 
+// 流水线模式下轮询在途交易回执的间隔
+const PIPELINE_POLL_INTERVAL_MS = 3000;
+// 卡住的批次最多自动加速的次数，之后只等待，由用户手动加速或取消
+const MAX_AUTO_SPEED_UPS = 3;
+// 原子批次交易上链后回滚
+const ONCHAIN_REVERT_MESSAGE = 'Transaction reverted on-chain';
+// 查找表停用后约 513 个 slot（3-4 分钟）才能关闭，按该间隔重试
+const LOOKUP_TABLE_RELEASE_DELAY_MS = 120000;
+const LOOKUP_TABLE_RELEASE_ATTEMPTS = 5;
+// 签名授权的有效期，每次开始执行时按剩余金额重新签名
+const PERMIT_VALIDITY_SECONDS = 24 * 60 * 60;
+
 
 export interface ExecutionProgress {
   campaignId: string;
@@ -30,6 +49,31 @@ export interface Recipient {
   address: string;
   amount: string;
   status: string;
+  token_id?: string | null; // NFT 活动的 token ID
+  leg_index?: number | null; // 多代币活动中记录所属的代币
+}
+
+interface PipelinedAttempt extends SentTransaction {
+  kind: 'BATCH' | 'CANCEL';
+}
+
+interface InFlightBatch {
+  batchNumber: number;
+  recipients: Recipient[];
+  addresses: string[];
+  amounts: string[];
+  totalAmount: string;
+  nonce: number;
+  attempts: PipelinedAttempt[];
+  lastSentAt: number;
+  replacing: boolean;
+  failOnCancel: boolean; // 手动取消：取消交易上链后接收者标记为失败而不是退回待发送
+}
+
+interface PipelineContext {
+  campaign: any;
+  rpcUrl: string;
+  inFlight: Map<number, InFlightBatch>;
 }
 
 export class CampaignExecutor {
@@ -39,16 +83,31 @@ export class CampaignExecutor {
   private gasService: GasService;
   private blockchainService: BlockchainService;
   private solanaService: SolanaService;
+  private keyVault: KeyVaultService;
+  private hdWallet: HDWalletService;
+  private signerRegistry: SignerRegistry;
+  private externalSigning: ExternalSigningService;
+  private nonceManager: NonceManager;
+  private reconciliation: ReconciliationService;
+  private preflight: PreflightService;
   private executionMap: Map<string, boolean> = new Map(); // Track active executions
   private pauseMap: Map<string, boolean> = new Map(); // Track pause requests
+  private pipelines: Map<string, PipelineContext> = new Map(); // 在途批次，供手动加速/取消使用
 
-  constructor(databaseManager: DatabaseManager) {
+  constructor(databaseManager: DatabaseManager, keyVault: KeyVaultService, hdWallet: HDWalletService, externalSigning: ExternalSigningService) {
     this.db = databaseManager.getDatabase();
+    this.keyVault = keyVault;
+    this.hdWallet = hdWallet;
+    this.signerRegistry = new SignerRegistry(databaseManager, hdWallet);
+    this.externalSigning = externalSigning;
     this.contractService = new ContractService();
     this.walletService = new WalletService();
     this.gasService = new GasService();
     this.blockchainService = new BlockchainService();
     this.solanaService = new SolanaService();
+    this.nonceManager = new NonceManager();
+    this.reconciliation = new ReconciliationService(this.db, chain => this.getRpcUrlForChain(chain));
+    this.preflight = new PreflightService(this.db, chain => this.getRpcUrlForChain(chain));
     logger.info('CampaignExecutor initialized');
   }
 
@@ -76,27 +135,39 @@ export class CampaignExecutor {
         throw new Error('Campaign not found');
       }
 
+      // Merkle claim campaigns pay out through the distributor contract, never through batches
+      if (campaign.distributionMode === 'MERKLE_CLAIM') {
+        throw new Error('Merkle claim campaigns cannot be executed');
+      }
+
       // Validate campaign status
       if (campaign.status !== 'READY' && campaign.status !== 'PAUSED') {
         throw new Error(`Campaign must be in READY or PAUSED status to execute (current: ${campaign.status})`);
       }
 
-      // Prepare wallet with private key
-      if (!campaign.walletPrivateKeyBase64) {
-        throw new Error('Campaign wallet private key missing');
+      // Prepare wallet with private key (decrypted from the key vault or derived from the treasury seed, main process only)
+      // External signing campaigns have no local key: every transaction is handed to the offline signer
+      let wallet: { address: string; privateKey?: string } = { address: campaign.walletAddress };
+      if (campaign.signingMode !== 'EXTERNAL') {
+        const privateKeyBase64 = await this.hdWallet.openCampaignKey(campaign);
+
+        // For Solana, keep base64 format; for EVM, export to hex format
+        const isSolana = ChainUtils.isSolanaChain(campaign.chain);
+        const privateKey = isSolana
+          ? privateKeyBase64 // Keep base64 for Solana
+          : this.walletService.exportEVMPrivateKey(privateKeyBase64); // Export to hex for EVM
+        wallet = { address: campaign.walletAddress, privateKey };
       }
 
-      // For Solana, keep base64 format; for EVM, export to hex format
-      const isSolana = ChainUtils.isSolanaChain(campaign.chain);
-      const privateKey = isSolana
-        ? campaign.walletPrivateKeyBase64 // Keep base64 for Solana
-        : this.walletService.exportEVMPrivateKey(campaign.walletPrivateKeyBase64); // Export to hex for EVM
-      const wallet = { privateKey };
-
       // Get pending recipients
       const recipients = await this.getPendingRecipients(campaignId);
       if (recipients.length === 0) {
-        await this.updateCampaignStatus(campaignId, 'COMPLETED');
+        // 释放计划中尚未解锁的批次留待到期后再发送
+        if (await this.getPendingRecipientCount(campaignId) === 0) {
+          await this.updateCampaignStatus(campaignId, 'COMPLETED');
+          this.releaseLookupTable(campaign.id, campaign.chain, campaign.lookupTableAddress);
+          await this.revokeLeftoverAllowance(campaign, wallet);
+        }
         return;
       }
 
@@ -106,178 +177,192 @@ export class CampaignExecutor {
       // Update campaign status
       await this.updateCampaignStatus(campaignId, 'SENDING');
 
-      // Ensure unlimited approval for EVM chains before starting batches
-      // Skip approval for native tokens (ETH/BNB/MATIC/etc)
-      if (!ChainUtils.isSolanaChain(campaign.chain) && !isNativeToken(campaign.tokenAddress)) {
-        await this.ensureUnlimitedApproval(campaign, wallet);
+      // Ensure token allowance for EVM chains before starting batches (signed permit when supported, otherwise approve)
+      // Skip approval for native tokens (ETH/BNB/MATIC/etc); multi-token campaigns approve each ERC20 token
+      if (campaign.tokenLegs) {
+        await this.ensureTokenLegAllowances(campaign, wallet);
+      } else if (!ChainUtils.isSolanaChain(campaign.chain) && !isNativeToken(campaign.tokenAddress)) {
+        await this.ensureTokenAllowance(campaign, wallet, recipients);
       }
 
-      // Process batches using pre-allocated batches
-      let batchNumber = 1;
-      while (true) {
-        // Check for pause request
-        if (this.pauseMap.get(campaignId)) {
-          await this.updateCampaignStatus(campaignId, 'PAUSED');
-          console.log(`[CampaignExecutor] Campaign paused at batch ${batchNumber}`);
-          break;
-        }
+      // Solana 本机签名的 SPL 活动用地址查找表压缩 v0 交易
+      if (ChainUtils.isSolanaChain(campaign.chain) && campaign.signingMode !== 'EXTERNAL' && !isNativeToken(campaign.tokenAddress)) {
+        await this.ensureLookupTable(campaign, wallet);
+      }
 
-        // Get next batch
-        const batchData = await this.getNextBatchRecipients(campaignId);
-        if (!batchData) {
-          console.log(`[CampaignExecutor] No more batches to process. Completed all batches.`);
-          break;
-        }
+      // EVM 本地签名按 nonce 跟踪在途批次（支持流水线与加速/取消），其余逐批发送并等待确认
+      const pipelined = !ChainUtils.isSolanaChain(campaign.chain) && campaign.signingMode !== 'EXTERNAL';
 
-        const { recipients: batch } = batchData;
+      if (pipelined) {
+        await this.executeEvmPipeline(campaignId, campaign, wallet, recipients.length, totalBatches, onProgress);
+      } else {
+        // Process batches using pre-allocated batches
+        let batchNumber = 1;
+        while (true) {
+          // Check for pause request
+          if (this.pauseMap.get(campaignId)) {
+            await this.updateCampaignStatus(campaignId, 'PAUSED');
+            console.log(`[CampaignExecutor] Campaign paused at batch ${batchNumber}`);
+            break;
+          }
 
-        // Pre-batch balance check for EVM chains
-        if (!ChainUtils.isSolanaChain(campaign.chain)) {
-          try {
-            const rpcUrl = await this.getRpcUrlForChain(campaign.chain);
-            const provider = new ethers.JsonRpcProvider(rpcUrl);
-            const walletInstance = new ethers.Wallet(wallet.privateKey, provider);
+          // Get next batch
+          const batchData = await this.getNextBatchRecipients(campaignId);
+          if (!batchData) {
+            console.log(`[CampaignExecutor] No more batches to process. Completed all batches.`);
+            break;
+          }
 
-            // Check native balance for gas
-            const nativeBalance = await provider.getBalance(walletInstance.address);
-            console.log(`[Batch ${batchNumber}] Native balance: ${ethers.formatEther(nativeBalance)} ETH`);
+          const { recipients: batch } = batchData;
 
-            // Early warning if balance is running low
-            if (nativeBalance < ethers.parseEther("0.001")) { // Less than 0.001 ETH
-              console.warn(`[Batch ${batchNumber}] ⚠️ Low native balance warning: ${ethers.formatEther(nativeBalance)} ETH remaining`);
+          // Pre-batch balance check for EVM chains
+          if (!ChainUtils.isSolanaChain(campaign.chain)) {
+            try {
+              const rpcUrl = await this.getRpcUrlForChain(campaign.chain);
+              const provider = new ethers.JsonRpcProvider(rpcUrl);
+
+              // Check native balance for gas
+              const nativeBalance = await provider.getBalance(wallet.address);
+              console.log(`[Batch ${batchNumber}] Native balance: ${ethers.formatEther(nativeBalance)} ETH`);
+
+              // Early warning if balance is running low
+              if (nativeBalance < ethers.parseEther("0.001")) { // Less than 0.001 ETH
+                console.warn(`[Batch ${batchNumber}] ⚠️ Low native balance warning: ${ethers.formatEther(nativeBalance)} ETH remaining`);
+              }
+            } catch (balanceError) {
+              console.warn(`[Batch ${batchNumber}] Balance check failed:`, balanceError);
             }
-          } catch (balanceError) {
-            console.warn(`[Batch ${batchNumber}] Balance check failed:`, balanceError);
           }
-        }
 
-        try {
-          // Execute batch transfer directly without retry to avoid duplicate transactions
-          // For financial operations, we prefer safety over automatic retry
-          console.log(`[Batch ${batchNumber}] Executing pre-allocated batch of ${batch.length} recipients...`);
-
-          const result = await this.executeBatch(
-            campaignId,
-            campaign,
-            batch,
-            wallet,
-            batchNumber,
-            totalBatches
-          );
+          try {
+            // Execute batch transfer directly without retry to avoid duplicate transactions
+            // For financial operations, we prefer safety over automatic retry
+            console.log(`[Batch ${batchNumber}] Executing pre-allocated batch of ${batch.length} recipients...`);
 
-          // 批量更新接收者状态为 SENT，并设置交易哈希
-          await this.updateRecipientStatusesTransaction(
-            campaignId,
-            batch.map(r => ({ address: r.address, status: 'SENT', txHash: result.txHash }))
-          );
+            const result = await this.executeBatch(
+              campaignId,
+              campaign,
+              batch,
+              wallet,
+              batchData.batchNumber,
+              totalBatches
+            );
+
+            // 批量更新接收者状态（尽力模式按回执事件区分成功与跳过），并设置交易哈希
+            await this.updateRecipientStatusesTransaction(
+              campaignId,
+              this.getBatchResultUpdates(batch, result.txHash, result.transfers)
+            );
+
+            // Update progress
+            const completedCount = await this.getCompletedRecipientCount(campaignId);
+            const failedCount = await this.getFailedRecipientCount(campaignId);
+
+            if (onProgress) {
+              onProgress({
+                campaignId,
+                totalRecipients: recipients.length,
+                completedRecipients: completedCount,
+                failedRecipients: failedCount,
+                status: 'EXECUTING',
+                currentBatch: batchNumber,
+                totalBatches,
+              });
+            }
+
+            batchNumber++; // Increment for next iteration
+
+            // Small delay between batches to avoid rate limiting
+            await new Promise(resolve => setTimeout(resolve, 2000));
+          } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            const errorStack = error instanceof Error ? error.stack : undefined;
+
+            // 外部签名请求被取消：批次未发送，接收者退回 PENDING 并暂停活动
+            if (errorMessage === SIGNING_CANCELLED_MESSAGE) {
+              await this.updateRecipientStatusesTransaction(
+                campaignId,
+                batch.map(r => ({ address: r.address, status: 'PENDING', txHash: undefined }))
+              );
+              this.pauseMap.set(campaignId, true);
+              continue;
+            }
 
-          // Update progress
-          const completedCount = await this.getCompletedRecipientCount(campaignId);
-          const failedCount = await this.getFailedRecipientCount(campaignId);
+            // 已广播但结果未知（超时未上链、广播出错或 Solana 签名状态查询持续失败）：交易可能已经或仍会打包，
+            // 接收者保持 PROCESSING，暂停活动，恢复时由对账决定
+            if (errorMessage === BROADCAST_UNCONFIRMED_MESSAGE || errorMessage === SIGNATURE_STATUS_UNKNOWN_MESSAGE) {
+              logger.warn('Batch broadcast not confirmed in time, leaving it for reconciliation', { campaignId, batchNumber });
+              this.pauseMap.set(campaignId, true);
+              continue;
+            }
+
+            // 失败隔离：只将回滚的接收者标记为失败，其余退回待发送后按同一批次号重新发送
+            if (await this.isolateFailedBatch(campaignId, campaign, batch, errorMessage)) {
+              continue;
+            }
 
-          if (onProgress) {
-            onProgress({
+            console.error(`❌ [Batch ${batchNumber}] Failed permanently:`, {
+              error: errorMessage,
+              stack: errorStack,
+              batchSize: batch.length,
               campaignId,
-              totalRecipients: recipients.length,
-              completedRecipients: completedCount,
-              failedRecipients: failedCount,
-              status: 'EXECUTING',
-              currentBatch: batchNumber,
-              totalBatches,
+              chain: campaign.chain
             });
-          }
 
-          batchNumber++; // Increment for next iteration
-
-          // Small delay between batches to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          const errorStack = error instanceof Error ? error.stack : undefined;
-
-          console.error(`❌ [Batch ${batchNumber}] Failed permanently:`, {
-            error: errorMessage,
-            stack: errorStack,
-            batchSize: batch.length,
-            campaignId,
-            chain: campaign.chain
-          });
-
-          // 批量更新接收者状态为 FAILED
-          await this.updateRecipientStatusesTransaction(
-            campaignId,
-            batch.map(r => ({ address: r.address, status: 'FAILED', txHash: undefined }))
-          );
-
-          // Enhanced error categorization for financial operations
-          let errorCategory = 'UNKNOWN_ERROR';
-          let isRetryableManually = false;
-          let suggestedAction = '';
-
-          if (errorMessage.includes('insufficient funds')) {
-            errorCategory = 'INSUFFICIENT_BALANCE';
-            suggestedAction = 'STOP_CAMPAIGN'; // Stop immediately to prevent fund loss
-          } else if (errorMessage.includes('gas')) {
-            errorCategory = 'GAS_ERROR';
-            isRetryableManually = true;
-            suggestedAction = 'ADJUST_GAS';
-          } else if (errorMessage.includes('nonce')) {
-            errorCategory = 'NONCE_ERROR';
-            isRetryableManually = true;
-            suggestedAction = 'CHECK_NONCE';
-          } else if (errorMessage.includes('network') || errorMessage.includes('timeout')) {
-            errorCategory = 'NETWORK_ERROR';
-            isRetryableManually = true;
-            suggestedAction = 'WAIT_AND_RETRY';
-          } else if (errorMessage.includes('revert')) {
-            errorCategory = 'CONTRACT_REVERT';
-            suggestedAction = 'CHECK_CONTRACT'; // Might need contract investigation
-          }
+            // 批量更新接收者状态为 FAILED
+            await this.updateRecipientStatusesTransaction(
+              campaignId,
+              batch.map(r => ({ address: r.address, status: 'FAILED', txHash: undefined, errorMessage }))
+            );
+
+            // Enhanced error categorization for financial operations (shared with pre-flight simulation)
+            const { category: errorCategory, suggestedAction } = categorizeBatchError(errorMessage);
+
+            // 批量更新接收者状态已在上面的事务中完成
+
+            // Increment batch number even on error
+            batchNumber++;
+
+            // Provide specific guidance based on error type
+            console.error(`❌ [Batch ${batchNumber - 1}] Failed with ${errorCategory}: ${errorMessage}`);
+
+            switch (suggestedAction) {
+              case 'STOP_CAMPAIGN':
+                console.error(`🛑 [Batch ${batchNumber - 1}] CRITICAL: Insufficient funds detected.`);
+                console.error(`💡 Recommendation: Add more funds to wallet before retrying failed batches`);
+                console.error(`💡 Use the "Retry Failed Transactions" feature after adding funds`);
+                break;
+              case 'ADJUST_GAS':
+                console.error(`⚙️ [Batch ${batchNumber - 1}] Gas-related error detected.`);
+                console.error(`💡 Recommendation: Wait for gas prices to decrease or manually retry with higher gas`);
+                break;
+              case 'CHECK_NONCE':
+                console.error(`🔢 [Batch ${batchNumber - 1}] Nonce issue detected.`);
+                console.error(`💡 Recommendation: Wait a few minutes and manually retry this batch`);
+                break;
+              case 'WAIT_AND_RETRY':
+                console.error(`🌐 [Batch ${batchNumber - 1}] Network issue detected.`);
+                console.error(`💡 Recommendation: Wait for network stability and manually retry this batch`);
+                break;
+              case 'CHECK_CONTRACT':
+                console.error(`📋 [Batch ${batchNumber - 1}] Contract execution failed.`);
+                console.error(`💡 Recommendation: Verify contract state and token balances`);
+                break;
+              default:
+                console.error(`❓ [Batch ${batchNumber - 1}] Unknown error. Manual investigation required`);
+            }
 
-          // 批量更新接收者状态已在上面的事务中完成
-
-          // Increment batch number even on error
-          batchNumber++;
-
-          // Provide specific guidance based on error type
-          console.error(`❌ [Batch ${batchNumber - 1}] Failed with ${errorCategory}: ${errorMessage}`);
-
-          switch (suggestedAction) {
-            case 'STOP_CAMPAIGN':
-              console.error(`🛑 [Batch ${batchNumber - 1}] CRITICAL: Insufficient funds detected.`);
-              console.error(`💡 Recommendation: Add more funds to wallet before retrying failed batches`);
-              console.error(`💡 Use the "Retry Failed Transactions" feature after adding funds`);
-              break;
-            case 'ADJUST_GAS':
-              console.error(`⚙️ [Batch ${batchNumber - 1}] Gas-related error detected.`);
-              console.error(`💡 Recommendation: Wait for gas prices to decrease or manually retry with higher gas`);
-              break;
-            case 'CHECK_NONCE':
-              console.error(`🔢 [Batch ${batchNumber - 1}] Nonce issue detected.`);
-              console.error(`💡 Recommendation: Wait a few minutes and manually retry this batch`);
-              break;
-            case 'WAIT_AND_RETRY':
-              console.error(`🌐 [Batch ${batchNumber - 1}] Network issue detected.`);
-              console.error(`💡 Recommendation: Wait for network stability and manually retry this batch`);
-              break;
-            case 'CHECK_CONTRACT':
-              console.error(`📋 [Batch ${batchNumber - 1}] Contract execution failed.`);
-              console.error(`💡 Recommendation: Verify contract state and token balances`);
-              break;
-            default:
-              console.error(`❓ [Batch ${batchNumber - 1}] Unknown error. Manual investigation required`);
-          }
+            // For critical errors, consider stopping the campaign
+            if (suggestedAction === 'STOP_CAMPAIGN') {
+              console.error(`🚨 [Batch ${batchNumber - 1}] Campaign execution stopped due to critical error`);
+              await this.updateCampaignStatus(campaignId, 'PAUSED');
+              console.log(`💡 Campaign has been paused. Fix the issue and use "Resume Campaign" to continue`);
+              break; // Exit the batch processing loop
+            }
 
-          // For critical errors, consider stopping the campaign
-          if (suggestedAction === 'STOP_CAMPAIGN') {
-            console.error(`🚨 [Batch ${batchNumber - 1}] Campaign execution stopped due to critical error`);
-            await this.updateCampaignStatus(campaignId, 'PAUSED');
-            console.log(`💡 Campaign has been paused. Fix the issue and use "Resume Campaign" to continue`);
-            break; // Exit the batch processing loop
+            // For other errors, continue to next batch
+            console.log(`⚠️ [Batch ${batchNumber - 1}] Continuing to next batch. Manual retry recommended for failed batch.`);
           }
-
-          // For other errors, continue to next batch
-          console.log(`⚠️ [Batch ${batchNumber - 1}] Continuing to next batch. Manual retry recommended for failed batch.`);
         }
       }
 
@@ -285,8 +370,15 @@ export class CampaignExecutor {
       const finalCompleted = await this.getCompletedRecipientCount(campaignId);
       const finalFailed = await this.getFailedRecipientCount(campaignId);
       const finalPending = await this.getPendingRecipientCount(campaignId);
-
-      if (finalPending === 0) {
+      const finalInDoubt = await this.getProcessingRecipientCount(campaignId);
+
+      if (finalInDoubt > 0) {
+        // 结果无法确认的批次留在 PROCESSING，暂停活动，恢复时先与链上对账
+        await this.updateCampaignStatus(campaignId, 'PAUSED');
+        logger.warn('Campaign paused with unconfirmed batches awaiting reconciliation', { campaignId, recipients: finalInDoubt });
+      } else if (finalPending === 0) {
+        this.releaseLookupTable(campaign.id, campaign.chain, campaign.lookupTableAddress);
+        await this.revokeLeftoverAllowance(campaign, wallet);
         if (finalFailed === 0) {
           await this.updateCampaignStatus(campaignId, 'COMPLETED');
           // Campaign completed successfully
@@ -296,9 +388,31 @@ export class CampaignExecutor {
           // Campaign completed with errors
           console.log(`Campaign completed with errors. ${finalCompleted} succeeded, ${finalFailed} failed.`);
         }
+      } else {
+        // 已解锁的批次全部发送完毕，剩余批次等待解锁后由释放调度再次执行
+        const current = await this.getCampaign(campaignId);
+        const dueRecipients = await this.getPendingRecipients(campaignId);
+        if (current?.status === 'SENDING' && dueRecipients.length === 0) {
+          await this.updateCampaignStatus(campaignId, 'READY');
+          logger.info('Vesting tranches sent, waiting for next unlock', { campaignId, lockedRecipients: finalPending });
+        }
       }
 
     } catch (error) {
+      // 授权交易的外部签名请求被取消：尚未发送任何批次，直接暂停
+      if (error instanceof Error && error.message === SIGNING_CANCELLED_MESSAGE) {
+        await this.updateCampaignStatus(campaignId, 'PAUSED');
+        logger.info('Campaign paused while waiting for external signature', { campaignId });
+        return;
+      }
+
+      // 授权交易已广播但结果未知：暂停，恢复时重新检查授权额度
+      if (error instanceof Error && error.message === BROADCAST_UNCONFIRMED_MESSAGE) {
+        await this.updateCampaignStatus(campaignId, 'PAUSED');
+        logger.warn('Approval transaction not confirmed in time, campaign paused', { campaignId });
+        return;
+      }
+
       console.error('[CampaignExecutor] ❌ Campaign execution failed:', {
         campaignId,
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -325,21 +439,32 @@ export class CampaignExecutor {
     wallet: any,
     batchNumber: number,
     totalBatches: number
-  ): Promise<{ txHash: string; gasUsed: number }> {
+  ): Promise<{ txHash: string; gasUsed: number; transfers?: RecipientTransferResult[] }> {
     // Normalize addresses based on chain type
     const isSolana = ChainUtils.isSolanaChain(campaign.chain);
     const addresses = isSolana
       ? recipients.map(r => r.address) // Solana addresses don't need normalization
       : recipients.map(r => ethers.getAddress(r.address.toLowerCase())); // EVM addresses need checksum
     const amounts = recipients.map(r => r.amount);
+    const nft = this.getNftTransfer(campaign, recipients);
+    const legs = this.getTokenLegTransfer(campaign, recipients);
 
     try {
       // Get RPC URL based on chain
       const rpcUrl = await this.getRpcUrlForChain(campaign.chain);
 
+      // 发送前预检（外部签名同样先模拟，避免签名一笔必然回滚的交易），模拟失败的批次不广播
+      const preflight = await this.preflight.simulateBatch(campaign, rpcUrl, addresses, amounts, nft?.tokenIds, this.getLegIndexes(campaign, recipients));
+      if (!preflight.success) {
+        throw new Error(`Pre-flight check failed: ${preflight.error}`);
+      }
+
       let result;
 
-      if (isSolana) {
+      if (campaign.signingMode === 'EXTERNAL') {
+        // 外部签名：写出未签名交易，等待签名导入后广播
+        result = await this.sendWithExternalSigner(campaign, rpcUrl, addresses, amounts, batchNumber, nft, legs);
+      } else if (isSolana) {
         // Solana批量转账 - 直接转账，不需要授权和合约
         result = await this.solanaService.batchTransfer(
           rpcUrl,
@@ -347,8 +472,12 @@ export class CampaignExecutor {
           addresses,
           amounts,
           campaign.tokenAddress,
-          campaign.batchSize  // 传递用户设置的批次大小
+          { netDelivery: campaign.netDelivery, lookupTableAddress: campaign.lookupTableAddress, priorityFee: campaign.priorityFee }
         );
+        // 每笔交易单独成败：整批失败按批次失败处理（可失败隔离），部分失败按接收者所在交易的结果记录
+        if (result.status === 'failed') {
+          throw new Error(result.details?.find(detail => detail.error)?.error || 'Solana batch transfer failed');
+        }
       } else {
         // EVM batch transfer process
         result = await this.contractService.batchTransfer(
@@ -357,7 +486,11 @@ export class CampaignExecutor {
           wallet.privateKey,
           addresses,
           amounts,
-          campaign.tokenAddress
+          campaign.tokenAddress,
+          campaign.batchMode,
+          nft,
+          campaign.tokenPermit,
+          legs
         );
       }
 
@@ -374,7 +507,8 @@ export class CampaignExecutor {
         toAddress: campaign.contractAddress,
         amount: totalAmount,
         gasUsed: parseFloat(result.gasUsed || '0'),
-        status: 'PENDING'
+        status: 'PENDING',
+        batchNumber
       });
 
       // Batch sent
@@ -426,13 +560,31 @@ export class CampaignExecutor {
         this.updateCampaignGasCost(campaignId, result.gasUsed.toString());
       }
 
+      // EVM 批次是原子的，链上回滚即没有任何接收者到账，交由发送循环按失败处理
+      if (!isSolana && confirmationResult.finalStatus === 'failed') {
+        throw new Error(ONCHAIN_REVERT_MESSAGE);
+      }
+
+      // 尽力模式：每个接收者的结果以回执事件为准（外部签名发送的交易在这里读取回执）
+      let transfers: RecipientTransferResult[] | undefined;
+      if (isSolana && (result as SolanaBatchTransferResult).status === 'partial') {
+        transfers = this.getSolanaTransferResults(campaign, addresses, amounts, result as SolanaBatchTransferResult);
+      } else if (!isSolana && campaign.batchMode === 'BEST_EFFORT' && confirmationResult.confirmed) {
+        transfers = (result as { transfers?: RecipientTransferResult[] }).transfers;
+        if (!transfers) {
+          const receipt = await new ethers.JsonRpcProvider(rpcUrl).getTransactionReceipt(result.transactionHash);
+          transfers = receipt ? this.contractService.parseTransferResults(receipt, campaign.contractAddress) : [];
+        }
+      }
+
       // Batch confirmed
       console.log(`Batch ${batchNumber}/${totalBatches} confirmed. Gas used: ${result.gasUsed}`);
 
       // Return transaction information for batch status tracking
       return {
         txHash: result.transactionHash,
-        gasUsed: parseFloat(result.gasUsed || '0')
+        gasUsed: parseFloat(result.gasUsed || '0'),
+        transfers
       };
 
     } catch (error) {
@@ -441,18 +593,680 @@ export class CampaignExecutor {
     }
   }
 
+  /**
+   * EVM 本地签名的批次发送：同一钱包最多 pipelineDepth 个批次同时在途（深度 1 即逐批确认），按回执乱序确认
+   * 在途交易超过 stuckTimeoutSeconds 未上链时自动加价替换（不超过费用上限）；
+   * 交易被节点丢弃且无法重发时发送取消交易填补 nonce 空洞，取消交易上链后该批次退回待发送
+   */
+  private async executeEvmPipeline(
+    campaignId: string,
+    campaign: any,
+    wallet: { address: string; privateKey?: string },
+    totalRecipients: number,
+    totalBatches: number,
+    onProgress?: (progress: ExecutionProgress) => void
+  ): Promise<void> {
+    const rpcUrl = await this.getRpcUrlForChain(campaign.chain);
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const { chainId } = await provider.getNetwork();
+    const inFlight = new Map<number, InFlightBatch>();
+    let exhausted = false;
+
+    this.pipelines.set(campaignId, { campaign, rpcUrl, inFlight });
+    logger.info('Starting pipelined execution', { campaignId, pipelineDepth: campaign.pipelineDepth });
+
+    try {
+      while (true) {
+        // 补满在途批次；暂停后不再发出新批次，只等待在途批次确认
+        while (!exhausted && !this.pauseMap.get(campaignId) && inFlight.size < campaign.pipelineDepth) {
+          const batchData = await this.getNextBatchRecipients(campaignId);
+          if (!batchData) {
+            exhausted = true;
+            break;
+          }
+
+          const addresses = batchData.recipients.map(r => ethers.getAddress(r.address.toLowerCase()));
+          const amounts = batchData.recipients.map(r => r.amount);
+          const nft = this.getNftTransfer(campaign, batchData.recipients);
+          const totalAmount = amounts.reduce((sum, amt) => sum.plus(new BigNumber(amt || '0')), new BigNumber(0)).toString();
+
+          // 发送前预检，模拟失败的批次不广播也不占用 nonce
+          const preflight = await this.preflight.simulateBatch(
+            campaign, rpcUrl, addresses, amounts, nft?.tokenIds, this.getLegIndexes(campaign, batchData.recipients)
+          );
+          if (!preflight.success) {
+            const errorMessage = `Pre-flight check failed: ${preflight.error}`;
+            logger.warn('Batch failed pre-flight simulation, not broadcast', { campaignId, batchNumber: batchData.batchNumber, category: preflight.category, error: preflight.error });
+            if (await this.isolateFailedBatch(campaignId, campaign, batchData.recipients, errorMessage)) {
+              continue;
+            }
+            await this.updateRecipientStatusesTransaction(
+              campaignId,
+              batchData.recipients.map(r => ({ address: r.address, status: 'FAILED', txHash: undefined, errorMessage }))
+            );
+            if (categorizeBatchError(errorMessage).suggestedAction === 'STOP_CAMPAIGN') {
+              this.pauseMap.set(campaignId, true);
+            }
+            continue;
+          }
+
+          const nonce = await this.nonceManager.reserve(provider, chainId, wallet.address);
+
+          // 未发送的批次：归还 nonce（nonce 冲突时以链上计数重新同步），接收者标记为失败
+          const failSubmission = async (error: unknown) => {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            if (errorMessage.includes('nonce')) {
+              this.nonceManager.resync(chainId, wallet.address);
+            } else {
+              this.nonceManager.release(chainId, wallet.address, nonce);
+            }
+
+            logger.error('Failed to submit pipelined batch', error as Error, { campaignId, batchNumber: batchData.batchNumber, nonce });
+            await this.updateRecipientStatusesTransaction(
+              campaignId,
+              batchData.recipients.map(r => ({ address: r.address, status: 'FAILED', txHash: undefined, errorMessage }))
+            );
+
+            if (errorMessage.includes('insufficient funds')) {
+              // 余额不足：停止发出新批次，等在途批次确认后暂停
+              this.pauseMap.set(campaignId, true);
+            }
+          };
+
+          // 先在本地签名并记录交易哈希与 nonce，再广播：广播出错时交易可能已被节点接受
+          let signed: SignedTransaction;
+          try {
+            signed = await this.contractService.signBatchTransfer(
+              campaign.contractAddress,
+              rpcUrl,
+              wallet.privateKey!,
+              addresses,
+              amounts,
+              campaign.tokenAddress,
+              nonce,
+              undefined,
+              this.getFeeCeiling(campaign),
+              campaign.batchMode,
+              nft,
+              campaign.tokenPermit,
+              this.getTokenLegTransfer(campaign, batchData.recipients)
+            );
+          } catch (error) {
+            await failSubmission(error);
+            continue;
+          }
+
+          const { signedTransaction, ...sent } = signed;
+          const batch: InFlightBatch = {
+            batchNumber: batchData.batchNumber,
+            recipients: batchData.recipients,
+            addresses,
+            amounts,
+            totalAmount,
+            nonce,
+            attempts: [],
+            lastSentAt: Date.now(),
+            replacing: false,
+            failOnCancel: false,
+          };
+          await this.addPipelinedAttempt(campaignId, campaign, batch, 'BATCH', sent);
+          inFlight.set(nonce, batch);
+
+          try {
+            await this.contractService.broadcastSignedTransaction(rpcUrl, signedTransaction);
+            logger.info('Batch transfer submitted', { campaignId, txHash: sent.hash, nonce });
+          } catch (error) {
+            if (!isBroadcastRejected(error)) {
+              // 结果未知：保持在途并按哈希跟踪，接收者保持 PROCESSING；交易不在内存池时按卡住批次重发同一 nonce，
+              // nonce 被其他交易占用时交给对账（reconcileEvmBatch）
+              logger.warn('Batch broadcast result unknown, tracking it as in flight', {
+                campaignId,
+                batchNumber: batchData.batchNumber,
+                nonce,
+                txHash: sent.hash,
+                error: error instanceof Error ? error.message : String(error),
+              });
+              continue;
+            }
+
+            inFlight.delete(nonce);
+            await this.updateTransactionStatus(sent.hash, 'FAILED');
+            await failSubmission(error);
+          }
+        }
+
+        if (inFlight.size === 0) {
+          break;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, PIPELINE_POLL_INTERVAL_MS));
+
+        for (const batch of [...inFlight.values()]) {
+          try {
+            const resolved = await this.pollInFlightBatch(campaignId, campaign, batch, provider, rpcUrl, chainId, wallet);
+            if (!resolved) {
+              continue;
+            }
+
+            inFlight.delete(batch.nonce);
+            // 结束的批次可能把部分接收者退回待发送（取消交易上链、失败隔离），重新检查待发送队列
+            exhausted = false;
+            if (onProgress) {
+              onProgress({
+                campaignId,
+                totalRecipients,
+                completedRecipients: await this.getCompletedRecipientCount(campaignId),
+                failedRecipients: await this.getFailedRecipientCount(campaignId),
+                status: 'EXECUTING',
+                currentBatch: batch.batchNumber,
+                totalBatches,
+              });
+            }
+          } catch (error) {
+            // 轮询失败（RPC 抖动等）下一轮重试，不影响其他在途批次
+            logger.warn('Failed to poll in-flight batch', { campaignId, batchNumber: batch.batchNumber, error: error instanceof Error ? error.message : String(error) });
+          }
+        }
+      }
+    } finally {
+      this.pipelines.delete(campaignId);
+    }
+
+    if (this.pauseMap.get(campaignId)) {
+      await this.updateCampaignStatus(campaignId, 'PAUSED');
+      console.log(`[CampaignExecutor] Pipelined campaign paused after draining in-flight batches`);
+    }
+  }
+
+  /**
+   * 检查在途批次：任一尝试（原交易、替换或取消交易）有回执即决定批次结果，返回是否已结束
+   */
+  private async pollInFlightBatch(
+    campaignId: string,
+    campaign: any,
+    batch: InFlightBatch,
+    provider: ethers.JsonRpcProvider,
+    rpcUrl: string,
+    chainId: bigint,
+    wallet: { address: string; privateKey?: string }
+  ): Promise<boolean> {
+    for (const attempt of [...batch.attempts]) {
+      const receipt = await provider.getTransactionReceipt(attempt.hash);
+      if (receipt) {
+        await this.resolveInFlightBatch(campaignId, campaign, batch, attempt, receipt);
+        return true;
+      }
+    }
+
+    // 手动加速/取消进行中时不做自动处理
+    if (batch.replacing || Date.now() - batch.lastSentAt < campaign.stuckTimeoutSeconds * 1000) {
+      return false;
+    }
+
+    // nonce 已被使用：可能是自己的某次尝试在上面查回执之后才上链（或节点回执滞后），再查一遍所有尝试的回执
+    const confirmedNonce = await provider.getTransactionCount(wallet.address, 'latest');
+    if (confirmedNonce > batch.nonce) {
+      for (const attempt of [...batch.attempts]) {
+        const receipt = await provider.getTransactionReceipt(attempt.hash);
+        if (receipt) {
+          await this.resolveInFlightBatch(campaignId, campaign, batch, attempt, receipt);
+          return true;
+        }
+      }
+
+      // 仍然没有回执时无法确认批次是否执行：交给对账依据链上证据（转账事件、calldata）判断，
+      // 证据不足的接收者保持 PROCESSING 或标记为待核对，不直接退回待发送，避免重复发放
+      logger.warn('Nonce consumed without a receipt for any attempt, reconciling batch', {
+        campaignId,
+        batchNumber: batch.batchNumber,
+        nonce: batch.nonce
+      });
+      this.nonceManager.resync(chainId, wallet.address);
+      await this.reconciliation.reconcileCampaign(campaign, 'NONCE_CONSUMED', [batch.batchNumber]);
+      return true;
+    }
+
+    await this.replaceStuckBatch(campaignId, campaign, batch, provider, rpcUrl, wallet.privateKey!);
+    return false;
+  }
+
+  /**
+   * 自动处理卡住的批次：加价重发相同的批量转账，达到费用上限或自动加速次数后继续等待（可手动加速或取消）；
+   * 交易已被节点丢弃且无法重发时改发取消交易，避免后续 nonce 一直排在空洞之后
+   */
+  private async replaceStuckBatch(
+    campaignId: string,
+    campaign: any,
+    batch: InFlightBatch,
+    provider: ethers.JsonRpcProvider,
+    rpcUrl: string,
+    privateKey: string
+  ): Promise<void> {
+    const last = batch.attempts[batch.attempts.length - 1];
+    const dropped = !(await provider.getTransaction(last.hash));
+    const speedUps = batch.attempts.filter(attempt => attempt.kind === 'BATCH').length - 1;
+
+    // 已在取消中，或自动加速次数用完且交易仍在内存池中：只等待
+    if (!dropped && (last.kind === 'CANCEL' || speedUps >= MAX_AUTO_SPEED_UPS)) {
+      batch.lastSentAt = Date.now();
+      return;
+    }
+
+    logger.warn(dropped ? 'In-flight batch was dropped, rebroadcasting' : 'In-flight batch is stuck, speeding up', {
+      campaignId,
+      batchNumber: batch.batchNumber,
+      nonce: batch.nonce,
+      attempts: batch.attempts.length
+    });
+
+    batch.replacing = true;
+    try {
+      await this.sendReplacement(campaignId, campaign, batch, rpcUrl, privateKey, last.kind);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes(FEE_CEILING_EXCEEDED_MESSAGE) || !dropped) {
+        logger.warn('Could not replace stuck batch, waiting for the pending transaction', { campaignId, nonce: batch.nonce, error: errorMessage });
+        batch.lastSentAt = Date.now();
+        return;
+      }
+
+      logger.warn('Rebroadcast failed, cancelling nonce instead', { campaignId, nonce: batch.nonce, error: errorMessage });
+      await this.sendReplacement(campaignId, campaign, batch, rpcUrl, privateKey, 'CANCEL');
+    } finally {
+      batch.replacing = false;
+    }
+  }
+
+  /**
+   * 以同一 nonce 发送加价的替换交易（批量转账或取消交易），并记录被替换的原交易
+   */
+  private async sendReplacement(
+    campaignId: string,
+    campaign: any,
+    batch: InFlightBatch,
+    rpcUrl: string,
+    privateKey: string,
+    kind: PipelinedAttempt['kind']
+  ): Promise<SentTransaction> {
+    const last = batch.attempts[batch.attempts.length - 1];
+    const feeCeiling = this.getFeeCeiling(campaign);
+
+    const sent = kind === 'CANCEL'
+      ? await this.contractService.sendCancelTransaction(rpcUrl, privateKey, batch.nonce, last, feeCeiling)
+      : await this.contractService.sendBatchTransfer(
+          campaign.contractAddress,
+          rpcUrl,
+          privateKey,
+          batch.addresses,
+          batch.amounts,
+          campaign.tokenAddress,
+          batch.nonce,
+          last,
+          feeCeiling,
+          campaign.batchMode,
+          this.getNftTransfer(campaign, batch.recipients),
+          campaign.tokenPermit,
+          this.getTokenLegTransfer(campaign, batch.recipients)
+        );
+
+    await this.addPipelinedAttempt(campaignId, campaign, batch, kind, sent);
+    return sent;
+  }
+
+  /**
+   * 手动加速：以更高费用重发该交易所属批次
+   */
+  async speedUpTransaction(campaignId: string, txHash: string): Promise<string> {
+    const sent = await this.replaceInFlightTransaction(campaignId, txHash, 'BATCH');
+    return sent.hash;
+  }
+
+  /**
+   * 手动取消：用同 nonce 的 0 金额自转账替换，取消成功后该批次接收者标记为失败，可通过重试失败交易重新发送
+   */
+  async cancelTransaction(campaignId: string, txHash: string): Promise<string> {
+    const sent = await this.replaceInFlightTransaction(campaignId, txHash, 'CANCEL');
+    return sent.hash;
+  }
+
+  private async replaceInFlightTransaction(
+    campaignId: string,
+    txHash: string,
+    kind: PipelinedAttempt['kind']
+  ): Promise<SentTransaction> {
+    const pipeline = this.pipelines.get(campaignId);
+    const batch = pipeline && [...pipeline.inFlight.values()].find(inFlight =>
+      inFlight.attempts.some(attempt => attempt.hash.toLowerCase() === txHash.toLowerCase())
+    );
+    if (!pipeline || !batch) {
+      throw new Error('Transaction is not pending in an active execution');
+    }
+    if (batch.replacing) {
+      throw new Error('A replacement for this transaction is already being sent');
+    }
+    if (kind === 'BATCH' && batch.attempts[batch.attempts.length - 1].kind === 'CANCEL') {
+      throw new Error('Transaction is being cancelled and cannot be sped up');
+    }
+
+    batch.replacing = true;
+    try {
+      // 私钥只在发送替换交易时临时解密
+      const privateKeyBase64 = await this.hdWallet.openCampaignKey(pipeline.campaign);
+      const privateKey = this.walletService.exportEVMPrivateKey(privateKeyBase64);
+
+      const sent = await this.sendReplacement(campaignId, pipeline.campaign, batch, pipeline.rpcUrl, privateKey, kind);
+      if (kind === 'CANCEL') {
+        batch.failOnCancel = true;
+      }
+      logger.info('Manual transaction replacement sent', { campaignId, kind, replaced: txHash, txHash: sent.hash });
+      return sent;
+    } finally {
+      batch.replacing = false;
+    }
+  }
+
+  /**
+   * 根据上链的那一笔交易更新接收者与交易记录，同 nonce 的其他尝试标记为 REPLACED
+   */
+  private async resolveInFlightBatch(
+    campaignId: string,
+    campaign: any,
+    batch: InFlightBatch,
+    mined: PipelinedAttempt,
+    receipt: ethers.TransactionReceipt
+  ): Promise<void> {
+    const succeeded = receipt.status === 1;
+
+    for (const attempt of batch.attempts) {
+      if (attempt.hash !== mined.hash) {
+        await this.updateTransactionStatus(attempt.hash, 'REPLACED');
+      }
+    }
+    await this.updateTransactionStatus(
+      mined.hash,
+      succeeded ? 'CONFIRMED' : 'FAILED',
+      receipt.blockNumber,
+      receipt.blockHash
+    );
+    this.updateCampaignGasCost(campaignId, receipt.gasUsed.toString());
+
+    if (mined.kind === 'BATCH' && !succeeded && await this.isolateFailedBatch(campaignId, campaign, batch.recipients, ONCHAIN_REVERT_MESSAGE)) {
+      console.log(`[CampaignExecutor] Batch ${batch.batchNumber} (nonce ${batch.nonce}) reverted, failing recipients isolated`);
+      return;
+    }
+
+    let status: string;
+    if (mined.kind === 'CANCEL') {
+      // 取消交易上链：批次没有执行。手动取消的标记为失败，自动填补空洞的退回待发送
+      status = batch.failOnCancel ? 'FAILED' : 'PENDING';
+    } else {
+      status = succeeded ? 'SENT' : 'FAILED';
+    }
+
+    // 尽力模式的批次上链后按回执事件区分每个接收者的结果
+    const updates = mined.kind === 'BATCH' && succeeded && campaign.batchMode === 'BEST_EFFORT'
+      ? this.getBatchResultUpdates(batch.recipients, mined.hash, this.contractService.parseTransferResults(receipt, campaign.contractAddress))
+      : batch.recipients.map(r => ({
+        address: r.address,
+        status,
+        txHash: mined.kind === 'CANCEL' ? undefined : mined.hash
+      }));
+    await this.updateRecipientStatusesTransaction(campaignId, updates);
+
+    console.log(`[CampaignExecutor] Batch ${batch.batchNumber} (nonce ${batch.nonce}) resolved: ${mined.kind === 'CANCEL' ? `cancelled, ${status}` : status}`);
+  }
+
+  private async addPipelinedAttempt(
+    campaignId: string,
+    campaign: any,
+    batch: InFlightBatch,
+    kind: PipelinedAttempt['kind'],
+    sent: SentTransaction
+  ): Promise<void> {
+    const replaced = batch.attempts[batch.attempts.length - 1];
+
+    await this.recordTransaction(campaignId, {
+      txHash: sent.hash,
+      txType: kind === 'CANCEL' ? 'CANCEL_NONCE' : 'BATCH_SEND',
+      fromAddress: campaign.walletAddress || '',
+      toAddress: kind === 'CANCEL' ? campaign.walletAddress : campaign.contractAddress,
+      amount: kind === 'CANCEL' ? '0' : batch.totalAmount,
+      status: 'PENDING',
+      nonce: sent.nonce,
+      batchNumber: batch.batchNumber,
+      gasPrice: sent.gasPrice,
+      maxFeePerGas: sent.maxFeePerGas,
+      maxPriorityFeePerGas: sent.maxPriorityFeePerGas,
+      replacesTxHash: replaced?.hash,
+    });
+
+    batch.attempts.push({ ...sent, kind });
+    batch.lastSentAt = Date.now();
+  }
+
+  /**
+   * 失败隔离：原子批次因某个接收者回滚（黑名单、无法接收原生币的合约等）而失败时，二分模拟定位这些接收者，
+   * 只将其标记为失败并记录各自的回滚原因，其余退回待发送，由发送循环按同一批次号重新预检后发送。
+   * 余额、Gas、nonce、网络错误与具体地址无关，不做隔离；未能定位到地址时返回 false，由调用方按整批失败处理。
+   * 每一轮至少移除一个失败地址，因此重试次数有限
+   */
+  private async isolateFailedBatch(
+    campaignId: string,
+    campaign: any,
+    recipients: Recipient[],
+    errorMessage: string
+  ): Promise<boolean> {
+    // 尽力模式的批次不会因个别地址回滚，整批失败与具体地址无关
+    if (!campaign.isolateFailures || campaign.batchMode === 'BEST_EFFORT' || recipients.length < 2) {
+      return false;
+    }
+
+    const { category } = categorizeBatchError(errorMessage);
+    if (category !== 'CONTRACT_REVERT' && category !== 'UNKNOWN_ERROR') {
+      return false;
+    }
+
+    try {
+      const rpcUrl = await this.getRpcUrlForChain(campaign.chain);
+      const addresses = ChainUtils.isSolanaChain(campaign.chain)
+        ? recipients.map(r => r.address)
+        : recipients.map(r => ethers.getAddress(r.address.toLowerCase()));
+      const amounts = recipients.map(r => r.amount);
+
+      const { passing, failing } = await this.preflight.bisectBatch(
+        campaign, rpcUrl, addresses, amounts, this.getNftTransfer(campaign, recipients)?.tokenIds, this.getLegIndexes(campaign, recipients)
+      );
+      if (failing.length === 0) {
+        return false;
+      }
+
+      await this.updateRecipientStatusesTransaction(campaignId, [
+        ...failing.map(({ index, error }) => ({
+          address: recipients[index].address,
+          status: 'FAILED',
+          txHash: undefined,
+          errorMessage: `Isolated by bisection: ${error}`
+        })),
+        ...passing.map(index => ({ address: recipients[index].address, status: 'PENDING', txHash: undefined })),
+      ]);
+
+      logger.info('Isolated failing recipients from batch', { campaignId, failing: failing.length, requeued: passing.length });
+      return true;
+    } catch (error) {
+      logger.warn('Failure isolation failed, marking the whole batch as failed', { campaignId, error: error instanceof Error ? error.message : String(error) });
+      return false;
+    }
+  }
+
+  /**
+   * 批次上链后的接收者状态：原子模式全部成功；尽力模式按 TransferSucceeded / TransferFailed 事件逐个确定，
+   * 事件顺序与批次中的接收者一致，被跳过的接收者记录失败原因
+   */
+  private getBatchResultUpdates(
+    recipients: Recipient[],
+    txHash: string,
+    transfers?: RecipientTransferResult[]
+  ): Array<{ address: string; status: string; txHash?: string; errorMessage?: string }> {
+    return recipients.map((r, i) => {
+      const transfer = transfers?.[i];
+      if (!transfers || (transfer?.success && transfer.recipient.toLowerCase() === r.address.toLowerCase())) {
+        return { address: r.address, status: 'SENT', txHash };
+      }
+      return {
+        address: r.address,
+        status: 'FAILED',
+        txHash,
+        errorMessage: `Transfer skipped: ${transfer?.reason || 'no transfer result event in receipt'}`
+      };
+    });
+  }
+
+  /**
+   * Solana 批次拆成多笔交易时按接收者顺序整理每个地址所在交易的结果
+   */
+  private getSolanaTransferResults(
+    campaign: any,
+    addresses: string[],
+    amounts: string[],
+    result: SolanaBatchTransferResult
+  ): RecipientTransferResult[] {
+    return addresses.map((address, i) => {
+      const detail = result.details?.find(item => item.address === address);
+      return {
+        recipient: address,
+        amount: BigInt(new BigNumber(amounts[i]).shiftedBy(campaign.tokenDecimals).integerValue(BigNumber.ROUND_DOWN).toFixed()),
+        success: detail?.status === 'success',
+        reason: detail?.error,
+      };
+    });
+  }
+
+  /**
+   * NFT 活动的批次按接收者顺序带上 token ID；ERC20 / 原生代币返回 undefined
+   */
+  private getNftTransfer(campaign: any, recipients: Recipient[]): NftTransferSpec | undefined {
+    if (campaign.tokenStandard !== 'ERC721' && campaign.tokenStandard !== 'ERC1155') {
+      return undefined;
+    }
+    return { standard: campaign.tokenStandard, tokenIds: recipients.map(r => r.token_id || '') };
+  }
+
+  /**
+   * 多代币活动的批次按接收者顺序带上每条记录的代币；单代币活动返回 undefined
+   */
+  private getTokenLegTransfer(campaign: any, recipients: Recipient[]): TokenLegTransferSpec | undefined {
+    const legIndexes = this.getLegIndexes(campaign, recipients);
+    return legIndexes && toTokenLegTransfer(campaign.tokenLegs, legIndexes);
+  }
+
+  private getLegIndexes(campaign: any, recipients: Recipient[]): number[] | undefined {
+    return campaign.tokenLegs ? recipients.map(r => r.leg_index ?? 0) : undefined;
+  }
+
+  private getFeeCeiling(campaign: any): bigint | undefined {
+    return campaign.maxFeePerGasGwei ? ethers.parseUnits(campaign.maxFeePerGasGwei, 'gwei') : undefined;
+  }
+
+  /**
+   * Send a batch through the external signer (non-custodial mode)
+   */
+  private async sendWithExternalSigner(
+    campaign: any,
+    rpcUrl: string,
+    addresses: string[],
+    amounts: string[],
+    batchNumber: number,
+    nft?: NftTransferSpec,
+    legs?: TokenLegTransferSpec
+  ): Promise<{ transactionHash: string; gasUsed: string }> {
+    const totalAmount = amounts.reduce((sum, amt) => sum.plus(new BigNumber(amt || '0')), new BigNumber(0)).toString();
+    const summary = `批次 ${batchNumber}：${addresses.length} 个地址，合计 ${totalAmount}`;
+
+    if (ChainUtils.isSolanaChain(campaign.chain)) {
+      // SPL 代币需要先创建缺失的接收者 ATA（单独一笔交易），再发送转账
+      let createAccounts = await this.solanaService.buildCreateTokenAccountsTransaction(
+        rpcUrl, campaign.walletAddress, addresses, campaign.tokenAddress, { priorityFee: campaign.priorityFee }
+      );
+      let gasUsed = new BigNumber(0);
+
+      if (createAccounts) {
+        const ataResult = await this.externalSigning.signAndBroadcast({
+          campaignId: campaign.id,
+          purpose: 'CREATE_TOKEN_ACCOUNTS',
+          batchNumber,
+          fromAddress: campaign.walletAddress,
+          rpcUrl,
+          summary: `批次 ${batchNumber}：为接收者创建代币账户`,
+          build: async () => {
+            // 首次使用已构建的交易，区块哈希过期后重新构建
+            const unsigned = createAccounts || await this.solanaService.buildCreateTokenAccountsTransaction(
+              rpcUrl, campaign.walletAddress, addresses, campaign.tokenAddress, { priorityFee: campaign.priorityFee }
+            );
+            createAccounts = null;
+            if (!unsigned) {
+              throw new Error('Recipient token accounts already exist, retry the batch');
+            }
+            return { chainType: 'solana', ...unsigned };
+          },
+        });
+        gasUsed = gasUsed.plus(ataResult.gasUsed);
+      }
+
+      const transferResult = await this.externalSigning.signAndBroadcast({
+        campaignId: campaign.id,
+        purpose: 'BATCH_SEND',
+        batchNumber,
+        fromAddress: campaign.walletAddress,
+        rpcUrl,
+        summary,
+        build: async () => ({
+          chainType: 'solana',
+          ...(await this.solanaService.buildBatchTransferTransaction(
+            rpcUrl, campaign.walletAddress, addresses, amounts, campaign.tokenAddress, { netDelivery: campaign.netDelivery, priorityFee: campaign.priorityFee }
+          )),
+        }),
+      });
+
+      return {
+        transactionHash: transferResult.transactionHash,
+        gasUsed: gasUsed.plus(transferResult.gasUsed).toString(),
+      };
+    }
+
+    return this.externalSigning.signAndBroadcast({
+      campaignId: campaign.id,
+      purpose: 'BATCH_SEND',
+      batchNumber,
+      fromAddress: campaign.walletAddress,
+      rpcUrl,
+      summary,
+      confirmTimeoutSeconds: campaign.stuckTimeoutSeconds,
+      build: async () => ({
+        chainType: 'evm',
+        transaction: await this.contractService.buildBatchTransferTransaction(
+          campaign.contractAddress, rpcUrl, campaign.walletAddress, addresses, amounts, campaign.tokenAddress, campaign.batchMode, nft, legs
+        ),
+      }),
+    });
+  }
+
   /**
    * Request pause for campaign execution
    */
   pauseExecution(campaignId: string): void {
     this.pauseMap.set(campaignId, true);
     console.log(`Pause requested for campaign ${campaignId}`);
+
+    // 正在等待外部签名的请求立即取消，批次退回待发送
+    this.externalSigning.cancelCampaignRequests(campaignId).catch(error => {
+      logger.error('Failed to cancel external signing requests', error as Error, { campaignId });
+    });
   }
 
   /**
    * Resume paused campaign execution
    */
-  async resumeExecution(campaignId: string): Promise<void> {
+  async resumeExecution(campaignId: string): Promise<ReconciliationReport | null> {
     this.pauseMap.set(campaignId, false);
     console.log(`Resume requested for campaign ${campaignId}`);
 
@@ -460,19 +1274,33 @@ export class CampaignExecutor {
     const campaign = await this.getCampaign(campaignId);
     if (!campaign) {
       console.error(`Campaign ${campaignId} not found for resume`);
-      return;
+      return null;
     }
 
+    // 上次执行中断时留下的 PROCESSING 接收者先与链上对账，再决定哪些需要重新发送
+    const report = this.isExecuting(campaignId)
+      ? null
+      : await this.reconciliation.reconcileCampaign(campaign, 'RESUME');
+
     if (campaign.status !== 'PAUSED') {
       console.warn(`Campaign ${campaignId} is not paused (status: ${campaign.status}), cannot resume`);
-      return;
+      return report;
     }
 
     const pendingRecipients = await this.getPendingRecipients(campaignId);
     if (pendingRecipients.length === 0) {
-      console.log(`Campaign ${campaignId} has no pending recipients, marking as completed`);
-      await this.updateCampaignStatus(campaignId, 'COMPLETED');
-      return;
+      // 仍有未能确认的在途批次时保持暂停，等待下次对账
+      if (!report?.inFlightCount) {
+        if (await this.getPendingRecipientCount(campaignId) > 0) {
+          // 只剩未解锁的释放批次，交给释放调度按解锁时间发送
+          console.log(`Campaign ${campaignId} has no unlocked recipients, waiting for next unlock`);
+          await this.updateCampaignStatus(campaignId, 'READY');
+        } else {
+          console.log(`Campaign ${campaignId} has no pending recipients, marking as completed`);
+          await this.updateCampaignStatus(campaignId, 'COMPLETED');
+        }
+      }
+      return report;
     }
 
     console.log(`Resuming campaign ${campaignId} with ${pendingRecipients.length} pending recipients`);
@@ -480,6 +1308,62 @@ export class CampaignExecutor {
     // Re-execute the campaign with remaining recipients
     // This will continue from where it left off since we only get pending recipients
     await this.executeCampaign(campaignId);
+    return report;
+  }
+
+  /**
+   * 应用启动时对账：上次退出时正在发送的活动改为暂停，并核对所有遗留的 PROCESSING 接收者
+   */
+  async reconcileInterruptedCampaigns(): Promise<ReconciliationReport[]> {
+    const interrupted = await this.db.prepare(`
+      SELECT id FROM campaigns WHERE status = 'SENDING'
+      UNION
+      SELECT DISTINCT campaign_id FROM recipients WHERE status = 'PROCESSING'
+    `).all() as Array<{ id: string }>;
+
+    const reports: ReconciliationReport[] = [];
+    for (const { id } of interrupted) {
+      const campaign = await this.getCampaign(id);
+      if (!campaign || this.isExecuting(id)) {
+        continue;
+      }
+
+      if (campaign.status === 'SENDING') {
+        await this.updateCampaignStatus(id, 'PAUSED');
+        logger.warn('Campaign was sending when the application exited, paused', { campaignId: id });
+      }
+
+      try {
+        const report = await this.reconciliation.reconcileCampaign(campaign, 'STARTUP');
+        if (report) {
+          reports.push(report);
+        }
+      } catch (error) {
+        logger.error('Failed to reconcile interrupted campaign', error as Error, { campaignId: id });
+      }
+    }
+
+    return reports;
+  }
+
+  async getReconciliationReports(campaignId: string): Promise<ReconciliationReport[]> {
+    return this.reconciliation.listReports(campaignId);
+  }
+
+  /**
+   * 按当前链上状态模拟所有待发送批次，不广播任何交易
+   */
+  async dryRunCampaign(campaignId: string): Promise<DryRunReport> {
+    const campaign = await this.getCampaign(campaignId);
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+
+    if (!ChainUtils.isSolanaChain(campaign.chain) && !campaign.contractAddress) {
+      throw new Error('Contract must be deployed before a dry run');
+    }
+
+    return this.preflight.dryRunCampaign(campaign);
   }
 
   
@@ -491,11 +1375,34 @@ export class CampaignExecutor {
   }
 
   /**
-   * Ensure unlimited token approval for the campaign contract.
+   * Ensure token allowance for the campaign contract.
+   * 合约与代币支持时签一个覆盖本次待发送总额的限时授权（EIP-2612 或 Permit2），随批次提交，不发送 approve 交易；
+   * 否则回退到无限授权
    */
-  private async ensureUnlimitedApproval(campaign: any, wallet: any): Promise<void> {
+  private async ensureTokenAllowance(campaign: any, wallet: any, recipients: Recipient[]): Promise<void> {
     const rpcUrl = await this.getRpcUrlForChain(campaign.chain);
 
+    if (campaign.signingMode === 'EXTERNAL') {
+      return this.ensureApprovalWithExternalSigner(campaign, rpcUrl);
+    }
+
+    if (this.getNftTransfer(campaign, [])) {
+      return this.ensureNftApproval(campaign, wallet, rpcUrl);
+    }
+
+    const permit = await this.prepareTokenPermit(campaign, wallet, rpcUrl, recipients);
+    if (permit) {
+      campaign.tokenPermit = permit;
+      return;
+    }
+
+    await this.ensureUnlimitedApproval(campaign, wallet, rpcUrl);
+  }
+
+  /**
+   * 不支持签名授权时的回退：已有接近无限的授权则跳过，否则授权 MaxUint256 并等待确认
+   */
+  private async ensureUnlimitedApproval(campaign: any, wallet: any, rpcUrl: string): Promise<void> {
     // Check for a near-unlimited allowance
     const sufficientAllowance = await this.contractService.checkApproval(
       rpcUrl,
@@ -540,6 +1447,267 @@ export class CampaignExecutor {
     await this.updateTransactionStatus(approveTxHash, 'CONFIRMED');
   }
 
+  /**
+   * 多代币活动的批次调用 batchTransferMultiToken，无法附带签名授权：每个 ERC20 代币分别检查并授权合约
+   */
+  private async ensureTokenLegAllowances(campaign: any, wallet: any): Promise<void> {
+    const rpcUrl = await this.getRpcUrlForChain(campaign.chain);
+    for (const leg of campaign.tokenLegs.filter((leg: any) => !isNativeToken(leg.tokenAddress))) {
+      const legCampaign = { ...campaign, tokenAddress: leg.tokenAddress, tokenLegs: undefined };
+      if (campaign.signingMode === 'EXTERNAL') {
+        await this.ensureApprovalWithExternalSigner(legCampaign, rpcUrl);
+      } else {
+        await this.ensureUnlimitedApproval(legCampaign, wallet, rpcUrl);
+      }
+    }
+  }
+
+  /**
+   * 签名覆盖 recipients 总额的授权；合约是旧版本、代币不支持 permit 或签名验证失败时返回 null
+   */
+  private async prepareTokenPermit(campaign: any, wallet: any, rpcUrl: string, recipients: Recipient[]): Promise<TokenPermit | null> {
+    try {
+      const decimals = await this.contractService.getTokenDecimals(rpcUrl, campaign.tokenAddress);
+      const amount = recipients.reduce((sum, r) => sum + ethers.parseUnits(r.amount, decimals), 0n);
+      const kind = await this.contractService.detectPermitSupport(
+        rpcUrl, wallet.address, campaign.tokenAddress, campaign.contractAddress, amount
+      );
+      if (!kind) {
+        return null;
+      }
+
+      const deadline = Math.floor(Date.now() / 1000) + PERMIT_VALIDITY_SECONDS;
+      return await this.contractService.signTokenPermit(
+        rpcUrl, wallet.privateKey, campaign.tokenAddress, campaign.contractAddress, kind, amount, deadline
+      );
+    } catch (error) {
+      logger.warn('Signed permit unavailable, falling back to approve', {
+        campaignId: campaign.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  /**
+   * 活动完成后撤销合约剩余的代币授权（尽力模式跳过的转账、旧版本的无限授权），失败只记录日志
+   */
+  private async revokeLeftoverAllowance(campaign: any, wallet: { privateKey?: string }): Promise<void> {
+    if (campaign.tokenLegs) {
+      for (const leg of campaign.tokenLegs) {
+        await this.revokeLeftoverAllowance({ ...campaign, tokenAddress: leg.tokenAddress, tokenLegs: undefined }, wallet);
+      }
+      return;
+    }
+
+    if (
+      ChainUtils.isSolanaChain(campaign.chain) ||
+      isNativeToken(campaign.tokenAddress) ||
+      this.getNftTransfer(campaign, []) ||
+      !wallet.privateKey
+    ) {
+      return;
+    }
+
+    try {
+      const rpcUrl = await this.getRpcUrlForChain(campaign.chain);
+      const txHashes = await this.contractService.revokeAllowance(rpcUrl, wallet.privateKey, campaign.tokenAddress, campaign.contractAddress);
+      for (const txHash of txHashes) {
+        await this.recordTransaction(campaign.id, {
+          txHash,
+          txType: 'APPROVE_TOKENS',
+          fromAddress: campaign.walletAddress || '',
+          toAddress: campaign.contractAddress,
+          amount: '0',
+          status: 'CONFIRMED'
+        });
+      }
+      if (txHashes.length > 0) {
+        logger.info('Leftover allowance revoked', { campaignId: campaign.id, txHashes });
+      }
+    } catch (error) {
+      logger.warn('Failed to revoke leftover allowance', {
+        campaignId: campaign.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Ensure approval in external signing mode: read-only allowance check, approval signed offline
+   */
+  private async ensureApprovalWithExternalSigner(campaign: any, rpcUrl: string): Promise<void> {
+    if (this.getNftTransfer(campaign, [])) {
+      if (await this.contractService.isApprovedForAll(rpcUrl, campaign.walletAddress, campaign.tokenAddress, campaign.contractAddress)) {
+        return;
+      }
+
+      const result = await this.externalSigning.signAndBroadcast({
+        campaignId: campaign.id,
+        purpose: 'APPROVE_TOKENS',
+        fromAddress: campaign.walletAddress,
+        rpcUrl,
+        summary: `授权合约 ${campaign.contractAddress} 转移 NFT 集合 ${campaign.tokenAddress}`,
+        confirmTimeoutSeconds: campaign.stuckTimeoutSeconds,
+        build: async () => ({
+          chainType: 'evm',
+          transaction: await this.contractService.buildSetApprovalForAllTransaction(
+            rpcUrl,
+            campaign.walletAddress,
+            campaign.tokenAddress,
+            campaign.contractAddress
+          ),
+        }),
+      });
+
+      await this.recordTransaction(campaign.id, {
+        txHash: result.transactionHash,
+        txType: 'APPROVE_TOKENS',
+        fromAddress: campaign.walletAddress || '',
+        toAddress: campaign.contractAddress,
+        amount: '0',
+        gasUsed: parseFloat(result.gasUsed || '0'),
+        status: 'CONFIRMED'
+      });
+      return;
+    }
+
+    const allowance = await this.contractService.getAllowance(
+      rpcUrl,
+      campaign.walletAddress,
+      campaign.tokenAddress,
+      campaign.contractAddress
+    );
+
+    if (allowance >= ethers.MaxUint256 / 2n) {
+      return;
+    }
+
+    const result = await this.externalSigning.signAndBroadcast({
+      campaignId: campaign.id,
+      purpose: 'APPROVE_TOKENS',
+      fromAddress: campaign.walletAddress,
+      rpcUrl,
+      summary: `授权合约 ${campaign.contractAddress} 使用代币 ${campaign.tokenAddress}`,
+      confirmTimeoutSeconds: campaign.stuckTimeoutSeconds,
+      build: async () => ({
+        chainType: 'evm',
+        transaction: await this.contractService.buildApproveTransaction(
+          rpcUrl,
+          campaign.walletAddress,
+          campaign.tokenAddress,
+          campaign.contractAddress,
+          ethers.MaxUint256.toString()
+        ),
+      }),
+    });
+
+    await this.recordTransaction(campaign.id, {
+      txHash: result.transactionHash,
+      txType: 'APPROVE_TOKENS',
+      fromAddress: campaign.walletAddress || '',
+      toAddress: campaign.contractAddress,
+      amount: ethers.MaxUint256.toString(),
+      gasUsed: parseFloat(result.gasUsed || '0'),
+      status: 'CONFIRMED'
+    });
+  }
+
+  /**
+   * NFT 集合授权（setApprovalForAll），ERC721 与 ERC1155 没有额度概念
+   */
+  private async ensureNftApproval(campaign: any, wallet: any, rpcUrl: string): Promise<void> {
+    const approveTxHash = await this.contractService.setApprovalForAll(
+      rpcUrl,
+      wallet.privateKey,
+      campaign.tokenAddress,
+      campaign.contractAddress
+    );
+
+    if (approveTxHash === 'already-approved') {
+      return;
+    }
+
+    // setApprovalForAll 内部已等待确认
+    await this.recordTransaction(campaign.id, {
+      txHash: approveTxHash,
+      txType: 'APPROVE_TOKENS',
+      fromAddress: campaign.walletAddress || '',
+      toAddress: campaign.contractAddress,
+      amount: '0',
+      status: 'CONFIRMED'
+    });
+  }
+
+  /**
+   * 活动没有查找表时创建并保存；查找表只用于压缩交易，创建失败时不使用查找表继续发送
+   */
+  private async ensureLookupTable(campaign: any, wallet: { privateKey?: string }): Promise<void> {
+    if (campaign.lookupTableAddress) {
+      return;
+    }
+
+    try {
+      const rpcUrl = await this.getRpcUrlForChain(campaign.chain);
+      campaign.lookupTableAddress = await this.solanaService.createLookupTable(rpcUrl, wallet.privateKey!, campaign.tokenAddress);
+      await this.db.prepare('UPDATE campaigns SET lookup_table_address = ?, updated_at = ? WHERE id = ?')
+        .run(campaign.lookupTableAddress, new Date().toISOString(), campaign.id);
+    } catch (error) {
+      logger.warn('Failed to create lookup table, sending without it', {
+        campaignId: campaign.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * 活动发送完毕后回收查找表租金：先停用，冷却期过后关闭；应用在关闭前退出时查找表保持停用状态，由清理钱包时回收
+   * 重试只保留活动 ID 与查找表地址，每次尝试都经签名者注册表重新解密私钥；保险库已锁定时跳过本次尝试
+   */
+  private releaseLookupTable(campaignId: string, chain: string, lookupTableAddress: string | null, attempt: number = 0): void {
+    if (!lookupTableAddress) {
+      return;
+    }
+
+    const scheduleRetry = () => {
+      if (attempt < LOOKUP_TABLE_RELEASE_ATTEMPTS) {
+        setTimeout(() => this.releaseLookupTable(campaignId, chain, lookupTableAddress, attempt + 1), LOOKUP_TABLE_RELEASE_DELAY_MS).unref?.();
+      }
+    };
+
+    const release = async () => {
+      if (!this.keyVault.isUnlocked()) {
+        logger.debug('Key vault locked, skipping lookup table release attempt', { campaignId, attempt });
+        scheduleRetry();
+        return;
+      }
+
+      const rpcUrl = await this.getRpcUrlForChain(chain);
+      const handle = await this.signerRegistry.getHandleForCampaign(campaignId);
+      const closed = await this.signerRegistry.withPrivateKey(
+        handle,
+        'RELEASE_LOOKUP_TABLE',
+        privateKeyBase64 => this.solanaService.releaseLookupTable(rpcUrl, privateKeyBase64, lookupTableAddress),
+        lookupTableAddress
+      );
+      if (closed) {
+        await this.db.prepare('UPDATE campaigns SET lookup_table_address = NULL, updated_at = ? WHERE id = ?')
+          .run(new Date().toISOString(), campaignId);
+        logger.info('Lookup table closed', { campaignId, lookupTable: lookupTableAddress });
+      } else {
+        scheduleRetry();
+      }
+    };
+
+    release().catch(error => {
+      logger.warn('Failed to release lookup table', {
+        campaignId,
+        lookupTable: lookupTableAddress,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }
+
   // Helper methods
   private async getCampaign(campaignId: string): Promise<any> {
     const row = await this.db.prepare('SELECT * FROM campaigns WHERE id = ?').get(campaignId);
@@ -556,11 +1724,25 @@ export class CampaignExecutor {
       chain: row.chain_id?.toString() || '',
       chainType: row.chain_type,
       tokenAddress: row.token_address,
-      tokenDecimals: row.token_decimals || 18,
+      tokenSymbol: row.token_symbol,
+      tokenDecimals: row.token_decimals ?? 18,
+      tokenStandard: row.token_standard || 'ERC20',
+      tokenLegs: row.token_legs ? JSON.parse(row.token_legs) : undefined,
+      netDelivery: row.net_delivery === 1,
+      lookupTableAddress: row.lookup_table_address || undefined,
+      priorityFee: { level: row.priority_fee_level || 'normal', maxLamports: row.max_priority_fee_lamports ?? undefined },
       walletAddress: row.wallet_address,
-      walletPrivateKeyBase64: row.wallet_private_key_base64,
+      walletPrivateKeyEncrypted: row.wallet_private_key_encrypted,
+      derivationIndex: row.derivation_index,
+      signingMode: row.signing_mode || 'LOCAL',
       contractAddress: row.contract_address,
       batchSize: row.batch_size || 100,
+      pipelineDepth: row.pipeline_depth || 1,
+      batchMode: row.batch_mode || 'ATOMIC',
+      isolateFailures: row.isolate_failures !== 0,
+      distributionMode: row.distribution_mode || 'PUSH',
+      stuckTimeoutSeconds: row.stuck_timeout_seconds || 180,
+      maxFeePerGasGwei: row.max_fee_per_gas_gwei || undefined,
       sendInterval: row.send_interval || 2000,
       gasUsed: row.total_gas_used || 0
     };
@@ -569,14 +1751,14 @@ export class CampaignExecutor {
   }
 
   private async getPendingRecipients(campaignId: string): Promise<Recipient[]> {
-    // 只查询PENDING记录，不锁定它们
+    // 只查询已解锁的PENDING记录，不锁定它们
     // 锁定操作应该在getNextBatchRecipients中进行
     const pendingRecipients = await this.db.prepare(`
-      SELECT id, address, amount, created_at
+      SELECT id, address, amount, token_id, created_at
       FROM recipients
-      WHERE campaign_id = ? AND status = 'PENDING'
+      WHERE campaign_id = ? AND status = 'PENDING' AND (unlock_at IS NULL OR unlock_at <= ?)
       ORDER BY batch_number, id
-    `).all(campaignId) as Recipient[];
+    `).all(campaignId, new Date().toISOString()) as Recipient[];
 
     return pendingRecipients;
   }
@@ -589,20 +1771,25 @@ export class CampaignExecutor {
     recipients: Recipient[];
   } | null> {
     return await this.db.transaction(async (tx) => {
-      // 恢复可能卡住的PROCESSING记录（超过5分钟）
-      await tx.prepare(`
-        UPDATE recipients
-        SET status = 'PENDING', updated_at = datetime('now')
-        WHERE campaign_id = ? AND status = 'PROCESSING'
-        AND datetime(updated_at) < datetime('now', '-5 minutes')
-      `).run(campaignId);
+      // PROCESSING 记录可能已经上链，只能由对账（reconcileCampaign）依据链上证据释放，这里不做超时重置
+      // 释放计划的批次只取已解锁的；同一地址的多个批次不能同时在途（状态回写按地址匹配 PROCESSING 记录）
+      const now = new Date().toISOString();
+      const claimable = `
+        campaign_id = ? AND status = 'PENDING' AND (unlock_at IS NULL OR unlock_at <= ?)
+        AND NOT EXISTS (
+          SELECT 1 FROM recipients inflight
+          WHERE inflight.campaign_id = recipients.campaign_id
+            AND inflight.address = recipients.address
+            AND inflight.status = 'PROCESSING'
+        )
+      `;
 
       // 获取最小的批次号
       const batchInfo = await tx.prepare(`
         SELECT MIN(batch_number) as next_batch_number
         FROM recipients
-        WHERE campaign_id = ? AND status = 'PENDING'
-      `).get(campaignId) as any;
+        WHERE ${claimable}
+      `).get(campaignId, now) as any;
 
       if (!batchInfo || !batchInfo.next_batch_number) {
         return null;
@@ -614,9 +1801,9 @@ export class CampaignExecutor {
       const lockedRecipients = await tx.prepare(`
         UPDATE recipients
         SET status = 'PROCESSING', updated_at = datetime('now')
-        WHERE campaign_id = ? AND batch_number = ? AND status = 'PENDING'
-        RETURNING id, address, amount, created_at
-      `).all(campaignId, nextBatchNumber) as Recipient[];
+        WHERE batch_number = ? AND ${claimable}
+        RETURNING id, address, amount, token_id, leg_index, created_at
+      `).all(nextBatchNumber, campaignId, now) as Recipient[];
 
       if (lockedRecipients.length === 0) {
         return null;
@@ -645,6 +1832,13 @@ export class CampaignExecutor {
     return result.count;
   }
 
+  private async getProcessingRecipientCount(campaignId: string): Promise<number> {
+    const result = await this.db.prepare(
+      'SELECT COUNT(*) as count FROM recipients WHERE campaign_id = ? AND status = ?'
+    ).get(campaignId, 'PROCESSING') as { count: number };
+    return result.count;
+  }
+
   private async getPendingRecipientCount(campaignId: string): Promise<number> {
     const result = await this.db.prepare(
       'SELECT COUNT(*) as count FROM recipients WHERE campaign_id = ? AND status = ?'
@@ -672,13 +1866,13 @@ export class CampaignExecutor {
 
   private async updateRecipientStatusesTransaction(
     campaignId: string,
-    updates: Array<{ address: string; status: string; txHash?: string }>
+    updates: Array<{ address: string; status: string; txHash?: string; errorMessage?: string }>
   ): Promise<void> {
     await this.db.transaction(async (tx) => {
       for (const update of updates) {
         await tx.prepare(
-          'UPDATE recipients SET status = ?, tx_hash = ?, updated_at = datetime("now") WHERE campaign_id = ? AND address = ? AND status = "PROCESSING"'
-        ).run(update.status, update.txHash || null, campaignId, update.address);
+          'UPDATE recipients SET status = ?, tx_hash = ?, error_message = ?, updated_at = datetime("now") WHERE campaign_id = ? AND address = ? AND status = "PROCESSING"'
+        ).run(update.status, update.txHash || null, update.errorMessage || null, campaignId, update.address);
       }
 
       // Update campaigns table with real-time counts
@@ -698,16 +1892,6 @@ export class CampaignExecutor {
     });
   }
 
-  private async recoverStuckProcessingRecords(campaignId: string): Promise<void> {
-    // 恢复卡住的PROCESSING记录
-    await this.db.prepare(`
-      UPDATE recipients
-      SET status = 'PENDING', updated_at = datetime('now')
-      WHERE campaign_id = ? AND status = 'PROCESSING'
-      AND datetime(updated_at) < datetime('now', '-10 minutes')
-    `).run(campaignId);
-  }
-
   private async updateCampaignGasCost(campaignId: string, gasUsed: string): Promise<void> {
     const campaign = await this.getCampaign(campaignId);
     const newGasUsed = Number(campaign.gasUsed || 0) + Number(gasUsed);
@@ -839,19 +2023,25 @@ export class CampaignExecutor {
    */
   private async recordTransaction(campaignId: string, transactionData: {
     txHash: string;
-    txType: 'DEPLOY_CONTRACT' | 'TRANSFER_TO_CONTRACT' | 'APPROVE_TOKENS' | 'BATCH_SEND' | 'WITHDRAW_REMAINING';
+    txType: 'DEPLOY_CONTRACT' | 'TRANSFER_TO_CONTRACT' | 'APPROVE_TOKENS' | 'BATCH_SEND' | 'WITHDRAW_REMAINING' | 'CANCEL_NONCE';
     fromAddress: string;
     toAddress?: string;
     amount?: string;
     gasUsed?: number;
     status?: 'PENDING' | 'CONFIRMED' | 'FAILED';
+    nonce?: number;
+    batchNumber?: number;
+    gasPrice?: bigint;
+    maxFeePerGas?: bigint;
+    maxPriorityFeePerGas?: bigint;
+    replacesTxHash?: string;
   }): Promise<void> {
     try {
       await this.db.prepare(`
         INSERT OR REPLACE INTO transactions (
           campaign_id, tx_hash, tx_type, from_address, to_address, amount,
-          gas_used, status, created_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+          gas_used, gas_price, status, nonce, batch_number, max_fee_per_gas, max_priority_fee_per_gas, replaces_tx_hash, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).run(
         campaignId,
         transactionData.txHash,
@@ -860,7 +2050,13 @@ export class CampaignExecutor {
         transactionData.toAddress || null,
         transactionData.amount || null,
         transactionData.gasUsed || 0,
+        transactionData.gasPrice?.toString() || null,
         transactionData.status || 'PENDING',
+        transactionData.nonce ?? null,
+        transactionData.batchNumber ?? null,
+        transactionData.maxFeePerGas?.toString() || null,
+        transactionData.maxPriorityFeePerGas?.toString() || null,
+        transactionData.replacesTxHash || null,
         new Date().toISOString()
       );
 
@@ -876,7 +2072,7 @@ export class CampaignExecutor {
    */
   private async updateTransactionStatus(
     txHash: string,
-    status: 'PENDING' | 'CONFIRMED' | 'FAILED',
+    status: 'PENDING' | 'CONFIRMED' | 'FAILED' | 'REPLACED',
     blockNumber?: number,
     blockHash?: string
   ): Promise<void> {
@@ -1,13 +1,48 @@
 import { v4 as uuidv4 } from 'uuid';
-import { WalletService } from './WalletService';
+import { ethers } from 'ethers';
+import BigNumber from 'bignumber.js';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { WalletService, ImportedWalletInput } from './WalletService';
 import { CampaignExecutor } from './CampaignExecutor';
+import { KeyVaultService } from './KeyVaultService';
+import { HDWalletService } from './HDWalletService';
+import { ExternalSigningService } from './ExternalSigningService';
+import type { ReconciliationReport } from './ReconciliationService';
+import type { DryRunReport } from './PreflightService';
+import type { TokenBehaviorReport } from './TokenService';
+import { ContractService, BatchTransferMode, TokenStandard } from './ContractService';
+import { SafeTransactionService, ExecutedTransfer } from './SafeTransactionService';
+import { SolanaService, SolanaFinalizeResult, PRIORITY_FEE_LEVELS, SolanaPriorityLevel } from './SolanaService';
 import { ChainUtils } from '../utils/chain-utils';
+import { buildVestingTranches, validateVestingSchedule, VestingSchedule } from '../utils/vesting';
+import { isNativeToken, NATIVE_TOKEN_ADDRESSES } from '../config/constants';
 import { Logger } from '../utils/logger';
 import { DatabaseManager } from '../database/sqlite-schema';
 import type { DatabaseAdapter } from '../database/db-adapter';
 
 const logger = Logger.getInstance().child('CampaignService');
 
+// 同一钱包同时在途的批次数上限，过深容易触发节点的 pending 交易数限制
+const MAX_PIPELINE_DEPTH = 10;
+// 在途交易超过该时间未上链视为卡住并自动加速
+const DEFAULT_STUCK_TIMEOUT_SECONDS = 180;
+const MIN_STUCK_TIMEOUT_SECONDS = 30;
+// 锁仓释放活动检查到期解锁批次的间隔
+const VESTING_CHECK_INTERVAL_MS = 60 * 1000;
+// 多代币活动最多包含的代币数
+const MAX_TOKEN_LEGS = 5;
+
+// PUSH：由活动钱包逐批发送；MERKLE_CLAIM：部署 Merkle 分发合约，由接收者自行领取
+export type DistributionMode = 'PUSH' | 'MERKLE_CLAIM';
+
+// 多代币活动中的一种代币，原生代币的地址为零地址
+export interface TokenLeg {
+  tokenAddress: string;
+  tokenSymbol?: string;
+  tokenDecimals: number;
+}
+
 export interface CampaignData {
   name: string;
   description?: string;
@@ -16,12 +51,30 @@ export interface CampaignData {
   tokenSymbol?: string;
   tokenName?: string;
   tokenDecimals?: number;
+  tokenStandard?: TokenStandard; // ERC721 / ERC1155 为 NFT 空投，每条接收者记录带 tokenId
+  netDelivery?: boolean; // 转账手续费代币：接收者实际到账 CSV 中的金额，手续费由发送方承担
+  tokenLegs?: Array<{ tokenAddress: string; tokenSymbol?: string; tokenDecimals?: number }>; // 多代币活动：第 0 个为 tokenAddress
   batchSize?: number;
+  pipelineDepth?: number;
+  batchMode?: BatchTransferMode;
+  isolateFailures?: boolean;
+  distributionMode?: DistributionMode;
+  claimExpiresAt?: string;
+  vesting?: VestingSchedule; // 锁仓释放：所有接收者默认的释放计划
+  stuckTimeoutSeconds?: number;
+  maxFeePerGasGwei?: string;
+  priorityFeeLevel?: SolanaPriorityLevel; // Solana 优先费档位
+  maxPriorityFeeLamports?: number; // Solana 每笔交易的优先费上限
   sendInterval?: number;
   recipients: Array<{
     address: string;
     amount: string;
+    tokenId?: string; // NFT 活动必填，十进制 token ID
+    amounts?: string[]; // 多代币活动按 tokenLegs 顺序的金额，空值或 0 表示不发该代币
+    vesting?: VestingSchedule; // 覆盖活动默认的释放计划
   }>;
+  importedWallet?: ImportedWalletInput;
+  externalSignerAddress?: string;
 }
 
 export interface Campaign {
@@ -33,15 +86,34 @@ export interface Campaign {
   tokenSymbol?: string;
   tokenName?: string;
   tokenDecimals?: number;
+  tokenStandard: TokenStandard;
+  netDelivery: boolean;
+  tokenWarnings: string[]; // 创建时代币行为探测发现的问题
+  tokenLegs?: TokenLeg[]; // 多代币活动的代币列表，每个接收者按代币拆成多条记录
   status: 'CREATED' | 'FUNDED' | 'READY' | 'SENDING' | 'PAUSED' | 'COMPLETED' | 'FAILED';
   totalRecipients: number;
   completedRecipients: number;
   failedRecipients?: number;
   walletAddress?: string;
-  walletPrivateKeyBase64?: string;
+  walletId?: string;
+  derivationIndex?: number;
+  walletImported?: boolean;
+  signingMode: 'LOCAL' | 'EXTERNAL';
   contractAddress?: string;
   contractDeployedAt?: string;
   batchSize?: number;
+  pipelineDepth?: number;
+  batchMode?: BatchTransferMode;
+  isolateFailures?: boolean;
+  distributionMode: DistributionMode;
+  claimExpiresAt?: string;
+  merkleRoot?: string;
+  distributorAddress?: string;
+  vesting?: VestingSchedule;
+  stuckTimeoutSeconds?: number;
+  maxFeePerGasGwei?: string;
+  priorityFeeLevel: SolanaPriorityLevel;
+  maxPriorityFeeLamports?: number;
   sendInterval?: number;
   gasUsed: number;
   gasCostUsd: number;
@@ -50,27 +122,263 @@ export interface Campaign {
   completedAt?: string;
 }
 
+export interface VestingTranche {
+  trancheIndex: number;
+  unlockAt: string;
+  amount: string;
+  status: 'PENDING' | 'PROCESSING' | 'SENT' | 'FAILED';
+  txHash?: string;
+  errorMessage?: string;
+}
+
+export interface VestingScheduleEntry {
+  address: string;
+  totalAmount: string;
+  releasedAmount: string; // 已发放
+  unlockedAmount: string; // 已解锁、等待发送
+  lockedAmount: string; // 尚未解锁
+  failedAmount: string;
+  nextUnlockAt?: string;
+  tranches: VestingTranche[];
+}
+
+type VestingBucket = 'total' | 'released' | 'unlocked' | 'locked' | 'failed';
+
+export interface SafeBatch {
+  id: string;
+  campaignId: string;
+  safeAddress: string;
+  batchNumber: number;
+  recipientCount: number;
+  totalAmount: string;
+  filePath: string;
+  status: 'EXPORTED' | 'EXECUTED' | 'DISCARDED';
+  txHash?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SafeBatchExportResult {
+  outputDir: string;
+  batches: SafeBatch[];
+}
+
+export interface SafeExecutionResult {
+  txHash: string;
+  safeAddress: string;
+  executedBatches: number[];
+  recipientCount: number;
+}
+
+// 待写入的接收者记录：trancheIndex 为锁仓释放的解锁序号、NFT 活动的轮次或多代币活动的代币序号
+export interface RecipientRow {
+  address: string;
+  amount: string;
+  batchNumber: number;
+  trancheIndex: number;
+  unlockAt: string | null;
+  tokenId: string | null;
+  legIndex: number | null;
+}
+
+/**
+ * 生成接收者记录并分配批次号
+ * 锁仓释放活动按释放计划把每个接收者拆成多个解锁批次，同一解锁时间的记录才会编入同一批次，保证一个批次内地址不重复
+ * NFT 活动中同一地址可以出现多次（不同 token ID），按出现顺序编号并分轮编入批次，同样保证一个批次内地址不重复
+ * 多代币活动每个接收者每种代币一条记录，按代币顺序依次编入批次；一个批次可以混合多种代币，但地址不重复
+ */
+export function buildRecipientRows(
+  data: CampaignData,
+  merkleClaim: boolean,
+  tokenStandard: TokenStandard,
+  tokenLegs: TokenLeg[] | null
+): RecipientRow[] {
+  const batchSize = data.batchSize || 100;
+  if (tokenLegs) {
+    const rows: RecipientRow[] = [];
+    let batchNumber = 0;
+    let batchAddresses = new Set<string>();
+    for (let legIndex = 0; legIndex < tokenLegs.length; legIndex++) {
+      for (const recipient of data.recipients) {
+        const amount = recipient.amounts![legIndex]?.trim();
+        if (!amount || new BigNumber(amount).isZero()) {
+          continue;
+        }
+        const key = recipient.address.toLowerCase();
+        if (batchNumber === 0 || batchAddresses.size >= batchSize || batchAddresses.has(key)) {
+          batchNumber++;
+          batchAddresses = new Set();
+        }
+        batchAddresses.add(key);
+        rows.push({
+          address: recipient.address,
+          amount: new BigNumber(amount).toFixed(),
+          batchNumber,
+          trancheIndex: legIndex,
+          unlockAt: null,
+          tokenId: null,
+          legIndex,
+        });
+      }
+    }
+    return rows;
+  }
+
+  if (tokenStandard !== 'ERC20') {
+    const rounds: Array<Array<{ address: string; amount: string; trancheIndex: number; tokenId: string }>> = [];
+    const occurrences = new Map<string, number>();
+    for (const recipient of data.recipients) {
+      const key = recipient.address.toLowerCase();
+      const trancheIndex = occurrences.get(key) || 0;
+      occurrences.set(key, trancheIndex + 1);
+      (rounds[trancheIndex] ||= []).push({
+        address: recipient.address,
+        amount: recipient.amount,
+        trancheIndex,
+        tokenId: BigInt(recipient.tokenId!.trim()).toString(),
+      });
+    }
+
+    const rows: RecipientRow[] = [];
+    let batchNumber = 0;
+    for (const round of rounds) {
+      for (let i = 0; i < round.length; i++) {
+        if (i % batchSize === 0) {
+          batchNumber++;
+        }
+        rows.push({ ...round[i], batchNumber, unlockAt: null, legIndex: null });
+      }
+    }
+    return rows;
+  }
+
+  if (!data.vesting) {
+    if (data.recipients.some(recipient => recipient.vesting)) {
+      throw new Error('Per-recipient vesting schedules require a vesting campaign');
+    }
+    return data.recipients.map((recipient, i) => ({
+      address: recipient.address,
+      amount: recipient.amount,
+      batchNumber: Math.floor(i / batchSize) + 1,
+      trancheIndex: 0,
+      unlockAt: null,
+      tokenId: null,
+      legIndex: null,
+    }));
+  }
+
+  if (merkleClaim) {
+    throw new Error('Vesting is not available for Merkle claim campaigns');
+  }
+  if (data.tokenDecimals === undefined || data.tokenDecimals === null) {
+    throw new Error('Token decimals are required to split vesting tranches');
+  }
+  validateVestingSchedule(data.vesting);
+
+  const groups = new Map<string, Array<{ address: string; amount: string; trancheIndex: number }>>();
+  for (const recipient of data.recipients) {
+    const tranches = buildVestingTranches(recipient.amount, data.tokenDecimals, recipient.vesting || data.vesting);
+    for (const tranche of tranches) {
+      const group = groups.get(tranche.unlockAt) || [];
+      group.push({ address: recipient.address, amount: tranche.amount, trancheIndex: tranche.trancheIndex });
+      groups.set(tranche.unlockAt, group);
+    }
+  }
+
+  // ISO 时间按字符串排序即按时间排序，批次号随解锁时间递增
+  const rows: RecipientRow[] = [];
+  let batchNumber = 0;
+  for (const unlockAt of [...groups.keys()].sort()) {
+    const group = groups.get(unlockAt)!;
+    for (let i = 0; i < group.length; i++) {
+      if (i % batchSize === 0) {
+        batchNumber++;
+      }
+      rows.push({ ...group[i], batchNumber, unlockAt, tokenId: null, legIndex: null });
+    }
+  }
+  return rows;
+}
+
 export class CampaignService {
   private db: DatabaseAdapter;
   private walletService: WalletService;
   private executor: CampaignExecutor;
   private databaseManager: DatabaseManager;
+  private keyVault: KeyVaultService;
+  private hdWallet: HDWalletService;
+  private contractService: ContractService;
+  private safeTransactions: SafeTransactionService;
+  private solanaService: SolanaService;
   private deploymentLocks: Map<string, Promise<any>> = new Map();
-
-  constructor(databaseManager: DatabaseManager) {
+  private vestingTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    databaseManager: DatabaseManager,
+    keyVault: KeyVaultService,
+    hdWallet: HDWalletService,
+    externalSigning: ExternalSigningService
+  ) {
     logger.debug('[CampaignService] Initializing campaign service');
 
     this.db = databaseManager.getDatabase();
     this.databaseManager = databaseManager;
+    this.keyVault = keyVault;
+    this.hdWallet = hdWallet;
     this.walletService = new WalletService();
-    this.executor = new CampaignExecutor(databaseManager);
+    this.contractService = new ContractService();
+    this.safeTransactions = new SafeTransactionService();
+    this.solanaService = new SolanaService();
+    this.executor = new CampaignExecutor(databaseManager, keyVault, hdWallet, externalSigning);
 
     logger.info('[CampaignService] Campaign service initialized', {
       databaseManager: databaseManager.constructor.name
     });
   }
 
-  async createCampaign(data: CampaignData): Promise<Campaign> {
+  /**
+   * tokenBehavior 为创建前对 EVM ERC20 代币的行为探测结果，其中的警告随活动保存；
+   * 探测到转账手续费且开启按到账金额发送时，按到账比例上调每个接收者的发送金额
+   * 多代币活动不上调金额，各代币的探测警告通过 tokenLegWarnings 传入
+   */
+  async createCampaign(data: CampaignData, tokenBehavior?: TokenBehaviorReport, tokenLegWarnings: string[] = []): Promise<Campaign> {
+    // 外部签名模式只记录签名者地址，不涉及本机私钥
+    const externalSignerAddress = data.externalSignerAddress?.trim();
+    if (externalSignerAddress) {
+      if (data.importedWallet) {
+        throw new Error('External signer and imported wallet cannot be used together');
+      }
+      if (!ChainUtils.isValidAddress(externalSignerAddress, data.chain)) {
+        throw new Error('Invalid external signer address');
+      }
+    } else {
+      this.assertKeyVaultUnlocked();
+    }
+
+    const claimExpiresAt = data.distributionMode === 'MERKLE_CLAIM'
+      ? this.normalizeClaimExpiry(data, !!externalSignerAddress)
+      : null;
+    const tokenStandard = this.normalizeTokenStandard(data, !!claimExpiresAt);
+    const tokenLegs = this.normalizeTokenLegs(data, !!claimExpiresAt, tokenStandard);
+    // Solana 在发送时按手续费配置反推金额；EVM 没有链上手续费配置，只能在创建时按探测到的到账比例上调
+    const grossUp = !ChainUtils.isSolanaChain(data.chain) && !claimExpiresAt && tokenStandard === 'ERC20' && !tokenLegs
+      && !!data.netDelivery && !!tokenBehavior?.transferFeeBasisPoints;
+    const csvRows = buildRecipientRows(data, !!claimExpiresAt, tokenStandard, tokenLegs);
+    const recipientRows = grossUp ? this.grossUpForTransferFee(csvRows, data.tokenDecimals ?? 18, tokenBehavior!) : csvRows;
+    const tokenWarnings = [
+      ...(tokenBehavior?.warnings || []),
+      ...tokenLegWarnings,
+      ...(grossUp ? ['已按探测到的到账比例上调发送金额，接收者实际到账 CSV 中的金额，手续费由活动钱包承担'] : [])
+    ];
+
+    // 导入的钱包先校验，错误信息直接返回给用户
+    const importedWallet = data.importedWallet
+      ? await this.walletService.importWallet(data.importedWallet, ChainUtils.getChainType(data.chain))
+      : null;
+
+    const maxFeePerGasGwei = this.normalizeFeeCeiling(data.maxFeePerGasGwei);
+    const priorityFee = this.normalizePriorityFee(data);
+
     const id = uuidv4();
     const now = new Date().toISOString();
 
@@ -87,23 +395,45 @@ export class CampaignService {
       // 统一使用 chain_id，不再使用 network 字段
       const chainId = parseInt(data.chain);
 
-      // 根据链类型创建钱包
-      const wallet = this.createWalletForChain(chainType);
+      // 外部签名只保存地址；导入的钱包直接加密保存；配置了 HD 助记词时按索引派生钱包（只保存索引）；否则随机生成，私钥落库前先经保险库加密
+      let walletAddress: string;
+      let encryptedPrivateKey: string | null = null;
+      let derivationIndex: number | null = null;
+      if (externalSignerAddress) {
+        walletAddress = ChainUtils.isSolanaChain(data.chain)
+          ? externalSignerAddress
+          : ethers.getAddress(externalSignerAddress.toLowerCase());
+      } else if (importedWallet) {
+        walletAddress = importedWallet.address;
+        encryptedPrivateKey = this.keyVault.sealPrivateKey(importedWallet.privateKeyBase64);
+      } else if (await this.hdWallet.isConfigured()) {
+        const derived = await this.hdWallet.allocateWallet(chainType);
+        walletAddress = derived.address;
+        derivationIndex = derived.derivationIndex;
+      } else {
+        const wallet = this.createWalletForChain(chainType);
+        walletAddress = wallet.address;
+        encryptedPrivateKey = this.keyVault.sealPrivateKey(wallet.privateKeyBase64);
+      }
 
       logger.debug('[CampaignService] Campaign wallet created', {
-        address: wallet.address,
+        address: walletAddress,
         chain: data.chain,
         chainType,
-        hasPrivateKey: !!wallet.privateKeyBase64,
-        privateKeyLength: wallet.privateKeyBase64?.length || 0
+        derivationIndex,
+        imported: !!importedWallet,
+        external: !!externalSignerAddress,
+        hasPrivateKey: !!encryptedPrivateKey
       });
 
       const insertCampaign = this.db.prepare(`
         INSERT INTO campaigns (
-          id, name, description, chain_type, chain_id, token_address, token_symbol, token_name, token_decimals, status, total_recipients,
-          wallet_address, wallet_private_key_base64, batch_size, send_interval,
-          created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          id, name, description, chain_type, chain_id, token_address, token_symbol, token_name, token_decimals, token_standard, net_delivery, token_warnings, token_legs, status, total_recipients,
+          wallet_address, wallet_private_key_encrypted, derivation_index, wallet_imported, signing_mode, batch_size, pipeline_depth,
+          batch_mode, isolate_failures, distribution_mode, claim_expires_at, vesting_start_at, vesting_cliff_seconds,
+          vesting_duration_seconds, vesting_interval_seconds, stuck_timeout_seconds, max_fee_per_gas_gwei, priority_fee_level,
+          max_priority_fee_lamports, send_interval, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `);
 
       logger.debug('[CampaignService] Inserting campaign data into database', {
@@ -111,7 +441,7 @@ export class CampaignService {
         name: data.name,
         chainType,
         chainId,
-        walletAddress: wallet.address,
+        walletAddress,
         recipientsCount: data.recipients.length
       });
 
@@ -124,12 +454,33 @@ export class CampaignService {
         data.tokenAddress,
         data.tokenSymbol || null,
         data.tokenName || null,
-        data.tokenDecimals || null,
+        tokenStandard === 'ERC20' ? data.tokenDecimals || null : 0,
+        tokenStandard,
+        (chainType === 'solana' && data.netDelivery) || grossUp ? 1 : 0,
+        tokenWarnings.length > 0 ? JSON.stringify(tokenWarnings) : null,
+        tokenLegs ? JSON.stringify(tokenLegs) : null,
         'CREATED',
-        data.recipients.length,
-        wallet.address,
-        wallet.privateKeyBase64,
+        recipientRows.length,
+        walletAddress,
+        encryptedPrivateKey,
+        derivationIndex,
+        importedWallet ? 1 : 0,
+        externalSignerAddress ? 'EXTERNAL' : 'LOCAL',
         data.batchSize || 100,
+        this.normalizePipelineDepth(data.pipelineDepth),
+        // 尽力模式依赖批量转账合约，Solana 活动、NFT 活动与多代币活动始终按原子批次记录
+        chainType === 'evm' && tokenStandard === 'ERC20' && !tokenLegs && data.batchMode === 'BEST_EFFORT' ? 'BEST_EFFORT' : 'ATOMIC',
+        data.isolateFailures === false ? 0 : 1,
+        claimExpiresAt ? 'MERKLE_CLAIM' : 'PUSH',
+        claimExpiresAt,
+        data.vesting ? new Date(data.vesting.startAt).toISOString() : null,
+        data.vesting?.cliffSeconds ?? null,
+        data.vesting?.durationSeconds ?? null,
+        data.vesting?.intervalSeconds ?? null,
+        Math.max(Math.floor(data.stuckTimeoutSeconds || DEFAULT_STUCK_TIMEOUT_SECONDS), MIN_STUCK_TIMEOUT_SECONDS),
+        maxFeePerGasGwei,
+        priorityFee.level,
+        priorityFee.maxLamports,
         data.sendInterval || 2000,
         now,
         now
@@ -142,14 +493,12 @@ export class CampaignService {
         // 插入接收者并设置批次号
         const insertRecipient = tx.prepare(`
           INSERT INTO recipients (
-            campaign_id, address, amount, status, batch_number, created_at
-          ) VALUES (?, ?, ?, 'PENDING', ?, ?)
+            campaign_id, address, amount, status, batch_number, tranche_index, unlock_at, token_id, leg_index, created_at
+          ) VALUES (?, ?, ?, 'PENDING', ?, ?, ?, ?, ?, ?)
         `);
 
-        for (let i = 0; i < data.recipients.length; i++) {
-          const recipient = data.recipients[i];
-          const batchNumber = Math.floor(i / (data.batchSize || 100)) + 1;
-          await insertRecipient.run(id, recipient.address, recipient.amount, batchNumber, now);
+        for (const row of recipientRows) {
+          await insertRecipient.run(id, row.address, row.amount, row.batchNumber, row.trancheIndex, row.unlockAt, row.tokenId, row.legIndex, now);
         }
 
               });
@@ -170,6 +519,355 @@ export class CampaignService {
     }
   }
 
+  /**
+   * 按探测转账的 发送金额 / 到账金额 向上取整上调每条记录的发送金额
+   */
+  private grossUpForTransferFee<T extends { amount: string }>(rows: T[], decimals: number, tokenBehavior: TokenBehaviorReport): T[] {
+    const sent = BigInt(tokenBehavior.probeAmount!);
+    const received = BigInt(tokenBehavior.receivedAmount!);
+    return rows.map(row => {
+      const net = BigInt(new BigNumber(row.amount).shiftedBy(decimals).integerValue(BigNumber.ROUND_DOWN).toFixed());
+      const gross = (net * sent + received - 1n) / received;
+      return { ...row, amount: new BigNumber(gross.toString()).shiftedBy(-decimals).toFixed() };
+    });
+  }
+
+  /**
+   * Solana 优先费策略：档位默认 normal，上限为正整数 lamports，空值表示不限制
+   */
+  private normalizePriorityFee(data: CampaignData): { level: SolanaPriorityLevel; maxLamports: number | null } {
+    const level = data.priorityFeeLevel || 'normal';
+    if (!(level in PRIORITY_FEE_LEVELS)) {
+      throw new Error(`Invalid priority fee level: ${level}`);
+    }
+
+    const maxLamports = data.maxPriorityFeeLamports;
+    if (maxLamports === undefined || maxLamports === null) {
+      return { level, maxLamports: null };
+    }
+    if (!Number.isInteger(maxLamports) || maxLamports <= 0) {
+      throw new Error(`Invalid max priority fee: ${maxLamports}`);
+    }
+    return { level, maxLamports };
+  }
+
+  private assertKeyVaultUnlocked(): void {
+    if (!this.keyVault.isUnlocked()) {
+      throw new Error('Key vault is locked. Unlock it with the master passphrase first');
+    }
+  }
+
+  private normalizePipelineDepth(depth?: number): number {
+    if (!depth || !Number.isFinite(depth)) {
+      return 1;
+    }
+    return Math.min(Math.max(Math.floor(depth), 1), MAX_PIPELINE_DEPTH);
+  }
+
+  /**
+   * 费用上限以 Gwei 保存，空值表示不限制
+   */
+  private normalizeFeeCeiling(maxFeePerGasGwei?: string): string | null {
+    const value = maxFeePerGasGwei?.trim();
+    if (!value) {
+      return null;
+    }
+
+    try {
+      if (ethers.parseUnits(value, 'gwei') <= 0n) {
+        throw new Error('not positive');
+      }
+    } catch {
+      throw new Error(`Invalid max fee per gas: ${value}`);
+    }
+    return value;
+  }
+
+  /**
+   * 领取式活动的前置校验，返回规范化的过期时间（ISO 字符串）
+   */
+  private normalizeClaimExpiry(data: CampaignData, external: boolean): string {
+    if (ChainUtils.isSolanaChain(data.chain)) {
+      // Solana 没有对应的领取程序（见 ROADMAP.md 当前限制）
+      throw new Error('Merkle claim campaigns are only available on EVM chains');
+    }
+    if (external) {
+      throw new Error('Merkle claim campaigns require a local campaign wallet');
+    }
+
+    const expiresAt = new Date(data.claimExpiresAt || '');
+    if (Number.isNaN(expiresAt.getTime())) {
+      throw new Error('Claim expiry is required for Merkle claim campaigns');
+    }
+    if (expiresAt.getTime() <= Date.now()) {
+      throw new Error('Claim expiry must be in the future');
+    }
+    return expiresAt.toISOString();
+  }
+
+  /**
+   * NFT 活动的前置校验，返回规范化的代币标准
+   * ERC721 每条记录转出一个 token（数量固定为 1）；ERC1155 每条记录转出指定 token ID 的整数数量
+   */
+  private normalizeTokenStandard(data: CampaignData, merkleClaim: boolean): TokenStandard {
+    const standard = data.tokenStandard || 'ERC20';
+    if (standard === 'ERC20') {
+      if (data.recipients.some(recipient => recipient.tokenId)) {
+        throw new Error('Token IDs are only supported for ERC-721 and ERC-1155 campaigns');
+      }
+      return standard;
+    }
+    if (standard !== 'ERC721' && standard !== 'ERC1155') {
+      throw new Error(`Unsupported token standard: ${standard}`);
+    }
+
+    if (ChainUtils.isSolanaChain(data.chain) || isNativeToken(data.tokenAddress)) {
+      throw new Error('NFT campaigns require an ERC-721 or ERC-1155 contract on an EVM chain');
+    }
+    if (merkleClaim) {
+      throw new Error('NFT campaigns do not support Merkle claim distribution');
+    }
+    if (data.vesting) {
+      throw new Error('NFT campaigns do not support vesting');
+    }
+
+    const seenTokenIds = new Set<string>();
+    for (const recipient of data.recipients) {
+      const tokenId = recipient.tokenId?.trim();
+      if (!tokenId || !/^\d+$/.test(tokenId)) {
+        throw new Error(`Invalid token ID for ${recipient.address}: ${recipient.tokenId || '(empty)'}`);
+      }
+      if (standard === 'ERC721') {
+        if (recipient.amount !== '1') {
+          throw new Error(`ERC-721 transfers must have amount 1 (${recipient.address}, token ${tokenId})`);
+        }
+        // 同一个 ERC721 token 只能转出一次
+        const key = BigInt(tokenId).toString();
+        if (seenTokenIds.has(key)) {
+          throw new Error(`Duplicate ERC-721 token ID: ${tokenId}`);
+        }
+        seenTokenIds.add(key);
+      } else if (!/^\d+$/.test(recipient.amount) || BigInt(recipient.amount) <= 0n) {
+        throw new Error(`ERC-1155 amount must be a positive whole number (${recipient.address}, token ${tokenId})`);
+      }
+    }
+    return standard;
+  }
+
+  /**
+   * 多代币活动的前置校验，返回规范化的代币列表，单代币活动返回 null
+   * 只支持 EVM 链上直接发送的 ERC20 与原生代币；每个接收者只能出现一次，amounts 与代币一一对应
+   */
+  private normalizeTokenLegs(data: CampaignData, merkleClaim: boolean, tokenStandard: TokenStandard): TokenLeg[] | null {
+    if (!data.tokenLegs || data.tokenLegs.length === 0) {
+      if (data.recipients.some(recipient => recipient.amounts)) {
+        throw new Error('Per-token amounts require a multi-token campaign');
+      }
+      return null;
+    }
+
+    if (ChainUtils.isSolanaChain(data.chain)) {
+      throw new Error('Multi-token campaigns are only supported on EVM chains');
+    }
+    if (merkleClaim) {
+      throw new Error('Multi-token campaigns do not support Merkle claim distribution');
+    }
+    if (tokenStandard !== 'ERC20') {
+      throw new Error('Multi-token campaigns only support ERC-20 and native tokens');
+    }
+    if (data.vesting) {
+      throw new Error('Multi-token campaigns do not support vesting');
+    }
+    if (data.tokenLegs.length < 2 || data.tokenLegs.length > MAX_TOKEN_LEGS) {
+      throw new Error(`Multi-token campaigns need 2 to ${MAX_TOKEN_LEGS} tokens`);
+    }
+
+    const legs: TokenLeg[] = data.tokenLegs.map(leg => {
+      if (isNativeToken(leg.tokenAddress)) {
+        return { tokenAddress: NATIVE_TOKEN_ADDRESSES.EVM, tokenSymbol: leg.tokenSymbol, tokenDecimals: 18 };
+      }
+      if (!ethers.isAddress(leg.tokenAddress)) {
+        throw new Error(`Invalid token address: ${leg.tokenAddress}`);
+      }
+      if (leg.tokenDecimals === undefined || leg.tokenDecimals === null) {
+        throw new Error(`Token decimals are required for ${leg.tokenSymbol || leg.tokenAddress}`);
+      }
+      return { tokenAddress: ethers.getAddress(leg.tokenAddress.toLowerCase()), tokenSymbol: leg.tokenSymbol, tokenDecimals: leg.tokenDecimals };
+    });
+
+    const primary = isNativeToken(data.tokenAddress) ? NATIVE_TOKEN_ADDRESSES.EVM : data.tokenAddress;
+    if (legs[0].tokenAddress.toLowerCase() !== primary.toLowerCase()) {
+      throw new Error('The first token of a multi-token campaign must be the campaign token');
+    }
+    if (new Set(legs.map(leg => leg.tokenAddress.toLowerCase())).size !== legs.length) {
+      throw new Error('Duplicate token in multi-token campaign');
+    }
+
+    const seenAddresses = new Set<string>();
+    for (const recipient of data.recipients) {
+      const key = recipient.address.toLowerCase();
+      if (seenAddresses.has(key)) {
+        throw new Error(`Duplicate recipient in multi-token campaign: ${recipient.address}`);
+      }
+      seenAddresses.add(key);
+
+      if (recipient.amounts?.length !== legs.length) {
+        throw new Error(`Expected ${legs.length} token amounts for ${recipient.address}`);
+      }
+      let hasAmount = false;
+      recipient.amounts.forEach((value, i) => {
+        const amount = value?.trim();
+        if (!amount) {
+          return;
+        }
+        const parsed = new BigNumber(amount);
+        if (parsed.isNaN() || parsed.isNegative()) {
+          throw new Error(`Invalid ${legs[i].tokenSymbol || legs[i].tokenAddress} amount for ${recipient.address}: ${amount}`);
+        }
+        if ((parsed.decimalPlaces() ?? 0) > legs[i].tokenDecimals) {
+          throw new Error(`${legs[i].tokenSymbol || legs[i].tokenAddress} amount for ${recipient.address} has more than ${legs[i].tokenDecimals} decimals`);
+        }
+        hasAmount ||= parsed.isGreaterThan(0);
+      });
+      if (!hasAmount) {
+        throw new Error(`No token amounts for ${recipient.address}`);
+      }
+    }
+    return legs;
+  }
+
+  /**
+   * 锁仓释放活动的释放情况：按接收者汇总已发放、已解锁待发送和仍锁定的金额
+   */
+  async getVestingSchedule(campaignId: string): Promise<VestingScheduleEntry[]> {
+    const rows = await this.db.prepare(`
+      SELECT address, amount, status, tx_hash, error_message, tranche_index, unlock_at
+      FROM recipients WHERE campaign_id = ? AND unlock_at IS NOT NULL
+      ORDER BY id
+    `).all(campaignId) as Array<{
+      address: string;
+      amount: string;
+      status: string;
+      tx_hash: string | null;
+      error_message: string | null;
+      tranche_index: number;
+      unlock_at: string;
+    }>;
+
+    // 金额按解锁批次累加：已发放 / 已解锁待发送 / 仍锁定 / 失败
+    const now = new Date().toISOString();
+    const entries = new Map<string, { entry: VestingScheduleEntry; sums: Record<VestingBucket, BigNumber> }>();
+    for (const row of rows) {
+      let item = entries.get(row.address);
+      if (!item) {
+        item = {
+          entry: {
+            address: row.address,
+            totalAmount: '0',
+            releasedAmount: '0',
+            unlockedAmount: '0',
+            lockedAmount: '0',
+            failedAmount: '0',
+            tranches: [],
+          },
+          sums: { total: new BigNumber(0), released: new BigNumber(0), unlocked: new BigNumber(0), locked: new BigNumber(0), failed: new BigNumber(0) },
+        };
+        entries.set(row.address, item);
+      }
+
+      const bucket: VestingBucket = row.status === 'SENT'
+        ? 'released'
+        : row.status === 'FAILED'
+          ? 'failed'
+          : row.unlock_at <= now ? 'unlocked' : 'locked';
+      item.sums.total = item.sums.total.plus(row.amount);
+      item.sums[bucket] = item.sums[bucket].plus(row.amount);
+      if (bucket === 'locked' && (!item.entry.nextUnlockAt || row.unlock_at < item.entry.nextUnlockAt)) {
+        item.entry.nextUnlockAt = row.unlock_at;
+      }
+
+      item.entry.tranches.push({
+        trancheIndex: row.tranche_index,
+        unlockAt: row.unlock_at,
+        amount: row.amount,
+        status: row.status as VestingTranche['status'],
+        txHash: row.tx_hash || undefined,
+        errorMessage: row.error_message || undefined,
+      });
+    }
+
+    return [...entries.values()].map(({ entry, sums }) => ({
+      ...entry,
+      totalAmount: sums.total.toFixed(),
+      releasedAmount: sums.released.toFixed(),
+      unlockedAmount: sums.unlocked.toFixed(),
+      lockedAmount: sums.locked.toFixed(),
+      failedAmount: sums.failed.toFixed(),
+    }));
+  }
+
+  /**
+   * 定时检查锁仓释放活动：有到期的解锁批次且活动处于就绪状态时自动开始发送
+   */
+  startVestingScheduler(): void {
+    if (this.vestingTimer) {
+      return;
+    }
+    this.vestingTimer = setInterval(() => {
+      this.runDueVestingTranches().catch(error => {
+        logger.error('[CampaignService] Vesting scheduler run failed', error as Error);
+      });
+    }, VESTING_CHECK_INTERVAL_MS);
+    this.vestingTimer.unref?.();
+  }
+
+  stopVestingScheduler(): void {
+    if (this.vestingTimer) {
+      clearInterval(this.vestingTimer);
+      this.vestingTimer = null;
+    }
+  }
+
+  /**
+   * 开始发送所有有到期解锁批次的锁仓释放活动，返回已开始的活动 ID
+   * 只接管用户已手动开始过的活动；主密码未解锁时本机签名的活动跳过，等待下次检查
+   */
+  async runDueVestingTranches(): Promise<string[]> {
+    const due = await this.db.prepare(`
+      SELECT c.id, c.signing_mode FROM campaigns c
+      WHERE c.status = 'READY' AND c.vesting_activated_at IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM recipients r
+          WHERE r.campaign_id = c.id AND r.status = 'PENDING' AND r.unlock_at <= ?
+        )
+    `).all(new Date().toISOString()) as Array<{ id: string; signing_mode: string }>;
+
+    const started: string[] = [];
+    for (const campaign of due) {
+      if (this.executor.isExecuting(campaign.id)) {
+        continue;
+      }
+      if (campaign.signing_mode !== 'EXTERNAL' && !this.keyVault.isUnlocked()) {
+        logger.debug('[CampaignService] Vesting tranche due but key vault is locked', { campaignId: campaign.id });
+        continue;
+      }
+      // 已导出给 Safe 的批次由多签执行，不自动发送
+      const openSafeBatches = await this.db.prepare(
+        "SELECT COUNT(*) as count FROM safe_batches WHERE campaign_id = ? AND status = 'EXPORTED'"
+      ).get(campaign.id) as { count: number };
+      if (openSafeBatches.count > 0) {
+        continue;
+      }
+
+      logger.info('[CampaignService] Starting due vesting tranches', { campaignId: campaign.id });
+      this.executor.executeCampaign(campaign.id).catch(error => {
+        logger.error('Vesting tranche execution failed', error as Error, { campaignId: campaign.id });
+      });
+      started.push(campaign.id);
+    }
+    return started;
+  }
+
   private createWalletForChain(chainType: 'evm' | 'solana') {
     if (chainType === 'solana') {
       return this.walletService.createSolanaWallet();
@@ -242,16 +940,40 @@ export class CampaignService {
       chainType: row.chain_type,
       tokenAddress: row.token_address,
       tokenSymbol: row.token_symbol,
-      tokenDecimals: row.token_decimals || 18,
+      // NFT 活动的精度为 0
+      tokenDecimals: row.token_decimals ?? 18,
+      tokenStandard: row.token_standard || 'ERC20',
+      netDelivery: row.net_delivery === 1,
+      tokenWarnings: row.token_warnings ? JSON.parse(row.token_warnings) : [],
+      tokenLegs: row.token_legs ? JSON.parse(row.token_legs) : undefined,
       status: row.status,
       totalRecipients: row.total_recipients,
       completedRecipients: row.completed_recipients,
       failedRecipients: row.failed_recipients || 0,
       walletAddress: row.wallet_address,
-      walletPrivateKeyBase64: row.wallet_private_key_base64,
+      derivationIndex: row.derivation_index ?? undefined,
+      walletImported: !!row.wallet_imported,
+      signingMode: row.signing_mode || 'LOCAL',
       contractAddress: row.contract_address,
       contractDeployedAt: row.contract_deployed_at,
       batchSize: row.batch_size || 100,
+      pipelineDepth: row.pipeline_depth || 1,
+      batchMode: row.batch_mode || 'ATOMIC',
+      isolateFailures: row.isolate_failures !== 0,
+      distributionMode: row.distribution_mode || 'PUSH',
+      claimExpiresAt: row.claim_expires_at || undefined,
+      merkleRoot: row.merkle_root || undefined,
+      distributorAddress: row.distributor_address || undefined,
+      vesting: row.vesting_start_at ? {
+        startAt: row.vesting_start_at,
+        cliffSeconds: row.vesting_cliff_seconds || 0,
+        durationSeconds: row.vesting_duration_seconds || 0,
+        intervalSeconds: row.vesting_interval_seconds || 0,
+      } : undefined,
+      stuckTimeoutSeconds: row.stuck_timeout_seconds || DEFAULT_STUCK_TIMEOUT_SECONDS,
+      maxFeePerGasGwei: row.max_fee_per_gas_gwei || undefined,
+      priorityFeeLevel: row.priority_fee_level || 'normal',
+      maxPriorityFeeLamports: row.max_priority_fee_lamports ?? undefined,
       sendInterval: row.send_interval || 2000,
       gasUsed: row.total_gas_used || 0,
       gasCostUsd: row.total_cost_usd || 0,
@@ -278,11 +1000,22 @@ export class CampaignService {
     id: string,
     onProgress?: (progress: any) => void
   ): Promise<{ success: boolean }> {
+    const campaign = await this.getCampaignById(id);
+
+    // 执行器在后台解密私钥，锁定状态需在启动前直接报告给调用方（外部签名活动不需要私钥）
+    if (campaign?.signingMode !== 'EXTERNAL') {
+      this.assertKeyVaultUnlocked();
+    }
+    // 已导出给 Safe 的接收者由多签执行，避免重复发送
+    await this.assertNoOpenSafeBatches(id);
+
     try {
-      const campaign = await this.getCampaignById(id);
       if (!campaign) {
         throw new Error('Campaign not found');
       }
+      if (campaign.distributionMode === 'MERKLE_CLAIM') {
+        throw new Error('Merkle claim campaigns are distributed by recipient claims and cannot be started');
+      }
 
       // 统一要求 READY 或 PAUSED 状态
       if (campaign.status !== 'READY' && campaign.status !== 'PAUSED') {
@@ -293,7 +1026,13 @@ export class CampaignService {
         }
       }
 
-      
+      // 锁仓释放活动开始后，后续解锁批次由释放调度自动发送
+      if (campaign.vesting) {
+        await this.db.prepare(
+          'UPDATE campaigns SET vesting_activated_at = COALESCE(vesting_activated_at, ?) WHERE id = ?'
+        ).run(new Date().toISOString(), id);
+      }
+
       // Execute campaign in background (non-blocking)
     this.executor.executeCampaign(id, onProgress).catch(error => {
       logger.error('Campaign execution failed', error as Error, { id });
@@ -431,6 +1170,10 @@ export class CampaignService {
     txHash?: string;
     gasUsed?: number;
     errorMessage?: string;
+    trancheIndex: number;
+    unlockAt?: string;
+    tokenId?: string;
+    legIndex?: number;
     createdAt: string;
     updatedAt: string;
   }>> {
@@ -441,7 +1184,7 @@ export class CampaignService {
       }
 
       const recipients = await this.db.prepare(`
-        SELECT * FROM recipients WHERE campaign_id = ? ORDER BY created_at
+        SELECT * FROM recipients WHERE campaign_id = ? ORDER BY created_at, id
       `).all(campaignId) as any[] || [];
 
       if (!Array.isArray(recipients)) {
@@ -457,6 +1200,10 @@ export class CampaignService {
         txHash: row.tx_hash,
         gasUsed: row.gas_used,
         errorMessage: row.error_message,
+        trancheIndex: row.tranche_index ?? 0,
+        unlockAt: row.unlock_at || undefined,
+        tokenId: row.token_id || undefined,
+        legIndex: row.leg_index ?? undefined,
         createdAt: row.created_at,
         updatedAt: row.updated_at,
       }));
@@ -529,6 +1276,9 @@ export class CampaignService {
     status: string;
     blockNumber?: number;
     blockHash?: string;
+    nonce?: number;
+    batchNumber?: number;
+    replacesTxHash?: string;
     recipientCount?: number;
     createdAt: string;
     confirmedAt?: string;
@@ -581,6 +1331,9 @@ export class CampaignService {
         status: row.status,
         blockNumber: row.block_number,
         blockHash: row.block_hash,
+        nonce: row.nonce ?? undefined,
+        batchNumber: row.batch_number ?? undefined,
+        replacesTxHash: row.replaces_tx_hash || undefined,
         recipientCount: row.recipient_count || 0,
         createdAt: row.created_at,
         confirmedAt: row.confirmed_at,
@@ -596,7 +1349,7 @@ export class CampaignService {
    */
   async recordTransaction(campaignId: string, transactionData: {
     txHash: string;
-    txType: 'DEPLOY_CONTRACT' | 'TRANSFER_TO_CONTRACT' | 'APPROVE_TOKENS' | 'BATCH_SEND' | 'WITHDRAW_REMAINING';
+    txType: 'DEPLOY_CONTRACT' | 'TRANSFER_TO_CONTRACT' | 'APPROVE_TOKENS' | 'BATCH_SEND' | 'WITHDRAW_REMAINING' | 'CANCEL_NONCE';
     fromAddress: string;
     toAddress?: string;
     amount?: string;
@@ -638,7 +1391,7 @@ export class CampaignService {
   /**
    * 更新交易状态
    */
-  async updateTransactionStatus(txHash: string, status: 'PENDING' | 'CONFIRMED' | 'FAILED', blockNumber?: number, blockHash?: string): Promise<void> {
+  async updateTransactionStatus(txHash: string, status: 'PENDING' | 'CONFIRMED' | 'FAILED' | 'REPLACED', blockNumber?: number, blockHash?: string): Promise<void> {
     try {
       const updates: any[] = [status, new Date().toISOString(), txHash];
       let query = `
@@ -667,9 +1420,14 @@ export class CampaignService {
   /**
    * 恢复活动
    */
-  async resumeCampaign(id: string): Promise<{ success: boolean }> {
+  async resumeCampaign(id: string): Promise<{ success: boolean; reconciliation: ReconciliationReport | null }> {
+    const campaign = await this.getCampaignById(id);
+    if (campaign?.signingMode !== 'EXTERNAL') {
+      this.assertKeyVaultUnlocked();
+    }
+    await this.assertNoOpenSafeBatches(id);
+
     try {
-      const campaign = await this.getCampaignById(id);
       if (!campaign) {
         throw new Error('Campaign not found');
       }
@@ -681,10 +1439,10 @@ export class CampaignService {
       // 更新状态为SENDING
       await this.updateCampaignStatus(id, 'SENDING');
 
-      // 请求执行器恢复执行
-      await this.executor.resumeExecution(id);
+      // 请求执行器恢复执行（先对账上次中断的批次）
+      const reconciliation = await this.executor.resumeExecution(id);
 
-      return { success: true };
+      return { success: true, reconciliation };
     } catch (error) {
       logger.error('[CampaignService] Failed to resume campaign', error as Error, { id });
       throw new Error('Campaign resume failed');
@@ -746,6 +1504,73 @@ export class CampaignService {
     }
   }
 
+  /**
+   * 启动时对账上次退出时中断的活动
+   */
+  async reconcileInterruptedCampaigns(): Promise<ReconciliationReport[]> {
+    return this.executor.reconcileInterruptedCampaigns();
+  }
+
+  /**
+   * 获取活动的对账记录（最新在前）
+   */
+  async getReconciliationReports(campaignId: string): Promise<ReconciliationReport[]> {
+    return this.executor.getReconciliationReports(campaignId);
+  }
+
+  /**
+   * 模拟发送：按当前链上状态模拟所有待发送批次并报告有问题的地址，不广播任何交易
+   */
+  async dryRunCampaign(campaignId: string): Promise<DryRunReport> {
+    return this.executor.dryRunCampaign(campaignId);
+  }
+
+  /**
+   * 结束 Solana 活动钱包：转出剩余代币并关闭代币账户、关闭活动的查找表、清空 SOL，返回回收的租金
+   */
+  async finalizeSolanaWallet(
+    campaignId: string,
+    rpcUrl: string,
+    privateKeyBase64: string,
+    recipientAddress: string
+  ): Promise<SolanaFinalizeResult> {
+    const row = await this.db.prepare('SELECT status, lookup_table_address FROM campaigns WHERE id = ?').get(campaignId) as any;
+    if (!row) {
+      throw new Error('Campaign not found');
+    }
+    if (row.status === 'SENDING') {
+      throw new Error('Cannot finalize the wallet while the campaign is sending');
+    }
+
+    const lookupTables: string[] = row.lookup_table_address ? [row.lookup_table_address] : [];
+    const result = await this.solanaService.finalizeWallet(rpcUrl, privateKeyBase64, recipientAddress, lookupTables);
+    if (lookupTables.length > 0 && result.closedLookupTables.includes(lookupTables[0])) {
+      await this.db.prepare('UPDATE campaigns SET lookup_table_address = NULL, updated_at = ? WHERE id = ?')
+        .run(new Date().toISOString(), campaignId);
+    }
+
+    logger.info('[CampaignService] Solana wallet finalized', {
+      campaignId,
+      rentRecoveredLamports: result.rentRecoveredLamports,
+      skippedAccounts: result.skippedAccounts.length
+    });
+    return result;
+  }
+
+  /**
+   * 加速在途交易：同 nonce 加价重发所属批次
+   */
+  async speedUpTransaction(campaignId: string, txHash: string): Promise<string> {
+    return this.executor.speedUpTransaction(campaignId, txHash);
+  }
+
+  /**
+   * 取消在途交易：同 nonce 发送 0 金额自转账，上链后该批次接收者标记为失败
+   */
+  async cancelTransaction(campaignId: string, txHash: string): Promise<string> {
+    return this.executor.cancelTransaction(campaignId, txHash);
+  }
+
   /**
    * 重试失败的交易
    */
@@ -786,4 +1611,322 @@ export class CampaignService {
     }
   }
 
+  /**
+   * 将待发送的接收者按批次导出为 Safe 交易构建器文件（每个批次一个文件）
+   * 导出的接收者在执行结果导入或批次作废之前不会被再次导出，活动也不能启动
+   */
+  async exportSafeBatches(
+    campaignId: string,
+    options: { safeAddress: string; rpcUrl: string; outputDir: string }
+  ): Promise<SafeBatchExportResult> {
+    const campaign = await this.getCampaignById(campaignId);
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+    if (ChainUtils.isSolanaChain(campaign.chain)) {
+      throw new Error('Safe export is only available for EVM campaigns');
+    }
+    if (campaign.tokenStandard !== 'ERC20') {
+      throw new Error('Safe export is not available for NFT campaigns');
+    }
+    if (campaign.tokenLegs) {
+      throw new Error('Safe export is not available for multi-token campaigns');
+    }
+    if (!campaign.contractAddress) {
+      throw new Error('Contract must be deployed before exporting Safe batches');
+    }
+    if (campaign.status === 'SENDING') {
+      throw new Error('Pause the campaign before exporting Safe batches');
+    }
+    if (!ethers.isAddress(options.safeAddress)) {
+      throw new Error('Invalid Safe address');
+    }
+
+    const safeAddress = ethers.getAddress(options.safeAddress);
+    const provider = new ethers.JsonRpcProvider(options.rpcUrl);
+    const [network, code] = await Promise.all([provider.getNetwork(), provider.getCode(safeAddress)]);
+    if (code === '0x') {
+      throw new Error('Safe address has no contract code on this network');
+    }
+
+    const rows = await this.db.prepare(`
+      SELECT r.id, r.address, r.amount, r.batch_number
+      FROM recipients r
+      WHERE r.campaign_id = ? AND r.status = 'PENDING' AND (r.unlock_at IS NULL OR r.unlock_at <= ?)
+        AND NOT EXISTS (
+          SELECT 1 FROM safe_batch_recipients sbr
+          JOIN safe_batches sb ON sb.id = sbr.safe_batch_id
+          WHERE sbr.recipient_id = r.id AND sb.status = 'EXPORTED'
+        )
+      ORDER BY r.batch_number, r.id
+    `).all(campaignId, new Date().toISOString()) as Array<{ id: number; address: string; amount: string; batch_number: number }>;
+
+    if (rows.length === 0) {
+      throw new Error('No pending recipients to export');
+    }
+
+    const groups = new Map<number, typeof rows>();
+    for (const row of rows) {
+      const group = groups.get(row.batch_number) || [];
+      group.push(row);
+      groups.set(row.batch_number, group);
+    }
+
+    await fs.mkdir(options.outputDir, { recursive: true });
+
+    const batches: SafeBatch[] = [];
+    for (const [batchNumber, group] of groups) {
+      const { calls, rawAmounts, totalAmount } = await this.contractService.buildBatchTransferCalls(
+        campaign.contractAddress,
+        options.rpcUrl,
+        group.map(row => row.address),
+        group.map(row => row.amount),
+        campaign.tokenAddress
+      );
+
+      const decimals = isNativeToken(campaign.tokenAddress) ? 18 : campaign.tokenDecimals ?? 18;
+      const formattedTotal = ethers.formatUnits(totalAmount, decimals);
+      const batchFile = this.safeTransactions.buildBatchFile({
+        chainId: network.chainId,
+        safeAddress,
+        name: `${campaign.name} #${batchNumber}`,
+        description: `CryptoCast 批次 ${batchNumber}：${group.length} 个地址，合计 ${formattedTotal} ${campaign.tokenSymbol || ''}`.trim(),
+        calls,
+      });
+
+      const id = uuidv4();
+      const filePath = path.join(options.outputDir, `safe-${campaignId.slice(0, 8)}-batch-${batchNumber}.json`);
+      await fs.writeFile(filePath, JSON.stringify(batchFile, null, 2), 'utf8');
+
+      const now = new Date().toISOString();
+      await this.db.transaction(async (tx) => {
+        await tx.prepare(`
+          INSERT INTO safe_batches (
+            id, campaign_id, safe_address, batch_number, recipient_count, total_amount,
+            file_path, status, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, 'EXPORTED', ?, ?)
+        `).run(id, campaignId, safeAddress, batchNumber, group.length, formattedTotal, filePath, now, now);
+
+        for (let i = 0; i < group.length; i++) {
+          await tx.prepare(
+            'INSERT INTO safe_batch_recipients (safe_batch_id, recipient_id, amount_raw) VALUES (?, ?, ?)'
+          ).run(id, group[i].id, rawAmounts[i].toString());
+        }
+      });
+
+      batches.push({
+        id,
+        campaignId,
+        safeAddress,
+        batchNumber,
+        recipientCount: group.length,
+        totalAmount: formattedTotal,
+        filePath,
+        status: 'EXPORTED',
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    logger.info('[CampaignService] Exported Safe batches', {
+      campaignId,
+      safeAddress,
+      batchCount: batches.length,
+      recipientCount: rows.length
+    });
+
+    return { outputDir: options.outputDir, batches };
+  }
+
+  /**
+   * 导入 Safe 已执行的交易：解析回执（原生代币解析 calldata），与导出的批次逐一匹配后标记接收者为 SENT
+   */
+  async ingestSafeExecution(campaignId: string, txHash: string, rpcUrl: string): Promise<SafeExecutionResult> {
+    const campaign = await this.getCampaignById(campaignId);
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+    if (!campaign.contractAddress) {
+      throw new Error('Campaign contract is not deployed');
+    }
+    if (!/^0x[0-9a-fA-F]{64}$/.test(txHash.trim())) {
+      throw new Error('Invalid transaction hash');
+    }
+
+    const openBatches = await this.db.prepare(`
+      SELECT * FROM safe_batches WHERE campaign_id = ? AND status = 'EXPORTED' ORDER BY batch_number
+    `).all(campaignId) as any[];
+    if (openBatches.length === 0) {
+      throw new Error('No exported Safe batches are awaiting execution');
+    }
+
+    const hash = txHash.trim();
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const [transaction, receipt] = await Promise.all([
+      provider.getTransaction(hash),
+      provider.getTransactionReceipt(hash)
+    ]);
+    if (!transaction || !receipt) {
+      throw new Error('Transaction not found or not yet mined');
+    }
+    if (receipt.status !== 1) {
+      throw new Error('Transaction reverted on-chain');
+    }
+
+    const safeAddress = this.safeTransactions.findExecutingSafe(
+      receipt,
+      [...new Set(openBatches.map(batch => batch.safe_address as string))]
+    );
+
+    let transfers: ExecutedTransfer[];
+    if (isNativeToken(campaign.tokenAddress)) {
+      // 原生代币转账没有事件，从 execTransaction 的调用内容还原
+      transfers = this.safeTransactions.decodeSafeCalls(safeAddress, transaction)
+        .filter(call => call.to.toLowerCase() === campaign.contractAddress!.toLowerCase())
+        .flatMap(call => {
+          const decoded = this.contractService.decodeBatchTransferCall(call.data);
+          if (!decoded || decoded.tokenAddress) {
+            return [];
+          }
+          return decoded.recipients.map((to, i) => ({ to, amount: decoded.amounts[i] }));
+        });
+    } else {
+      transfers = this.safeTransactions.getTokenTransfers(receipt, campaign.tokenAddress, safeAddress);
+    }
+
+    // 以 地址+金额 计数，一个批次的所有接收者都能在交易中找到才算执行
+    const remaining = new Map<string, number>();
+    for (const transfer of transfers) {
+      const key = `${transfer.to.toLowerCase()}:${transfer.amount}`;
+      remaining.set(key, (remaining.get(key) || 0) + 1);
+    }
+
+    const matched: Array<{ batch: any; recipientIds: number[] }> = [];
+    for (const batch of openBatches) {
+      if (batch.safe_address.toLowerCase() !== safeAddress.toLowerCase()) {
+        continue;
+      }
+
+      const members = await this.db.prepare(`
+        SELECT sbr.recipient_id, sbr.amount_raw, r.address
+        FROM safe_batch_recipients sbr
+        JOIN recipients r ON r.id = sbr.recipient_id
+        WHERE sbr.safe_batch_id = ?
+      `).all(batch.id) as Array<{ recipient_id: number; amount_raw: string; address: string }>;
+
+      const needed = new Map<string, number>();
+      for (const member of members) {
+        const key = `${member.address.toLowerCase()}:${member.amount_raw}`;
+        needed.set(key, (needed.get(key) || 0) + 1);
+      }
+      const covered = [...needed].every(([key, count]) => (remaining.get(key) || 0) >= count);
+      if (!covered) {
+        continue;
+      }
+
+      for (const [key, count] of needed) {
+        remaining.set(key, remaining.get(key)! - count);
+      }
+      matched.push({ batch, recipientIds: members.map(member => member.recipient_id) });
+    }
+
+    if (matched.length === 0) {
+      throw new Error('No exported Safe batch matches the transfers in this transaction');
+    }
+
+    const now = new Date().toISOString();
+    await this.db.transaction(async (tx) => {
+      for (const { batch, recipientIds } of matched) {
+        await tx.prepare(`
+          UPDATE safe_batches SET status = 'EXECUTED', tx_hash = ?, updated_at = ? WHERE id = ?
+        `).run(hash, now, batch.id);
+
+        for (const recipientId of recipientIds) {
+          await tx.prepare(`
+            UPDATE recipients
+            SET status = 'SENT', tx_hash = ?, error_message = NULL, updated_at = ?
+            WHERE id = ? AND status != 'SENT'
+          `).run(hash, now, recipientId);
+        }
+      }
+    });
+
+    await this.recordTransaction(campaignId, {
+      txHash: hash,
+      txType: 'BATCH_SEND',
+      fromAddress: safeAddress,
+      toAddress: campaign.contractAddress,
+      amount: matched.map(({ batch }) => batch.total_amount).join(' + '),
+      gasUsed: Number(receipt.gasUsed),
+      status: 'CONFIRMED',
+      blockNumber: receipt.blockNumber,
+      blockHash: receipt.blockHash
+    });
+    await this.updateProgress(campaignId);
+
+    const unsent = await this.db.prepare(
+      "SELECT COUNT(*) as count FROM recipients WHERE campaign_id = ? AND status != 'SENT'"
+    ).get(campaignId) as { count: number };
+    if (unsent.count === 0) {
+      await this.updateCampaignStatus(campaignId, 'COMPLETED');
+    }
+
+    const recipientCount = matched.reduce((sum, { recipientIds }) => sum + recipientIds.length, 0);
+    logger.info('[CampaignService] Ingested Safe execution', {
+      campaignId,
+      txHash: hash,
+      batches: matched.map(({ batch }) => batch.batch_number),
+      recipientCount
+    });
+
+    return {
+      txHash: hash,
+      safeAddress,
+      executedBatches: matched.map(({ batch }) => batch.batch_number),
+      recipientCount,
+    };
+  }
+
+  async listSafeBatches(campaignId: string): Promise<SafeBatch[]> {
+    const rows = await this.db.prepare(
+      'SELECT * FROM safe_batches WHERE campaign_id = ? ORDER BY created_at DESC, batch_number'
+    ).all(campaignId) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      campaignId: row.campaign_id,
+      safeAddress: row.safe_address,
+      batchNumber: row.batch_number,
+      recipientCount: row.recipient_count,
+      totalAmount: row.total_amount,
+      filePath: row.file_path,
+      status: row.status,
+      txHash: row.tx_hash || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    }));
+  }
+
+  /**
+   * 作废未执行的 Safe 批次，接收者重新回到可导出/可发送状态
+   */
+  async discardSafeBatch(batchId: string): Promise<void> {
+    const result = await this.db.prepare(`
+      UPDATE safe_batches SET status = 'DISCARDED', updated_at = ? WHERE id = ? AND status = 'EXPORTED'
+    `).run(new Date().toISOString(), batchId);
+
+    if (!result.changes) {
+      throw new Error('Safe batch is not awaiting execution');
+    }
+  }
+
+  private async assertNoOpenSafeBatches(campaignId: string): Promise<void> {
+    const open = await this.db.prepare(
+      "SELECT COUNT(*) as count FROM safe_batches WHERE campaign_id = ? AND status = 'EXPORTED'"
+    ).get(campaignId) as { count: number };
+
+    if (open.count > 0) {
+      throw new Error('Campaign has exported Safe batches awaiting execution; import or discard them first');
+    }
+  }
   }
\ No newline at end of file
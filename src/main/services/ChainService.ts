@@ -17,6 +17,8 @@ export interface Chain {
   color?: string;
   badgeColor?: string;
   isCustom: boolean;
+  batchContractAddress?: string; // 本链复用的批量转账合约（已验证）
+  batchContractCodeHash?: string; // 登记时的运行时代码哈希
   createdAt?: string;
 }
 
@@ -367,6 +369,8 @@ export class ChainService {
       color: color,
       badgeColor: badgeColor,
       isCustom: Boolean(row.is_custom),
+      batchContractAddress: row.batch_contract_address || undefined,
+      batchContractCodeHash: row.batch_contract_code_hash || undefined,
       createdAt: row.created_at,
     };
 
@@ -422,4 +426,15 @@ export class ChainService {
   async getEVMChainById(chainId: number): Promise<EVMChain | null> {
     return this.getChainByChainId(chainId);
   }
+
+  /**
+   * 登记本链已验证的批量转账合约，之后的活动在代码哈希一致时直接复用
+   */
+  async saveBatchContractDeployment(chainId: number, contractAddress: string, codeHash: string): Promise<void> {
+    await this.db.prepare(`
+      UPDATE chains SET batch_contract_address = ?, batch_contract_code_hash = ?, batch_contract_verified_at = ?
+      WHERE chain_id = ? AND type = 'evm'
+    `).run(contractAddress, codeHash, new Date().toISOString(), chainId);
+    logger.info('[ChainService] Batch contract registered', { chainId, contractAddress, codeHash });
+  }
 }
\ No newline at end of file
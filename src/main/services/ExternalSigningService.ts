@@ -0,0 +1,543 @@
+import { v4 as uuidv4 } from 'uuid';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import bs58 from 'bs58';
+import { ethers } from 'ethers';
+import { Connection, Message, Transaction } from '@solana/web3.js';
+import { SolanaService, SolanaUnsignedTransaction } from './SolanaService';
+import { Logger } from '../utils/logger';
+import type { DatabaseManager } from '../database/sqlite-schema';
+import type { DatabaseAdapter } from '../database/db-adapter';
+
+const logger = Logger.getInstance().child('ExternalSigningService');
+
+const UNSIGNED_FILE_FORMAT = 'cryptocast-unsigned-tx/v1';
+
+export const SIGNING_CANCELLED_MESSAGE = 'External signing request cancelled';
+// 交易已广播但结果未知（超时未上链、广播或查询回执出错）：请求保留为 BROADCAST（记录交易哈希），结果交给对账判断
+export const BROADCAST_UNCONFIRMED_MESSAGE = 'Externally signed transaction was not confirmed in time';
+
+// 与活动默认的卡住判定时间一致
+const DEFAULT_CONFIRM_TIMEOUT_SECONDS = 180;
+
+export type SigningPurpose = 'DEPLOY_CONTRACT' | 'APPROVE_TOKENS' | 'CREATE_TOKEN_ACCOUNTS' | 'BATCH_SEND';
+
+export type SigningRequestStatus = 'PENDING' | 'SIGNED' | 'BROADCAST' | 'EXPIRED' | 'CANCELLED' | 'FAILED';
+
+export type UnsignedTransaction =
+  | { chainType: 'evm'; transaction: ethers.TransactionLike<string> }
+  | ({ chainType: 'solana' } & SolanaUnsignedTransaction);
+
+export interface SignAndBroadcastOptions {
+  campaignId: string;
+  purpose: SigningPurpose;
+  batchNumber?: number;
+  fromAddress: string;
+  rpcUrl: string;
+  summary?: string;
+  confirmTimeoutSeconds?: number; // EVM：广播后等待上链的时间（活动的 stuckTimeoutSeconds），Solana 以区块哈希过期为准
+  build: () => Promise<UnsignedTransaction>;
+}
+
+export interface BroadcastResult {
+  transactionHash: string;
+  gasUsed: string;
+  blockNumber?: number;
+  contractAddress?: string;
+  unconfirmed?: boolean; // 结果未知（只在服务内部使用，signAndBroadcast 会转为 BROADCAST_UNCONFIRMED_MESSAGE）
+}
+
+export interface SigningRequest {
+  id: string;
+  campaignId: string;
+  chainType: 'evm' | 'solana';
+  purpose: SigningPurpose;
+  batchNumber?: number;
+  fromAddress: string;
+  summary?: string;
+  filePath: string;
+  status: SigningRequestStatus;
+  txHash?: string;
+  errorMessage?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SignatureSubmitResult {
+  requestId: string;
+  status: 'SIGNED' | 'EXPIRED';
+}
+
+interface PendingSignature {
+  request: SigningRequest;
+  unsigned: UnsignedTransaction;
+  rpcUrl: string;
+  resolve: (signedTransaction: string | null) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * 外部签名服务
+ *
+ * 外部签名模式的活动在本机不保存私钥：每笔交易写成未签名文件交给离线签名者，
+ * 签名结果导入后先校验与原交易完全一致，再由本机广播。Solana 交易依赖最近区块哈希，
+ * 签名导入时已过期，或广播后直到过期都没有上链，则自动生成新的待签名请求。
+ */
+export class ExternalSigningService {
+  private db: DatabaseAdapter;
+  private outputDir: string;
+  private pending: Map<string, PendingSignature> = new Map();
+  private solanaService: SolanaService;
+
+  constructor(databaseManager: DatabaseManager, outputDir: string) {
+    this.db = databaseManager.getDatabase();
+    this.outputDir = outputDir;
+    this.solanaService = new SolanaService();
+  }
+
+  /**
+   * 上次运行遗留的待签名请求已无人等待，启动时标记为取消
+   */
+  async cancelStaleRequests(): Promise<void> {
+    const result = await this.db.prepare(`
+      UPDATE signing_requests SET status = 'CANCELLED', error_message = ?, updated_at = ?
+      WHERE status = 'PENDING'
+    `).run('Application restarted before the request was signed', new Date().toISOString());
+
+    if (result.changes) {
+      logger.warn('Cancelled stale signing requests', { count: result.changes });
+    }
+  }
+
+  /**
+   * 生成未签名交易文件，等待签名导入后广播并等待上链
+   */
+  async signAndBroadcast(options: SignAndBroadcastOptions): Promise<BroadcastResult> {
+    while (true) {
+      const unsigned = await options.build();
+      const { request, signed } = await this.createRequest(options, unsigned);
+
+      const signedTransaction = await signed;
+      if (!signedTransaction) {
+        logger.info('Signing request expired, creating a new one', { requestId: request.id, campaignId: options.campaignId });
+        continue;
+      }
+
+      let result: BroadcastResult | null;
+      try {
+        result = await this.broadcast(
+          options.rpcUrl, unsigned, signedTransaction, options.confirmTimeoutSeconds ?? DEFAULT_CONFIRM_TIMEOUT_SECONDS
+        );
+      } catch (error) {
+        await this.updateRequestStatus(request.id, 'FAILED', {
+          errorMessage: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+
+      if (!result) {
+        await this.updateRequestStatus(request.id, 'EXPIRED', { errorMessage: 'Blockhash expired before the transaction landed' });
+        logger.info('Signed transaction expired without landing, creating a new request', { requestId: request.id, campaignId: options.campaignId });
+        continue;
+      }
+
+      if (result.unconfirmed) {
+        // 交易可能被丢弃、费用过低或广播失败，也可能已经或稍后上链：不能当作失败重签，由对账按链上证据处理
+        await this.updateRequestStatus(request.id, 'BROADCAST', {
+          txHash: result.transactionHash,
+          errorMessage: BROADCAST_UNCONFIRMED_MESSAGE,
+        });
+        logger.warn('Externally signed transaction result unknown, leaving it for reconciliation', {
+          requestId: request.id,
+          campaignId: options.campaignId,
+          purpose: options.purpose,
+          txHash: result.transactionHash,
+        });
+        throw new Error(BROADCAST_UNCONFIRMED_MESSAGE);
+      }
+
+      await this.updateRequestStatus(request.id, 'BROADCAST', { txHash: result.transactionHash });
+      logger.info('Externally signed transaction broadcast', {
+        requestId: request.id,
+        campaignId: options.campaignId,
+        purpose: options.purpose,
+        txHash: result.transactionHash,
+      });
+      return result;
+    }
+  }
+
+  /**
+   * 导入签名结果：支持原始签名交易（EVM 0x 十六进制，Solana base64/base58）、
+   * Solana 单独的 base58 签名，或包含 signedTransaction / signature 字段的 JSON 文件
+   */
+  async submitSignature(requestId: string, signedBlob: string): Promise<SignatureSubmitResult> {
+    const pending = this.pending.get(requestId);
+    if (!pending) {
+      throw new Error('Signing request is not awaiting a signature');
+    }
+
+    const payload = this.extractSignedPayload(signedBlob);
+
+    if (pending.unsigned.chainType === 'evm') {
+      const signedTransaction = this.verifyEVMSignature(pending.request, pending.unsigned.transaction, payload);
+      await this.resolvePending(pending, 'SIGNED', signedTransaction);
+      return { requestId, status: 'SIGNED' };
+    }
+
+    const signedTransaction = this.verifySolanaSignature(pending.request, pending.unsigned.transaction, payload);
+
+    const connection = new Connection(pending.rpcUrl, 'confirmed');
+    const blockHeight = await connection.getBlockHeight('confirmed');
+    if (blockHeight > pending.unsigned.lastValidBlockHeight) {
+      await this.resolvePending(pending, 'EXPIRED', null);
+      return { requestId, status: 'EXPIRED' };
+    }
+
+    await this.resolvePending(pending, 'SIGNED', signedTransaction);
+    return { requestId, status: 'SIGNED' };
+  }
+
+  cancelRequest(requestId: string): Promise<void> {
+    const pending = this.pending.get(requestId);
+    if (!pending) {
+      throw new Error('Signing request is not awaiting a signature');
+    }
+    return this.rejectPending(pending);
+  }
+
+  /**
+   * 暂停活动时取消其所有待签名请求
+   */
+  async cancelCampaignRequests(campaignId: string): Promise<void> {
+    for (const pending of Array.from(this.pending.values())) {
+      if (pending.request.campaignId === campaignId) {
+        await this.rejectPending(pending);
+      }
+    }
+  }
+
+  async getRequest(requestId: string): Promise<SigningRequest | null> {
+    const row = await this.db.prepare('SELECT * FROM signing_requests WHERE id = ?').get(requestId) as any;
+    return row ? this.mapRowToRequest(row) : null;
+  }
+
+  async listRequests(campaignId: string, limit: number = 50): Promise<SigningRequest[]> {
+    const rows = await this.db.prepare(`
+      SELECT * FROM signing_requests WHERE campaign_id = ? ORDER BY created_at DESC LIMIT ?
+    `).all(campaignId, limit) as any[];
+
+    return rows.map(row => this.mapRowToRequest(row));
+  }
+
+  private async createRequest(
+    options: SignAndBroadcastOptions,
+    unsigned: UnsignedTransaction
+  ): Promise<{ request: SigningRequest; signed: Promise<string | null> }> {
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const batchSuffix = options.batchNumber !== undefined ? `-batch${options.batchNumber}` : '';
+    const filePath = path.join(
+      this.outputDir,
+      options.campaignId,
+      `${options.purpose.toLowerCase()}${batchSuffix}-${id.slice(0, 8)}.json`
+    );
+
+    const request: SigningRequest = {
+      id,
+      campaignId: options.campaignId,
+      chainType: unsigned.chainType,
+      purpose: options.purpose,
+      batchNumber: options.batchNumber,
+      fromAddress: options.fromAddress,
+      summary: options.summary,
+      filePath,
+      status: 'PENDING',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(this.buildUnsignedFile(request, unsigned), null, 2), 'utf8');
+
+    await this.db.prepare(`
+      INSERT INTO signing_requests (
+        id, campaign_id, chain_type, purpose, batch_number, from_address, summary, file_path, status, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'PENDING', ?, ?)
+    `).run(
+      id,
+      options.campaignId,
+      unsigned.chainType,
+      options.purpose,
+      options.batchNumber ?? null,
+      options.fromAddress,
+      options.summary || null,
+      filePath,
+      now,
+      now
+    );
+
+    const signed = new Promise<string | null>((resolve, reject) => {
+      this.pending.set(id, { request, unsigned, rpcUrl: options.rpcUrl, resolve, reject });
+    });
+
+    logger.info('Unsigned transaction written for external signer', {
+      requestId: id,
+      campaignId: options.campaignId,
+      purpose: options.purpose,
+      batchNumber: options.batchNumber,
+      filePath,
+    });
+
+    return { request, signed };
+  }
+
+  private buildUnsignedFile(request: SigningRequest, unsigned: UnsignedTransaction): Record<string, unknown> {
+    const header = {
+      format: UNSIGNED_FILE_FORMAT,
+      requestId: request.id,
+      campaignId: request.campaignId,
+      purpose: request.purpose,
+      batchNumber: request.batchNumber,
+      chainType: request.chainType,
+      from: request.fromAddress,
+      summary: request.summary,
+      createdAt: request.createdAt,
+    };
+
+    if (unsigned.chainType === 'evm') {
+      const tx = ethers.Transaction.from(unsigned.transaction);
+      return {
+        ...header,
+        chainId: tx.chainId.toString(),
+        transaction: tx.toJSON(),
+        unsignedSerialized: tx.unsignedSerialized,
+        unsignedHash: tx.unsignedHash,
+      };
+    }
+
+    return {
+      ...header,
+      feePayer: unsigned.transaction.feePayer?.toBase58(),
+      recentBlockhash: unsigned.transaction.recentBlockhash,
+      lastValidBlockHeight: unsigned.lastValidBlockHeight,
+      message: unsigned.transaction.serializeMessage().toString('base64'),
+      transaction: unsigned.transaction
+        .serialize({ requireAllSignatures: false, verifySignatures: false })
+        .toString('base64'),
+    };
+  }
+
+  private extractSignedPayload(signedBlob: string): string {
+    const trimmed = signedBlob.trim();
+    if (!trimmed) {
+      throw new Error('Signed transaction is empty');
+    }
+
+    if (!trimmed.startsWith('{')) {
+      return trimmed;
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Signed transaction file is not valid JSON');
+    }
+
+    const payload = parsed.signedTransaction ?? parsed.rawTransaction ?? parsed.raw ?? parsed.signature;
+    if (typeof payload !== 'string' || !payload.trim()) {
+      throw new Error('Signed transaction file must contain a signedTransaction or signature field');
+    }
+    return payload.trim();
+  }
+
+  /**
+   * 签名交易的未签名哈希必须与请求完全一致（包括 nonce、费用和 calldata），且签名者为活动钱包
+   */
+  private verifyEVMSignature(
+    request: SigningRequest,
+    expected: ethers.TransactionLike<string>,
+    payload: string
+  ): string {
+    let tx: ethers.Transaction;
+    try {
+      tx = ethers.Transaction.from(payload.startsWith('0x') ? payload : `0x${payload}`);
+    } catch {
+      throw new Error('Unable to parse signed EVM transaction');
+    }
+
+    if (!tx.signature || !tx.from) {
+      throw new Error('Transaction is not signed');
+    }
+
+    if (tx.unsignedHash !== ethers.Transaction.from(expected).unsignedHash) {
+      throw new Error('Signed transaction does not match the requested transaction');
+    }
+
+    if (tx.from.toLowerCase() !== request.fromAddress.toLowerCase()) {
+      throw new Error(`Transaction was signed by ${tx.from}, expected ${request.fromAddress}`);
+    }
+
+    return tx.serialized;
+  }
+
+  /**
+   * 签名交易的消息必须与请求完全一致；单独的 64 字节签名会被拼装回原消息
+   */
+  private verifySolanaSignature(request: SigningRequest, expected: Transaction, payload: string): string {
+    const expectedMessage = expected.serializeMessage();
+    const bytes = this.decodeSolanaPayload(payload);
+
+    let tx: Transaction;
+    if (bytes.length === 64) {
+      tx = Transaction.populate(Message.from(expectedMessage), [bs58.encode(bytes)]);
+    } else {
+      try {
+        tx = Transaction.from(bytes);
+      } catch {
+        throw new Error('Unable to parse signed Solana transaction');
+      }
+
+      if (!tx.serializeMessage().equals(expectedMessage)) {
+        throw new Error('Signed transaction does not match the requested transaction');
+      }
+    }
+
+    if (!tx.verifySignatures()) {
+      throw new Error(`Transaction is not validly signed by ${request.fromAddress}`);
+    }
+
+    return tx.serialize().toString('base64');
+  }
+
+  private decodeSolanaPayload(payload: string): Buffer {
+    if (/^[1-9A-HJ-NP-Za-km-z]+$/.test(payload)) {
+      try {
+        return Buffer.from(bs58.decode(payload));
+      } catch {
+        // 不是 base58，按 base64 解析
+      }
+    }
+    return Buffer.from(payload, 'base64');
+  }
+
+  private async broadcast(
+    rpcUrl: string,
+    unsigned: UnsignedTransaction,
+    signedTransaction: string,
+    confirmTimeoutSeconds: number
+  ): Promise<BroadcastResult | null> {
+    // 哈希在广播前由签名数据得出：广播或等待回执出错时节点可能已接受交易，只有链上回滚才算失败，其余交给对账
+    if (unsigned.chainType === 'evm') {
+      const transactionHash = ethers.Transaction.from(signedTransaction).hash!;
+      const provider = new ethers.JsonRpcProvider(rpcUrl);
+
+      let receipt: ethers.TransactionReceipt | null;
+      try {
+        await provider.broadcastTransaction(signedTransaction);
+        receipt = await provider.waitForTransaction(transactionHash, 1, confirmTimeoutSeconds * 1000);
+      } catch (error) {
+        if (!ethers.isError(error, 'TIMEOUT')) {
+          logger.warn('Broadcast of externally signed transaction failed, result unknown', {
+            txHash: transactionHash,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        return { transactionHash, gasUsed: '0', unconfirmed: true };
+      }
+      if (!receipt) {
+        return { transactionHash, gasUsed: '0', unconfirmed: true };
+      }
+      if (receipt.status !== 1) {
+        throw new Error(`Transaction ${transactionHash} reverted`);
+      }
+
+      return {
+        transactionHash,
+        gasUsed: receipt.gasUsed.toString(),
+        blockNumber: receipt.blockNumber,
+        contractAddress: receipt.contractAddress || undefined,
+      };
+    }
+
+    // 区块哈希过期前重复广播同一笔交易；过期且没有上链时返回 null，由调用方生成新的签名请求
+    const connection = new Connection(rpcUrl, 'confirmed');
+    const rawTransaction = Buffer.from(signedTransaction, 'base64');
+    const signature = bs58.encode(Transaction.from(rawTransaction).signature!);
+    let landed: boolean;
+    try {
+      landed = await this.solanaService.broadcastUntilExpired(connection, rawTransaction, signature, unsigned.lastValidBlockHeight);
+    } catch (error) {
+      logger.warn('Broadcast of externally signed transaction failed, result unknown', {
+        txHash: signature,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return { transactionHash: signature, gasUsed: '0', unconfirmed: true };
+    }
+    if (!landed) {
+      return null;
+    }
+
+    // 交易已确认，手续费只用于统计，查询失败时记为 0
+    let txDetails: Awaited<ReturnType<Connection['getTransaction']>> = null;
+    try {
+      txDetails = await connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 });
+    } catch (error) {
+      logger.warn('Failed to fetch transaction fee', { txHash: signature, error: error instanceof Error ? error.message : String(error) });
+    }
+
+    return {
+      transactionHash: signature,
+      gasUsed: (txDetails?.meta?.fee || 0).toString(),
+      blockNumber: txDetails?.slot,
+    };
+  }
+
+  private async resolvePending(
+    pending: PendingSignature,
+    status: 'SIGNED' | 'EXPIRED',
+    signedTransaction: string | null
+  ): Promise<void> {
+    this.pending.delete(pending.request.id);
+    await this.updateRequestStatus(pending.request.id, status);
+    pending.resolve(signedTransaction);
+  }
+
+  private async rejectPending(pending: PendingSignature): Promise<void> {
+    this.pending.delete(pending.request.id);
+    await this.updateRequestStatus(pending.request.id, 'CANCELLED');
+    pending.reject(new Error(SIGNING_CANCELLED_MESSAGE));
+    logger.info('Signing request cancelled', { requestId: pending.request.id, campaignId: pending.request.campaignId });
+  }
+
+  private async updateRequestStatus(
+    requestId: string,
+    status: SigningRequestStatus,
+    extra: { txHash?: string; errorMessage?: string } = {}
+  ): Promise<void> {
+    await this.db.prepare(`
+      UPDATE signing_requests
+      SET status = ?, tx_hash = COALESCE(?, tx_hash), error_message = COALESCE(?, error_message), updated_at = ?
+      WHERE id = ?
+    `).run(status, extra.txHash || null, extra.errorMessage || null, new Date().toISOString(), requestId);
+  }
+
+  private mapRowToRequest(row: any): SigningRequest {
+    return {
+      id: row.id,
+      campaignId: row.campaign_id,
+      chainType: row.chain_type,
+      purpose: row.purpose,
+      batchNumber: row.batch_number ?? undefined,
+      fromAddress: row.from_address,
+      summary: row.summary ?? undefined,
+      filePath: row.file_path,
+      status: row.status,
+      txHash: row.tx_hash ?? undefined,
+      errorMessage: row.error_message ?? undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
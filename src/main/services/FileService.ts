@@ -92,6 +92,26 @@ export class FileService {
         return sum.plus(new BigNumber(r.amount || '0'));
       }, new BigNumber(0));
 
+    // 多代币活动的金额单位不同，按代币分别汇总
+    const tokenLegs: Array<{ tokenAddress: string; tokenSymbol?: string }> = (campaign as any).token_legs
+      ? JSON.parse((campaign as any).token_legs)
+      : [];
+    const legSummaries = tokenLegs.map((leg, legIndex) => {
+      const legRecipients = recipients.filter((r: any) => (r.leg_index ?? 0) === legIndex);
+      const sumAmount = (rows: any[]) => rows.reduce((sum: BigNumber, r: any) => sum.plus(new BigNumber(r.amount || '0')), new BigNumber(0));
+      return {
+        tokenAddress: leg.tokenAddress,
+        tokenSymbol: leg.tokenSymbol,
+        totalRecipients: legRecipients.length,
+        sentRecipients: legRecipients.filter((r: any) => r.status === 'SENT').length,
+        failedRecipients: legRecipients.filter((r: any) => r.status === 'FAILED').length,
+        pendingRecipients: legRecipients.filter((r: any) => r.status === 'PENDING').length,
+        totalAmount: sumAmount(legRecipients).toString(),
+        sentAmount: sumAmount(legRecipients.filter((r: any) => r.status === 'SENT')).toString(),
+        failedAmount: sumAmount(legRecipients.filter((r: any) => r.status === 'FAILED')).toString(),
+      };
+    });
+
     const totalGasUsed = transactions.reduce((sum: number, t: any) => sum + (t.gas_used || 0), 0);
     const totalGasCost = transactions.reduce((sum: number, t: any) => sum + (t.gas_cost || 0), 0);
 
@@ -105,6 +125,7 @@ export class FileService {
       sentAmount: sentAmount.toString(),
       totalGasUsed: totalGasUsed.toString(),
       totalGasCost: totalGasCost.toString(),
+      tokenLegs: legSummaries,
       campaignStatus: (campaign as any).status || 'unknown',
       createdAt: (campaign as any).created_at || new Date().toISOString(),
       updatedAt: (campaign as any).updated_at || new Date().toISOString(),
@@ -152,13 +173,14 @@ export class FileService {
 
         csvStringifier.pipe(writableStream);
 
-        // 写入数据行
+        // 写入数据行（多代币活动的代币地址取记录所属的代币）
+        const tokenLegs = reportData.summary.tokenLegs as Array<{ tokenAddress: string }>;
         reportData.recipients.forEach(recipient => {
           csvStringifier.write([
             reportData.campaign.id,
             reportData.campaign.name,
             reportData.campaign.chain,
-            reportData.campaign.token_address,
+            tokenLegs.length > 0 ? tokenLegs[recipient.leg_index ?? 0].tokenAddress : reportData.campaign.token_address,
             recipient.address,
             recipient.amount,
             recipient.status,
@@ -0,0 +1,314 @@
+import * as crypto from 'crypto';
+import { ethers } from 'ethers';
+import { Connection, PublicKey } from '@solana/web3.js';
+import { KeyVaultService } from './KeyVaultService';
+import { WalletService } from './WalletService';
+import { DEFAULTS } from '../config/defaults';
+import { Logger } from '../utils/logger';
+import type { DatabaseManager } from '../database/sqlite-schema';
+import type { DatabaseAdapter } from '../database/db-adapter';
+
+const logger = Logger.getInstance().child('HDWalletService');
+
+type ChainType = 'evm' | 'solana';
+
+export interface HDSeedStatus {
+  configured: boolean;
+  fingerprint?: string;
+  nextEvmIndex: number;
+  nextSolanaIndex: number;
+  derivedWalletCount: number;
+}
+
+export interface DerivedWallet {
+  address: string;
+  privateKeyBase64: string;
+  type: ChainType;
+  derivationIndex: number;
+}
+
+export interface DiscoveryNetwork {
+  type: ChainType;
+  name: string;
+  rpcUrl: string;
+}
+
+export interface DiscoveredWallet {
+  chainType: ChainType;
+  index: number;
+  derivationPath: string;
+  address: string;
+  campaignId?: string;
+  campaignName?: string;
+  activeNetworks: string[];
+}
+
+export interface DiscoveryResult {
+  wallets: DiscoveredWallet[];
+  nextEvmIndex: number;
+  nextSolanaIndex: number;
+}
+
+/**
+ * HD 派生钱包服务
+ *
+ * 助记词由密钥保险库加密保存，活动钱包按 BIP-44 路径派生，campaigns 表只记录派生索引。
+ * 仅凭助记词即可重新派生并在链上重新发现所有历史活动钱包。
+ */
+export class HDWalletService {
+  private db: DatabaseAdapter;
+  private keyVault: KeyVaultService;
+  private walletService: WalletService;
+
+  constructor(databaseManager: DatabaseManager, keyVault: KeyVaultService) {
+    this.db = databaseManager.getDatabase();
+    this.keyVault = keyVault;
+    this.walletService = new WalletService();
+  }
+
+  async getStatus(): Promise<HDSeedStatus> {
+    const row = await this.getSeedRow();
+    const derived = await this.db.prepare(
+      'SELECT COUNT(*) as count FROM campaigns WHERE derivation_index IS NOT NULL'
+    ).get() as any;
+
+    return {
+      configured: !!row,
+      fingerprint: row?.fingerprint,
+      nextEvmIndex: row?.next_evm_index ?? 0,
+      nextSolanaIndex: row?.next_solana_index ?? 0,
+      derivedWalletCount: derived?.count || 0,
+    };
+  }
+
+  async isConfigured(): Promise<boolean> {
+    return !!(await this.getSeedRow());
+  }
+
+  /**
+   * 生成新的助记词并加密保存。助记词只在此处返回一次，供用户离线备份
+   */
+  async createSeed(): Promise<{ mnemonic: string; status: HDSeedStatus }> {
+    const mnemonic = ethers.Mnemonic.fromEntropy(
+      crypto.randomBytes(DEFAULTS.HD_WALLET.mnemonic_entropy_bytes)
+    ).phrase;
+
+    await this.saveSeed(mnemonic);
+    logger.info('HD treasury seed created');
+
+    return { mnemonic, status: await this.getStatus() };
+  }
+
+  /**
+   * 导入已有的助记词（例如在新设备上恢复）
+   */
+  async importSeed(mnemonic: string): Promise<HDSeedStatus> {
+    const phrase = this.normalizeMnemonic(mnemonic);
+    if (!ethers.Mnemonic.isValidMnemonic(phrase)) {
+      throw new Error('Invalid BIP-39 mnemonic');
+    }
+
+    await this.saveSeed(phrase);
+    logger.info('HD treasury seed imported');
+
+    return this.getStatus();
+  }
+
+  /**
+   * 为新活动分配下一个派生索引并派生钱包
+   */
+  async allocateWallet(chainType: ChainType): Promise<DerivedWallet> {
+    const mnemonic = await this.openMnemonic();
+    const column = chainType === 'solana' ? 'next_solana_index' : 'next_evm_index';
+
+    let derivationIndex = 0;
+    await this.db.transaction(async (tx) => {
+      const row = await tx.prepare(`SELECT ${column} as next_index FROM hd_seed WHERE id = 1`).get() as any;
+      derivationIndex = row.next_index;
+      await tx.prepare(`UPDATE hd_seed SET ${column} = ?, updated_at = ? WHERE id = 1`)
+        .run(derivationIndex + 1, new Date().toISOString());
+    });
+
+    const wallet = this.deriveWallet(mnemonic, chainType, derivationIndex);
+    logger.info('HD campaign wallet allocated', { chainType, derivationIndex, address: wallet.address });
+
+    return { ...wallet, derivationIndex };
+  }
+
+  /**
+   * 获取活动钱包的签名私钥（base64）：HD 钱包按索引派生，其余钱包从保险库解密
+   */
+  async openCampaignKey(campaign: {
+    id: string;
+    chainType?: ChainType;
+    walletAddress?: string;
+    walletPrivateKeyEncrypted?: string;
+    derivationIndex?: number | null;
+  }): Promise<string> {
+    if (campaign.derivationIndex === undefined || campaign.derivationIndex === null) {
+      return this.keyVault.openCampaignKey(campaign);
+    }
+
+    const mnemonic = await this.openMnemonic();
+    const wallet = this.deriveWallet(mnemonic, campaign.chainType || 'evm', campaign.derivationIndex);
+
+    if (campaign.walletAddress && wallet.address !== campaign.walletAddress) {
+      logger.error('Derived wallet address mismatch', undefined, {
+        campaignId: campaign.id,
+        derivationIndex: campaign.derivationIndex,
+      });
+      throw new Error('Derived wallet does not match campaign wallet. The treasury seed may have been replaced');
+    }
+
+    return wallet.privateKeyBase64;
+  }
+
+  /**
+   * 从助记词重新发现历史活动钱包：按索引依次派生，匹配本地活动记录并查询链上活动，
+   * 连续 gapLimit 个地址均未使用时停止。发现的索引会推进下一个可分配索引，避免复用。
+   * 只有查询成功且没有链上活动的地址才算未使用；任一网络查询失败时中止发现，不推进索引。
+   */
+  async discoverWallets(
+    networks: DiscoveryNetwork[],
+    gapLimit: number = DEFAULTS.HD_WALLET.discovery_gap_limit
+  ): Promise<DiscoveryResult> {
+    const mnemonic = await this.openMnemonic();
+    const wallets: DiscoveredWallet[] = [];
+
+    for (const chainType of ['evm', 'solana'] as ChainType[]) {
+      const chainNetworks = networks.filter(network => network.type === chainType);
+      const campaigns = await this.db.prepare(`
+        SELECT id, name, derivation_index FROM campaigns
+        WHERE chain_type = ? AND derivation_index IS NOT NULL
+      `).all(chainType) as any[];
+      const campaignsByIndex = new Map<number, any>(campaigns.map(row => [row.derivation_index, row]));
+
+      let unusedInARow = 0;
+      for (let index = 0; index < DEFAULTS.HD_WALLET.max_discovery_index && unusedInARow < gapLimit; index++) {
+        const { address } = this.deriveWallet(mnemonic, chainType, index);
+        const campaign = campaignsByIndex.get(index);
+        const activeNetworks: string[] = [];
+
+        for (const network of chainNetworks) {
+          if (await this.hasOnChainActivity(network, address)) {
+            activeNetworks.push(network.name);
+          }
+        }
+
+        if (!campaign && activeNetworks.length === 0) {
+          unusedInARow++;
+          continue;
+        }
+
+        unusedInARow = 0;
+        wallets.push({
+          chainType,
+          index,
+          derivationPath: chainType === 'solana'
+            ? this.walletService.getSolanaDerivationPath(index)
+            : this.walletService.getEVMDerivationPath(index),
+          address,
+          campaignId: campaign?.id,
+          campaignName: campaign?.name,
+          activeNetworks,
+        });
+      }
+    }
+
+    const highestIndex = (chainType: ChainType) =>
+      wallets.filter(wallet => wallet.chainType === chainType)
+        .reduce((max, wallet) => Math.max(max, wallet.index + 1), 0);
+
+    await this.db.prepare(`
+      UPDATE hd_seed SET
+        next_evm_index = MAX(next_evm_index, ?),
+        next_solana_index = MAX(next_solana_index, ?),
+        updated_at = ?
+      WHERE id = 1
+    `).run(highestIndex('evm'), highestIndex('solana'), new Date().toISOString());
+
+    const status = await this.getStatus();
+    logger.info('HD wallet discovery completed', {
+      discovered: wallets.length,
+      nextEvmIndex: status.nextEvmIndex,
+      nextSolanaIndex: status.nextSolanaIndex,
+    });
+
+    return { wallets, nextEvmIndex: status.nextEvmIndex, nextSolanaIndex: status.nextSolanaIndex };
+  }
+
+  private async saveSeed(mnemonic: string): Promise<void> {
+    if (await this.getSeedRow()) {
+      throw new Error('Treasury seed is already configured');
+    }
+
+    const sealed = this.keyVault.sealSecret(mnemonic);
+    const now = new Date().toISOString();
+    await this.db.prepare(`
+      INSERT INTO hd_seed (id, mnemonic_encrypted, fingerprint, next_evm_index, next_solana_index, created_at, updated_at)
+      VALUES (1, ?, ?, 0, 0, ?, ?)
+    `).run(sealed, this.computeFingerprint(mnemonic), now, now);
+  }
+
+  private async openMnemonic(): Promise<string> {
+    const row = await this.getSeedRow();
+    if (!row) {
+      throw new Error('Treasury seed is not configured');
+    }
+    return this.keyVault.openSecret(row.mnemonic_encrypted);
+  }
+
+  private async getSeedRow(): Promise<any | undefined> {
+    return this.db.prepare('SELECT * FROM hd_seed WHERE id = 1').get();
+  }
+
+  private deriveWallet(mnemonic: string, chainType: ChainType, index: number) {
+    return chainType === 'solana'
+      ? this.walletService.deriveSolanaWallet(mnemonic, index)
+      : this.walletService.deriveEVMWallet(mnemonic, index);
+  }
+
+  /**
+   * 查询地址在网络上是否有交易或余额；RPC 失败时抛出，不能当作未使用
+   */
+  private async hasOnChainActivity(network: DiscoveryNetwork, address: string): Promise<boolean> {
+    try {
+      if (network.type === 'solana') {
+        const connection = new Connection(network.rpcUrl, 'confirmed');
+        const publicKey = new PublicKey(address);
+        const [signatures, balance] = await Promise.all([
+          connection.getSignaturesForAddress(publicKey, { limit: 1 }),
+          connection.getBalance(publicKey),
+        ]);
+        return signatures.length > 0 || balance > 0;
+      }
+
+      const provider = new ethers.JsonRpcProvider(network.rpcUrl);
+      const [nonce, balance] = await Promise.all([
+        provider.getTransactionCount(address),
+        provider.getBalance(address),
+      ]);
+      return nonce > 0 || balance > 0n;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn('Failed to query wallet activity during discovery', {
+        network: network.name,
+        address,
+        error: message,
+      });
+      throw new Error(`Failed to query wallet activity on ${network.name} for ${address}: ${message}`);
+    }
+  }
+
+  private normalizeMnemonic(mnemonic: string): string {
+    return mnemonic.normalize('NFKD').trim().toLowerCase().split(/\s+/).join(' ');
+  }
+
+  /**
+   * 助记词指纹：种子哈希前 8 位，用于确认导入的是同一份助记词，不泄露任何地址
+   */
+  private computeFingerprint(mnemonic: string): string {
+    const seed = ethers.Mnemonic.fromPhrase(mnemonic).computeSeed();
+    return crypto.createHash('sha256').update(seed).digest('hex').slice(0, 8);
+  }
+}
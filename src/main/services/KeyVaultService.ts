@@ -0,0 +1,373 @@
+import * as crypto from 'crypto';
+import { promisify } from 'util';
+import { DEFAULTS } from '../config/defaults';
+import { Logger } from '../utils/logger';
+import type { DatabaseManager } from '../database/sqlite-schema';
+import type { DatabaseAdapter } from '../database/db-adapter';
+
+const logger = Logger.getInstance().child('KeyVaultService');
+
+const scryptAsync = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const ENVELOPE_VERSION = 'v1';
+
+interface KdfParams {
+  N: number;
+  r: number;
+  p: number;
+  keyLength: number;
+}
+
+export interface KeyVaultStatus {
+  initialized: boolean;
+  unlocked: boolean;
+  autoLockMinutes: number;
+  unlockExpiresAt?: string;
+  plaintextKeyCount: number;
+}
+
+/**
+ * 密钥保险库
+ *
+ * 主密码经 scrypt 派生出密钥加密密钥 (KEK)，KEK 只用于包裹随机生成的数据密钥 (DEK)，
+ * 每个活动钱包私钥再用 DEK 做 AES-256-GCM 加密。修改主密码只需重新包裹 DEK。
+ * DEK 只存在于主进程内存中，锁定或自动锁定后立即清除。
+ */
+export class KeyVaultService {
+  private db: DatabaseAdapter;
+  private dataKey: Buffer | null = null;
+  private autoLockMinutes: number = DEFAULTS.KEY_VAULT.auto_lock_minutes;
+  private lockTimer: NodeJS.Timeout | null = null;
+  private unlockExpiresAt: number | null = null;
+
+  constructor(databaseManager: DatabaseManager) {
+    this.db = databaseManager.getDatabase();
+  }
+
+  async getStatus(): Promise<KeyVaultStatus> {
+    const row = await this.getVaultRow();
+    const plaintext = await this.db.prepare(`
+      SELECT COUNT(*) as count FROM campaigns
+      WHERE wallet_private_key_base64 IS NOT NULL AND wallet_private_key_base64 != ''
+    `).get() as any;
+
+    return {
+      initialized: !!row,
+      unlocked: this.isUnlocked(),
+      autoLockMinutes: row?.auto_lock_minutes ?? this.autoLockMinutes,
+      unlockExpiresAt: this.unlockExpiresAt ? new Date(this.unlockExpiresAt).toISOString() : undefined,
+      plaintextKeyCount: plaintext?.count || 0,
+    };
+  }
+
+  isUnlocked(): boolean {
+    return this.dataKey !== null;
+  }
+
+  /**
+   * 首次设置主密码，生成数据密钥并迁移已有的明文私钥
+   */
+  async initialize(passphrase: string): Promise<KeyVaultStatus> {
+    this.validatePassphrase(passphrase);
+
+    if (await this.getVaultRow()) {
+      throw new Error('Key vault is already initialized');
+    }
+
+    const salt = crypto.randomBytes(16);
+    const params = this.defaultKdfParams();
+    const kek = await this.deriveKey(passphrase, salt, params);
+    const dataKey = crypto.randomBytes(KEY_LENGTH);
+
+    try {
+      const now = new Date().toISOString();
+      await this.db.prepare(`
+        INSERT INTO key_vault (id, kdf, kdf_salt, kdf_params, wrapped_data_key, auto_lock_minutes, created_at, updated_at)
+        VALUES (1, 'scrypt', ?, ?, ?, ?, ?, ?)
+      `).run(
+        salt.toString('base64'),
+        JSON.stringify(params),
+        this.encrypt(kek, dataKey),
+        this.autoLockMinutes,
+        now,
+        now
+      );
+    } finally {
+      kek.fill(0);
+    }
+
+    logger.info('Key vault initialized');
+    this.setDataKey(dataKey);
+    await this.migratePlaintextKeys();
+
+    return this.getStatus();
+  }
+
+  /**
+   * 使用主密码解锁保险库，解锁后自动迁移遗留的明文私钥
+   */
+  async unlock(passphrase: string): Promise<KeyVaultStatus> {
+    const row = await this.getVaultRow();
+    if (!row) {
+      throw new Error('Key vault is not initialized');
+    }
+
+    const dataKey = await this.unwrapDataKey(row, passphrase);
+    this.autoLockMinutes = row.auto_lock_minutes;
+    this.setDataKey(dataKey);
+    logger.info('Key vault unlocked', { autoLockMinutes: this.autoLockMinutes });
+
+    await this.migratePlaintextKeys();
+
+    return this.getStatus();
+  }
+
+  lock(): void {
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+      this.lockTimer = null;
+    }
+    if (this.dataKey) {
+      this.dataKey.fill(0);
+      this.dataKey = null;
+      logger.info('Key vault locked');
+    }
+    this.unlockExpiresAt = null;
+  }
+
+  /**
+   * 重新验证主密码（用于导出等敏感操作），不改变会话状态
+   */
+  async verifyPassphrase(passphrase: string): Promise<void> {
+    const row = await this.getVaultRow();
+    if (!row) {
+      throw new Error('Key vault is not initialized');
+    }
+
+    const dataKey = await this.unwrapDataKey(row, passphrase);
+    dataKey.fill(0);
+  }
+
+  /**
+   * 修改主密码：仅重新包裹数据密钥，已加密的私钥无需重新加密
+   */
+  async changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+    this.validatePassphrase(newPassphrase);
+
+    const row = await this.getVaultRow();
+    if (!row) {
+      throw new Error('Key vault is not initialized');
+    }
+
+    const dataKey = await this.unwrapDataKey(row, currentPassphrase);
+    const salt = crypto.randomBytes(16);
+    const params = this.defaultKdfParams();
+    const kek = await this.deriveKey(newPassphrase, salt, params);
+
+    try {
+      await this.db.prepare(`
+        UPDATE key_vault SET kdf_salt = ?, kdf_params = ?, wrapped_data_key = ?, updated_at = ? WHERE id = 1
+      `).run(salt.toString('base64'), JSON.stringify(params), this.encrypt(kek, dataKey), new Date().toISOString());
+    } finally {
+      kek.fill(0);
+      dataKey.fill(0);
+    }
+
+    logger.info('Key vault passphrase changed');
+  }
+
+  /**
+   * 修改自动锁定时间：保险库需已初始化并处于解锁状态
+   */
+  async setAutoLockMinutes(minutes: number): Promise<void> {
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > DEFAULTS.KEY_VAULT.max_auto_lock_minutes) {
+      throw new Error(`Auto-lock timeout must be between 1 and ${DEFAULTS.KEY_VAULT.max_auto_lock_minutes} minutes`);
+    }
+
+    const row = await this.getVaultRow();
+    if (!row) {
+      throw new Error('Key vault is not initialized');
+    }
+    this.requireDataKey();
+
+    await this.db.prepare('UPDATE key_vault SET auto_lock_minutes = ?, updated_at = ? WHERE id = 1')
+      .run(minutes, new Date().toISOString());
+    this.autoLockMinutes = minutes;
+    this.scheduleAutoLock();
+  }
+
+  /**
+   * 加密私钥（base64 编码的原始私钥），返回可入库的密文信封
+   */
+  sealPrivateKey(privateKeyBase64: string): string {
+    return this.sealSecret(privateKeyBase64);
+  }
+
+  /**
+   * 解密私钥信封，返回 base64 编码的原始私钥。仅供主进程签名使用
+   */
+  openPrivateKey(sealed: string): string {
+    return this.openSecret(sealed);
+  }
+
+  /**
+   * 加密任意 UTF-8 机密（如助记词）
+   */
+  sealSecret(secret: string): string {
+    const dataKey = this.requireDataKey();
+    return this.encrypt(dataKey, Buffer.from(secret, 'utf8'));
+  }
+
+  openSecret(sealed: string): string {
+    const dataKey = this.requireDataKey();
+    const plaintext = this.decrypt(dataKey, sealed);
+    try {
+      return plaintext.toString('utf8');
+    } finally {
+      plaintext.fill(0);
+    }
+  }
+
+  /**
+   * 获取活动钱包的签名私钥（base64），要求保险库已解锁
+   */
+  openCampaignKey(campaign: { id: string; walletPrivateKeyEncrypted?: string }): string {
+    if (!campaign.walletPrivateKeyEncrypted) {
+      // 明文私钥在解锁时已迁移，这里只可能是钱包信息缺失
+      logger.warn('Campaign has no encrypted wallet key', { campaignId: campaign.id });
+      throw new Error('Campaign wallet private key missing');
+    }
+    return this.openPrivateKey(campaign.walletPrivateKeyEncrypted);
+  }
+
+  /**
+   * 一次性迁移：加密所有仍以明文存储的活动私钥并清除明文列
+   */
+  async migratePlaintextKeys(): Promise<number> {
+    const dataKey = this.requireDataKey();
+
+    const rows = await this.db.prepare(`
+      SELECT id, wallet_private_key_base64 FROM campaigns
+      WHERE wallet_private_key_base64 IS NOT NULL AND wallet_private_key_base64 != ''
+    `).all() as any[];
+
+    if (rows.length === 0) {
+      return 0;
+    }
+
+    await this.db.transaction(async (tx) => {
+      const update = tx.prepare(`
+        UPDATE campaigns SET wallet_private_key_encrypted = ?, wallet_private_key_base64 = NULL WHERE id = ?
+      `);
+      for (const row of rows) {
+        const sealed = this.encrypt(dataKey, Buffer.from(row.wallet_private_key_base64, 'utf8'));
+        await update.run(sealed, row.id);
+      }
+    });
+
+    logger.info('Migrated plaintext campaign keys into key vault', { count: rows.length });
+    return rows.length;
+  }
+
+  private async getVaultRow(): Promise<any | undefined> {
+    return this.db.prepare('SELECT * FROM key_vault WHERE id = 1').get();
+  }
+
+  private async unwrapDataKey(row: any, passphrase: string): Promise<Buffer> {
+    const params = JSON.parse(row.kdf_params) as KdfParams;
+    const kek = await this.deriveKey(passphrase, Buffer.from(row.kdf_salt, 'base64'), params);
+
+    try {
+      return this.decrypt(kek, row.wrapped_data_key);
+    } catch {
+      throw new Error('Incorrect master passphrase');
+    } finally {
+      kek.fill(0);
+    }
+  }
+
+  private setDataKey(dataKey: Buffer): void {
+    if (this.dataKey && this.dataKey !== dataKey) {
+      this.dataKey.fill(0);
+    }
+    this.dataKey = dataKey;
+    this.scheduleAutoLock();
+  }
+
+  private requireDataKey(): Buffer {
+    if (!this.dataKey) {
+      throw new Error('Key vault is locked. Unlock it with the master passphrase first');
+    }
+    // 每次使用都顺延自动锁定时间
+    this.scheduleAutoLock();
+    return this.dataKey;
+  }
+
+  private scheduleAutoLock(): void {
+    if (this.lockTimer) {
+      clearTimeout(this.lockTimer);
+    }
+    const timeoutMs = this.autoLockMinutes * 60 * 1000;
+    this.unlockExpiresAt = Date.now() + timeoutMs;
+    this.lockTimer = setTimeout(() => {
+      logger.info('Key vault auto-locked after inactivity');
+      this.lock();
+    }, timeoutMs);
+    this.lockTimer.unref?.();
+  }
+
+  private validatePassphrase(passphrase: string): void {
+    if (typeof passphrase !== 'string' || passphrase.length < DEFAULTS.KEY_VAULT.min_passphrase_length) {
+      throw new Error(`Master passphrase must be at least ${DEFAULTS.KEY_VAULT.min_passphrase_length} characters`);
+    }
+  }
+
+  private defaultKdfParams(): KdfParams {
+    return {
+      N: DEFAULTS.KEY_VAULT.scrypt_n,
+      r: DEFAULTS.KEY_VAULT.scrypt_r,
+      p: DEFAULTS.KEY_VAULT.scrypt_p,
+      keyLength: KEY_LENGTH,
+    };
+  }
+
+  private deriveKey(passphrase: string, salt: Buffer, params: KdfParams): Promise<Buffer> {
+    return scryptAsync(passphrase.normalize('NFKC'), salt, params.keyLength, {
+      N: params.N,
+      r: params.r,
+      p: params.p,
+      maxmem: DEFAULTS.KEY_VAULT.scrypt_maxmem,
+    });
+  }
+
+  /**
+   * AES-256-GCM 加密，输出格式: v1:<iv>:<authTag>:<ciphertext>（均为 base64）
+   */
+  private encrypt(key: Buffer, plaintext: Buffer): string {
+    const iv = crypto.randomBytes(IV_LENGTH);
+    const cipher = crypto.createCipheriv(CIPHER, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    const authTag = cipher.getAuthTag();
+
+    return [ENVELOPE_VERSION, iv.toString('base64'), authTag.toString('base64'), ciphertext.toString('base64')].join(':');
+  }
+
+  private decrypt(key: Buffer, envelope: string): Buffer {
+    const [version, iv, authTag, ciphertext] = envelope.split(':');
+    if (version !== ENVELOPE_VERSION || !iv || !authTag || !ciphertext) {
+      throw new Error('Unsupported key envelope format');
+    }
+
+    const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(authTag, 'base64'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]);
+  }
+}
@@ -0,0 +1,402 @@
+import { createWriteStream, WriteStream } from 'fs';
+import { ethers } from 'ethers';
+import { ContractService } from './ContractService';
+import { GasService } from './GasService';
+import { MerkleTree } from '../utils/merkle-tree';
+import { DEFAULTS } from '../config/defaults';
+import { isNativeToken } from '../config/constants';
+import { Logger } from '../utils/logger';
+import type { DatabaseManager } from '../database/sqlite-schema';
+import type { DatabaseAdapter } from '../database/db-adapter';
+
+const logger = Logger.getInstance().child('MerkleClaimService');
+
+const MERKLE_DISTRIBUTOR_ABI = [
+  'constructor(address token, bytes32 merkleRoot, uint256 expiry) payable',
+  'function claim(uint256 index, address account, uint256 amount, bytes32[] merkleProof)',
+  'function isClaimed(uint256 index) view returns (bool)',
+  'function sweep(address to) returns (uint256 amount)',
+  'event Claimed(uint256 indexed index, address indexed account, uint256 amount)',
+  'event Swept(address indexed to, uint256 amount)'
+];
+
+const ERC20_ABI = [
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function balanceOf(address account) view returns (uint256)'
+];
+
+// 同步领取事件时每次 eth_getLogs 查询的区块数（多数公共 RPC 限制在 1 万块以内）
+const CLAIM_LOG_CHUNK_BLOCKS = 5000;
+
+export const UNCLAIMED_ERROR_MESSAGE = 'Not claimed before the claim expiry';
+
+export interface MerkleDeploymentResult {
+  distributorAddress: string;
+  merkleRoot: string;
+  totalAmount: string;
+  deployTxHash?: string; // 已部署过（上次注资中断）时为空
+  deployBlockNumber?: number;
+  deployGasUsed?: string;
+  deployValue?: string; // 原生代币随部署交易注资
+  fundTxHash?: string;
+  fundAmount?: string;
+}
+
+export interface ClaimSyncResult {
+  newClaims: number;
+  claimedCount: number;
+  totalRecipients: number;
+  syncedBlock: number;
+  completed: boolean;
+}
+
+export interface ClaimProofExportResult {
+  filePath: string;
+  format: 'json' | 'csv';
+  count: number;
+}
+
+export interface SweepResult {
+  txHash: string;
+  amount: string;
+  unclaimedCount: number;
+  blockNumber: number;
+  gasUsed: string;
+}
+
+interface ClaimLeaf {
+  id: number;
+  index: number;
+  address: string;
+  amount: string;
+  rawAmount: bigint;
+}
+
+/**
+ * 领取式空投（EVM）
+ *
+ * 对接收者 (index, address, amount) 构建 Merkle 树并部署注资 MerkleDistributor 合约，由接收者自行领取；
+ * 导出每个接收者的证明供领取页面使用，按合约的 Claimed 事件更新接收者状态，过期后回收未领取的部分。
+ */
+export class MerkleClaimService {
+  private db: DatabaseAdapter;
+  private contractService: ContractService;
+  private gasService: GasService;
+
+  constructor(databaseManager: DatabaseManager) {
+    this.db = databaseManager.getDatabase();
+    this.contractService = new ContractService();
+    this.gasService = new GasService();
+  }
+
+  /**
+   * 构建 Merkle 树、部署分发合约并注入全部发放金额
+   * 部署后立即记录合约地址，注资中断时再次调用只补足差额，不会重复部署
+   */
+  async deployDistributor(campaignId: string, rpcUrl: string, privateKey: string): Promise<MerkleDeploymentResult> {
+    const campaign = await this.getClaimCampaign(campaignId);
+    if (campaign.status !== 'CREATED' && campaign.status !== 'FUNDED') {
+      throw new Error(`Distributor can only be deployed before claims open (current: ${campaign.status})`);
+    }
+
+    const expiry = Math.floor(new Date(campaign.claim_expires_at).getTime() / 1000);
+    if (!Number.isFinite(expiry) || expiry * 1000 <= Date.now()) {
+      throw new Error('Claim expiry must be in the future');
+    }
+
+    const { leaves, decimals } = await this.loadLeaves(campaign, rpcUrl);
+    const tree = new MerkleTree(leaves.map(leaf => MerkleTree.claimLeaf(leaf.index, leaf.address, leaf.rawAmount)));
+    const merkleRoot = tree.getRoot();
+    const totalAmount = leaves.reduce((sum, leaf) => sum + leaf.rawAmount, 0n);
+
+    if (campaign.merkle_root && campaign.merkle_root !== merkleRoot) {
+      throw new Error('Recipient list no longer matches the Merkle root of the deployed distributor');
+    }
+
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const wallet = new ethers.Wallet(privateKey, provider);
+    const { gasLimit: _defaultGasLimit, ...fees } = this.gasService.getTransactionOptions(
+      await this.gasService.getGasInfo(rpcUrl, 'ethereum')
+    );
+    const isNative = isNativeToken(campaign.token_address);
+    const result: MerkleDeploymentResult = {
+      distributorAddress: campaign.distributor_address,
+      merkleRoot,
+      totalAmount: ethers.formatUnits(totalAmount, decimals),
+    };
+
+    if (!campaign.distributor_address) {
+      // 先写入叶子下标与 Merkle 根，部署后的合约与数据库中的接收者一一对应
+      await this.db.transaction(async (tx) => {
+        const assign = tx.prepare('UPDATE recipients SET claim_index = ? WHERE id = ?');
+        for (const leaf of leaves) {
+          await assign.run(leaf.index, leaf.id);
+        }
+        await tx.prepare('UPDATE campaigns SET merkle_root = ?, updated_at = ? WHERE id = ?')
+          .run(merkleRoot, new Date().toISOString(), campaignId);
+      });
+
+      const factory = new ethers.ContractFactory(MERKLE_DISTRIBUTOR_ABI, MerkleClaimService.getDistributorBytecode(), wallet);
+      const contract = await factory.deploy(
+        isNative ? ethers.ZeroAddress : campaign.token_address,
+        merkleRoot,
+        expiry,
+        { ...fees, gasLimit: BigInt(DEFAULTS.GAS_LIMITS.merkle_distributor_deploy), value: isNative ? totalAmount : 0n }
+      );
+      await contract.waitForDeployment();
+      const receipt = await contract.deploymentTransaction()?.wait();
+
+      result.distributorAddress = await contract.getAddress();
+      result.deployTxHash = contract.deploymentTransaction()?.hash;
+      result.deployBlockNumber = receipt?.blockNumber;
+      result.deployGasUsed = receipt?.gasUsed?.toString() || '0';
+      result.deployValue = isNative ? result.totalAmount : undefined;
+
+      await this.db.prepare(`
+        UPDATE campaigns SET distributor_address = ?, distributor_deploy_block = ?, claims_synced_block = ?, updated_at = ?
+        WHERE id = ?
+      `).run(result.distributorAddress, result.deployBlockNumber, result.deployBlockNumber, new Date().toISOString(), campaignId);
+
+      logger.info('Merkle distributor deployed', { campaignId, distributor: result.distributorAddress, merkleRoot, recipients: leaves.length });
+    }
+
+    if (!isNative) {
+      const token = new ethers.Contract(campaign.token_address, ERC20_ABI, wallet);
+      const funded: bigint = await token.balanceOf(result.distributorAddress);
+      if (funded < totalAmount) {
+        const tx = await token.transfer(result.distributorAddress, totalAmount - funded, fees);
+        await tx.wait();
+        result.fundTxHash = tx.hash;
+        result.fundAmount = ethers.formatUnits(totalAmount - funded, decimals);
+        logger.info('Merkle distributor funded', { campaignId, amount: (totalAmount - funded).toString(), txHash: tx.hash });
+      }
+    }
+
+    // 合约已注资，领取开放
+    const now = new Date().toISOString();
+    await this.db.prepare(`
+      UPDATE campaigns SET status = 'READY', contract_deployed_at = ?, updated_at = ? WHERE id = ?
+    `).run(now, now, campaignId);
+
+    return result;
+  }
+
+  /**
+   * 从上次同步的区块开始读取 Claimed 事件，已领取的接收者标记为 SENT；全部领取后活动完成
+   */
+  async syncClaims(campaignId: string, rpcUrl: string): Promise<ClaimSyncResult> {
+    const campaign = await this.getClaimCampaign(campaignId);
+    if (!campaign.distributor_address) {
+      throw new Error('Distributor has not been deployed');
+    }
+
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const distributor = new ethers.Interface(MERKLE_DISTRIBUTOR_ABI);
+    const claimedTopic = distributor.getEvent('Claimed')!.topicHash;
+    const latestBlock = await provider.getBlockNumber();
+    let syncedBlock: number = campaign.claims_synced_block ?? campaign.distributor_deploy_block;
+    let newClaims = 0;
+
+    while (syncedBlock < latestBlock) {
+      const fromBlock = syncedBlock + 1;
+      const toBlock = Math.min(fromBlock + CLAIM_LOG_CHUNK_BLOCKS - 1, latestBlock);
+      const logs = await provider.getLogs({ address: campaign.distributor_address, topics: [claimedTopic], fromBlock, toBlock });
+
+      // 每段查询完即保存进度，下次从中断处继续
+      await this.db.transaction(async (tx) => {
+        const markClaimed = tx.prepare(`
+          UPDATE recipients SET status = 'SENT', tx_hash = ?, error_message = NULL, updated_at = datetime('now')
+          WHERE campaign_id = ? AND claim_index = ? AND status != 'SENT'
+        `);
+        for (const log of logs) {
+          const parsed = distributor.parseLog({ topics: [...log.topics], data: log.data });
+          const { changes } = await markClaimed.run(log.transactionHash, campaignId, Number(parsed!.args[0]));
+          newClaims += changes || 0;
+        }
+        await tx.prepare('UPDATE campaigns SET claims_synced_block = ? WHERE id = ?').run(toBlock, campaignId);
+      });
+
+      syncedBlock = toBlock;
+    }
+
+    const { claimedCount, pendingCount } = await this.updateClaimCounts(campaignId);
+    const completed = pendingCount === 0;
+    if (completed && campaign.status !== 'COMPLETED') {
+      await this.markCompleted(campaignId);
+    }
+
+    logger.info('Claims synced', { campaignId, newClaims, claimedCount, syncedBlock });
+    return { newClaims, claimedCount, totalRecipients: campaign.total_recipients, syncedBlock, completed };
+  }
+
+  /**
+   * 导出每个接收者的领取证明，逐行写入文件，50 万地址也不需要一次性拼接整个文件
+   * JSON 以地址为键；CSV 的证明用分号分隔
+   */
+  async exportProofs(campaignId: string, rpcUrl: string, filePath: string, format: 'json' | 'csv'): Promise<ClaimProofExportResult> {
+    const campaign = await this.getClaimCampaign(campaignId);
+    if (!campaign.merkle_root || !campaign.distributor_address) {
+      throw new Error('Distributor has not been deployed');
+    }
+
+    const { leaves, decimals } = await this.loadLeaves(campaign, rpcUrl);
+    const tree = new MerkleTree(leaves.map(leaf => MerkleTree.claimLeaf(leaf.index, leaf.address, leaf.rawAmount)));
+    if (tree.getRoot() !== campaign.merkle_root) {
+      throw new Error('Recipient list no longer matches the Merkle root of the deployed distributor');
+    }
+
+    const stream = createWriteStream(filePath, { encoding: 'utf8' });
+    const finished = new Promise<void>((resolve, reject) => {
+      stream.on('finish', resolve);
+      stream.on('error', reject);
+    });
+
+    if (format === 'csv') {
+      await this.writeLine(stream, 'index,address,amount,amount_raw,proof\n');
+      for (const leaf of leaves) {
+        await this.writeLine(stream, `${leaf.index},${leaf.address},${leaf.amount},${leaf.rawAmount},${tree.getProof(leaf.index).join(';')}\n`);
+      }
+    } else {
+      const header = {
+        merkleRoot: campaign.merkle_root,
+        chainId: String(campaign.chain_id),
+        distributor: campaign.distributor_address,
+        token: isNativeToken(campaign.token_address) ? ethers.ZeroAddress : campaign.token_address,
+        tokenDecimals: decimals,
+        tokenTotal: leaves.reduce((sum, leaf) => sum + leaf.rawAmount, 0n).toString(),
+        expiresAt: campaign.claim_expires_at,
+      };
+      await this.writeLine(stream, `${JSON.stringify(header, null, 2).slice(0, -2)},\n  "claims": {\n`);
+      for (let i = 0; i < leaves.length; i++) {
+        const leaf = leaves[i];
+        const claim = { index: leaf.index, amount: leaf.amount, amountRaw: leaf.rawAmount.toString(), proof: tree.getProof(leaf.index) };
+        await this.writeLine(stream, `    ${JSON.stringify(leaf.address)}: ${JSON.stringify(claim)}${i < leaves.length - 1 ? ',' : ''}\n`);
+      }
+      await this.writeLine(stream, '  }\n}\n');
+    }
+
+    stream.end();
+    await finished;
+
+    logger.info('Claim proofs exported', { campaignId, format, count: leaves.length, filePath });
+    return { filePath, format, count: leaves.length };
+  }
+
+  /**
+   * 过期后把分发合约中剩余的资金回收到活动钱包，未领取的接收者标记为失败，活动完成
+   */
+  async sweepUnclaimed(campaignId: string, rpcUrl: string, privateKey: string): Promise<SweepResult> {
+    const campaign = await this.getClaimCampaign(campaignId);
+    if (!campaign.distributor_address) {
+      throw new Error('Distributor has not been deployed');
+    }
+    if (new Date(campaign.claim_expires_at).getTime() > Date.now()) {
+      throw new Error('Claim window is still open');
+    }
+
+    // 先同步到最新区块，过期前的领取不会被误标为未领取
+    await this.syncClaims(campaignId, rpcUrl);
+
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const wallet = new ethers.Wallet(privateKey, provider);
+    const { gasLimit: _defaultGasLimit, ...fees } = this.gasService.getTransactionOptions(
+      await this.gasService.getGasInfo(rpcUrl, 'ethereum')
+    );
+    const distributor = new ethers.Contract(campaign.distributor_address, MERKLE_DISTRIBUTOR_ABI, wallet);
+
+    const tx = await distributor.sweep(campaign.wallet_address, fees);
+    const receipt: ethers.TransactionReceipt = await tx.wait();
+    const swept = receipt.logs
+      .map(log => distributor.interface.parseLog({ topics: [...log.topics], data: log.data }))
+      .find(parsed => parsed?.name === 'Swept');
+    const rawAmount: bigint = swept ? swept.args[1] : 0n;
+
+    const decimals = isNativeToken(campaign.token_address) ? 18 : await this.contractService.getTokenDecimals(rpcUrl, campaign.token_address);
+    const { changes } = await this.db.prepare(`
+      UPDATE recipients SET status = 'FAILED', error_message = ?, updated_at = datetime('now')
+      WHERE campaign_id = ? AND status = 'PENDING'
+    `).run(UNCLAIMED_ERROR_MESSAGE, campaignId);
+    await this.updateClaimCounts(campaignId);
+    await this.markCompleted(campaignId);
+
+    logger.info('Unclaimed allocations swept', { campaignId, txHash: tx.hash, amount: rawAmount.toString(), unclaimed: changes });
+    return {
+      txHash: tx.hash,
+      amount: ethers.formatUnits(rawAmount, decimals),
+      unclaimedCount: changes || 0,
+      blockNumber: receipt.blockNumber,
+      gasUsed: receipt.gasUsed.toString(),
+    };
+  }
+
+  private async getClaimCampaign(campaignId: string): Promise<any> {
+    const campaign = await this.db.prepare('SELECT * FROM campaigns WHERE id = ?').get(campaignId) as any;
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+    if (campaign.distribution_mode !== 'MERKLE_CLAIM') {
+      throw new Error('Campaign is not a Merkle claim campaign');
+    }
+    return campaign;
+  }
+
+  /**
+   * 按接收者 id 顺序生成叶子，下标即叶子在树中的位置
+   */
+  private async loadLeaves(campaign: any, rpcUrl: string): Promise<{ leaves: ClaimLeaf[]; decimals: number }> {
+    const decimals = isNativeToken(campaign.token_address) ? 18 : await this.contractService.getTokenDecimals(rpcUrl, campaign.token_address);
+    const rows = await this.db.prepare(
+      'SELECT id, address, amount FROM recipients WHERE campaign_id = ? ORDER BY id'
+    ).all(campaign.id) as Array<{ id: number; address: string; amount: string }>;
+
+    const leaves = rows.map((row, index) => ({
+      id: row.id,
+      index,
+      address: ethers.getAddress(row.address.toLowerCase()),
+      amount: row.amount,
+      rawAmount: ethers.parseUnits(row.amount, decimals),
+    }));
+    return { leaves, decimals };
+  }
+
+  private async updateClaimCounts(campaignId: string): Promise<{ claimedCount: number; pendingCount: number }> {
+    const counts = await this.db.prepare(`
+      SELECT
+        COUNT(CASE WHEN status = 'SENT' THEN 1 END) as claimed,
+        COUNT(CASE WHEN status = 'FAILED' THEN 1 END) as failed,
+        COUNT(CASE WHEN status = 'PENDING' THEN 1 END) as pending
+      FROM recipients WHERE campaign_id = ?
+    `).get(campaignId) as { claimed: number; failed: number; pending: number };
+
+    await this.db.prepare(
+      'UPDATE campaigns SET completed_recipients = ?, failed_recipients = ?, updated_at = ? WHERE id = ?'
+    ).run(counts.claimed || 0, counts.failed || 0, new Date().toISOString(), campaignId);
+
+    return { claimedCount: counts.claimed || 0, pendingCount: counts.pending || 0 };
+  }
+
+  private async markCompleted(campaignId: string): Promise<void> {
+    const now = new Date().toISOString();
+    await this.db.prepare(
+      "UPDATE campaigns SET status = 'COMPLETED', completed_at = ?, updated_at = ? WHERE id = ?"
+    ).run(now, now, campaignId);
+  }
+
+  private async writeLine(stream: WriteStream, line: string): Promise<void> {
+    if (!stream.write(line)) {
+      await new Promise<void>(resolve => stream.once('drain', () => resolve()));
+    }
+  }
+
+  /**
+   * MerkleDistributor bytecode
+   * Compiled from contracts/src/MerkleDistributor.sol using Solidity 0.8.37 (optimizer 200 runs, evmVersion cancun)
+   *
+   * - constructor(address token, bytes32 merkleRoot, uint256 expiry) payable: token 为 address(0) 时分发原生代币
+   * - claim(index, account, amount, proof): 过期前领取，每个下标只能领取一次
+   * - sweep(to): 过期后由部署者回收剩余资金
+   */
+  public static getDistributorBytecode(): string {
+    return '0x6101006040526040516109bb3803806109bb83398101604081905261002391610040565b6001600160a01b0390921660805260a05260c0523360e05261007f565b5f5f5f60608486031215610052575f5ffd5b83516001600160a01b0381168114610068575f5ffd5b602085015160409095015190969495509392505050565b60805160a05160c05160e0516108d36100e85f395f818160e5015261019c01525f8181610147015281816101dc015261032d01525f818160be015261046b01525f818161016e0152818161021d0152818161025f01528181610576015261063701526108d35ff3fe608060405234801561000f575f5ffd5b506004361061007a575f3560e01c80638da5cb5b116100585780638da5cb5b146100e05780639e34070f1461011f578063e184c9be14610142578063fc0c546a14610169575f5ffd5b806301681a621461007e5780632e7ba6ef146100a45780632eb4a7ab146100b9575b5f5ffd5b61009161008c36600461073b565b610190565b6040519081526020015b60405180910390f35b6100b76100b236600461075b565b61032b565b005b6100917f000000000000000000000000000000000000000000000000000000000000000081565b6101077f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200161009b565b61013261012d3660046107ec565b610534565b604051901515815260200161009b565b6100917f000000000000000000000000000000000000000000000000000000000000000081565b6101077f000000000000000000000000000000000000000000000000000000000000000081565b5f336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146101da576040516330cd747160e01b815260040160405180910390fd5b7f000000000000000000000000000000000000000000000000000000000000000042101561021b576040516314efd1e760e11b815260040160405180910390fd5b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316156102d5576040516370a0823160e01b81523060048201527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa1580156102ac573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906102d09190610803565b6102d7565b475b90506102e38282610574565b816001600160a01b03167fc36b5179cb9c303b200074996eab2b3473eac370fdd7eba3bec636fe351096968260405161031e91815260200190565b60405180910390a2919050565b7f0000000000000000000000000000000000000000000000000000000000000000421061036b5760405163f0f25a3360e01b815260040160405180910390fd5b61037485610534565b1561039257604051630c8d9eab60e31b815260040160405180910390fd5b604080516020808201889052606087901b6bffffffffffffffffffffffff19168284015260548083018790528351808403909101815260749092019092528051910120815f5b81811015610468575f8585838181106103f3576103f361081a565b9050602002013590508084106104325760408051602081018390529081018590526060016040516020818303038152906040528051906020012061045d565b6040805160208101869052908101829052606001604051602081830303815290604052805190602001205b9350506001016103d8565b507f000000000000000000000000000000000000000000000000000000000000000082146104a9576040516309bde33960e01b815260040160405180910390fd5b6104b561010088610842565b6001901b5f806104c76101008b610855565b815260208101919091526040015f20805490911790556104e78686610574565b856001600160a01b0316877f4ec90e965519d92681267467f775ada5bd214aa92c0dc93d90a5e880ce9ed0268760405161052391815260200190565b60405180910390a350505050505050565b5f80808061054461010086610855565b81526020019081526020015f205490505f610100846105639190610842565b6001901b9182169091149392505050565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316610617575f826001600160a01b0316826040515f6040518083038185875af1925050503d805f81146105eb576040519150601f19603f3d011682016040523d82523d5f602084013e6105f0565b606091505b505090508061061257604051630ec6ac4160e21b815260040160405180910390fd5b505050565b6040516001600160a01b038381166024830152604482018390525f9182917f0000000000000000000000000000000000000000000000000000000000000000169060640160408051601f198184030181529181526020820180516001600160e01b031663a9059cbb60e01b179052516106909190610868565b5f604051808303815f865af19150503d805f81146106c9576040519150601f19603f3d011682016040523d82523d5f602084013e6106ce565b606091505b50915091508115806106fc57508051158015906106fc5750808060200190518101906106fa919061087e565b155b1561071a57604051630ec6ac4160e21b815260040160405180910390fd5b50505050565b80356001600160a01b0381168114610736575f5ffd5b919050565b5f6020828403121561074b575f5ffd5b61075482610720565b9392505050565b5f5f5f5f5f6080868803121561076f575f5ffd5b8535945061077f60208701610720565b935060408601359250606086013567ffffffffffffffff8111156107a1575f5ffd5b8601601f810188136107b1575f5ffd5b803567ffffffffffffffff8111156107c7575f5ffd5b8860208260051b84010111156107db575f5ffd5b959894975092955050506020019190565b5f602082840312156107fc575f5ffd5b5035919050565b5f60208284031215610813575f5ffd5b5051919050565b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52601260045260245ffd5b5f826108505761085061082e565b500690565b5f826108635761086361082e565b500490565b5f82518060208501845e5f920191825250919050565b5f6020828403121561088e575f5ffd5b81518015158114610754575f5ffdfea2646970667358221220e14db6f67e0beb9f8b9cab4e0b75608d50818f2268a235c48524c38d001a55a364736f6c63430008250033';
+  }
+}
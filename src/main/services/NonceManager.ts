@@ -0,0 +1,82 @@
+import { ethers } from 'ethers';
+import { Logger } from '../utils/logger';
+
+const logger = Logger.getInstance().child('NonceManager');
+
+/**
+ * 按钱包（chainId + 地址）分配 EVM nonce，使同一钱包的多个批次可以同时在途
+ *
+ * - 下一个 nonce 取本地计数与链上 pending 计数的较大值，外部发出的交易不会造成冲突
+ * - 发送失败（未广播）的 nonce 会被释放并优先复用，避免后续交易卡在空洞之后
+ * - 同一钱包的分配串行执行，并发调用不会拿到相同的 nonce
+ */
+export class NonceManager {
+  private nextNonces: Map<string, number> = new Map();
+  private releasedNonces: Map<string, number[]> = new Map();
+  private locks: Map<string, Promise<unknown>> = new Map();
+
+  async reserve(provider: ethers.JsonRpcProvider, chainId: bigint, address: string): Promise<number> {
+    const key = this.getKey(chainId, address);
+
+    return this.withLock(key, async () => {
+      const released = this.releasedNonces.get(key);
+      if (released && released.length > 0) {
+        released.sort((a, b) => a - b);
+        const nonce = released.shift()!;
+        logger.debug('Reusing released nonce', { address, nonce });
+        return nonce;
+      }
+
+      const chainNonce = await provider.getTransactionCount(address, 'pending');
+      const nonce = Math.max(chainNonce, this.nextNonces.get(key) ?? 0);
+      this.nextNonces.set(key, nonce + 1);
+      return nonce;
+    });
+  }
+
+  /**
+   * 交易未能广播时归还 nonce
+   */
+  release(chainId: bigint, address: string, nonce: number): void {
+    const key = this.getKey(chainId, address);
+    const next = this.nextNonces.get(key);
+
+    if (next !== undefined && nonce === next - 1) {
+      this.nextNonces.set(key, nonce);
+      return;
+    }
+
+    const released = this.releasedNonces.get(key) || [];
+    if (!released.includes(nonce)) {
+      released.push(nonce);
+    }
+    this.releasedNonces.set(key, released);
+  }
+
+  /**
+   * 丢弃本地状态，下次分配时重新以链上 pending 计数为准
+   */
+  resync(chainId: bigint, address: string): void {
+    const key = this.getKey(chainId, address);
+    this.nextNonces.delete(key);
+    this.releasedNonces.delete(key);
+  }
+
+  private getKey(chainId: bigint, address: string): string {
+    return `${chainId}:${address.toLowerCase()}`;
+  }
+
+  private async withLock<T>(key: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const current = previous.catch(() => undefined).then(fn);
+    this.locks.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.locks.get(key) === current) {
+        this.locks.delete(key);
+      }
+    }
+  }
+}
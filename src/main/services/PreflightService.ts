@@ -0,0 +1,373 @@
+import { ethers } from 'ethers';
+import BigNumber from 'bignumber.js';
+import { ContractService, NftTransferSpec, TokenLegTransferSpec, toTokenLegTransfer } from './ContractService';
+import { SolanaService } from './SolanaService';
+import { ChainUtils } from '../utils/chain-utils';
+import { isNativeToken } from '../config/constants';
+import { Logger } from '../utils/logger';
+import type { DatabaseAdapter } from '../database/db-adapter';
+
+const logger = Logger.getInstance().child('PreflightService');
+
+export type BatchErrorCategory =
+  | 'INSUFFICIENT_BALANCE'
+  | 'GAS_ERROR'
+  | 'NONCE_ERROR'
+  | 'NETWORK_ERROR'
+  | 'CONTRACT_REVERT'
+  | 'UNKNOWN_ERROR';
+
+export type BatchSuggestedAction =
+  | 'STOP_CAMPAIGN'
+  | 'ADJUST_GAS'
+  | 'CHECK_NONCE'
+  | 'WAIT_AND_RETRY'
+  | 'CHECK_CONTRACT'
+  | '';
+
+export interface BatchErrorClassification {
+  category: BatchErrorCategory;
+  suggestedAction: BatchSuggestedAction;
+  isRetryableManually: boolean;
+}
+
+export interface PreflightResult {
+  success: boolean;
+  category?: BatchErrorCategory;
+  error?: string;
+  gasEstimate?: string; // EVM 为 Gas 单位，Solana 为 compute units
+}
+
+export interface BisectionResult {
+  passing: number[]; // 可以一起发送的接收者下标
+  failing: Array<{ index: number; error: string }>; // 单独模拟仍然失败的接收者
+}
+
+export interface DryRunIssue {
+  batchNumber: number;
+  address?: string; // 为空表示整个批次的问题（单独模拟每个地址都能通过）
+  amount?: string;
+  category: BatchErrorCategory;
+  message: string;
+}
+
+export interface DryRunReport {
+  campaignId: string;
+  batchCount: number;
+  recipientCount: number;
+  passedBatches: number;
+  failedBatches: number;
+  estimatedGas: string;
+  warnings: string[];
+  issues: DryRunIssue[];
+  createdAt: string;
+}
+
+/**
+ * 按错误信息归类批次失败原因（模拟失败与发送失败共用）
+ */
+export function categorizeBatchError(errorMessage: string): BatchErrorClassification {
+  const message = errorMessage.toLowerCase();
+
+  if (message.includes('insufficient funds') || message.includes('exceeds balance') || message.includes('insufficient balance')) {
+    return { category: 'INSUFFICIENT_BALANCE', suggestedAction: 'STOP_CAMPAIGN', isRetryableManually: false };
+  }
+  if (message.includes('gas')) {
+    return { category: 'GAS_ERROR', suggestedAction: 'ADJUST_GAS', isRetryableManually: true };
+  }
+  if (message.includes('nonce')) {
+    return { category: 'NONCE_ERROR', suggestedAction: 'CHECK_NONCE', isRetryableManually: true };
+  }
+  if (message.includes('network') || message.includes('timeout')) {
+    return { category: 'NETWORK_ERROR', suggestedAction: 'WAIT_AND_RETRY', isRetryableManually: true };
+  }
+  if (message.includes('revert') || message.includes('simulation failed')) {
+    return { category: 'CONTRACT_REVERT', suggestedAction: 'CHECK_CONTRACT', isRetryableManually: false };
+  }
+  return { category: 'UNKNOWN_ERROR', suggestedAction: '', isRetryableManually: false };
+}
+
+/**
+ * 发送前预检：EVM 用 eth_call + estimateGas，Solana 用 simulateTransaction
+ * 模拟失败的批次不会广播；dryRunCampaign 按当前链上状态模拟所有待发送批次并定位到具体地址
+ */
+export class PreflightService {
+  private db: DatabaseAdapter;
+  private contractService: ContractService;
+  private solanaService: SolanaService;
+  private resolveRpcUrl: (chain: string) => Promise<string>;
+
+  constructor(db: DatabaseAdapter, resolveRpcUrl: (chain: string) => Promise<string>) {
+    this.db = db;
+    this.resolveRpcUrl = resolveRpcUrl;
+    this.contractService = new ContractService();
+    this.solanaService = new SolanaService();
+  }
+
+  /**
+   * 模拟单个批次，RPC 异常也作为失败返回（批次同样不会广播）
+   * NFT 活动需传入与接收者顺序一致的 tokenIds，多代币活动需传入每条记录的代币序号 legIndexes；
+   * 执行中签好的授权（campaign.tokenPermit）随模拟一并提交
+   */
+  async simulateBatch(
+    campaign: any, rpcUrl: string, addresses: string[], amounts: string[], tokenIds?: string[], legIndexes?: number[]
+  ): Promise<PreflightResult> {
+    let success = false;
+    let error: string | undefined;
+    let gasEstimate: string | undefined;
+
+    try {
+      if (ChainUtils.isSolanaChain(campaign.chain)) {
+        const result = await this.solanaService.simulateBatchTransfer(
+          rpcUrl, campaign.walletAddress, addresses, amounts, campaign.tokenAddress,
+          { netDelivery: campaign.netDelivery, lookupTableAddress: campaign.lookupTableAddress, priorityFee: campaign.priorityFee }
+        );
+        ({ success, error } = result);
+        gasEstimate = result.unitsConsumed?.toString();
+      } else {
+        const result = await this.contractService.simulateBatchTransfer(
+          campaign.contractAddress, rpcUrl, campaign.walletAddress, addresses, amounts, campaign.tokenAddress, campaign.batchMode,
+          this.getNftTransfer(campaign, tokenIds), campaign.tokenPermit, this.getTokenLegTransfer(campaign, legIndexes)
+        );
+        ({ success, error } = result);
+        gasEstimate = result.gasEstimate?.toString();
+      }
+    } catch (simulationError) {
+      error = simulationError instanceof Error ? simulationError.message : String(simulationError);
+    }
+
+    if (success) {
+      return { success, gasEstimate };
+    }
+
+    const message = error || 'Simulation failed';
+    return { success, error: message, category: categorizeBatchError(message).category, gasEstimate };
+  }
+
+  /**
+   * 模拟失败的批次递归二分，直到定位出单独模拟也会失败的接收者
+   * 两半各自通过、合在一起才失败时（如余额只够其中一半）无法归咎到具体地址，两半都计入 passing，由调用方重新模拟
+   */
+  async bisectBatch(
+    campaign: any, rpcUrl: string, addresses: string[], amounts: string[], tokenIds?: string[], legIndexes?: number[]
+  ): Promise<BisectionResult> {
+    const result: BisectionResult = { passing: [], failing: [] };
+
+    const visit = async (indexes: number[], knownError?: string): Promise<boolean> => {
+      let error = knownError;
+      if (error === undefined) {
+        const simulation = await this.simulateBatch(
+          campaign, rpcUrl, indexes.map(i => addresses[i]), indexes.map(i => amounts[i]),
+          tokenIds && indexes.map(i => tokenIds[i]), legIndexes && indexes.map(i => legIndexes[i])
+        );
+        if (simulation.success) {
+          return true;
+        }
+        error = simulation.error!;
+      }
+
+      if (indexes.length === 1) {
+        result.failing.push({ index: indexes[0], error });
+        return false;
+      }
+
+      const middle = Math.ceil(indexes.length / 2);
+      const left = indexes.slice(0, middle);
+      const right = indexes.slice(middle);
+      const leftPassed = await visit(left);
+      const rightPassed = await visit(right);
+      if (leftPassed) {
+        result.passing.push(...left);
+      }
+      if (rightPassed) {
+        result.passing.push(...right);
+      }
+      return false;
+    };
+
+    const allIndexes = addresses.map((_, index) => index);
+    if (await visit(allIndexes)) {
+      result.passing.push(...allIndexes);
+    }
+    result.passing.sort((a, b) => a - b);
+
+    logger.info('Batch bisection completed', { campaignId: campaign.id, size: addresses.length, passing: result.passing.length, failing: result.failing.length });
+    return result;
+  }
+
+  /**
+   * 按当前链上状态模拟所有待发送批次；失败的批次二分定位问题地址
+   * 每个批次单独模拟，无法发现前序批次消耗余额导致的不足，因此另外检查活动总额
+   * 尽力模式的批次不会因个别地址回滚，按原子模式模拟才能找出发送时会被跳过的地址
+   */
+  async dryRunCampaign(campaign: any): Promise<DryRunReport> {
+    const atomicCampaign = { ...campaign, batchMode: 'ATOMIC' };
+    const rows = await this.db.prepare(`
+      SELECT address, amount, batch_number, token_id, leg_index FROM recipients
+      WHERE campaign_id = ? AND status = 'PENDING' AND (unlock_at IS NULL OR unlock_at <= ?)
+      ORDER BY batch_number, id
+    `).all(campaign.id, new Date().toISOString()) as Array<{
+      address: string; amount: string; batch_number: number; token_id: string | null; leg_index: number | null;
+    }>;
+
+    const batches = new Map<number, Array<{ address: string; amount: string; tokenId: string | null; legIndex: number }>>();
+    for (const row of rows) {
+      const members = batches.get(row.batch_number) || [];
+      members.push({ address: row.address, amount: row.amount, tokenId: row.token_id, legIndex: row.leg_index ?? 0 });
+      batches.set(row.batch_number, members);
+    }
+
+    const rpcUrl = await this.resolveRpcUrl(campaign.chain);
+    const isSolana = ChainUtils.isSolanaChain(campaign.chain);
+    const isNft = campaign.tokenStandard === 'ERC721' || campaign.tokenStandard === 'ERC1155';
+    const tokenLegs: Array<{ tokenAddress: string; tokenSymbol?: string; tokenDecimals: number }> | undefined = campaign.tokenLegs;
+    const totalAmount = rows.reduce((sum, row) => sum.plus(row.amount || '0'), new BigNumber(0));
+    // NFT 按 token ID 转出，总量比较没有意义，由逐批模拟发现未持有的 token；多代币活动按代币分别比较
+    const warnings = isNft || tokenLegs ? [] : await this.checkCampaignTotals(campaign, rpcUrl, totalAmount);
+
+    // 授权在首个批次发送前才会补足，授权不足时无法模拟合约调用，改为逐个地址模拟钱包直接转账
+    let allowanceShort = false;
+    if (tokenLegs) {
+      for (let legIndex = 0; legIndex < tokenLegs.length; legIndex++) {
+        const leg = tokenLegs[legIndex];
+        const legCampaign = { ...campaign, tokenAddress: leg.tokenAddress, tokenSymbol: leg.tokenSymbol, tokenLegs: undefined };
+        const legTotal = rows
+          .filter(row => (row.leg_index ?? 0) === legIndex)
+          .reduce((sum, row) => sum.plus(row.amount || '0'), new BigNumber(0));
+        warnings.push(...await this.checkCampaignTotals(legCampaign, rpcUrl, legTotal));
+        if (!isNativeToken(leg.tokenAddress) && !allowanceShort) {
+          const allowance = await this.contractService.getAllowance(rpcUrl, campaign.walletAddress, leg.tokenAddress, campaign.contractAddress);
+          allowanceShort = allowance < ethers.parseUnits(legTotal.toFixed(), leg.tokenDecimals);
+        }
+      }
+      if (allowanceShort) {
+        warnings.push('部分代币的合约授权额度不足，发送前会自动授权；本次按代币直接转账逐个检查接收者（原生代币只检查总额）');
+      }
+    } else if (isNft) {
+      allowanceShort = !(await this.contractService.isApprovedForAll(rpcUrl, campaign.walletAddress, campaign.tokenAddress, campaign.contractAddress));
+      if (allowanceShort) {
+        warnings.push('合约尚未获得 NFT 集合授权，发送前会自动授权；本次按钱包直接转账逐个检查接收者');
+      }
+    } else if (!isSolana && !isNativeToken(campaign.tokenAddress)) {
+      const decimals = await this.contractService.getTokenDecimals(rpcUrl, campaign.tokenAddress);
+      const allowance = await this.contractService.getAllowance(rpcUrl, campaign.walletAddress, campaign.tokenAddress, campaign.contractAddress);
+      allowanceShort = allowance < ethers.parseUnits(totalAmount.toFixed(), decimals);
+      if (allowanceShort) {
+        warnings.push('合约授权额度不足，发送前会自动授权；本次按代币直接转账逐个检查接收者');
+      }
+    }
+
+    logger.info('Starting dry run', { campaignId: campaign.id, batches: batches.size, recipients: rows.length, allowanceShort });
+
+    const issues: DryRunIssue[] = [];
+    let passedBatches = 0;
+    let failedBatches = 0;
+    let estimatedGas = new BigNumber(0);
+
+    for (const [batchNumber, members] of batches) {
+      const addresses = isSolana ? members.map(m => m.address) : members.map(m => ethers.getAddress(m.address.toLowerCase()));
+      const amounts = members.map(m => m.amount);
+      const tokenIds = isNft ? members.map(m => m.tokenId || '') : undefined;
+      const legIndexes = tokenLegs ? members.map(m => m.legIndex) : undefined;
+      const batchIssues: DryRunIssue[] = [];
+
+      if (allowanceShort) {
+        for (let i = 0; i < addresses.length; i++) {
+          const tokenAddress = legIndexes ? tokenLegs![legIndexes[i]].tokenAddress : campaign.tokenAddress;
+          if (legIndexes && isNativeToken(tokenAddress)) {
+            continue;
+          }
+          const result = tokenIds
+            ? await this.contractService.simulateNftTransfer(
+              rpcUrl, campaign.walletAddress, addresses[i], tokenIds[i], amounts[i], campaign.tokenAddress, campaign.tokenStandard
+            )
+            : await this.contractService.simulateTokenTransfer(rpcUrl, campaign.walletAddress, addresses[i], amounts[i], tokenAddress);
+          if (!result.success) {
+            const message = result.error || 'Simulation failed';
+            batchIssues.push({ batchNumber, address: addresses[i], amount: amounts[i], category: categorizeBatchError(message).category, message });
+          }
+        }
+      } else {
+        const result = await this.simulateBatch(atomicCampaign, rpcUrl, addresses, amounts, tokenIds, legIndexes);
+        if (result.success) {
+          estimatedGas = estimatedGas.plus(result.gasEstimate || '0');
+        } else {
+          if (addresses.length > 1) {
+            const { failing } = await this.bisectBatch(atomicCampaign, rpcUrl, addresses, amounts, tokenIds, legIndexes);
+            for (const { index, error } of failing) {
+              batchIssues.push({ batchNumber, address: addresses[index], amount: amounts[index], category: categorizeBatchError(error).category, message: error });
+            }
+          }
+          if (batchIssues.length === 0) {
+            batchIssues.push({ batchNumber, category: result.category!, message: result.error! });
+          }
+        }
+      }
+
+      if (batchIssues.length > 0) {
+        failedBatches++;
+        issues.push(...batchIssues);
+      } else {
+        passedBatches++;
+      }
+    }
+
+    logger.info('Dry run completed', { campaignId: campaign.id, passedBatches, failedBatches, issues: issues.length });
+
+    return {
+      campaignId: campaign.id,
+      batchCount: batches.size,
+      recipientCount: rows.length,
+      passedBatches,
+      failedBatches,
+      estimatedGas: estimatedGas.toFixed(),
+      warnings,
+      issues,
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  private getNftTransfer(campaign: any, tokenIds?: string[]): NftTransferSpec | undefined {
+    if (campaign.tokenStandard !== 'ERC721' && campaign.tokenStandard !== 'ERC1155') {
+      return undefined;
+    }
+    return { standard: campaign.tokenStandard, tokenIds: tokenIds || [] };
+  }
+
+  private getTokenLegTransfer(campaign: any, legIndexes?: number[]): TokenLegTransferSpec | undefined {
+    return campaign.tokenLegs && legIndexes ? toTokenLegTransfer(campaign.tokenLegs, legIndexes) : undefined;
+  }
+
+  /**
+   * 检查发送钱包是否足够支付所有待发送地址的总额
+   */
+  private async checkCampaignTotals(campaign: any, rpcUrl: string, totalAmount: BigNumber): Promise<string[]> {
+    const warnings: string[] = [];
+    const symbol = campaign.tokenSymbol || '';
+
+    if (ChainUtils.isSolanaChain(campaign.chain)) {
+      const balance = new BigNumber(await this.solanaService.getBalance(rpcUrl, campaign.walletAddress, campaign.tokenAddress));
+      if (balance.lt(totalAmount)) {
+        warnings.push(`发送钱包余额 ${balance.toFixed()} ${symbol} 少于待发送总额 ${totalAmount.toFixed()} ${symbol}，后续批次会因余额不足失败`);
+      } else if (campaign.netDelivery) {
+        warnings.push('按到账金额发送时转账手续费由活动钱包承担，实际需要的代币多于待发送总额，以逐批模拟结果为准');
+      }
+      return warnings;
+    }
+
+    if (isNativeToken(campaign.tokenAddress)) {
+      const balance = await new ethers.JsonRpcProvider(rpcUrl).getBalance(campaign.walletAddress);
+      if (balance < ethers.parseEther(totalAmount.toFixed())) {
+        warnings.push(`发送钱包余额 ${ethers.formatEther(balance)} 少于待发送总额 ${totalAmount.toFixed()}（另需支付 Gas），后续批次会因余额不足失败`);
+      }
+      return warnings;
+    }
+
+    const decimals = await this.contractService.getTokenDecimals(rpcUrl, campaign.tokenAddress);
+    const balance = await this.contractService.getTokenBalance(rpcUrl, campaign.walletAddress, campaign.tokenAddress);
+    if (balance < ethers.parseUnits(totalAmount.toFixed(), decimals)) {
+      warnings.push(`发送钱包余额 ${ethers.formatUnits(balance, decimals)} ${symbol} 少于待发送总额 ${totalAmount.toFixed()} ${symbol}，后续批次会因余额不足失败`);
+    }
+    return warnings;
+  }
+}
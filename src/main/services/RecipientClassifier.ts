@@ -0,0 +1,171 @@
+import { ethers } from 'ethers';
+import { Logger } from '../utils/logger';
+
+const logger = Logger.getInstance().child('RecipientClassifier');
+
+// 地址类型缓存有效期：合约代码基本不变，但 EIP-7702 委托可以随时更换
+const CLASSIFICATION_CACHE_TTL_MS = 10 * 60 * 1000;
+// 每轮并发查询的地址数：ethers 把同一时刻发出的请求合并为一个 JSON-RPC 批量请求（默认每批最多 100 条）
+const CLASSIFY_CHUNK_SIZE = 100;
+// EIP-7702 委托账户的代码为 0xef0100 + 20 字节委托地址
+const EIP7702_DELEGATION_PREFIX = '0xef0100';
+const EIP7702_DELEGATION_LENGTH = 23;
+const SAFE_GET_THRESHOLD_SELECTOR = ethers.id('getThreshold()').slice(0, 10);
+// 原生代币模拟调用的发送方，通过 eth_call 的状态覆盖给它足够的余额；没有金额时按 1 wei 模拟
+const NATIVE_SIMULATION_SENDER = '0x00000000000000000000000000000000000C0DE5';
+const MIN_NATIVE_SIMULATION_VALUE = 1n;
+
+// EOA：普通外部账户；CONTRACT：合约；SAFE：Safe 多签；EIP7702：委托给合约代码的外部账户
+export type RecipientAccountType = 'EOA' | 'CONTRACT' | 'SAFE' | 'EIP7702';
+
+export interface RecipientAccount {
+  address: string;
+  accountType: RecipientAccountType;
+  delegate?: string; // EIP-7702 委托的合约地址
+  rejectsNative?: boolean; // 原生代币活动：按发送金额模拟的调用回滚，批量发送原生代币时整批失败
+  reason?: string; // 模拟调用的回滚原因
+  flagged: boolean; // 需要排除或确认后才能创建活动
+}
+
+export interface RecipientCheckResult {
+  checked: number;
+  counts: Record<RecipientAccountType, number>;
+  flaggedCount: number;
+  accounts: RecipientAccount[]; // 只列出非 EOA 地址
+}
+
+type CachedAccount = Omit<RecipientAccount, 'address' | 'flagged'>;
+
+// 同一 RPC 下按地址缓存，CSV 反复校验时不会重复查询；原生代币的模拟结果只对相同金额有效
+const accountCache = new Map<string, { account: CachedAccount; nativeValue?: bigint; expiresAt: number }>();
+
+/**
+ * 按链上代码识别接收地址类型。原生代币活动对非 EOA 地址按发送金额模拟一笔调用，找出会让
+ * batchTransferNative 整批回滚的合约；ERC20 / NFT 活动中普通合约可能无法取出收到的代币，需要确认
+ * amounts 与 addresses 按位置对应（原生代币单位），同一地址出现多次时按最大金额模拟
+ */
+export class RecipientClassifier {
+  async classify(rpcUrl: string, addresses: string[], nativeToken: boolean, amounts?: string[]): Promise<RecipientCheckResult> {
+    const nativeValues = new Map<string, bigint>();
+    addresses.forEach((raw, i) => {
+      if (!ethers.isAddress(raw.toLowerCase())) {
+        return;
+      }
+      const address = ethers.getAddress(raw.toLowerCase());
+      const value = this.toNativeValue(amounts?.[i]);
+      if (value > (nativeValues.get(address) ?? 0n)) {
+        nativeValues.set(address, value);
+      }
+    });
+    const unique = [...nativeValues.keys()];
+
+    const now = Date.now();
+    const resolved = new Map<string, CachedAccount>();
+    const misses: string[] = [];
+    for (const address of unique) {
+      const cached = accountCache.get(`${rpcUrl}:${address}`);
+      const usable = cached && cached.expiresAt > now
+        && (!nativeToken || cached.account.accountType === 'EOA' || cached.nativeValue === nativeValues.get(address));
+      if (usable) {
+        resolved.set(address, cached.account);
+      } else {
+        misses.push(address);
+      }
+    }
+
+    if (misses.length > 0) {
+      const provider = new ethers.JsonRpcProvider(rpcUrl);
+      for (let i = 0; i < misses.length; i += CLASSIFY_CHUNK_SIZE) {
+        const chunk = misses.slice(i, i + CLASSIFY_CHUNK_SIZE);
+        const accounts = await Promise.all(chunk.map(address =>
+          this.inspect(provider, address, nativeToken ? nativeValues.get(address)! : null)
+        ));
+        chunk.forEach((address, index) => {
+          resolved.set(address, accounts[index]);
+          accountCache.set(`${rpcUrl}:${address}`, {
+            account: accounts[index],
+            nativeValue: nativeToken ? nativeValues.get(address) : undefined,
+            expiresAt: now + CLASSIFICATION_CACHE_TTL_MS
+          });
+        });
+      }
+    }
+
+    const counts: Record<RecipientAccountType, number> = { EOA: 0, CONTRACT: 0, SAFE: 0, EIP7702: 0 };
+    const accounts: RecipientAccount[] = [];
+    for (const address of unique) {
+      const account = resolved.get(address)!;
+      counts[account.accountType]++;
+      if (account.accountType !== 'EOA') {
+        const flagged = nativeToken ? !!account.rejectsNative : account.accountType === 'CONTRACT';
+        accounts.push({ address, ...account, flagged });
+      }
+    }
+
+    logger.info('Recipients classified', { checked: unique.length, cached: unique.length - misses.length, ...counts });
+    return { checked: unique.length, counts, flaggedCount: accounts.filter(account => account.flagged).length, accounts };
+  }
+
+  /**
+   * nativeValue 为 null 时不模拟原生代币转入
+   */
+  private async inspect(provider: ethers.JsonRpcProvider, address: string, nativeValue: bigint | null): Promise<CachedAccount> {
+    const code = await provider.getCode(address);
+    if (code === '0x') {
+      return { accountType: 'EOA' };
+    }
+
+    const account: CachedAccount = code.startsWith(EIP7702_DELEGATION_PREFIX) && ethers.dataLength(code) === EIP7702_DELEGATION_LENGTH
+      ? { accountType: 'EIP7702', delegate: ethers.getAddress(ethers.dataSlice(code, 3)) }
+      : { accountType: await this.isSafe(provider, address) ? 'SAFE' : 'CONTRACT' };
+
+    if (nativeValue !== null) {
+      try {
+        await this.simulateNativeTransfer(provider, address, nativeValue);
+        account.rejectsNative = false;
+      } catch (error) {
+        account.rejectsNative = true;
+        account.reason = (error as any)?.shortMessage || (error instanceof Error ? error.message : 'Unknown error');
+      }
+    }
+    return account;
+  }
+
+  /**
+   * 按发送金额模拟转入：发送方的余额通过状态覆盖提供。RPC 不支持状态覆盖（报错不是回滚）时退回零金额调用
+   */
+  private async simulateNativeTransfer(provider: ethers.JsonRpcProvider, address: string, value: bigint): Promise<void> {
+    const transaction = { from: NATIVE_SIMULATION_SENDER, to: address, value: ethers.toQuantity(value), data: '0x' };
+    try {
+      await provider.send('eth_call', [transaction, 'latest', { [NATIVE_SIMULATION_SENDER]: { balance: ethers.toQuantity(value) } }]);
+    } catch (error) {
+      const rpcMessage = String((error as any)?.info?.error?.message ?? '');
+      if (/revert/i.test(rpcMessage)) {
+        throw error;
+      }
+      logger.debug('State override unavailable, simulating a zero value call', { address, error: rpcMessage });
+      await provider.call({ to: address, value: 0n, data: '0x' });
+    }
+  }
+
+  private toNativeValue(amount?: string): bigint {
+    try {
+      const value = ethers.parseEther((amount || '').trim());
+      return value > 0n ? value : MIN_NATIVE_SIMULATION_VALUE;
+    } catch {
+      return MIN_NATIVE_SIMULATION_VALUE;
+    }
+  }
+
+  /**
+   * Safe 代理把调用转发给单例合约，getThreshold() 返回正整数
+   */
+  private async isSafe(provider: ethers.JsonRpcProvider, address: string): Promise<boolean> {
+    try {
+      const result = await provider.call({ to: address, data: SAFE_GET_THRESHOLD_SELECTOR });
+      return ethers.dataLength(result) === 32 && BigInt(result) > 0n;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,658 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ethers } from 'ethers';
+import { Connection, PublicKey, ParsedTransactionWithMeta } from '@solana/web3.js';
+import { calculateFee } from '@solana/spl-token';
+import BigNumber from 'bignumber.js';
+import { ContractService } from './ContractService';
+import { SafeTransactionService, ExecutedTransfer } from './SafeTransactionService';
+import { SolanaService } from './SolanaService';
+import { ChainUtils } from '../utils/chain-utils';
+import { isNativeToken } from '../config/constants';
+import { Logger } from '../utils/logger';
+import type { DatabaseAdapter } from '../database/db-adapter';
+
+const logger = Logger.getInstance().child('ReconciliationService');
+
+// Solana 交易的区块哈希约 60-90 秒后过期，超过该时间仍未上链的签名不会再上链
+const SOLANA_BLOCKHASH_MAX_AGE_MS = 120000;
+// 向前翻查发送钱包签名记录的最大页数（每页 1000 条）
+const SOLANA_SIGNATURE_PAGES = 5;
+// EVM 扫描 Transfer 事件的区块跨度与上限
+const EVM_LOG_CHUNK_BLOCKS = 2000;
+const EVM_LOG_MAX_BLOCKS = 100000;
+
+export const REVIEW_ERROR_MESSAGE = '对账未找到链上证据，请在区块浏览器核对后再重试';
+
+export type RecipientDecision = 'SENT' | 'PENDING' | 'REVIEW' | 'IN_FLIGHT';
+
+export interface ReconciledBatch {
+  batchNumber: number;
+  recipientCount: number;
+  sent: number;
+  requeued: number;
+  review: number;
+  inFlight: number;
+  txHash?: string;
+  reason: string;
+}
+
+export interface ReconciliationReport {
+  id: string;
+  campaignId: string;
+  trigger: 'STARTUP' | 'RESUME' | 'NONCE_CONSUMED';
+  sentCount: number;
+  requeuedCount: number;
+  reviewCount: number;
+  inFlightCount: number;
+  batches: ReconciledBatch[];
+  createdAt: string;
+}
+
+interface InDoubtRecipient {
+  id: number;
+  address: string;
+  amount: string;
+  batchNumber: number;
+  tokenId?: string; // NFT 活动按 token ID + 数量匹配
+  txHash?: string;
+  updatedAt: string;
+}
+
+interface BatchOutcome {
+  decisions: Map<number, { decision: RecipientDecision; txHash?: string }>;
+  txHash?: string;
+  reason: string;
+}
+
+/**
+ * 对账：进程崩溃或重启后，状态为 PROCESSING 的接收者可能已经上链
+ * 只有在链上找到证据时才标记为已发送或退回待发送；证据不足的标记为失败并提示人工核对，避免重复发放
+ */
+export class ReconciliationService {
+  private db: DatabaseAdapter;
+  private contractService: ContractService;
+  private safeTransactions: SafeTransactionService;
+  private solanaService: SolanaService;
+  private resolveRpcUrl: (chain: string) => Promise<string>;
+
+  constructor(db: DatabaseAdapter, resolveRpcUrl: (chain: string) => Promise<string>) {
+    this.db = db;
+    this.resolveRpcUrl = resolveRpcUrl;
+    this.contractService = new ContractService();
+    this.safeTransactions = new SafeTransactionService();
+    this.solanaService = new SolanaService();
+  }
+
+  /**
+   * 对账活动中所有 PROCESSING 接收者，没有待对账记录时返回 null
+   * 传入 batchNumbers 时只对账这些批次（流水线中其他批次仍在途，不能一并处理）
+   */
+  async reconcileCampaign(campaign: any, trigger: ReconciliationReport['trigger'], batchNumbers?: number[]): Promise<ReconciliationReport | null> {
+    const allRows = await this.db.prepare(`
+      SELECT id, address, amount, batch_number, token_id, tx_hash, updated_at
+      FROM recipients
+      WHERE campaign_id = ? AND status = 'PROCESSING'
+      ORDER BY batch_number, id
+    `).all(campaign.id) as any[];
+    const rows = batchNumbers ? allRows.filter(row => batchNumbers.includes(row.batch_number ?? 0)) : allRows;
+
+    if (rows.length === 0) {
+      return null;
+    }
+
+    const batches = new Map<number, InDoubtRecipient[]>();
+    for (const row of rows) {
+      const batchNumber = row.batch_number ?? 0;
+      const members = batches.get(batchNumber) || [];
+      members.push({
+        id: row.id,
+        address: row.address,
+        amount: row.amount,
+        batchNumber,
+        tokenId: row.token_id || undefined,
+        txHash: row.tx_hash || undefined,
+        updatedAt: row.updated_at,
+      });
+      batches.set(batchNumber, members);
+    }
+
+    logger.info('Reconciling in-doubt recipients', { campaignId: campaign.id, trigger, recipients: rows.length, batches: batches.size });
+
+    const rpcUrl = await this.resolveRpcUrl(campaign.chain);
+    const reconciled: ReconciledBatch[] = [];
+
+    for (const [batchNumber, members] of batches) {
+      let outcome: BatchOutcome;
+      try {
+        outcome = ChainUtils.isSolanaChain(campaign.chain)
+          ? await this.reconcileSolanaBatch(campaign, rpcUrl, members)
+          : await this.reconcileEvmBatch(campaign, rpcUrl, members);
+      } catch (error) {
+        // RPC 不可用时不做任何判断，下次恢复或启动时再对账
+        logger.warn('Failed to reconcile batch', { campaignId: campaign.id, batchNumber, error: error instanceof Error ? error.message : String(error) });
+        outcome = {
+          decisions: new Map(members.map(member => [member.id, { decision: 'IN_FLIGHT' as RecipientDecision }])),
+          reason: `查询链上数据失败，稍后重试: ${error instanceof Error ? error.message : String(error)}`,
+        };
+      }
+
+      await this.applyOutcome(campaign.id, outcome);
+
+      const count = (decision: RecipientDecision) => [...outcome.decisions.values()].filter(d => d.decision === decision).length;
+      reconciled.push({
+        batchNumber,
+        recipientCount: members.length,
+        sent: count('SENT'),
+        requeued: count('PENDING'),
+        review: count('REVIEW'),
+        inFlight: count('IN_FLIGHT'),
+        txHash: outcome.txHash,
+        reason: outcome.reason,
+      });
+    }
+
+    const report: ReconciliationReport = {
+      id: uuidv4(),
+      campaignId: campaign.id,
+      trigger,
+      sentCount: reconciled.reduce((sum, batch) => sum + batch.sent, 0),
+      requeuedCount: reconciled.reduce((sum, batch) => sum + batch.requeued, 0),
+      reviewCount: reconciled.reduce((sum, batch) => sum + batch.review, 0),
+      inFlightCount: reconciled.reduce((sum, batch) => sum + batch.inFlight, 0),
+      batches: reconciled,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.db.prepare(`
+      INSERT INTO reconciliation_reports (
+        id, campaign_id, trigger, sent_count, requeued_count, review_count, in_flight_count, details, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      report.id,
+      report.campaignId,
+      report.trigger,
+      report.sentCount,
+      report.requeuedCount,
+      report.reviewCount,
+      report.inFlightCount,
+      JSON.stringify(report.batches),
+      report.createdAt
+    );
+
+    logger.info('Reconciliation completed', {
+      campaignId: campaign.id,
+      sent: report.sentCount,
+      requeued: report.requeuedCount,
+      review: report.reviewCount,
+      inFlight: report.inFlightCount
+    });
+
+    return report;
+  }
+
+  async listReports(campaignId: string, limit: number = 10): Promise<ReconciliationReport[]> {
+    const rows = await this.db.prepare(`
+      SELECT * FROM reconciliation_reports WHERE campaign_id = ? ORDER BY created_at DESC LIMIT ?
+    `).all(campaignId, limit) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      campaignId: row.campaign_id,
+      trigger: row.trigger,
+      sentCount: row.sent_count,
+      requeuedCount: row.requeued_count,
+      reviewCount: row.review_count,
+      inFlightCount: row.in_flight_count,
+      batches: JSON.parse(row.details || '[]'),
+      createdAt: row.created_at,
+    }));
+  }
+
+  /**
+   * EVM：按记录的交易哈希查回执并解析 Transfer 事件（原生代币解析 calldata）；
+   * 没有可用的交易时依据钱包 nonce 与合约 Transfer 事件判断是否有未记录的发送
+   */
+  private async reconcileEvmBatch(campaign: any, rpcUrl: string, members: InDoubtRecipient[]): Promise<BatchOutcome> {
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    const candidates = await this.getEvmCandidateTransactions(campaign.id, members);
+
+    for (const candidate of candidates) {
+      const receipt = await provider.getTransactionReceipt(candidate.hash);
+      if (!receipt) {
+        continue;
+      }
+
+      await this.markMinedTransaction(campaign.id, candidate, candidates, receipt.status === 1, receipt.blockNumber, receipt.blockHash);
+
+      if (candidate.type === 'CANCEL_NONCE') {
+        return this.uniform(members, 'PENDING', '取消交易已上链，批次未执行', candidate.hash);
+      }
+      if (receipt.status !== 1) {
+        return this.uniform(members, 'PENDING', '批次交易已回滚，没有发生转账', candidate.hash);
+      }
+
+      if (campaign.tokenLegs) {
+        return this.uniform(members, 'SENT', '多代币批次是原子的，交易上链即全部到账', candidate.hash);
+      }
+
+      if (this.isNftCampaign(campaign)) {
+        const nftTransfers = this.contractService.parseNftTransfers(receipt.logs, campaign.tokenAddress, campaign.walletAddress);
+        return this.matchTransfers(
+          members,
+          nftTransfers.map(transfer => ({ to: transfer.to, amount: `${transfer.tokenId}:${transfer.amount}`, txHash: candidate.hash })),
+          member => this.nftTransferKey(member),
+          '批次交易已上链，按 NFT 转移记录确认',
+          candidate.hash
+        );
+      }
+
+      const transfers = await this.getEvmTransfers(provider, campaign, receipt);
+      const decimals = isNativeToken(campaign.tokenAddress) ? 18 : await this.contractService.getTokenDecimals(rpcUrl, campaign.tokenAddress);
+      return this.matchTransfers(
+        members,
+        transfers.map(transfer => ({ to: transfer.to, amount: transfer.amount.toString(), txHash: candidate.hash })),
+        member => ethers.parseUnits(member.amount, decimals).toString(),
+        '批次交易已上链，按转账记录确认',
+        candidate.hash
+      );
+    }
+
+    for (const candidate of candidates) {
+      if (await provider.getTransaction(candidate.hash)) {
+        return this.uniform(members, 'IN_FLIGHT', '批次交易仍在内存池中等待上链', candidate.hash);
+      }
+    }
+
+    const [latestNonce, pendingNonce] = await Promise.all([
+      provider.getTransactionCount(campaign.walletAddress, 'latest'),
+      provider.getTransactionCount(campaign.walletAddress, 'pending'),
+    ]);
+
+    // 记录过 nonce 的交易没有回执但该 nonce 已被使用：只可能是其他交易（如取消交易）占用了它
+    const nonces = candidates.map(candidate => candidate.nonce).filter((nonce): nonce is number => nonce !== undefined);
+    if (nonces.length > 0 && latestNonce > Math.max(...nonces)) {
+      await this.markReplaced(candidates);
+      return this.uniform(members, 'PENDING', `nonce ${Math.max(...nonces)} 已被其他交易使用，批次交易不会再上链`);
+    }
+
+    if (pendingNonce !== latestNonce) {
+      return this.uniform(members, 'IN_FLIGHT', '发送钱包还有未上链的交易，稍后再对账');
+    }
+
+    // 钱包用过的 nonce 都有对应的交易记录，说明没有未记录的发送
+    const recorded = await this.db.prepare(`
+      SELECT MAX(nonce) as max_nonce FROM transactions
+      WHERE campaign_id = ? AND LOWER(from_address) = LOWER(?) AND nonce IS NOT NULL
+    `).get(campaign.id, campaign.walletAddress) as { max_nonce: number | null } | undefined;
+    if (recorded?.max_nonce !== null && recorded?.max_nonce !== undefined && latestNonce === recorded.max_nonce + 1) {
+      if (candidates.length > 0) {
+        await this.markReplaced(candidates);
+      }
+      return this.uniform(members, 'PENDING', candidates.length > 0
+        ? '批次交易已被节点丢弃且 nonce 未被使用'
+        : '钱包 nonce 与交易记录一致，批次未发送');
+    }
+
+    if (campaign.tokenLegs) {
+      return this.uniform(members, 'REVIEW', '没有交易记录，多代币批次无法按单一代币的转账事件确认');
+    }
+
+    if (!isNativeToken(campaign.tokenAddress) && campaign.contractAddress) {
+      return this.scanEvmTransferLogs(campaign, rpcUrl, provider, members);
+    }
+
+    return this.uniform(members, 'REVIEW', '没有交易记录，且无法从链上事件确认原生代币转账');
+  }
+
+  private async getEvmTransfers(
+    provider: ethers.JsonRpcProvider,
+    campaign: any,
+    receipt: ethers.TransactionReceipt
+  ): Promise<ExecutedTransfer[]> {
+    if (!isNativeToken(campaign.tokenAddress)) {
+      // 合约以 transferFrom 从发送钱包转出，Transfer 事件的 from 是钱包地址
+      return this.safeTransactions.getTokenTransfers(receipt, campaign.tokenAddress, campaign.walletAddress);
+    }
+
+    // 尽力模式的批次逐个报告转账结果，只有成功的转账算到账
+    const results = this.contractService.parseTransferResults(receipt, campaign.contractAddress);
+    if (results.length > 0) {
+      return results.filter(result => result.success).map(result => ({ to: result.recipient, amount: result.amount }));
+    }
+
+    // 原生代币转账没有事件，从批量转账的 calldata 还原
+    const transaction = await provider.getTransaction(receipt.hash);
+    const decoded = transaction ? this.contractService.decodeBatchTransferCall(transaction.data) : null;
+    if (!decoded || decoded.tokenAddress) {
+      return [];
+    }
+    return decoded.recipients.map((to, i) => ({ to, amount: decoded.amounts[i] }));
+  }
+
+  /**
+   * 从最近一笔已确认的活动交易所在区块开始扫描发送钱包转出的 Transfer 事件
+   */
+  private async scanEvmTransferLogs(
+    campaign: any,
+    rpcUrl: string,
+    provider: ethers.JsonRpcProvider,
+    members: InDoubtRecipient[]
+  ): Promise<BatchOutcome> {
+    const lastBlock = await this.db.prepare(`
+      SELECT MAX(block_number) as block_number FROM transactions WHERE campaign_id = ? AND block_number IS NOT NULL
+    `).get(campaign.id) as { block_number: number | null } | undefined;
+    const latestBlock = await provider.getBlockNumber();
+
+    if (!lastBlock?.block_number || latestBlock - lastBlock.block_number > EVM_LOG_MAX_BLOCKS) {
+      return this.uniform(members, 'REVIEW', '没有交易记录，且无法确定扫描转账事件的区块范围');
+    }
+
+    const transferTopic = ethers.id('Transfer(address,address,uint256)');
+    const fromTopic = ethers.zeroPadValue(ethers.getAddress(campaign.walletAddress.toLowerCase()), 32);
+    const toTopics = [...new Set(members.map(member => ethers.zeroPadValue(ethers.getAddress(member.address.toLowerCase()), 32)))];
+    const transfers: Array<{ to: string; amount: string; txHash: string }> = [];
+
+    if (this.isNftCampaign(campaign)) {
+      // ERC721 的 Transfer 与 ERC20 同签名但 tokenId 是第 4 个 topic；ERC1155 的 TransferSingle 第 2 个 topic 是 operator
+      const topics = campaign.tokenStandard === 'ERC721'
+        ? [transferTopic, fromTopic, toTopics]
+        : [ethers.id('TransferSingle(address,address,address,uint256,uint256)'), null, fromTopic, toTopics];
+      for (let fromBlock = lastBlock.block_number; fromBlock <= latestBlock; fromBlock += EVM_LOG_CHUNK_BLOCKS) {
+        const logs = await provider.getLogs({
+          address: campaign.tokenAddress,
+          topics,
+          fromBlock,
+          toBlock: Math.min(fromBlock + EVM_LOG_CHUNK_BLOCKS - 1, latestBlock),
+        });
+        for (const log of logs) {
+          for (const transfer of this.contractService.parseNftTransfers([log], campaign.tokenAddress, campaign.walletAddress)) {
+            transfers.push({ to: transfer.to, amount: `${transfer.tokenId}:${transfer.amount}`, txHash: log.transactionHash });
+          }
+        }
+      }
+
+      return this.matchTransfers(
+        members,
+        transfers,
+        member => this.nftTransferKey(member),
+        transfers.length > 0 ? '在 NFT 转移事件中找到未记录的发送' : '发送钱包没有向这些地址转出 NFT，且钱包没有未上链的交易',
+        undefined,
+        'PENDING'
+      );
+    }
+
+    for (let fromBlock = lastBlock.block_number; fromBlock <= latestBlock; fromBlock += EVM_LOG_CHUNK_BLOCKS) {
+      const logs = await provider.getLogs({
+        address: campaign.tokenAddress,
+        topics: [transferTopic, fromTopic, toTopics],
+        fromBlock,
+        toBlock: Math.min(fromBlock + EVM_LOG_CHUNK_BLOCKS - 1, latestBlock),
+      });
+      for (const log of logs) {
+        transfers.push({
+          to: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)),
+          amount: BigInt(log.data).toString(),
+          txHash: log.transactionHash,
+        });
+      }
+    }
+
+    const decimals = await this.contractService.getTokenDecimals(rpcUrl, campaign.tokenAddress);
+    return this.matchTransfers(
+      members,
+      transfers,
+      member => ethers.parseUnits(member.amount, decimals).toString(),
+      transfers.length > 0 ? '在代币转账事件中找到未记录的发送' : '发送钱包没有向这些地址转出代币，且钱包没有未上链的交易',
+      undefined,
+      'PENDING'
+    );
+  }
+
+  /**
+   * Solana：用 getSignatureStatuses 查询记录的签名，并翻查发送钱包在锁定之后的所有签名，
+   * 按解析后交易的代币余额变化（SOL 为 lamports 变化）确认每个接收者是否到账
+   */
+  private async reconcileSolanaBatch(campaign: any, rpcUrl: string, members: InDoubtRecipient[]): Promise<BatchOutcome> {
+    const connection = new Connection(rpcUrl, 'confirmed');
+    const tokenInfo = await this.solanaService.getTokenInfo(rpcUrl, campaign.tokenAddress);
+    const lockedAt = Math.min(...members.map(member => this.parseDbTime(member.updatedAt)));
+
+    const recorded = await this.getSolanaRecordedSignatures(campaign.id, members);
+    const statuses = recorded.length > 0
+      ? (await connection.getSignatureStatuses(recorded, { searchTransactionHistory: true })).value
+      : [];
+
+    const landed = new Set<string>(recorded.filter((_signature, i) => statuses[i] && !statuses[i]!.err));
+
+    // 翻查发送钱包的签名，覆盖崩溃时已上链但没来得及记录的交易
+    let scannedPastLock = false;
+    let before: string | undefined;
+    for (let page = 0; page < SOLANA_SIGNATURE_PAGES && !scannedPastLock; page++) {
+      const signatures = await connection.getSignaturesForAddress(new PublicKey(campaign.walletAddress), { before, limit: 1000 });
+      for (const info of signatures) {
+        if (info.blockTime && info.blockTime * 1000 < lockedAt - SOLANA_BLOCKHASH_MAX_AGE_MS) {
+          scannedPastLock = true;
+          break;
+        }
+        if (!info.err) {
+          landed.add(info.signature);
+        }
+      }
+      if (signatures.length < 1000) {
+        scannedPastLock = true;
+      }
+      before = signatures[signatures.length - 1]?.signature;
+    }
+
+    const credits: Array<{ to: string; amount: string; txHash: string }> = [];
+    for (const signature of landed) {
+      const transaction = await connection.getParsedTransaction(signature, { maxSupportedTransactionVersion: 0 });
+      if (transaction) {
+        credits.push(...this.getSolanaCredits(transaction, signature, tokenInfo.isNativeSOL ? null : tokenInfo.address));
+      }
+    }
+
+    const blockhashExpired = Date.now() - lockedAt > SOLANA_BLOCKHASH_MAX_AGE_MS;
+    const fallback: RecipientDecision = !blockhashExpired ? 'IN_FLIGHT' : scannedPastLock ? 'PENDING' : 'REVIEW';
+
+    // 转账手续费代币按到账金额匹配：按到账金额发送时恰好为 CSV 金额，否则扣除按发送金额计算的手续费
+    const toCreditAmount = (member: InDoubtRecipient): string => {
+      const raw = BigInt(new BigNumber(member.amount).times(new BigNumber(10).pow(tokenInfo.decimals)).integerValue(BigNumber.ROUND_DOWN).toFixed());
+      return (tokenInfo.transferFee && !campaign.netDelivery ? raw - calculateFee(tokenInfo.transferFee, raw) : raw).toString();
+    };
+
+    return this.matchTransfers(
+      members,
+      credits,
+      toCreditAmount,
+      fallback === 'IN_FLIGHT'
+        ? '交易的区块哈希尚未过期，稍后再对账'
+        : fallback === 'PENDING' ? '发送钱包在锁定后的交易中没有向这些地址转账' : '钱包交易过多，未能翻查到锁定时间',
+      undefined,
+      fallback
+    );
+  }
+
+  /**
+   * 解析交易中每个地址的入账：SPL 按 owner 与 mint 的余额变化，SOL 按账户 lamports 变化
+   */
+  private getSolanaCredits(
+    transaction: ParsedTransactionWithMeta,
+    signature: string,
+    mint: string | null
+  ): Array<{ to: string; amount: string; txHash: string }> {
+    const meta = transaction.meta;
+    if (!meta || meta.err) {
+      return [];
+    }
+
+    if (mint === null) {
+      return transaction.transaction.message.accountKeys.flatMap((key, i) => {
+        const delta = BigInt(meta.postBalances[i]) - BigInt(meta.preBalances[i]);
+        return delta > 0n ? [{ to: key.pubkey.toBase58(), amount: delta.toString(), txHash: signature }] : [];
+      });
+    }
+
+    return (meta.postTokenBalances || [])
+      .filter(balance => balance.mint === mint && balance.owner)
+      .flatMap(balance => {
+        const pre = (meta.preTokenBalances || []).find(item => item.accountIndex === balance.accountIndex);
+        const delta = BigInt(balance.uiTokenAmount.amount) - BigInt(pre?.uiTokenAmount.amount || '0');
+        return delta > 0n ? [{ to: balance.owner!, amount: delta.toString(), txHash: signature }] : [];
+      });
+  }
+
+  /**
+   * 按 地址+金额 逐个消耗转账记录，匹配到的接收者标记为已发送，其余按 fallback 处理
+   */
+  private matchTransfers(
+    members: InDoubtRecipient[],
+    transfers: Array<{ to: string; amount: string; txHash: string }>,
+    toRawAmount: (member: InDoubtRecipient) => string,
+    reason: string,
+    txHash?: string,
+    fallback: RecipientDecision = 'REVIEW'
+  ): BatchOutcome {
+    const remaining = [...transfers];
+    const decisions = new Map<number, { decision: RecipientDecision; txHash?: string }>();
+
+    for (const member of members) {
+      const rawAmount = toRawAmount(member);
+      const index = remaining.findIndex(transfer =>
+        transfer.to.toLowerCase() === member.address.toLowerCase() && transfer.amount === rawAmount
+      );
+      if (index >= 0) {
+        decisions.set(member.id, { decision: 'SENT', txHash: remaining[index].txHash });
+        remaining.splice(index, 1);
+      } else {
+        decisions.set(member.id, { decision: fallback });
+      }
+    }
+
+    return { decisions, txHash, reason };
+  }
+
+  private isNftCampaign(campaign: any): boolean {
+    return campaign.tokenStandard === 'ERC721' || campaign.tokenStandard === 'ERC1155';
+  }
+
+  // NFT 转移按 token ID + 数量匹配，与链上记录的 `${tokenId}:${amount}` 对应
+  private nftTransferKey(member: InDoubtRecipient): string {
+    return `${BigInt(member.tokenId || '0')}:${BigInt(member.amount)}`;
+  }
+
+  private uniform(members: InDoubtRecipient[], decision: RecipientDecision, reason: string, txHash?: string): BatchOutcome {
+    return {
+      decisions: new Map(members.map(member => [member.id, { decision, txHash: decision === 'SENT' ? txHash : undefined }])),
+      txHash,
+      reason,
+    };
+  }
+
+  private async applyOutcome(campaignId: string, outcome: BatchOutcome): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.db.transaction(async (tx) => {
+      for (const [recipientId, { decision, txHash }] of outcome.decisions) {
+        if (decision === 'SENT') {
+          await tx.prepare(`
+            UPDATE recipients SET status = 'SENT', tx_hash = ?, error_message = NULL, updated_at = ? WHERE id = ? AND status = 'PROCESSING'
+          `).run(txHash || null, now, recipientId);
+        } else if (decision === 'PENDING') {
+          await tx.prepare(`
+            UPDATE recipients SET status = 'PENDING', tx_hash = NULL, updated_at = ? WHERE id = ? AND status = 'PROCESSING'
+          `).run(now, recipientId);
+        } else if (decision === 'REVIEW') {
+          await tx.prepare(`
+            UPDATE recipients SET status = 'FAILED', error_message = ?, updated_at = ? WHERE id = ? AND status = 'PROCESSING'
+          `).run(REVIEW_ERROR_MESSAGE, now, recipientId);
+        }
+      }
+
+      const counts = await tx.prepare(`
+        SELECT
+          COUNT(CASE WHEN status = 'SENT' THEN 1 END) as completed,
+          COUNT(CASE WHEN status = 'FAILED' THEN 1 END) as failed
+        FROM recipients
+        WHERE campaign_id = ?
+      `).get(campaignId) as any;
+
+      await tx.prepare(
+        'UPDATE campaigns SET completed_recipients = ?, failed_recipients = ?, updated_at = ? WHERE id = ?'
+      ).run(counts?.completed || 0, counts?.failed || 0, now, campaignId);
+    });
+  }
+
+  private async getEvmCandidateTransactions(
+    campaignId: string,
+    members: InDoubtRecipient[]
+  ): Promise<Array<{ hash: string; type: string; nonce?: number }>> {
+    const hashes = [...new Set(members.map(member => member.txHash).filter((hash): hash is string => !!hash))];
+    const rows = await this.db.prepare(`
+      SELECT tx_hash, tx_type, nonce FROM transactions
+      WHERE campaign_id = ? AND tx_type IN ('BATCH_SEND', 'CANCEL_NONCE')
+      AND (batch_number = ? OR tx_hash IN (${hashes.map(() => '?').join(', ') || 'NULL'}))
+      ORDER BY id DESC
+    `).all(campaignId, members[0].batchNumber, ...hashes) as any[];
+
+    // 外部签名活动：由本应用广播的签名请求
+    const signed = await this.db.prepare(`
+      SELECT tx_hash FROM signing_requests
+      WHERE campaign_id = ? AND purpose = 'BATCH_SEND' AND batch_number = ? AND tx_hash IS NOT NULL
+    `).all(campaignId, members[0].batchNumber) as any[];
+
+    const candidates = rows.map(row => ({ hash: row.tx_hash as string, type: row.tx_type as string, nonce: row.nonce ?? undefined }));
+    for (const hash of [...hashes, ...signed.map(row => row.tx_hash as string)]) {
+      if (!candidates.some(candidate => candidate.hash.toLowerCase() === hash.toLowerCase())) {
+        candidates.push({ hash, type: 'BATCH_SEND', nonce: undefined });
+      }
+    }
+    return candidates;
+  }
+
+  private async getSolanaRecordedSignatures(campaignId: string, members: InDoubtRecipient[]): Promise<string[]> {
+    const rows = await this.db.prepare(`
+      SELECT tx_hash FROM transactions WHERE campaign_id = ? AND tx_type = 'BATCH_SEND' AND batch_number = ?
+      UNION
+      SELECT tx_hash FROM signing_requests
+      WHERE campaign_id = ? AND purpose = 'BATCH_SEND' AND batch_number = ? AND tx_hash IS NOT NULL
+    `).all(campaignId, members[0].batchNumber, campaignId, members[0].batchNumber) as any[];
+
+    // 一个批次可能由多笔 Solana 交易完成，记录中以逗号分隔
+    const signatures = [...rows.map(row => row.tx_hash as string), ...members.map(member => member.txHash || '')]
+      .flatMap(value => value.split(','))
+      .map(value => value.trim())
+      .filter(Boolean);
+    return [...new Set(signatures)];
+  }
+
+  private async markMinedTransaction(
+    campaignId: string,
+    mined: { hash: string },
+    candidates: Array<{ hash: string }>,
+    succeeded: boolean,
+    blockNumber: number,
+    blockHash: string
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await this.db.prepare(`
+      UPDATE transactions SET status = ?, block_number = ?, block_hash = ?, confirmed_at = ? WHERE campaign_id = ? AND tx_hash = ?
+    `).run(succeeded ? 'CONFIRMED' : 'FAILED', blockNumber, blockHash, now, campaignId, mined.hash);
+    await this.markReplaced(candidates.filter(candidate => candidate.hash !== mined.hash));
+  }
+
+  private async markReplaced(candidates: Array<{ hash: string }>): Promise<void> {
+    for (const candidate of candidates) {
+      await this.db.prepare(`
+        UPDATE transactions SET status = 'REPLACED' WHERE tx_hash = ? AND status = 'PENDING'
+      `).run(candidate.hash);
+    }
+  }
+
+  /**
+   * SQLite datetime('now') 为不带时区的 UTC 时间
+   */
+  private parseDbTime(value: string): number {
+    return new Date(value.includes('T') ? value : `${value.replace(' ', 'T')}Z`).getTime();
+  }
+}
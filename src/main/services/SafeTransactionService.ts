@@ -0,0 +1,192 @@
+import { ethers } from 'ethers';
+import type { ContractCall } from './ContractService';
+
+// Safe 交易构建器 (Transaction Builder) 导入文件格式
+const TX_BUILDER_FILE_VERSION = '1.0';
+const TX_BUILDER_VERSION = '1.16.5';
+
+const SAFE_ABI = [
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures) payable returns (bool success)'
+];
+const MULTI_SEND_ABI = ['function multiSend(bytes transactions) payable'];
+
+// Safe v1.3 与 v1.4 的 txHash 是否 indexed 不同，但 topic0 相同，只按 topic0 匹配
+const EXECUTION_SUCCESS_TOPIC = ethers.id('ExecutionSuccess(bytes32,uint256)');
+const EXECUTION_FAILURE_TOPIC = ethers.id('ExecutionFailure(bytes32,uint256)');
+const ERC20_TRANSFER_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+export interface SafeBatchFile {
+  version: string;
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+    checksum?: string;
+  };
+  transactions: Array<{
+    to: string;
+    value: string;
+    data: string;
+  }>;
+}
+
+export interface ExecutedTransfer {
+  to: string;
+  amount: bigint;
+}
+
+/**
+ * Safe 多签相关的编码与解析（无状态）
+ */
+export class SafeTransactionService {
+  /**
+   * 生成可在 Safe{Wallet} 交易构建器中导入的批次文件，多个调用由构建器自动打包为 MultiSend
+   */
+  buildBatchFile(options: {
+    chainId: bigint;
+    safeAddress: string;
+    name: string;
+    description: string;
+    calls: ContractCall[];
+  }): SafeBatchFile {
+    const batchFile: SafeBatchFile = {
+      version: TX_BUILDER_FILE_VERSION,
+      chainId: options.chainId.toString(),
+      createdAt: Date.now(),
+      meta: {
+        name: options.name,
+        description: options.description,
+        txBuilderVersion: TX_BUILDER_VERSION,
+        createdFromSafeAddress: options.safeAddress,
+        createdFromOwnerAddress: '',
+      },
+      transactions: options.calls.map(call => ({
+        to: call.to,
+        value: call.value.toString(),
+        data: call.data,
+      })),
+    };
+
+    return { ...batchFile, meta: { ...batchFile.meta, checksum: this.calculateChecksum(batchFile) } };
+  }
+
+  /**
+   * 找出在该交易中成功执行的 Safe；任一候选 Safe 报告 ExecutionFailure 时直接报错
+   */
+  findExecutingSafe(receipt: ethers.TransactionReceipt, safeAddresses: string[]): string {
+    const candidates = new Set(safeAddresses.map(address => address.toLowerCase()));
+
+    for (const log of receipt.logs) {
+      if (!candidates.has(log.address.toLowerCase())) {
+        continue;
+      }
+      if (log.topics[0] === EXECUTION_FAILURE_TOPIC) {
+        throw new Error('Safe reported ExecutionFailure for this transaction');
+      }
+      if (log.topics[0] === EXECUTION_SUCCESS_TOPIC) {
+        return ethers.getAddress(log.address);
+      }
+    }
+
+    throw new Error('Transaction did not execute any of the exported Safes');
+  }
+
+  /**
+   * 从回执中读取 Safe 转出的 ERC20 Transfer 事件
+   */
+  getTokenTransfers(receipt: ethers.TransactionReceipt, tokenAddress: string, safeAddress: string): ExecutedTransfer[] {
+    const token = tokenAddress.toLowerCase();
+    const from = safeAddress.toLowerCase();
+
+    return receipt.logs
+      .filter(log =>
+        log.address.toLowerCase() === token &&
+        log.topics.length === 3 &&
+        log.topics[0] === ERC20_TRANSFER_TOPIC &&
+        ethers.getAddress(ethers.dataSlice(log.topics[1], 12)).toLowerCase() === from
+      )
+      .map(log => ({
+        to: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)),
+        amount: BigInt(log.data),
+      }));
+  }
+
+  /**
+   * 解析 execTransaction 的调用内容（含 MultiSend 打包的子调用）
+   * 原生代币转账不产生事件，只能从 calldata 还原；要求交易直接调用 Safe
+   */
+  decodeSafeCalls(safeAddress: string, transaction: ethers.TransactionResponse): ContractCall[] {
+    if (!transaction.to || transaction.to.toLowerCase() !== safeAddress.toLowerCase()) {
+      throw new Error('Transaction was not sent directly to the Safe; cannot decode native transfers');
+    }
+
+    const parsed = new ethers.Interface(SAFE_ABI).parseTransaction({ data: transaction.data, value: transaction.value });
+    if (!parsed) {
+      throw new Error('Transaction is not a Safe execTransaction call');
+    }
+
+    const [to, value, data, operation] = parsed.args as unknown as [string, bigint, string, bigint];
+
+    // operation = 1 为 delegatecall，构建器的多调用批次通过 MultiSend(CallOnly) 执行
+    if (operation === 1n) {
+      const multiSend = new ethers.Interface(MULTI_SEND_ABI).parseTransaction({ data });
+      if (!multiSend) {
+        throw new Error('Unsupported Safe delegatecall target');
+      }
+      return this.unpackMultiSend(multiSend.args[0] as string);
+    }
+
+    return [{ to: ethers.getAddress(to), value, data }];
+  }
+
+  /**
+   * MultiSend 打包格式: operation(1) + to(20) + value(32) + dataLength(32) + data
+   */
+  private unpackMultiSend(packed: string): ContractCall[] {
+    const bytes = ethers.getBytes(packed);
+    const calls: ContractCall[] = [];
+    let offset = 0;
+
+    while (offset < bytes.length) {
+      const to = ethers.getAddress(ethers.hexlify(bytes.slice(offset + 1, offset + 21)));
+      const value = ethers.toBigInt(bytes.slice(offset + 21, offset + 53));
+      const dataLength = Number(ethers.toBigInt(bytes.slice(offset + 53, offset + 85)));
+      const data = ethers.hexlify(bytes.slice(offset + 85, offset + 85 + dataLength));
+      calls.push({ to, value, data });
+      offset += 85 + dataLength;
+    }
+
+    return calls;
+  }
+
+  /**
+   * 与交易构建器一致的校验和：按键排序序列化（meta.name 置空）后取 keccak256
+   */
+  private calculateChecksum(batchFile: SafeBatchFile): string {
+    return ethers.id(this.serializeSorted({ ...batchFile, meta: { ...batchFile.meta, name: null } }));
+  }
+
+  private serializeSorted(json: unknown): string {
+    const replacer = (_key: string, value: unknown) => (value === undefined ? null : value);
+
+    if (Array.isArray(json)) {
+      return `[${json.map(item => this.serializeSorted(item)).join(',')}]`;
+    }
+
+    if (typeof json === 'object' && json !== null) {
+      const record = json as Record<string, unknown>;
+      const keys = Object.keys(record).sort();
+      let serialized = `{${JSON.stringify(keys, replacer)}`;
+      for (const key of keys) {
+        serialized += `${this.serializeSorted(record[key])},`;
+      }
+      return `${serialized}}`;
+    }
+
+    return JSON.stringify(json, replacer);
+  }
+}
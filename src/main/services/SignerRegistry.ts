@@ -0,0 +1,179 @@
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { ethers } from 'ethers';
+import { HDWalletService } from './HDWalletService';
+import { WalletService } from './WalletService';
+import { Logger } from '../utils/logger';
+import type { DatabaseManager } from '../database/sqlite-schema';
+import type { DatabaseAdapter } from '../database/db-adapter';
+
+const logger = Logger.getInstance().child('SignerRegistry');
+
+export type KeyOperation =
+  | 'DEPLOY_CONTRACT'
+  | 'WITHDRAW_TOKENS'
+  | 'WITHDRAW_NATIVE'
+  | 'FINALIZE_WALLET'
+  | 'SWEEP_UNCLAIMED'
+  | 'RELEASE_LOOKUP_TABLE'
+  | 'EXPORT_KEYSTORE';
+
+export interface SignerHandle {
+  walletId: string;
+  campaignId: string;
+  address: string;
+  chainType: 'evm' | 'solana';
+}
+
+export interface KeyAuditEntry {
+  id: number;
+  campaignId?: string;
+  walletAddress?: string;
+  action: KeyOperation;
+  detail?: string;
+  createdAt: string;
+}
+
+/**
+ * 签名者注册表
+ *
+ * 渲染进程只拿到不透明的钱包 ID；所有需要私钥的操作都经由这里在主进程内解密、使用并记录审计日志。
+ * 钱包 ID 仅在本次进程生命周期内有效。
+ */
+export class SignerRegistry {
+  private db: DatabaseAdapter;
+  private hdWallet: HDWalletService;
+  private walletService: WalletService;
+  private walletIdsByCampaign: Map<string, string> = new Map();
+  private campaignsByWalletId: Map<string, string> = new Map();
+
+  constructor(databaseManager: DatabaseManager, hdWallet: HDWalletService) {
+    this.db = databaseManager.getDatabase();
+    this.hdWallet = hdWallet;
+    this.walletService = new WalletService();
+  }
+
+  /**
+   * 获取（必要时分配）活动钱包的不透明 ID
+   */
+  getWalletId(campaignId: string): string {
+    let walletId = this.walletIdsByCampaign.get(campaignId);
+    if (!walletId) {
+      walletId = `wallet_${crypto.randomBytes(12).toString('hex')}`;
+      this.walletIdsByCampaign.set(campaignId, walletId);
+      this.campaignsByWalletId.set(walletId, campaignId);
+    }
+    return walletId;
+  }
+
+  async resolve(walletId: string): Promise<SignerHandle> {
+    const campaignId = this.campaignsByWalletId.get(walletId);
+    if (!campaignId) {
+      throw new Error('Unknown wallet');
+    }
+    return this.getHandleForCampaign(campaignId);
+  }
+
+  async getHandleForCampaign(campaignId: string): Promise<SignerHandle> {
+    const row = await this.db.prepare(
+      'SELECT id, wallet_address, chain_type FROM campaigns WHERE id = ?'
+    ).get(campaignId) as any;
+
+    if (!row || !row.wallet_address) {
+      throw new Error('Campaign wallet not found');
+    }
+
+    return {
+      walletId: this.getWalletId(campaignId),
+      campaignId,
+      address: row.wallet_address,
+      chainType: row.chain_type,
+    };
+  }
+
+  /**
+   * 在主进程内解密私钥并执行签名操作，私钥不会离开回调
+   */
+  async withPrivateKey<T>(
+    handle: SignerHandle,
+    operation: KeyOperation,
+    fn: (privateKeyBase64: string) => Promise<T>,
+    detail?: string
+  ): Promise<T> {
+    const row = await this.db.prepare(
+      'SELECT wallet_private_key_encrypted, derivation_index, signing_mode FROM campaigns WHERE id = ?'
+    ).get(handle.campaignId) as any;
+
+    if (row?.signing_mode === 'EXTERNAL') {
+      throw new Error('Campaign wallet is held by an external signer; no local private key is available');
+    }
+
+    const privateKeyBase64 = await this.hdWallet.openCampaignKey({
+      id: handle.campaignId,
+      chainType: handle.chainType,
+      walletAddress: handle.address,
+      walletPrivateKeyEncrypted: row?.wallet_private_key_encrypted,
+      derivationIndex: row?.derivation_index,
+    });
+
+    await this.recordAudit(handle, operation, detail);
+    return fn(privateKeyBase64);
+  }
+
+  /**
+   * 导出加密的密钥文件（调用方需先通过 KeyVaultService.verifyPassphrase 重新验证主密码）
+   * EVM 写出 keystore v3 JSON（使用导出密码加密）；Solana 写出标准 keypair 文件（64 字节数组）
+   */
+  async exportKeystore(
+    handle: SignerHandle,
+    filePath: string,
+    exportPassword?: string
+  ): Promise<{ filePath: string; format: 'keystore-v3' | 'solana-keypair' }> {
+    if (handle.chainType === 'evm' && (!exportPassword || exportPassword.length < 8)) {
+      throw new Error('Keystore password must be at least 8 characters');
+    }
+
+    return this.withPrivateKey(handle, 'EXPORT_KEYSTORE', async (privateKeyBase64) => {
+      let content: string;
+      let format: 'keystore-v3' | 'solana-keypair';
+
+      if (handle.chainType === 'solana') {
+        content = this.walletService.exportSolanaPrivateKey(privateKeyBase64);
+        format = 'solana-keypair';
+      } else {
+        const wallet = new ethers.Wallet(this.walletService.exportEVMPrivateKey(privateKeyBase64));
+        content = await wallet.encrypt(exportPassword!);
+        format = 'keystore-v3';
+      }
+
+      await fs.writeFile(filePath, content, { encoding: 'utf8', mode: 0o600 });
+      logger.info('Keystore exported', { campaignId: handle.campaignId, address: handle.address, format });
+
+      return { filePath, format };
+    }, filePath);
+  }
+
+  async getAuditLog(limit: number = 100): Promise<KeyAuditEntry[]> {
+    const rows = await this.db.prepare(`
+      SELECT * FROM key_audit_log ORDER BY created_at DESC, id DESC LIMIT ?
+    `).all(limit) as any[];
+
+    return rows.map(row => ({
+      id: row.id,
+      campaignId: row.campaign_id,
+      walletAddress: row.wallet_address,
+      action: row.action,
+      detail: row.detail,
+      createdAt: row.created_at,
+    }));
+  }
+
+  private async recordAudit(handle: SignerHandle, operation: KeyOperation, detail?: string): Promise<void> {
+    await this.db.prepare(`
+      INSERT INTO key_audit_log (campaign_id, wallet_address, action, detail, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `).run(handle.campaignId, handle.address, operation, detail || null, new Date().toISOString());
+
+    logger.info('Key material used', { campaignId: handle.campaignId, operation });
+  }
+}
@@ -3,9 +3,16 @@ import {
   Keypair,
   PublicKey,
   Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  ComputeBudgetProgram,
   LAMPORTS_PER_SOL,
-  sendAndConfirmTransaction,
-  SystemProgram
+  PACKET_DATA_SIZE,
+  SignatureStatus,
+  SystemProgram,
+  TransactionInstruction
 } from '@solana/web3.js';
 import { TokenService } from './TokenService';
 import { ChainUtils } from '../utils/chain-utils';
@@ -14,17 +21,78 @@ import { KeyUtils } from '../utils/keyUtils';
 import {
   createTransferInstruction,
   createTransferCheckedInstruction,
+  createTransferCheckedWithFeeInstruction,
   getAssociatedTokenAddress,
   createAssociatedTokenAccountInstruction,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createCloseAccountInstruction,
+  createHarvestWithheldTokensToMintInstruction,
+  getTransferFeeAmount,
+  getMint,
+  unpackAccount,
+  getTransferFeeConfig,
+  getEpochFee,
+  calculateFee,
+  getMemoTransfer,
+  getNonTransferable,
+  getTransferHook,
+  getDefaultAccountState,
+  getPausableConfig,
+  AccountState,
+  Mint,
+  TransferFee,
   TOKEN_PROGRAM_ID,
   TOKEN_2022_PROGRAM_ID,
   ASSOCIATED_TOKEN_PROGRAM_ID
 } from '@solana/spl-token';
 import BigNumber from 'bignumber.js';
+import bs58 from 'bs58';
 import { Logger } from '../utils/logger';
 
 const logger = Logger.getInstance().child('SolanaService');
 
+// SPL Memo v2：开启 MemoTransfer 的账户要求转入指令之前紧跟一条备注指令
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+const TRANSFER_MEMO = 'CryptoCast airdrop';
+// 查找表停用后要等 SlotHashes 中不再包含停用 slot（512 个 slot）才能关闭
+const LOOKUP_TABLE_COOLDOWN_SLOTS = 513n;
+// 单笔交易的计算单元上限；按模拟消耗加 10% 余量设置
+const MAX_COMPUTE_UNITS = 1_400_000;
+const COMPUTE_UNIT_MARGIN = 1.1;
+// 区块哈希有效期内重复广播同一笔已签名交易的间隔；过期且确认没有上链后才用新区块哈希重签
+const REBROADCAST_INTERVAL_MS = 2000;
+const MAX_RESIGN_ATTEMPTS = 3;
+// 广播等待的时间上限：按距 lastValidBlockHeight 的区块数估算（查询失败时按完整有效期 150 个区块），另加余量
+const ESTIMATED_BLOCK_TIME_MS = 400;
+const BLOCKHASH_VALID_BLOCKS = 150;
+const BROADCAST_DEADLINE_MARGIN_MS = 60000;
+// getRecentPrioritizationFees 最多接受 128 个账户
+const MAX_PRIORITY_FEE_ACCOUNTS = 128;
+// 打包时按最大长度预留计算预算指令的空间
+const COMPUTE_BUDGET_PLACEHOLDER = [
+  ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNITS }),
+  ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+];
+
+export type SolanaPriorityLevel = 'economy' | 'normal' | 'urgent';
+
+// 优先费取最近涉及同一批可写账户的交易费率 (micro-lamports / CU) 的分位数，不低于下限
+// 超过等待上限仍查不到签名状态：交易可能已经上链，不能重签，也不能按失败处理
+export const SIGNATURE_STATUS_UNKNOWN_MESSAGE = 'Transaction status could not be checked before the broadcast deadline';
+
+export const PRIORITY_FEE_LEVELS: Record<SolanaPriorityLevel, { percentile: number; minMicroLamports: number }> = {
+  economy: { percentile: 25, minMicroLamports: 0 },
+  normal: { percentile: 50, minMicroLamports: 1000 },
+  urgent: { percentile: 90, minMicroLamports: 10000 },
+};
+
+export interface SolanaPriorityFeeStrategy {
+  level: SolanaPriorityLevel;
+  maxLamports?: number; // 每笔交易优先费上限 (lamports)，不设则不限制
+}
+
+const DEFAULT_PRIORITY_FEE: SolanaPriorityFeeStrategy = { level: 'normal' };
+
 export interface SolanaBatchTransferResult {
   transactionHash: string;
   totalAmount: string;
@@ -36,21 +104,63 @@ export interface SolanaBatchTransferResult {
     amount: string;
     status: 'success' | 'failed';
     error?: string;
+    transactionHash?: string;
   }>;
 }
 
+export interface SolanaUnsignedTransaction {
+  transaction: Transaction;
+  lastValidBlockHeight: number;
+}
+
 export interface SolanaTokenInfo {
   address: string;
   decimals: number;
   symbol?: string;
   isNativeSOL: boolean;
   programId: PublicKey;
+  supply?: bigint;
+  isNft?: boolean; // decimals 为 0 且供应量为 1（Metaplex NFT）
+  transferFee?: TransferFee; // Token-2022 转账手续费，按当前 epoch 生效的费率
+  unsupportedExtension?: string; // 无法批量发送的 Token-2022 扩展
+}
+
+export interface SolanaTransferOptions {
+  netDelivery?: boolean; // 转账手续费代币：按到账金额反推发送金额，接收者实际收到 CSV 中的金额
+  lookupTableAddress?: string; // 活动的地址查找表，v0 交易用它压缩公共账户
+  priorityFee?: SolanaPriorityFeeStrategy; // 优先费策略（默认 normal）
+}
+
+export interface SolanaFinalizeResult {
+  sweptTokens: Array<{ mint: string; amount: string; transactionHash: string }>;
+  closedTokenAccounts: string[];
+  closedLookupTables: string[];
+  pendingLookupTables: string[]; // 已停用但冷却期未满，稍后再次执行才能关闭
+  skippedAccounts: Array<{ address: string; reason: string }>;
+  rentRecoveredLamports: string; // 关闭代币账户和查找表退回的租金
+  solSwept: string; // 清空转出的 SOL
+  transactionHashes: string[];
+}
+
+export interface SolanaSimulationResult {
+  success: boolean;
+  error?: string;
+  unitsConsumed?: number;
+  priorityFeeLamports?: string; // 按当前费率和模拟消耗估算的优先费合计
+  invalidRecipients?: string[];
+}
+
+// 必须放在同一笔交易中的一组指令（如备注 + 转账）及其对应的接收者
+interface InstructionGroup {
+  items: ATAInfo[];
+  instructions: TransactionInstruction[];
 }
 
 interface ATAInfo {
   owner: PublicKey;
   ata: PublicKey;
   amount: string;
+  requiresMemo?: boolean; // 已有账户开启了 MemoTransfer
 }
 
 export class SolanaService {
@@ -122,20 +232,21 @@ export class SolanaService {
         tokenAddress
       });
 
-      const tokenInfo = await connection.getParsedAccountInfo(tokenMint);
-
-      if (!tokenInfo || !tokenInfo.value) {
-        throw new Error('Invalid token address');
-      }
-
-      const parsedInfo = tokenInfo.value.data as any;
-      const decimals = parsedInfo.parsed.info.decimals;
+      const mint = await getMint(connection, tokenMint, 'confirmed', programId);
+      const transferFeeConfig = getTransferFeeConfig(mint);
+      const transferFee = transferFeeConfig
+        ? getEpochFee(transferFeeConfig, BigInt((await connection.getEpochInfo('confirmed')).epoch))
+        : undefined;
 
       return {
         address: tokenAddress,
-        decimals,
+        decimals: mint.decimals,
         isNativeSOL: false,
-        programId
+        programId,
+        supply: mint.supply,
+        isNft: mint.decimals === 0 && mint.supply === 1n,
+        transferFee: transferFee && transferFee.transferFeeBasisPoints > 0 ? transferFee : undefined,
+        unsupportedExtension: this.getUnsupportedExtension(mint)
       };
     } catch (error) {
       logger.error('[SolanaService] Failed to get token info', error as Error, { tokenAddress, rpcUrl });
@@ -143,6 +254,26 @@ export class SolanaService {
     }
   }
 
+  /**
+   * 批量发送无法处理的 Token-2022 扩展：灵魂绑定、转账钩子（需要额外账户）、新账户默认冻结、已暂停
+   */
+  private getUnsupportedExtension(mint: Mint): string | undefined {
+    if (getNonTransferable(mint)) {
+      return 'NonTransferable';
+    }
+    const transferHook = getTransferHook(mint);
+    if (transferHook && !transferHook.programId.equals(PublicKey.default)) {
+      return 'TransferHook';
+    }
+    if (getDefaultAccountState(mint)?.state === AccountState.Frozen) {
+      return 'DefaultAccountState (frozen)';
+    }
+    if (getPausableConfig(mint)?.paused) {
+      return 'Pausable (paused)';
+    }
+    return undefined;
+  }
+
   /**
    * 获取钱包余额
    */
@@ -179,9 +310,10 @@ export class SolanaService {
    * 批量SPL代币转账 - 优化版本
    * 流程：
    * 1. 本地计算所有 ATA
-   * 2. 批量查询 ATA 是否存在
+   * 2. 批量查询 ATA 是否存在（同时识别要求转账备注的账户）
    * 3. 批量创建缺失的 ATA
    * 4. 批量发送代币
+   * 交易均为 v0，按序列化大小（而不是固定笔数）尽量多地打包指令，提供查找表时公共账户只占 1 字节索引
    */
   async batchTransfer(
     rpcUrl: string,
@@ -189,7 +321,7 @@ export class SolanaService {
     recipients: string[],
     amounts: string[],
     tokenAddress: string,
-    batchSize: number = DEFAULTS.BATCH_SIZES.solana  // 从配置文件读取默认批量大小
+    options: SolanaTransferOptions = {}
   ): Promise<SolanaBatchTransferResult> {
     try {
       const connection = this.initializeConnection(rpcUrl);
@@ -197,12 +329,13 @@ export class SolanaService {
 
       // 获取代币信息
       const tokenInfo = await this.getTokenInfo(rpcUrl, tokenAddress);
+      const lookupTables = await this.loadLookupTables(connection, options);
 
       logger.info('[SolanaService] Starting batch transfer', {
         recipientCount: recipients.length,
         tokenType: tokenInfo.isNativeSOL ? 'SOL' : 'SPL',
         programType: tokenInfo.programId.equals(TOKEN_2022_PROGRAM_ID) ? 'Token-2022' : 'Token v1',
-        batchSize
+        lookupTable: options.lookupTableAddress
       });
 
       // ========== Step 1: 本地计算所有 ATA ==========
@@ -213,6 +346,11 @@ export class SolanaService {
         wallet.publicKey
       );
 
+      const invalidReason = this.validateTransfers(tokenInfo, ataList);
+      if (invalidReason) {
+        throw new Error(invalidReason);
+      }
+
       // 为跳过的地址添加失败记录
       const skippedDetails = skipped.map(item => ({
         address: item.address,
@@ -223,13 +361,13 @@ export class SolanaService {
 
       if (!tokenInfo.isNativeSOL) {
         // ========== Step 2: 批量查询 ATA 是否存在 ==========
-        const missingATAs = await this.checkMissingATAs(connection, ataList);
+        const missingATAs = await this.inspectTokenAccounts(connection, ataList, tokenInfo);
 
         logger.debug('[SolanaService] Missing ATAs detected', { missingCount: missingATAs.length });
 
         // ========== Step 3: 批量创建缺失的 ATA ==========
         if (missingATAs.length > 0) {
-          await this.batchCreateATAs(connection, wallet, missingATAs, tokenInfo, batchSize);
+          await this.batchCreateATAs(connection, wallet, missingATAs, tokenInfo, options, lookupTables);
         }
       }
 
@@ -239,7 +377,8 @@ export class SolanaService {
         wallet,
         ataList,
         tokenInfo,
-        batchSize
+        options,
+        lookupTables
       );
 
       // 计算总金额
@@ -263,6 +402,9 @@ export class SolanaService {
         recipientCount: recipients.length,
         tokenAddress
       });
+      if (error instanceof Error && error.message === SIGNATURE_STATUS_UNKNOWN_MESSAGE) {
+        throw error;
+      }
       const errorMsg = error instanceof Error ? (error.message || error.toString()) : String(error);
       throw new Error(`Solana批量转账失败: ${errorMsg}`);
     }
@@ -343,223 +485,162 @@ export class SolanaService {
 
   /**
    * Step 2: 批量查询 ATA 是否存在（1次 RPC 调用）
+   * Token-2022 的已有账户同时检查 MemoTransfer，需要备注的账户标记 requiresMemo
    */
-  private async checkMissingATAs(
+  private async inspectTokenAccounts(
     connection: Connection,
-    ataList: ATAInfo[]
+    ataList: ATAInfo[],
+    tokenInfo: SolanaTokenInfo
   ): Promise<ATAInfo[]> {
     logger.debug('[SolanaService] Checking for missing ATAs', { ataCount: ataList.length });
 
     const ataAddresses = ataList.map(item => item.ata);
     const accountInfos = await connection.getMultipleAccountsInfo(ataAddresses);
+    const isToken2022 = tokenInfo.programId.equals(TOKEN_2022_PROGRAM_ID);
 
     const missing: ATAInfo[] = [];
     ataList.forEach((item, index) => {
-      if (accountInfos[index] === null) {
+      const accountInfo = accountInfos[index];
+      if (accountInfo === null) {
         missing.push(item);
+      } else if (isToken2022) {
+        const account = unpackAccount(item.ata, accountInfo, tokenInfo.programId);
+        item.requiresMemo = !!getMemoTransfer(account)?.requireIncomingTransferMemos;
       }
     });
 
-    logger.debug('[SolanaService] ATA check completed', { missingCount: missing.length });
+    logger.debug('[SolanaService] ATA check completed', {
+      missingCount: missing.length,
+      memoRequiredCount: ataList.filter(item => item.requiresMemo).length
+    });
     return missing;
   }
 
   /**
-   * Step 3: 批量创建 ATA
-   * 创建ATA指令较大，建议每批不超过15个
-   * 但我们使用用户设置的 batchSize，最大不超过15
+   * Step 3: 批量创建 ATA，按交易大小打包
    */
   private async batchCreateATAs(
     connection: Connection,
     wallet: Keypair,
     missingATAs: ATAInfo[],
     tokenInfo: SolanaTokenInfo,
-    userBatchSize: number
+    options: SolanaTransferOptions,
+    lookupTables: AddressLookupTableAccount[]
   ): Promise<void> {
     logger.info('[SolanaService] Starting batch ATA creation', { ataCount: missingATAs.length });
 
-    const tokenMint = new PublicKey(tokenInfo.address);
-    // ATA创建和转账使用统一的批量大小
-    // 简化配置：ATA创建和转账都使用用户设置的 batchSize
-    const CREATE_BATCH_SIZE = userBatchSize;
-
-    logger.debug('[SolanaService] ATA creation batch size', { batchSize: CREATE_BATCH_SIZE });
-
-    // 分批创建
-    for (let i = 0; i < missingATAs.length; i += CREATE_BATCH_SIZE) {
-      const batch = missingATAs.slice(i, Math.min(i + CREATE_BATCH_SIZE, missingATAs.length));
-      const tx = new Transaction();
-
-      for (const item of batch) {
-        const ix = createAssociatedTokenAccountInstruction(
-          wallet.publicKey,      // payer
-          item.ata,              // associatedToken
-          item.owner,            // owner
-          tokenMint,             // mint
-          tokenInfo.programId,   // programId
-          ASSOCIATED_TOKEN_PROGRAM_ID
-        );
-        tx.add(ix);
-      }
+    const packed = this.packInstructions(
+      wallet.publicKey,
+      missingATAs.map(item => ({ items: [item], instructions: [this.getCreateATAInstruction(item, tokenInfo, wallet.publicKey)] })),
+      lookupTables
+    );
 
+    for (let i = 0; i < packed.length; i++) {
       try {
-        const signature = await sendAndConfirmTransaction(connection, tx, [wallet], {
-          commitment: 'confirmed',
-          maxRetries: 3
-        });
+        const signature = await this.sendVersionedTransaction(connection, wallet, packed[i].instructions, lookupTables, options.priorityFee);
 
         logger.info('[SolanaService] ATA batch created successfully', {
-          batchNumber: Math.floor(i / CREATE_BATCH_SIZE) + 1,
+          batchNumber: i + 1,
           signature,
-          ataCount: batch.length
+          ataCount: packed[i].items.length
         });
       } catch (error) {
         logger.error('[SolanaService] ATA batch creation failed', error as Error, {
-          batchNumber: Math.floor(i / CREATE_BATCH_SIZE) + 1,
-          ataCount: batch.length
+          batchNumber: i + 1,
+          ataCount: packed[i].items.length
         });
         throw error;
       }
 
       // 批次之间短暂延迟
-      if (i + CREATE_BATCH_SIZE < missingATAs.length) {
+      if (i + 1 < packed.length) {
         await new Promise(resolve => setTimeout(resolve, 500));
       }
     }
 
-    logger.info('[SolanaService] All ATAs created successfully', { totalCreated: missingATAs.length });
+    logger.info('[SolanaService] All ATAs created successfully', { totalCreated: missingATAs.length, transactionCount: packed.length });
   }
 
   /**
-   * Step 4: 批量发送代币（根据用户设置的 batchSize）
+   * Step 4: 批量发送代币，每笔交易按大小打包尽量多的接收者；单笔交易失败只影响其中的接收者
    */
   private async batchTransferTokens(
     connection: Connection,
     wallet: Keypair,
     ataList: ATAInfo[],
     tokenInfo: SolanaTokenInfo,
-    batchSize: number
+    options: SolanaTransferOptions,
+    lookupTables: AddressLookupTableAccount[]
   ): Promise<{
     transactionHashes: string[];
     totalGasUsed: number;
-    details: Array<{ address: string; amount: string; status: 'success' | 'failed'; error?: string }>;
+    details: Array<{ address: string; amount: string; status: 'success' | 'failed'; error?: string; transactionHash?: string }>;
   }> {
-    logger.info('[SolanaService] Starting batch token transfer', {
-      batchSize,
-      totalRecipients: ataList.length
-    });
-
     const transactionHashes: string[] = [];
-    const details: Array<{ address: string; amount: string; status: 'success' | 'failed'; error?: string }> = [];
+    const details: Array<{ address: string; amount: string; status: 'success' | 'failed'; error?: string; transactionHash?: string }> = [];
     let totalGasUsed = 0;
 
     // 发送者的 ATA（SPL 代币需要）
-    let senderATA: PublicKey | undefined;
-    if (!tokenInfo.isNativeSOL) {
-      const tokenMint = new PublicKey(tokenInfo.address);
-      senderATA = await getAssociatedTokenAddress(
-        tokenMint,
-        wallet.publicKey,
-        false,
-        tokenInfo.programId,
-        ASSOCIATED_TOKEN_PROGRAM_ID
-      );
-    }
+    const senderATA = await this.getSenderATA(tokenInfo, wallet.publicKey);
+    const packed = this.packInstructions(
+      wallet.publicKey,
+      ataList.map(item => ({ items: [item], instructions: this.getTransferInstructions(item, tokenInfo, wallet.publicKey, senderATA, options) })),
+      lookupTables
+    );
 
-    // 分批处理
-    for (let i = 0; i < ataList.length; i += batchSize) {
-      const batch = ataList.slice(i, Math.min(i + batchSize, ataList.length));
-      const batchNumber = Math.floor(i / batchSize) + 1;
+    logger.info('[SolanaService] Starting batch token transfer', {
+      totalRecipients: ataList.length,
+      transactionCount: packed.length
+    });
 
-      logger.debug('[SolanaService] Processing transfer batch', {
-        batchNumber,
-        startIndex: i + 1,
-        endIndex: Math.min(i + batchSize, ataList.length)
-      });
+    for (let i = 0; i < packed.length; i++) {
+      const batchNumber = i + 1;
+      const batch = packed[i].items;
 
       try {
-        const tx = new Transaction();
-
-        for (const item of batch) {
-          if (tokenInfo.isNativeSOL) {
-            // 原生 SOL 转账
-            const lamports = Math.floor(parseFloat(item.amount) * LAMPORTS_PER_SOL);
-            tx.add(
-              SystemProgram.transfer({
-                fromPubkey: wallet.publicKey,
-                toPubkey: item.owner,
-                lamports
-              })
-            );
-          } else {
-            // SPL 代币转账
-            const tokenMint = new PublicKey(tokenInfo.address);
-            const transferAmount = BigInt(Math.floor(parseFloat(item.amount) * Math.pow(10, tokenInfo.decimals)));
-
-            if (tokenInfo.programId.equals(TOKEN_2022_PROGRAM_ID)) {
-              // Token-2022 使用 transferChecked
-              tx.add(
-                createTransferCheckedInstruction(
-                  senderATA!,
-                  tokenMint,
-                  item.ata,
-                  wallet.publicKey,
-                  transferAmount,
-                  tokenInfo.decimals,
-                  [],
-                  tokenInfo.programId
-                )
-              );
-            } else {
-              // Token Program v1
-              tx.add(
-                createTransferInstruction(
-                  senderATA!,
-                  item.ata,
-                  wallet.publicKey,
-                  transferAmount,
-                  [],
-                  tokenInfo.programId
-                )
-              );
-            }
-          }
-        }
-
-        // 发送交易
-        const signature = await sendAndConfirmTransaction(connection, tx, [wallet], {
-          commitment: 'confirmed',
-          maxRetries: 3
-        });
-
-        // 获取交易详情计算 gas
-        const txDetails = await connection.getTransaction(signature, {
-          maxSupportedTransactionVersion: 0
-        });
-        const gasUsed = txDetails?.meta?.fee || 0;
-        totalGasUsed += gasUsed;
+        const signature = await this.sendVersionedTransaction(connection, wallet, packed[i].instructions, lookupTables, options.priorityFee);
 
+        // 交易已确认：先记录成功，之后的查询失败不能再把这些地址标记为失败（否则重试会重复发放）
         transactionHashes.push(signature);
-
-        // 标记所有地址为成功
         batch.forEach(item => {
           details.push({
             address: item.owner.toBase58(),
             amount: item.amount,
-            status: 'success'
+            status: 'success',
+            transactionHash: signature
           });
         });
 
+        // 获取交易详情计算 gas（尽力而为，查询失败记为 0）
+        let gasUsed = 0;
+        try {
+          const txDetails = await connection.getTransaction(signature, {
+            maxSupportedTransactionVersion: 0
+          });
+          gasUsed = txDetails?.meta?.fee || 0;
+        } catch (feeError) {
+          logger.warn('[SolanaService] Failed to fetch transaction fee', {
+            signature,
+            error: feeError instanceof Error ? feeError.message : String(feeError)
+          });
+        }
+        totalGasUsed += gasUsed;
+
         logger.info('[SolanaService] Transfer batch completed successfully', {
           batchNumber,
           signature,
+          recipientCount: batch.length,
           gasUsed
         });
 
       } catch (error) {
+        // 结果未知的交易不能记为失败（重试会重复发放），中止整个批次交给对账
+        if (error instanceof Error && error.message === SIGNATURE_STATUS_UNKNOWN_MESSAGE) {
+          throw error;
+        }
         logger.error('[SolanaService] Transfer batch failed', error as Error, { batchNumber });
 
-        // 标记整个批次为失败
+        // 标记该交易中的地址为失败
         batch.forEach(item => {
           details.push({
             address: item.owner.toBase58(),
@@ -571,7 +652,7 @@ export class SolanaService {
       }
 
       // 批次之间延迟
-      if (i + batchSize < ataList.length) {
+      if (i + 1 < packed.length) {
         await new Promise(resolve => setTimeout(resolve, 1000));
       }
     }
@@ -588,6 +669,873 @@ export class SolanaService {
     };
   }
 
+  /**
+   * 按序列化大小把指令组依次装入 v0 交易，同一组的指令不会被拆开；每笔交易预留计算预算指令的空间
+   */
+  private packInstructions(
+    payer: PublicKey,
+    groups: InstructionGroup[],
+    lookupTables: AddressLookupTableAccount[]
+  ): InstructionGroup[] {
+    const packed: InstructionGroup[] = [];
+    let current: InstructionGroup = { items: [], instructions: [] };
+
+    for (const group of groups) {
+      const instructions = [...current.instructions, ...group.instructions];
+      if (this.getTransactionSize(payer, instructions, lookupTables) <= PACKET_DATA_SIZE) {
+        current = { items: [...current.items, ...group.items], instructions };
+        continue;
+      }
+
+      if (current.instructions.length === 0) {
+        throw new Error(`Transfer to ${group.items.map(item => item.owner.toBase58()).join(', ')} does not fit in a single transaction`);
+      }
+      packed.push(current);
+      if (this.getTransactionSize(payer, group.instructions, lookupTables) > PACKET_DATA_SIZE) {
+        throw new Error(`Transfer to ${group.items.map(item => item.owner.toBase58()).join(', ')} does not fit in a single transaction`);
+      }
+      current = { items: [...group.items], instructions: [...group.instructions] };
+    }
+
+    if (current.instructions.length > 0) {
+      packed.push(current);
+    }
+    return packed;
+  }
+
+  /**
+   * 单签名 v0 交易序列化后的字节数（含签名），超出编码缓冲区时视为无限大
+   */
+  private getTransactionSize(
+    payer: PublicKey,
+    instructions: TransactionInstruction[],
+    lookupTables: AddressLookupTableAccount[]
+  ): number {
+    try {
+      const message = new TransactionMessage({
+        payerKey: payer,
+        recentBlockhash: PublicKey.default.toBase58(), // 区块哈希长度固定，占位即可
+        instructions: [...COMPUTE_BUDGET_PLACEHOLDER, ...instructions]
+      }).compileToV0Message(lookupTables);
+      return new VersionedTransaction(message).serialize().length;
+    } catch {
+      return Infinity;
+    }
+  }
+
+  /**
+   * 附加计算预算指令后用最新区块哈希签名并发送 v0 交易，等待确认；priorityFee 为 null 时不附加（手续费需要精确时）
+   * 同一签名在区块哈希过期前反复广播；只有过期且确认没有上链时才重新签名，避免同一批转账上链两次
+   */
+  private async sendVersionedTransaction(
+    connection: Connection,
+    wallet: Keypair,
+    instructions: TransactionInstruction[],
+    lookupTables: AddressLookupTableAccount[],
+    priorityFee: SolanaPriorityFeeStrategy | null = DEFAULT_PRIORITY_FEE
+  ): Promise<string> {
+    const budget = priorityFee
+      ? await this.getComputeBudgetInstructions(connection, wallet.publicKey, instructions, lookupTables, priorityFee)
+      : [];
+
+    for (let attempt = 1; attempt <= MAX_RESIGN_ATTEMPTS; attempt++) {
+      const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+      const message = new TransactionMessage({
+        payerKey: wallet.publicKey,
+        recentBlockhash: blockhash,
+        instructions: [...budget, ...instructions]
+      }).compileToV0Message(lookupTables);
+      const tx = new VersionedTransaction(message);
+      tx.sign([wallet]);
+
+      const signature = bs58.encode(tx.signatures[0]);
+      if (await this.broadcastUntilExpired(connection, tx.serialize(), signature, lastValidBlockHeight)) {
+        return signature;
+      }
+      logger.warn('[SolanaService] Blockhash expired before the transaction landed, re-signing', { signature, attempt });
+    }
+
+    throw new Error(`Transaction expired ${MAX_RESIGN_ATTEMPTS} times without landing`);
+  }
+
+  /**
+   * 在区块哈希有效期内每隔几秒重新广播同一笔已签名交易，直到确认或区块高度超过 lastValidBlockHeight
+   * 广播报错不代表交易没有送达，只以签名状态为准。返回 false 表示已过期且链上查不到该签名，
+   * 此时才可以用新区块哈希重新签名；交易上链但执行失败时报错。
+   * RPC 持续出错、超过等待上限仍无法判断时抛出 SIGNATURE_STATUS_UNKNOWN_MESSAGE，由对账决定结果
+   */
+  async broadcastUntilExpired(
+    connection: Connection,
+    rawTransaction: Uint8Array,
+    signature: string,
+    lastValidBlockHeight: number
+  ): Promise<boolean> {
+    let remainingBlocks = BLOCKHASH_VALID_BLOCKS;
+    try {
+      remainingBlocks = Math.max(lastValidBlockHeight - await connection.getBlockHeight('confirmed'), 0);
+    } catch {
+      // 按完整有效期估算
+    }
+    const deadline = Date.now() + remainingBlocks * ESTIMATED_BLOCK_TIME_MS + BROADCAST_DEADLINE_MARGIN_MS;
+
+    while (Date.now() < deadline) {
+      try {
+        await connection.sendRawTransaction(rawTransaction, { skipPreflight: true, maxRetries: 0 });
+      } catch (error) {
+        logger.warn('[SolanaService] Broadcast failed, waiting for signature status', {
+          signature,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+      await new Promise(resolve => setTimeout(resolve, REBROADCAST_INTERVAL_MS));
+
+      let status: SignatureStatus | null;
+      let expired: boolean;
+      try {
+        expired = await connection.getBlockHeight('confirmed') > lastValidBlockHeight;
+        // 过期后查询完整历史，确认交易确实没有上链
+        [status] = (await connection.getSignatureStatuses([signature], { searchTransactionHistory: expired })).value;
+      } catch (error) {
+        logger.warn('[SolanaService] Failed to check signature status, retrying', {
+          signature,
+          error: error instanceof Error ? error.message : String(error)
+        });
+        continue;
+      }
+
+      if (status?.err) {
+        throw new Error(`Transaction ${signature} failed: ${JSON.stringify(status.err)}`);
+      }
+      if (status?.confirmationStatus === 'confirmed' || status?.confirmationStatus === 'finalized') {
+        return true;
+      }
+      if (expired && !status) {
+        return false;
+      }
+    }
+
+    logger.warn('[SolanaService] Signature status unknown at the broadcast deadline', { signature, lastValidBlockHeight });
+    throw new Error(SIGNATURE_STATUS_UNKNOWN_MESSAGE);
+  }
+
+  /**
+   * 计算预算指令：计算单元上限按模拟消耗加余量设置，单价按优先费策略设置
+   * 模拟失败的交易上链也会失败，直接报错而不花费手续费
+   */
+  private async getComputeBudgetInstructions(
+    connection: Connection,
+    payer: PublicKey,
+    instructions: TransactionInstruction[],
+    lookupTables: AddressLookupTableAccount[],
+    strategy: SolanaPriorityFeeStrategy
+  ): Promise<TransactionInstruction[]> {
+    const message = new TransactionMessage({
+      payerKey: payer,
+      recentBlockhash: PublicKey.default.toBase58(),
+      instructions: [...COMPUTE_BUDGET_PLACEHOLDER, ...instructions]
+    }).compileToV0Message(lookupTables);
+    const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+      sigVerify: false,
+      replaceRecentBlockhash: true,
+    });
+    if (value.err) {
+      throw new Error(this.getSimulationError(value.err, value.logs));
+    }
+
+    const units = value.unitsConsumed
+      ? Math.min(Math.ceil(value.unitsConsumed * COMPUTE_UNIT_MARGIN), MAX_COMPUTE_UNITS)
+      : MAX_COMPUTE_UNITS;
+    const microLamports = await this.getPriorityFeePrice(connection, instructions, strategy, units);
+
+    const budget = [ComputeBudgetProgram.setComputeUnitLimit({ units })];
+    if (microLamports > 0) {
+      budget.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+    }
+    return budget;
+  }
+
+  /**
+   * 优先费单价 (micro-lamports / CU)：按策略取最近涉及这些可写账户的交易费率分位数；
+   * 设置了每笔交易的上限时按计算单元折算封顶。查询失败时使用策略下限
+   */
+  private async getPriorityFeePrice(
+    connection: Connection,
+    instructions: TransactionInstruction[],
+    strategy: SolanaPriorityFeeStrategy,
+    units: number
+  ): Promise<number> {
+    const writable = new Map<string, PublicKey>();
+    for (const instruction of instructions) {
+      for (const key of instruction.keys) {
+        if (key.isWritable) {
+          writable.set(key.pubkey.toBase58(), key.pubkey);
+        }
+      }
+    }
+
+    const level = PRIORITY_FEE_LEVELS[strategy.level] || PRIORITY_FEE_LEVELS.normal;
+    let microLamports = level.minMicroLamports;
+    try {
+      const fees = (await connection.getRecentPrioritizationFees({
+        lockedWritableAccounts: [...writable.values()].slice(0, MAX_PRIORITY_FEE_ACCOUNTS)
+      }))
+        .map(item => item.prioritizationFee)
+        .sort((a, b) => a - b);
+      if (fees.length > 0) {
+        const index = Math.min(Math.floor((fees.length * level.percentile) / 100), fees.length - 1);
+        microLamports = Math.max(fees[index], microLamports);
+      }
+    } catch (error) {
+      logger.warn('[SolanaService] Failed to fetch recent prioritization fees, using the strategy floor', {
+        level: strategy.level,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    if (strategy.maxLamports !== undefined) {
+      microLamports = Math.min(microLamports, Math.floor((strategy.maxLamports * 1_000_000) / units));
+    }
+    return microLamports;
+  }
+
+  /**
+   * 全网最近的优先费单价 (micro-lamports / CU)，用于创建活动前的费用估算
+   */
+  async getPriorityFeeEstimate(rpcUrl: string, level: SolanaPriorityLevel): Promise<number> {
+    const connection = this.initializeConnection(rpcUrl);
+    return this.getPriorityFeePrice(connection, [], { level }, MAX_COMPUTE_UNITS);
+  }
+
+  /**
+   * 模拟错误：程序日志中的错误行通常比 InstructionError 更可读（如 "Error: insufficient funds"）
+   */
+  private getSimulationError(err: unknown, logs: string[] | null): string {
+    const logLine = (logs || []).filter(line => /error|failed/i.test(line)).pop();
+    return `Simulation failed: ${JSON.stringify(err)}${logLine ? ` (${logLine})` : ''}`;
+  }
+
+  /**
+   * 读取活动的地址查找表；尚未创建、已停用或已关闭时不使用查找表
+   */
+  private async loadLookupTables(connection: Connection, options: SolanaTransferOptions): Promise<AddressLookupTableAccount[]> {
+    if (!options.lookupTableAddress) {
+      return [];
+    }
+
+    const { value } = await connection.getAddressLookupTable(new PublicKey(options.lookupTableAddress));
+    if (!value || !value.isActive()) {
+      logger.warn('[SolanaService] Lookup table unavailable, packing without it', { lookupTable: options.lookupTableAddress });
+      return [];
+    }
+    return [value];
+  }
+
+  /**
+   * 为活动创建地址查找表，写入每笔转账都会引用的发送方 ATA、mint 和代币程序等账户
+   * 新写入的地址从下一个 slot 起才能使用，等 slot 推进后再返回
+   */
+  async createLookupTable(rpcUrl: string, privateKeyBase64: string, tokenAddress: string): Promise<string> {
+    const connection = this.initializeConnection(rpcUrl);
+    const wallet = this.createKeypairFromBase64(privateKeyBase64);
+    const tokenInfo = await this.getTokenInfo(rpcUrl, tokenAddress);
+    if (tokenInfo.isNativeSOL) {
+      throw new Error('Native SOL transfers have no shared accounts for a lookup table');
+    }
+
+    const senderATA = await this.getSenderATA(tokenInfo, wallet.publicKey);
+    const recentSlot = await connection.getSlot('finalized');
+    const [createInstruction, lookupTable] = AddressLookupTableProgram.createLookupTable({
+      authority: wallet.publicKey,
+      payer: wallet.publicKey,
+      recentSlot
+    });
+    const extendInstruction = AddressLookupTableProgram.extendLookupTable({
+      lookupTable,
+      authority: wallet.publicKey,
+      payer: wallet.publicKey,
+      addresses: [
+        senderATA!,
+        new PublicKey(tokenInfo.address),
+        tokenInfo.programId,
+        ASSOCIATED_TOKEN_PROGRAM_ID,
+        SystemProgram.programId,
+        MEMO_PROGRAM_ID
+      ]
+    });
+
+    const signature = await this.sendVersionedTransaction(connection, wallet, [createInstruction, extendInstruction], []);
+    const extendedAt = await connection.getSlot('confirmed');
+    while (await connection.getSlot('confirmed') <= extendedAt) {
+      await new Promise(resolve => setTimeout(resolve, 400));
+    }
+
+    logger.info('[SolanaService] Lookup table created', { lookupTable: lookupTable.toBase58(), signature });
+    return lookupTable.toBase58();
+  }
+
+  /**
+   * 回收查找表租金：仍在使用时先停用，停用满冷却期后关闭；返回查找表是否已关闭
+   */
+  async releaseLookupTable(rpcUrl: string, privateKeyBase64: string, lookupTableAddress: string): Promise<boolean> {
+    const connection = this.initializeConnection(rpcUrl);
+    const wallet = this.createKeypairFromBase64(privateKeyBase64);
+    const lookupTable = new PublicKey(lookupTableAddress);
+
+    const { value } = await connection.getAddressLookupTable(lookupTable);
+    if (!value) {
+      return true;
+    }
+
+    if (value.isActive()) {
+      const signature = await this.sendVersionedTransaction(connection, wallet, [
+        AddressLookupTableProgram.deactivateLookupTable({ lookupTable, authority: wallet.publicKey })
+      ], []);
+      logger.info('[SolanaService] Lookup table deactivated', { lookupTable: lookupTableAddress, signature });
+      return false;
+    }
+
+    const slot = BigInt(await connection.getSlot('confirmed'));
+    if (slot - value.state.deactivationSlot <= LOOKUP_TABLE_COOLDOWN_SLOTS) {
+      return false;
+    }
+
+    const signature = await this.sendVersionedTransaction(connection, wallet, [
+      AddressLookupTableProgram.closeLookupTable({ lookupTable, authority: wallet.publicKey, recipient: wallet.publicKey })
+    ], []);
+    logger.info('[SolanaService] Lookup table closed', { lookupTable: lookupTableAddress, signature });
+    return true;
+  }
+
+  /**
+   * 结束活动钱包：把 Token v1 / Token-2022 代币账户中的余额转给接收地址并关闭账户，关闭查找表，最后把 SOL 全部转出
+   * 退回的租金按关闭前账户的 lamports 精确累计（wSOL 账户只计租金部分）。查找表仍在冷却期时不转出 SOL，
+   * 保留关闭查找表所需的手续费，冷却期过后再次执行即可
+   */
+  async finalizeWallet(
+    rpcUrl: string,
+    privateKeyBase64: string,
+    recipientAddress: string,
+    lookupTableAddresses: string[]
+  ): Promise<SolanaFinalizeResult> {
+    const connection = this.initializeConnection(rpcUrl);
+    const wallet = this.createKeypairFromBase64(privateKeyBase64);
+    const recipient = new PublicKey(recipientAddress);
+    const result: SolanaFinalizeResult = {
+      sweptTokens: [],
+      closedTokenAccounts: [],
+      closedLookupTables: [],
+      pendingLookupTables: [],
+      skippedAccounts: [],
+      rentRecoveredLamports: '0',
+      solSwept: '0',
+      transactionHashes: [],
+    };
+    let rentRecovered = 0n;
+
+    for (const programId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+      const { value: accounts } = await connection.getTokenAccountsByOwner(wallet.publicKey, { programId });
+      for (const { pubkey, account: accountInfo } of accounts) {
+        const account = unpackAccount(pubkey, accountInfo, programId);
+        if (account.isFrozen) {
+          result.skippedAccounts.push({ address: pubkey.toBase58(), reason: 'Token account is frozen' });
+          continue;
+        }
+
+        try {
+          const instructions: TransactionInstruction[] = [];
+          let swept: { mint: string; amount: string } | undefined;
+          // wSOL 账户关闭时余额随租金一起退回钱包，不单独转出
+          if (account.amount > 0n && !account.isNative) {
+            const tokenInfo = await this.getTokenInfo(rpcUrl, account.mint.toBase58());
+            if (tokenInfo.unsupportedExtension) {
+              throw new Error(`Token uses unsupported extension ${tokenInfo.unsupportedExtension}`);
+            }
+
+            const amount = new BigNumber(account.amount.toString()).shiftedBy(-tokenInfo.decimals).toFixed();
+            const item: ATAInfo = {
+              owner: recipient,
+              ata: await getAssociatedTokenAddress(account.mint, recipient, true, programId),
+              amount,
+            };
+            if ((await this.inspectTokenAccounts(connection, [item], tokenInfo)).length > 0) {
+              instructions.push(
+                createAssociatedTokenAccountIdempotentInstruction(wallet.publicKey, item.ata, recipient, account.mint, programId)
+              );
+            }
+            instructions.push(...this.getTransferInstructions(item, tokenInfo, wallet.publicKey, pubkey, {}));
+            swept = { mint: account.mint.toBase58(), amount };
+          }
+
+          // 转入时扣留的 Token-2022 转账手续费不清零无法关闭账户，先归集到 mint
+          if ((getTransferFeeAmount(account)?.withheldAmount ?? 0n) > 0n) {
+            instructions.push(createHarvestWithheldTokensToMintInstruction(account.mint, [pubkey], programId));
+          }
+          instructions.push(createCloseAccountInstruction(pubkey, wallet.publicKey, wallet.publicKey, [], programId));
+
+          const signature = await this.sendVersionedTransaction(connection, wallet, instructions, []);
+          result.transactionHashes.push(signature);
+          result.closedTokenAccounts.push(pubkey.toBase58());
+          if (swept) {
+            result.sweptTokens.push({ ...swept, transactionHash: signature });
+          }
+          rentRecovered += BigInt(accountInfo.lamports) - (account.isNative ? account.amount : 0n);
+        } catch (error) {
+          logger.error('[SolanaService] Failed to close token account', error as Error, { account: pubkey.toBase58() });
+          result.skippedAccounts.push({ address: pubkey.toBase58(), reason: error instanceof Error ? error.message : String(error) });
+        }
+      }
+    }
+
+    for (const address of lookupTableAddresses) {
+      const accountInfo = await connection.getAccountInfo(new PublicKey(address));
+      if (await this.releaseLookupTable(rpcUrl, privateKeyBase64, address)) {
+        result.closedLookupTables.push(address);
+        rentRecovered += BigInt(accountInfo?.lamports ?? 0);
+      } else {
+        result.pendingLookupTables.push(address);
+      }
+    }
+    result.rentRecoveredLamports = rentRecovered.toString();
+
+    if (result.pendingLookupTables.length > 0) {
+      logger.info('[SolanaService] Lookup tables still cooling down, keeping SOL for closing fees', {
+        pendingLookupTables: result.pendingLookupTables
+      });
+      return result;
+    }
+
+    // 余额全部转出（账户归零后被回收，不受免租最低余额限制）；不附加优先费，手续费按消息精确计算
+    const balance = await connection.getBalance(wallet.publicKey, 'confirmed');
+    const { blockhash } = await connection.getLatestBlockhash('confirmed');
+    const message = new TransactionMessage({
+      payerKey: wallet.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: recipient, lamports: balance })]
+    }).compileToV0Message();
+    const fee = (await connection.getFeeForMessage(message, 'confirmed')).value ?? DEFAULTS.SOLANA_FEES.base_fee_per_signature;
+
+    if (balance > fee) {
+      const signature = await this.sendVersionedTransaction(connection, wallet, [
+        SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: recipient, lamports: balance - fee })
+      ], [], null);
+      result.transactionHashes.push(signature);
+      result.solSwept = new BigNumber(balance - fee).div(LAMPORTS_PER_SOL).toFixed();
+    }
+
+    logger.info('[SolanaService] Wallet finalized', {
+      closedTokenAccounts: result.closedTokenAccounts.length,
+      closedLookupTables: result.closedLookupTables.length,
+      rentRecoveredLamports: result.rentRecoveredLamports,
+      solSwept: result.solSwept
+    });
+    return result;
+  }
+
+  /**
+   * 发送者的 ATA（原生 SOL 不需要）
+   */
+  private async getSenderATA(tokenInfo: SolanaTokenInfo, senderPublicKey: PublicKey): Promise<PublicKey | undefined> {
+    if (tokenInfo.isNativeSOL) {
+      return undefined;
+    }
+
+    return getAssociatedTokenAddress(
+      new PublicKey(tokenInfo.address),
+      senderPublicKey,
+      false,
+      tokenInfo.programId,
+      ASSOCIATED_TOKEN_PROGRAM_ID
+    );
+  }
+
+  /**
+   * ATA 创建指令
+   */
+  private getCreateATAInstruction(
+    item: ATAInfo,
+    tokenInfo: SolanaTokenInfo,
+    payer: PublicKey
+  ): TransactionInstruction {
+    return createAssociatedTokenAccountInstruction(
+      payer,                 // payer
+      item.ata,              // associatedToken
+      item.owner,            // owner
+      new PublicKey(tokenInfo.address), // mint
+      tokenInfo.programId,   // programId
+      ASSOCIATED_TOKEN_PROGRAM_ID
+    );
+  }
+
+  /**
+   * 单个接收者的转账指令（原生 SOL / Token v1 / Token-2022）
+   * 转账手续费代币使用 transferCheckedWithFee，要求备注的账户在转账前加一条备注指令
+   */
+  private getTransferInstructions(
+    item: ATAInfo,
+    tokenInfo: SolanaTokenInfo,
+    senderPublicKey: PublicKey,
+    senderATA: PublicKey | undefined,
+    options: SolanaTransferOptions
+  ): TransactionInstruction[] {
+    if (tokenInfo.isNativeSOL) {
+      // 原生 SOL 转账
+      return [
+        SystemProgram.transfer({
+          fromPubkey: senderPublicKey,
+          toPubkey: item.owner,
+          lamports: this.getRawTransferAmount(item.amount, tokenInfo)
+        })
+      ];
+    }
+
+    // SPL 代币转账
+    const tokenMint = new PublicKey(tokenInfo.address);
+    const transferAmount = this.getSendAmount(item.amount, tokenInfo, options);
+    const instructions: TransactionInstruction[] = [];
+
+    if (item.requiresMemo) {
+      instructions.push(new TransactionInstruction({
+        programId: MEMO_PROGRAM_ID,
+        keys: [],
+        data: Buffer.from(TRANSFER_MEMO, 'utf8')
+      }));
+    }
+
+    if (tokenInfo.transferFee) {
+      // 手续费必须与链上按当前 epoch 计算的结果一致，否则指令失败
+      instructions.push(
+        createTransferCheckedWithFeeInstruction(
+          senderATA!,
+          tokenMint,
+          item.ata,
+          senderPublicKey,
+          transferAmount,
+          tokenInfo.decimals,
+          calculateFee(tokenInfo.transferFee, transferAmount),
+          [],
+          tokenInfo.programId
+        )
+      );
+    } else if (tokenInfo.programId.equals(TOKEN_2022_PROGRAM_ID)) {
+      // Token-2022 使用 transferChecked
+      instructions.push(
+        createTransferCheckedInstruction(
+          senderATA!,
+          tokenMint,
+          item.ata,
+          senderPublicKey,
+          transferAmount,
+          tokenInfo.decimals,
+          [],
+          tokenInfo.programId
+        )
+      );
+    } else {
+      // Token Program v1
+      instructions.push(
+        createTransferInstruction(
+          senderATA!,
+          item.ata,
+          senderPublicKey,
+          transferAmount,
+          [],
+          tokenInfo.programId
+        )
+      );
+    }
+    return instructions;
+  }
+
+  /**
+   * 转账指令使用的最小单位金额（SOL 为 lamports）
+   */
+  private getRawTransferAmount(amount: string, tokenInfo: SolanaTokenInfo): bigint {
+    const decimals = tokenInfo.isNativeSOL ? 9 : tokenInfo.decimals;
+    return BigInt(new BigNumber(amount).shiftedBy(decimals).integerValue(BigNumber.ROUND_DOWN).toFixed());
+  }
+
+  /**
+   * 实际从发送账户转出的金额：转账手续费代币在 netDelivery 下按到账金额反推，否则手续费从接收金额中扣除
+   */
+  private getSendAmount(amount: string, tokenInfo: SolanaTokenInfo, options: SolanaTransferOptions): bigint {
+    const net = this.getRawTransferAmount(amount, tokenInfo);
+    return tokenInfo.transferFee && options.netDelivery ? this.grossUpForTransferFee(net, tokenInfo.transferFee) : net;
+  }
+
+  /**
+   * 扣除手续费后到账恰好为 net 的最小发送金额；手续费为 ceil(amount × bps / 10000)，且不超过 maximumFee
+   */
+  private grossUpForTransferFee(net: bigint, fee: TransferFee): bigint {
+    const bps = BigInt(fee.transferFeeBasisPoints);
+    if (bps === 0n) {
+      return net;
+    }
+    if (bps >= 10000n) {
+      return net + fee.maximumFee;
+    }
+
+    let gross = (net * 10000n + (10000n - bps) - 1n) / (10000n - bps);
+    if (gross > net + fee.maximumFee) {
+      gross = net + fee.maximumFee;
+    }
+    // 手续费向上取整，估算值可能还差 1
+    while (gross - calculateFee(fee, gross) < net) {
+      gross++;
+    }
+    return gross;
+  }
+
+  /**
+   * 发送前校验：不支持的 Token-2022 扩展、超出代币精度的金额（会被截断甚至变为 0）、NFT 发送总量超过供应量
+   */
+  private validateTransfers(tokenInfo: SolanaTokenInfo, ataList: ATAInfo[]): string | undefined {
+    if (tokenInfo.unsupportedExtension) {
+      return `Token-2022 extension not supported for batch transfers: ${tokenInfo.unsupportedExtension}`;
+    }
+
+    const decimals = tokenInfo.isNativeSOL ? 9 : tokenInfo.decimals;
+    const invalid = ataList.find(item => {
+      const amount = new BigNumber(item.amount);
+      return !amount.isFinite() || amount.lte(0) || amount.decimalPlaces()! > decimals;
+    });
+    if (invalid) {
+      return `Invalid amount ${invalid.amount} for ${invalid.owner.toBase58()}: must be positive with at most ${decimals} decimal places`;
+    }
+
+    if (tokenInfo.isNft) {
+      const total = ataList.reduce((sum, item) => sum + this.getRawTransferAmount(item.amount, tokenInfo), 0n);
+      if (total > tokenInfo.supply!) {
+        return `NFT mint has a supply of ${tokenInfo.supply}, cannot send ${total}`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 构建未签名的 ATA 创建交易（外部签名模式），没有缺失的 ATA 时返回 null
+   */
+  async buildCreateTokenAccountsTransaction(
+    rpcUrl: string,
+    senderAddress: string,
+    recipients: string[],
+    tokenAddress: string,
+    options: SolanaTransferOptions = {}
+  ): Promise<SolanaUnsignedTransaction | null> {
+    const connection = this.initializeConnection(rpcUrl);
+    const tokenInfo = await this.getTokenInfo(rpcUrl, tokenAddress);
+    if (tokenInfo.isNativeSOL) {
+      return null;
+    }
+
+    const sender = new PublicKey(senderAddress);
+    const ataList = await this.calculateExternalATAs(recipients, recipients.map(() => '0'), tokenInfo, sender);
+    const missingATAs = await this.inspectTokenAccounts(connection, ataList, tokenInfo);
+    if (missingATAs.length === 0) {
+      return null;
+    }
+
+    const instructions = missingATAs.map(item => this.getCreateATAInstruction(item, tokenInfo, sender));
+    const budget = await this.getComputeBudgetInstructions(connection, sender, instructions, [], options.priorityFee || DEFAULT_PRIORITY_FEE);
+    const tx = new Transaction().add(...budget, ...instructions);
+
+    return this.prepareUnsignedTransaction(connection, tx, sender);
+  }
+
+  /**
+   * 构建未签名的批量转账交易（外部签名模式），指令与 batchTransfer 完全一致
+   */
+  async buildBatchTransferTransaction(
+    rpcUrl: string,
+    senderAddress: string,
+    recipients: string[],
+    amounts: string[],
+    tokenAddress: string,
+    options: SolanaTransferOptions = {}
+  ): Promise<SolanaUnsignedTransaction> {
+    const connection = this.initializeConnection(rpcUrl);
+    const tokenInfo = await this.getTokenInfo(rpcUrl, tokenAddress);
+    const sender = new PublicKey(senderAddress);
+
+    const ataList = await this.calculateExternalATAs(recipients, amounts, tokenInfo, sender);
+    const invalidReason = this.validateTransfers(tokenInfo, ataList);
+    if (invalidReason) {
+      throw new Error(invalidReason);
+    }
+    if (tokenInfo.programId.equals(TOKEN_2022_PROGRAM_ID)) {
+      // 只为标记要求备注的账户；ATA 已在之前的交易中创建
+      await this.inspectTokenAccounts(connection, ataList, tokenInfo);
+    }
+    const senderATA = await this.getSenderATA(tokenInfo, sender);
+
+    const instructions = ataList.flatMap(item => this.getTransferInstructions(item, tokenInfo, sender, senderATA, options));
+    const budget = await this.getComputeBudgetInstructions(connection, sender, instructions, [], options.priorityFee || DEFAULT_PRIORITY_FEE);
+    const tx = new Transaction().add(...budget, ...instructions);
+
+    return this.prepareUnsignedTransaction(connection, tx, sender);
+  }
+
+  /**
+   * 预检批量转账（不签名、不广播）：检查发送钱包余额，并按与 batchTransfer 相同的打包方式模拟 ATA 创建和转账交易
+   * 缺少 ATA 的接收者在 ATA 创建前无法模拟转账，只计入余额检查
+   */
+  async simulateBatchTransfer(
+    rpcUrl: string,
+    senderAddress: string,
+    recipients: string[],
+    amounts: string[],
+    tokenAddress: string,
+    options: SolanaTransferOptions = {}
+  ): Promise<SolanaSimulationResult> {
+    const connection = this.initializeConnection(rpcUrl);
+    const tokenInfo = await this.getTokenInfo(rpcUrl, tokenAddress);
+    const sender = new PublicKey(senderAddress);
+    const lookupTables = await this.loadLookupTables(connection, options);
+
+    const { ataList, skipped } = await this.calculateATAs(recipients, amounts, tokenInfo, sender);
+    if (skipped.length > 0) {
+      return {
+        success: false,
+        error: `Invalid recipient addresses: ${skipped.map(item => item.address).join(', ')}`,
+        invalidRecipients: skipped.map(item => item.address),
+      };
+    }
+    const invalidReason = this.validateTransfers(tokenInfo, ataList);
+    if (invalidReason) {
+      return { success: false, error: invalidReason };
+    }
+
+    const missingATAs = tokenInfo.isNativeSOL ? [] : await this.inspectTokenAccounts(connection, ataList, tokenInfo);
+    const missing = new Set(missingATAs.map(item => item.ata.toBase58()));
+    const senderATA = await this.getSenderATA(tokenInfo, sender);
+    const rawTotal = ataList.reduce((sum, item) => sum + this.getSendAmount(item.amount, tokenInfo, options), 0n);
+
+    // 缺少 ATA 的接收者只计入交易数，模拟时跳过
+    const transferGroups = ataList.map(item => ({ items: [item], instructions: this.getTransferInstructions(item, tokenInfo, sender, senderATA, options) }));
+    let createPacked: InstructionGroup[];
+    let transferPacked: InstructionGroup[];
+    let simulatedTransfers: InstructionGroup[];
+    try {
+      createPacked = this.packInstructions(
+        sender,
+        missingATAs.map(item => ({ items: [item], instructions: [this.getCreateATAInstruction(item, tokenInfo, sender)] })),
+        lookupTables
+      );
+      transferPacked = this.packInstructions(sender, transferGroups, lookupTables);
+      simulatedTransfers = this.packInstructions(
+        sender,
+        transferGroups.filter(group => !missing.has(group.items[0].ata.toBase58())),
+        lookupTables
+      );
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    // SOL：ATA 租金 + 每笔交易的签名费（原生 SOL 还包括转账金额）
+    const transactionCount = createPacked.length + transferPacked.length;
+    const lamportsNeeded = BigInt(DEFAULTS.SOLANA_FEES.spl_account_creation_fee) * BigInt(missingATAs.length)
+      + BigInt(DEFAULTS.SOLANA_FEES.base_fee_per_signature) * BigInt(transactionCount)
+      + (tokenInfo.isNativeSOL ? rawTotal : 0n);
+    const lamports = BigInt(await connection.getBalance(sender));
+    if (lamports < lamportsNeeded) {
+      return {
+        success: false,
+        error: `insufficient funds: wallet has ${new BigNumber(lamports.toString()).div(LAMPORTS_PER_SOL).toFixed()} SOL, batch needs ${new BigNumber(lamportsNeeded.toString()).div(LAMPORTS_PER_SOL).toFixed()} SOL for rent, fees and transfers`,
+      };
+    }
+
+    if (!tokenInfo.isNativeSOL) {
+      const senderAccountInfo = await connection.getAccountInfo(senderATA!);
+      const senderAccount = senderAccountInfo ? unpackAccount(senderATA!, senderAccountInfo, tokenInfo.programId) : null;
+      if (senderAccount?.isFrozen) {
+        // 可编程 NFT（pNFT）的持有账户始终冻结，只能通过 Token Metadata 程序转移
+        return {
+          success: false,
+          error: tokenInfo.isNft
+            ? 'Sender token account is frozen: programmable NFTs (pNFT) must be transferred through the Token Metadata program'
+            : 'Sender token account is frozen',
+        };
+      }
+      const tokenBalance = senderAccount?.amount ?? 0n;
+      if (tokenBalance < rawTotal) {
+        return {
+          success: false,
+          error: `insufficient funds: token balance ${tokenBalance} is below the batch total ${rawTotal} (raw units)`,
+        };
+      }
+    }
+
+    const { blockhash } = await connection.getLatestBlockhash('confirmed');
+    const strategy = options.priorityFee || DEFAULT_PRIORITY_FEE;
+    let unitsConsumed = 0;
+    let priorityFeeMicroLamports = 0n;
+    for (const { instructions } of [...createPacked, ...simulatedTransfers]) {
+      const message = new TransactionMessage({
+        payerKey: sender,
+        recentBlockhash: blockhash,
+        instructions: [...COMPUTE_BUDGET_PLACEHOLDER, ...instructions]
+      }).compileToV0Message(lookupTables);
+
+      const { value } = await connection.simulateTransaction(new VersionedTransaction(message), {
+        sigVerify: false,
+        replaceRecentBlockhash: true,
+      });
+      if (value.err) {
+        return { success: false, error: this.getSimulationError(value.err, value.logs), unitsConsumed };
+      }
+      unitsConsumed += value.unitsConsumed || 0;
+
+      const units = Math.min(Math.ceil((value.unitsConsumed || 0) * COMPUTE_UNIT_MARGIN), MAX_COMPUTE_UNITS);
+      const price = await this.getPriorityFeePrice(connection, instructions, strategy, units);
+      priorityFeeMicroLamports += BigInt(price) * BigInt(units);
+    }
+
+    // 优先费按实际交易数折算：缺少 ATA 的接收者没有模拟，按已模拟交易的平均值计入
+    const simulatedCount = createPacked.length + simulatedTransfers.length;
+    const priorityFeeLamports = simulatedCount > 0
+      ? (priorityFeeMicroLamports * BigInt(transactionCount)) / BigInt(simulatedCount) / 1_000_000n
+      : 0n;
+    if (lamports < lamportsNeeded + priorityFeeLamports) {
+      return {
+        success: false,
+        error: `insufficient funds: wallet has ${new BigNumber(lamports.toString()).div(LAMPORTS_PER_SOL).toFixed()} SOL, batch needs ${new BigNumber((lamportsNeeded + priorityFeeLamports).toString()).div(LAMPORTS_PER_SOL).toFixed()} SOL including priority fees`,
+        unitsConsumed,
+      };
+    }
+
+    return { success: true, unitsConsumed, priorityFeeLamports: priorityFeeLamports.toString() };
+  }
+
+  /**
+   * 外部签名的交易一旦签名就无法剔除单个地址，因此无效地址直接报错，而不是像本地签名那样跳过
+   */
+  private async calculateExternalATAs(
+    recipients: string[],
+    amounts: string[],
+    tokenInfo: SolanaTokenInfo,
+    senderPublicKey: PublicKey
+  ): Promise<ATAInfo[]> {
+    const { ataList, skipped } = await this.calculateATAs(recipients, amounts, tokenInfo, senderPublicKey);
+    if (skipped.length > 0) {
+      throw new Error(`Invalid recipient addresses: ${skipped.map(item => item.address).join(', ')}`);
+    }
+    return ataList;
+  }
+
+  /**
+   * 设置手续费支付者和最新区块哈希；签名必须在 lastValidBlockHeight 之前广播
+   */
+  private async prepareUnsignedTransaction(
+    connection: Connection,
+    tx: Transaction,
+    feePayer: PublicKey
+  ): Promise<SolanaUnsignedTransaction> {
+    const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+    tx.recentBlockhash = blockhash;
+    tx.feePayer = feePayer;
+
+    return { transaction: tx, lastValidBlockHeight };
+  }
+
   /**
    * 检查交易状态
    */
@@ -597,6 +1545,19 @@ export class SolanaService {
     error?: string;
     confirmations?: number;
   }> {
+    // 一个批次可能由多笔交易完成（逗号分隔），全部确认才算确认
+    const signatures = transactionHash.split(',').map(value => value.trim()).filter(Boolean);
+    if (signatures.length > 1) {
+      const statuses = await Promise.all(signatures.map(signature => this.getTransactionStatus(rpcUrl, signature)));
+      return statuses.find(item => item.status === 'failed')
+        || statuses.find(item => item.status === 'pending')
+        || {
+          status: 'confirmed',
+          blockHeight: Math.max(...statuses.map(item => item.blockHeight || 0)) || undefined,
+          confirmations: Math.min(...statuses.map(item => item.confirmations || 0))
+        };
+    }
+
     const maxRetries = 3;
     const retryDelay = 1000; // 1 second
 
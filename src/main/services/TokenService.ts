@@ -3,6 +3,7 @@ import { Connection, PublicKey } from '@solana/web3.js';
 import { createUmi } from '@metaplex-foundation/umi-bundle-defaults';
 import { publicKey } from '@metaplex-foundation/umi';
 import { fetchDigitalAsset } from '@metaplex-foundation/mpl-token-metadata';
+import type { TokenStandard } from './ContractService';
 
 export interface TokenInfo {
   name: string;
@@ -10,6 +11,10 @@ export interface TokenInfo {
   decimals: number;
   address: string;
   chainType: 'evm' | 'solana';
+  standard?: TokenStandard; // EVM：通过 ERC-165 识别的代币标准
+  isNft?: boolean; // Solana：decimals 为 0 且供应量为 1 的 NFT mint
+  transferFeeBasisPoints?: number; // Solana Token-2022 转账手续费（基点）
+  unsupportedExtension?: string; // Solana Token-2022 中无法批量发送的扩展
 }
 
 export interface EVMTokenInfo {
@@ -18,6 +23,7 @@ export interface EVMTokenInfo {
   decimals: number;
   address: string;
   chainType: 'evm';
+  standard: TokenStandard;
 }
 
 export interface SolanaTokenInfo {
@@ -26,6 +32,26 @@ export interface SolanaTokenInfo {
   decimals: number;
   address: string;
   chainType: 'solana';
+  isNft: boolean;
+  transferFeeBasisPoints?: number;
+  unsupportedExtension?: string;
+}
+
+/**
+ * EVM ERC20 代币行为探测结果：金额均为最小单位
+ */
+export interface TokenBehaviorReport {
+  simulated: boolean; // 找到持币地址并通过 eth_call 模拟了一笔转账
+  holderAddress?: string;
+  probeAmount?: string; // 模拟转账的金额
+  debitedAmount?: string; // 发送方实际扣减
+  receivedAmount?: string; // 接收方实际到账
+  transferFeeBasisPoints?: number; // 到账少于转账金额时的手续费（基点，向上取整）
+  rebasingInterface?: string; // 识别到的 rebase 代币查询函数
+  blocklistFunction?: string; // 识别到的黑名单查询函数
+  blockedAddresses: string[];
+  checkedAddresses: number;
+  warnings: string[];
 }
 
 // ERC-20 ABI (只包含需要的函数)
@@ -62,6 +88,47 @@ const ERC20_ABI = [
   },
 ];
 
+// ERC-165 接口 ID，用于识别 NFT 标准
+const ERC165_ABI = ['function supportsInterface(bytes4 interfaceId) view returns (bool)'];
+const ERC721_INTERFACE_ID = '0x80ac58cd';
+const ERC1155_INTERFACE_ID = '0xd9b67a26';
+
+// 代币行为探测合约（contracts/src/TokenBehaviorProbe.sol）的运行时代码：只通过 eth_call 状态覆盖临时放到持币地址上，从不部署
+const TOKEN_BEHAVIOR_PROBE_RUNTIME = '0x608060405234801561000f575f5ffd5b5060043610610029575f3560e01c8063d48dba971461002d575b5f5ffd5b61004061003b366004610366565b610059565b6040805192835260208301919091520160405180910390f35b6040516370a0823160e01b81523060048201525f90819081906001600160a01b038716906370a0823190602401602060405180830381865afa1580156100a1573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906100c5919061039f565b6040516370a0823160e01b81526001600160a01b0387811660048301529192505f918816906370a0823190602401602060405180830381865afa15801561010e573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610132919061039f565b90505f5f886001600160a01b031663a9059cbb898960405160240161016c9291906001600160a01b03929092168252602082015260400190565b6040516020818303038152906040529060e01b6020820180516001600160e01b0383818316178352505050506040516101a591906103b6565b5f604051808303815f865af19150503d805f81146101de576040519150601f19603f3d011682016040523d82523d5f602084013e6101e3565b606091505b5091509150816101f557805160208201fd5b5f815111801561021657508080602001905181019061021491906103cc565b155b1561023457604051630bc11c3f60e21b815260040160405180910390fd5b6040516370a0823160e01b81523060048201525f906001600160a01b038b16906370a0823190602401602060405180830381865afa158015610278573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061029c919061039f565b6040516370a0823160e01b81526001600160a01b038b811660048301529192505f918c16906370a0823190602401602060405180830381865afa1580156102e5573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610309919061039f565b9050818611610318575f610322565b61032282876103f2565b9750848111610331575f61033b565b61033b85826103f2565b9650505050505050935093915050565b80356001600160a01b0381168114610361575f5ffd5b919050565b5f5f5f60608486031215610378575f5ffd5b6103818461034b565b925061038f6020850161034b565b9150604084013590509250925092565b5f602082840312156103af575f5ffd5b5051919050565b5f82518060208501845e5f920191825250919050565b5f602082840312156103dc575f5ffd5b815180151581146103eb575f5ffd5b9392505050565b8181038181111561041157634e487b7160e01b5f52601160045260245ffd5b9291505056fea264697066735822122042c19dd6e074872703a6493d19bcafdc9048fbc5d5e98b7df04d61312ab6de7664736f6c63430008250033';
+const TOKEN_BEHAVIOR_PROBE_ABI = [
+  'function probeTransfer(address token, address to, uint256 amount) returns (uint256 debited, uint256 received)'
+];
+const ERC20_BALANCE_ABI = [
+  'function balanceOf(address account) view returns (uint256)',
+  'function decimals() view returns (uint8)'
+];
+const TRANSFER_EVENT_TOPIC = ethers.id('Transfer(address,address,uint256)');
+
+// 查找持币地址时回看的区块数（多数公共 RPC 限制 eth_getLogs 的范围）与最多检查的地址数
+const HOLDER_LOOKBACK_BLOCKS = 2000;
+const MAX_HOLDER_CANDIDATES = 20;
+// 逐地址查询黑名单的并发数
+const BLOCKLIST_CHECK_CONCURRENCY = 20;
+// 份额型 rebase 代币（如 stETH）转账时的取整误差（最小单位），不视为手续费
+const REBASE_ROUNDING_TOLERANCE = 2n;
+// 常见的黑名单查询函数：USDC、USDT、PAX 等
+const BLOCKLIST_FUNCTIONS = [
+  'isBlacklisted(address)',
+  'isBlackListed(address)',
+  'getBlackListStatus(address)',
+  'isBlocked(address)',
+  'isBlocklisted(address)',
+  'blacklisted(address)',
+  'isFrozen(address)'
+];
+// rebase 代币特有的查询函数：stETH、Aave aToken、Ampleforth、OUSD
+const REBASING_FUNCTIONS = [
+  'sharesOf(address)',
+  'scaledBalanceOf(address)',
+  'monetaryPolicy()',
+  'rebasingCreditsPerToken()'
+];
+
 // Solana Token Program ID
 const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
 
@@ -121,6 +188,27 @@ export class TokenService {
         setTimeout(() => reject(new Error('Token info request timeout')), 10000);
       });
 
+      // NFT 合约没有 decimals，ERC1155 通常也没有 name/symbol
+      const standard = await Promise.race([this.detectTokenStandard(tokenAddress, provider), timeoutPromise]) as TokenStandard;
+      if (standard !== 'ERC20') {
+        const [name, symbol] = await Promise.race([
+          Promise.all([
+            contract.name().catch(() => standard),
+            contract.symbol().catch(() => 'NFT')
+          ]),
+          timeoutPromise
+        ]) as [string, string];
+
+        return {
+          name,
+          symbol,
+          decimals: 0,
+          address: tokenAddress,
+          chainType: 'evm',
+          standard,
+        };
+      }
+
       // 并行获取代币信息
       const [name, symbol, decimals] = await Promise.race([
         Promise.all([
@@ -137,6 +225,7 @@ export class TokenService {
         decimals: Number(decimals),
         address: tokenAddress,
         chainType: 'evm',
+        standard,
       };
     } catch (error) {
       console.error(`Failed to get EVM token info for ${tokenAddress}:`, error);
@@ -144,6 +233,24 @@ export class TokenService {
     }
   }
 
+  /**
+   * 通过 ERC-165 supportsInterface 识别 ERC721 / ERC1155，未实现 ERC-165 的合约按 ERC20 处理
+   */
+  private async detectTokenStandard(tokenAddress: string, provider: ethers.Provider): Promise<TokenStandard> {
+    const contract = new ethers.Contract(tokenAddress, ERC165_ABI, provider);
+    try {
+      if (await contract.supportsInterface(ERC721_INTERFACE_ID)) {
+        return 'ERC721';
+      }
+      if (await contract.supportsInterface(ERC1155_INTERFACE_ID)) {
+        return 'ERC1155';
+      }
+    } catch {
+      // 调用回滚说明合约没有实现 ERC-165
+    }
+    return 'ERC20';
+  }
+
   /**
    * 获取Solana代币信息
    */
@@ -179,6 +286,16 @@ export class TokenService {
       const parsedData = accountData.parsed.info;
       const decimals = parsedData.decimals || 0;
 
+      // Token-2022 扩展仅用于创建活动时提示，发送前 SolanaService 会按链上数据再次校验
+      const extensions: Array<{ extension: string; state?: any }> = parsedData.extensions || [];
+      const findExtension = (name: string) => extensions.find(item => item.extension === name);
+      const transferFeeBasisPoints = findExtension('transferFeeConfig')?.state?.newerTransferFee?.transferFeeBasisPoints || undefined;
+      const unsupportedExtension = findExtension('nonTransferable') ? 'NonTransferable'
+        : findExtension('transferHook')?.state?.programId ? 'TransferHook'
+        : findExtension('defaultAccountState')?.state?.accountState === 'frozen' ? 'DefaultAccountState (frozen)'
+        : findExtension('pausableConfig')?.state?.paused ? 'Pausable (paused)'
+        : undefined;
+
       // 尝试获取 Metaplex token metadata
       let name = 'SPL Token';
       let symbol = 'SPL';
@@ -209,6 +326,9 @@ export class TokenService {
         decimals,
         address: tokenAddress,
         chainType: 'solana',
+        isNft: decimals === 0 && parsedData.supply === '1',
+        transferFeeBasisPoints,
+        unsupportedExtension,
       };
     } catch (error) {
       console.error(`Failed to get Solana token info for ${tokenAddress}:`, error);
@@ -328,4 +448,199 @@ export class TokenService {
       };
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * 探测 EVM ERC20 代币的转账行为：在持币地址上模拟一笔转账比较双方余额变化（转账手续费）、识别 rebase 接口和黑名单查询函数，
+   * 并逐个检查地址是否已被拉黑。各项探测失败只记为警告，不阻止创建活动
+   */
+  async probeTokenBehavior(tokenAddress: string, chainId: string, addresses: string[], senderAddress?: string): Promise<TokenBehaviorReport> {
+    const chain = await this.chainService.getChainById(parseInt(chainId));
+    if (!chain) {
+      throw new Error(`Chain ${chainId} not found`);
+    }
+    if (chain.type !== 'evm') {
+      throw new Error('Token behavior probe only supports EVM chains');
+    }
+    if (!ethers.isAddress(tokenAddress)) {
+      throw new Error('Invalid EVM token address format');
+    }
+
+    const provider = new ethers.JsonRpcProvider(chain.rpcUrl, undefined, {
+      batchMaxCount: 1,
+      polling: false,
+    });
+    const sender = senderAddress && ethers.isAddress(senderAddress) ? ethers.getAddress(senderAddress) : undefined;
+    const report: TokenBehaviorReport = { simulated: false, blockedAddresses: [], checkedAddresses: 0, warnings: [] };
+
+    report.rebasingInterface = await this.findViewFunction(provider, tokenAddress, REBASING_FUNCTIONS, value => value !== null);
+    if (report.rebasingInterface) {
+      report.warnings.push(`代币实现了 ${report.rebasingInterface}，可能是 rebase 代币：余额会随时间变化，到账金额可能与 CSV 存在取整误差`);
+    }
+
+    try {
+      await this.simulateProbeTransfer(provider, tokenAddress, sender, report);
+    } catch (error) {
+      const reason = (error as any)?.shortMessage || (error instanceof Error ? error.message : '未知错误');
+      report.warnings.push(`模拟转账失败，无法检测转账手续费：${reason}`);
+    }
+
+    report.blocklistFunction = await this.findViewFunction(provider, tokenAddress, BLOCKLIST_FUNCTIONS, value => value === 0n || value === 1n);
+    if (report.blocklistFunction) {
+      const targets = [...new Set([...(sender ? [sender] : []), ...addresses.filter(address => ethers.isAddress(address)).map(address => ethers.getAddress(address))])];
+      for (let i = 0; i < targets.length; i += BLOCKLIST_CHECK_CONCURRENCY) {
+        const chunk = targets.slice(i, i + BLOCKLIST_CHECK_CONCURRENCY);
+        const flags = await Promise.all(chunk.map(address => this.callView(provider, tokenAddress, report.blocklistFunction!, address)));
+        chunk.forEach((address, index) => {
+          if (flags[index] === 1n) {
+            report.blockedAddresses.push(address);
+          }
+        });
+      }
+      report.checkedAddresses = targets.length;
+
+      if (sender && report.blockedAddresses.includes(sender)) {
+        report.warnings.push(`发送钱包 ${sender} 已被代币黑名单（${report.blocklistFunction}）拦截，无法发送`);
+      }
+      const blockedRecipients = report.blockedAddresses.filter(address => address !== sender);
+      if (blockedRecipients.length > 0) {
+        const preview = blockedRecipients.slice(0, 5).join(', ');
+        report.warnings.push(
+          `${blockedRecipients.length} 个接收地址已被代币黑名单（${report.blocklistFunction}）拦截，发送给它们会失败：${preview}${blockedRecipients.length > 5 ? ' 等' : ''}`
+        );
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * 把探测合约放到持币地址上，向随机生成的一次性地址转出至多 1 个代币，比较发送方扣减与接收方到账
+   */
+  private async simulateProbeTransfer(
+    provider: ethers.JsonRpcProvider,
+    tokenAddress: string,
+    senderAddress: string | undefined,
+    report: TokenBehaviorReport
+  ): Promise<void> {
+    const token = new ethers.Contract(tokenAddress, ERC20_BALANCE_ABI, provider);
+    const holder = await this.findTokenHolder(provider, token, tokenAddress, senderAddress);
+    if (!holder) {
+      report.warnings.push('未找到持有该代币的地址，无法模拟转账检测转账手续费');
+      return;
+    }
+
+    const decimals = Number(await token.decimals().catch(() => 18));
+    const unit = 10n ** BigInt(decimals);
+    const amount = holder.balance < unit ? holder.balance : unit;
+    const throwaway = ethers.getAddress(ethers.hexlify(ethers.randomBytes(20)));
+
+    const probe = new ethers.Interface(TOKEN_BEHAVIOR_PROBE_ABI);
+    const result = await provider.send('eth_call', [
+      { to: holder.address, data: probe.encodeFunctionData('probeTransfer', [tokenAddress, throwaway, amount]) },
+      'latest',
+      { [holder.address]: { code: TOKEN_BEHAVIOR_PROBE_RUNTIME } }
+    ]);
+    const [debited, received] = probe.decodeFunctionResult('probeTransfer', result) as unknown as [bigint, bigint];
+
+    report.simulated = true;
+    report.holderAddress = holder.address;
+    report.probeAmount = amount.toString();
+    report.debitedAmount = debited.toString();
+    report.receivedAmount = received.toString();
+
+    const shortfall = amount - received;
+    const tolerance = report.rebasingInterface ? REBASE_ROUNDING_TOLERANCE : 0n;
+    if (received === 0n) {
+      report.warnings.push('模拟转账后接收地址没有收到代币，该代币可能限制转账或全额收取手续费');
+    } else if (shortfall > tolerance) {
+      report.transferFeeBasisPoints = Number((shortfall * 10000n + amount - 1n) / amount);
+      report.warnings.push(
+        `代币每笔转账扣除约 ${report.transferFeeBasisPoints / 100}% 手续费，接收者到账少于发送金额；开启按到账金额发送可自动上调发送金额`
+      );
+    }
+    if (debited > amount + tolerance) {
+      const extraBasisPoints = Number(((debited - amount) * 10000n + amount - 1n) / amount);
+      report.warnings.push(`代币转账时发送方额外扣减约 ${extraBasisPoints / 100}%，实际需要的代币多于待发送总额`);
+    }
+  }
+
+  /**
+   * 优先使用发送钱包，否则从最近的 Transfer 事件中找一个有余额的外部账户（合约地址可能在代币的手续费豁免名单中）
+   */
+  private async findTokenHolder(
+    provider: ethers.JsonRpcProvider,
+    token: ethers.Contract,
+    tokenAddress: string,
+    senderAddress?: string
+  ): Promise<{ address: string; balance: bigint } | null> {
+    if (senderAddress) {
+      const balance: bigint = await token.balanceOf(senderAddress).catch(() => 0n);
+      if (balance > 0n) {
+        return { address: senderAddress, balance };
+      }
+    }
+
+    let candidates: string[] = [];
+    try {
+      const latest = await provider.getBlockNumber();
+      const logs = await provider.getLogs({
+        address: tokenAddress,
+        topics: [TRANSFER_EVENT_TOPIC],
+        fromBlock: Math.max(latest - HOLDER_LOOKBACK_BLOCKS, 0),
+        toBlock: latest
+      });
+      // ERC20 Transfer 有 3 个 topic，接收方在 topics[2]；越新的接收方越可能仍有余额
+      candidates = [...new Set(logs
+        .filter(log => log.topics.length === 3)
+        .reverse()
+        .map(log => ethers.getAddress(ethers.dataSlice(log.topics[2], 12)))
+        .filter(address => address !== ethers.ZeroAddress))
+      ].slice(0, MAX_HOLDER_CANDIDATES);
+    } catch (error) {
+      console.warn(`Failed to query Transfer logs for ${tokenAddress}:`, error);
+    }
+
+    for (const address of candidates) {
+      const code = await provider.getCode(address);
+      // EIP-7702 委托账户仍是外部账户
+      if (code !== '0x' && !code.startsWith('0xef0100')) {
+        continue;
+      }
+      const balance: bigint = await token.balanceOf(address).catch(() => 0n);
+      if (balance > 0n) {
+        return { address, balance };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * 依次尝试候选查询函数，返回第一个调用成功且返回值符合预期的函数签名
+   */
+  private async findViewFunction(
+    provider: ethers.JsonRpcProvider,
+    tokenAddress: string,
+    signatures: string[],
+    accept: (value: bigint | null) => boolean
+  ): Promise<string | undefined> {
+    for (const signature of signatures) {
+      if (accept(await this.callView(provider, tokenAddress, signature, ethers.ZeroAddress))) {
+        return signature;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 调用只返回一个字的查询函数；函数不存在（回滚）或返回长度不对时返回 null
+   */
+  private async callView(provider: ethers.JsonRpcProvider, tokenAddress: string, signature: string, account: string): Promise<bigint | null> {
+    const args = signature.endsWith('(address)') ? ethers.AbiCoder.defaultAbiCoder().encode(['address'], [account]) : '0x';
+    try {
+      const result = await provider.call({ to: tokenAddress, data: ethers.concat([ethers.id(signature).slice(0, 10), args]) });
+      return ethers.dataLength(result) === 32 ? BigInt(result) : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -6,11 +6,14 @@ import { logger } from '../utils/logger';
 
 export interface ActivityWallet {
   id: string;
+  walletId?: string;
   campaignId: string;
   campaignName: string;
   address: string;
   chain: string;
   status: string;
+  imported?: boolean;
+  external?: boolean;
   balances: Array<{
     tokenAddress: string;
     tokenSymbol: string;
@@ -23,7 +26,6 @@ export interface ActivityWallet {
   createdAt: string;
   updatedAt: string;
   lastBalanceUpdate?: string;
-  privateKeyBase64?: string;
 }
 
 export class WalletManagementService {
@@ -60,7 +62,8 @@ export class WalletManagementService {
           c.status,
           c.token_address,
           c.token_symbol,
-          c.wallet_private_key_base64 as private_key_base64,
+          c.wallet_imported,
+          c.signing_mode,
           c.created_at,
           c.updated_at
         FROM campaigns c
@@ -111,6 +114,8 @@ export class WalletManagementService {
             address: row.address,
             chain: chain,
             status: row.status,
+            imported: !!row.wallet_imported,
+            external: row.signing_mode === 'EXTERNAL',
             balances: [
               {
                 tokenAddress: row.token_address || NATIVE_TOKEN_ADDRESSES.EVM,
@@ -125,7 +130,6 @@ export class WalletManagementService {
             createdAt: row.created_at,
             updatedAt: row.updated_at,
             lastBalanceUpdate: new Date().toISOString(),
-            privateKeyBase64: row.private_key_base64,
           };
         })
       );
@@ -1,3 +1,4 @@
+import * as crypto from 'crypto';
 import { ethers } from 'ethers';
 import { Keypair } from '@solana/web3.js';
 import bs58 from 'bs58';
@@ -11,6 +12,14 @@ interface WalletData {
   type: 'evm' | 'solana';
 }
 
+export type ImportedWalletFormat = 'evm-private-key' | 'evm-keystore' | 'solana-keypair-json' | 'solana-base58';
+
+export interface ImportedWalletInput {
+  format: ImportedWalletFormat;
+  secret: string;
+  password?: string; // keystore v3 解密密码
+}
+
 export class WalletService {
   constructor() {
     // Simplified - no password protection needed
@@ -54,6 +63,146 @@ export class WalletService {
     }
   }
 
+  /**
+   * Import an existing wallet (bring your own wallet) and validate it against the declared chain type
+   */
+  async importWallet(input: ImportedWalletInput, chainType: 'evm' | 'solana'): Promise<WalletData> {
+    const keyChainType = input.format.startsWith('solana') ? 'solana' : 'evm';
+    if (keyChainType !== chainType) {
+      throw new Error(`Imported ${keyChainType.toUpperCase()} key cannot be used on a ${chainType.toUpperCase()} chain`);
+    }
+
+    const secret = (input.secret || '').trim();
+    if (!secret) {
+      throw new Error('Imported wallet key is empty');
+    }
+
+    let wallet: WalletData;
+    switch (input.format) {
+      case 'evm-private-key': {
+        const hex = secret.startsWith('0x') ? secret : `0x${secret}`;
+        if (!/^0x[0-9a-fA-F]{64}$/.test(hex)) {
+          throw new Error('EVM private key must be 32 bytes of hex');
+        }
+        const evmWallet = new ethers.Wallet(hex);
+        wallet = { address: evmWallet.address, privateKeyBase64: KeyUtils.encodeEVMPrivateKey(evmWallet.privateKey), type: 'evm' };
+        break;
+      }
+      case 'evm-keystore': {
+        let evmWallet: ethers.Wallet | ethers.HDNodeWallet;
+        try {
+          evmWallet = await ethers.Wallet.fromEncryptedJson(secret, input.password || '');
+        } catch (error) {
+          console.error('Failed to decrypt keystore:', error);
+          throw new Error('Keystore could not be decrypted. Check the file and password');
+        }
+        wallet = { address: evmWallet.address, privateKeyBase64: KeyUtils.encodeEVMPrivateKey(evmWallet.privateKey), type: 'evm' };
+        break;
+      }
+      case 'solana-keypair-json':
+      case 'solana-base58': {
+        let secretKey: Uint8Array;
+        try {
+          secretKey = input.format === 'solana-base58'
+            ? bs58.decode(secret)
+            : Uint8Array.from(JSON.parse(secret) as number[]);
+        } catch (error) {
+          console.error('Failed to parse Solana secret key:', error);
+          throw new Error('Solana secret key could not be parsed');
+        }
+        if (secretKey.length !== 64) {
+          throw new Error(`Solana secret key must be 64 bytes (got ${secretKey.length})`);
+        }
+        // fromSecretKey 会校验私钥与公钥是否匹配
+        const keypair = Keypair.fromSecretKey(secretKey);
+        wallet = { address: keypair.publicKey.toBase58(), privateKeyBase64: KeyUtils.encodeSolanaPrivateKey(keypair.secretKey), type: 'solana' };
+        break;
+      }
+      default:
+        throw new Error(`Unsupported wallet import format: ${input.format}`);
+    }
+
+    if (!KeyUtils.validatePrivateKey(wallet.privateKeyBase64, chainType).isValid) {
+      throw new Error(`Imported key is not a valid ${chainType.toUpperCase()} private key`);
+    }
+    if (!ChainUtils.isValidAddress(wallet.address, chainType)) {
+      throw new Error(`Imported wallet address is not a valid ${chainType.toUpperCase()} address`);
+    }
+
+    return wallet;
+  }
+
+  /**
+   * Derive EVM wallet from BIP-39 mnemonic at BIP-44 path m/44'/60'/0'/0/{index}
+   */
+  deriveEVMWallet(mnemonic: string, index: number): WalletData {
+    try {
+      const wallet = ethers.HDNodeWallet.fromPhrase(mnemonic, undefined, this.getEVMDerivationPath(index));
+
+      return {
+        address: wallet.address,
+        privateKeyBase64: KeyUtils.encodeEVMPrivateKey(wallet.privateKey),
+        type: 'evm'
+      };
+    } catch (error) {
+      console.error('Failed to derive EVM wallet:', error);
+      throw new Error('EVM wallet derivation failed');
+    }
+  }
+
+  /**
+   * Derive Solana wallet from BIP-39 mnemonic at path m/44'/501'/{index}'/0' (SLIP-0010 ed25519, same as Phantom/Solflare)
+   */
+  deriveSolanaWallet(mnemonic: string, index: number): WalletData {
+    try {
+      const seed = Buffer.from(ethers.Mnemonic.fromPhrase(mnemonic).computeSeed().slice(2), 'hex');
+      const keypair = Keypair.fromSeed(this.deriveEd25519Key(seed, this.getSolanaDerivationPath(index)));
+      seed.fill(0);
+
+      return {
+        address: keypair.publicKey.toBase58(),
+        privateKeyBase64: KeyUtils.encodeSolanaPrivateKey(keypair.secretKey),
+        type: 'solana'
+      };
+    } catch (error) {
+      console.error('Failed to derive Solana wallet:', error);
+      throw new Error('Solana wallet derivation failed');
+    }
+  }
+
+  getEVMDerivationPath(index: number): string {
+    return `m/44'/60'/0'/0/${index}`;
+  }
+
+  getSolanaDerivationPath(index: number): string {
+    return `m/44'/501'/${index}'/0'`;
+  }
+
+  /**
+   * SLIP-0010 ed25519 key derivation (hardened segments only)
+   */
+  private deriveEd25519Key(seed: Buffer, path: string): Buffer {
+    let digest = crypto.createHmac('sha512', 'ed25519 seed').update(seed).digest();
+    let key = digest.subarray(0, 32);
+    let chainCode = digest.subarray(32);
+
+    for (const segment of path.split('/').slice(1)) {
+      if (!segment.endsWith("'")) {
+        throw new Error(`ed25519 derivation only supports hardened segments: ${path}`);
+      }
+      const index = Buffer.alloc(4);
+      index.writeUInt32BE((parseInt(segment.slice(0, -1), 10) + 0x80000000) >>> 0);
+
+      digest = crypto.createHmac('sha512', chainCode)
+        .update(Buffer.concat([Buffer.alloc(1, 0), key, index]))
+        .digest();
+      key = digest.subarray(0, 32);
+      chainCode = digest.subarray(32);
+    }
+
+    return Buffer.from(key);
+  }
+
   /**
    * Decode base64 private key to hex string
    */
@@ -14,12 +14,60 @@ export interface CreateCampaignRequest {
   chainType: 'evm' | 'solana';
   tokenAddress: string;
   tokenSymbol?: string;
+  tokenDecimals?: number; // 锁仓释放按代币精度拆分解锁批次
+  tokenStandard?: TokenStandard; // ERC721 / ERC1155 为 NFT 空投（默认 ERC20）
+  tokenLegs?: TokenLegInput[]; // EVM 多代币活动：2-5 个代币，第一个与 tokenAddress 相同，接收者按顺序填写 amounts
+  netDelivery?: boolean; // 转账手续费代币：按到账金额反推发送金额，手续费由发送方承担（EVM 按创建时探测的到账比例上调金额）
   batchSize: number;
+  pipelineDepth?: number; // EVM：同一钱包同时在途的批次数（1 = 逐批发送并等待确认）
+  batchMode?: 'ATOMIC' | 'BEST_EFFORT'; // EVM：ATOMIC 任一转账失败整批回滚；BEST_EFFORT 跳过失败的转账（默认 ATOMIC）
+  isolateFailures?: boolean; // 批次回滚时二分定位失败的接收者，只将其标记为失败（默认开启）
+  distributionMode?: 'PUSH' | 'MERKLE_CLAIM'; // EVM：MERKLE_CLAIM 部署 Merkle 分发合约，由接收者自行领取（默认 PUSH）
+  claimExpiresAt?: string; // 领取截止时间（ISO），之后可回收未领取的部分
+  vesting?: VestingSchedule; // 锁仓释放计划，按解锁时间分批发送
+  stuckTimeoutSeconds?: number; // EVM：交易超过该时间未上链视为卡住并自动加速（默认 180）
+  maxFeePerGasGwei?: string; // EVM：加速时 maxFeePerGas 的上限 (Gwei)，不设则不限制
+  priorityFeeLevel?: SolanaPriorityLevel; // Solana：优先费档位，按最近费率的分位数定价（默认 normal）
+  maxPriorityFeeLamports?: number; // Solana：每笔交易的优先费上限 (lamports)，不设则不限制
   sendInterval: number;
   recipients: Array<{
     address: string;
     amount: string;
+    tokenId?: string; // NFT 活动必填；ERC721 的 amount 固定为 1
+    amounts?: string[]; // 多代币活动按 tokenLegs 顺序的金额，空值或 0 表示不发该代币
+    vesting?: VestingSchedule; // 覆盖活动默认的释放计划
   }>;
+  importedWallet?: ImportedWalletInput; // 使用自有钱包作为发送方（不传则创建新钱包）
+  externalSignerAddress?: string; // 外部签名模式：本机不保存私钥，交易由该地址离线签名
+}
+
+export type TokenStandard = 'ERC20' | 'ERC721' | 'ERC1155';
+
+export interface TokenLegInput {
+  tokenAddress: string; // 原生代币使用零地址
+  tokenSymbol?: string;
+  tokenDecimals?: number; // ERC20 必填，原生代币固定为 18
+}
+
+export interface TokenLeg {
+  tokenAddress: string;
+  tokenSymbol?: string;
+  tokenDecimals: number;
+}
+
+export type SolanaPriorityLevel = 'economy' | 'normal' | 'urgent';
+
+export type ImportedWalletFormat = 'evm-private-key' | 'evm-keystore' | 'solana-keypair-json' | 'solana-base58';
+
+export interface ImportedWalletInput {
+  format: ImportedWalletFormat;
+  secret: string;
+  password?: string; // keystore v3 解密密码
+}
+
+export interface WithdrawOptions {
+  allowImportedWallet?: boolean; // 导入的钱包必须明确允许才会转出资金
+  tokenAddress?: string; // 多代币活动回收的 ERC20 代币（默认活动的主代币）
 }
 
 export interface CampaignFilters {
@@ -37,13 +85,33 @@ export interface Campaign {
   chainType: 'evm' | 'solana';
   tokenAddress: string;
   tokenSymbol?: string;
+  tokenStandard?: TokenStandard;
+  netDelivery?: boolean;
+  tokenWarnings?: string[]; // 创建时代币行为探测发现的问题
+  tokenLegs?: TokenLeg[]; // 多代币活动的代币列表
   status: 'CREATED' | 'FUNDED' | 'READY' | 'SENDING' | 'PAUSED' | 'COMPLETED' | 'FAILED';
   totalRecipients: number;
   completedRecipients: number;
   failedRecipients: number;
   walletAddress?: string;
+  walletId?: string;
+  derivationIndex?: number;
+  walletImported?: boolean;
+  signingMode?: 'LOCAL' | 'EXTERNAL';
   contractAddress?: string;
   batchSize: number;
+  pipelineDepth?: number;
+  batchMode?: 'ATOMIC' | 'BEST_EFFORT';
+  isolateFailures?: boolean;
+  distributionMode?: 'PUSH' | 'MERKLE_CLAIM';
+  claimExpiresAt?: string;
+  merkleRoot?: string;
+  distributorAddress?: string;
+  vesting?: VestingSchedule;
+  stuckTimeoutSeconds?: number;
+  maxFeePerGasGwei?: string;
+  priorityFeeLevel?: SolanaPriorityLevel;
+  maxPriorityFeeLamports?: number;
   sendInterval: number;
   gasUsed: number;
   gasCostUsd: number;
@@ -63,6 +131,8 @@ export interface CampaignRecipient {
   status: 'pending' | 'success' | 'failed';
   transactionHash?: string;
   error?: string;
+  tokenId?: string; // NFT 活动的 token ID
+  legIndex?: number; // 多代币活动中记录所属的代币（tokenLegs 下标）
 }
 
 export interface Transaction {
@@ -78,6 +148,134 @@ export interface Transaction {
   confirmedAt?: string;
 }
 
+export interface TransactionReplacementResponse {
+  success: boolean;
+  txHash: string; // 替换交易的哈希
+}
+
+// 中断批次的链上对账结果（恢复或启动时生成）
+export interface ReconciledBatch {
+  batchNumber: number;
+  recipientCount: number;
+  sent: number;
+  requeued: number;
+  review: number;
+  inFlight: number;
+  txHash?: string;
+  reason: string;
+}
+
+export interface ReconciliationReport {
+  id: string;
+  campaignId: string;
+  trigger: 'STARTUP' | 'RESUME' | 'NONCE_CONSUMED';
+  sentCount: number;
+  requeuedCount: number;
+  reviewCount: number;
+  inFlightCount: number;
+  batches: ReconciledBatch[];
+  createdAt: string;
+}
+
+// 模拟发送（dry run）结果
+export interface DryRunIssue {
+  batchNumber: number;
+  address?: string; // 为空表示整个批次的问题
+  amount?: string;
+  category: 'INSUFFICIENT_BALANCE' | 'GAS_ERROR' | 'NONCE_ERROR' | 'NETWORK_ERROR' | 'CONTRACT_REVERT' | 'UNKNOWN_ERROR';
+  message: string;
+}
+
+export interface DryRunReport {
+  campaignId: string;
+  batchCount: number;
+  recipientCount: number;
+  passedBatches: number;
+  failedBatches: number;
+  estimatedGas: string;
+  warnings: string[];
+  issues: DryRunIssue[];
+  createdAt: string;
+}
+
+// 领取式空投（Merkle 分发合约）
+export interface MerkleDeploymentResponse {
+  success: boolean;
+  distributorAddress: string;
+  merkleRoot: string;
+  totalAmount: string;
+  deployTxHash?: string;
+  fundTxHash?: string;
+}
+
+export interface ClaimSyncResult {
+  newClaims: number;
+  claimedCount: number;
+  totalRecipients: number;
+  syncedBlock: number;
+  completed: boolean;
+}
+
+export interface ClaimProofExportResponse {
+  success: boolean;
+  cancelled?: boolean;
+  filePath?: string;
+  format?: 'json' | 'csv';
+  count?: number;
+}
+
+export interface SweepUnclaimedResponse {
+  success: boolean;
+  txHash: string;
+  amount: string;
+  unclaimedCount: number;
+}
+
+// Solana 活动结束后回收租金：转出剩余代币、关闭代币账户和地址查找表
+export interface FinalizeWalletResult {
+  sweptTokens: Array<{ mint: string; amount: string; transactionHash: string }>;
+  closedTokenAccounts: string[];
+  closedLookupTables: string[];
+  pendingLookupTables: string[]; // 查找表停用后需等待约 512 个 slot 才能关闭
+  skippedAccounts: Array<{ address: string; reason: string }>;
+  rentRecoveredLamports: string;
+  solSwept: string; // lamports，有查找表尚未关闭时为 0
+  transactionHashes: string[];
+}
+
+// 锁仓释放：每个接收者的金额按计划拆分为多个解锁批次
+export interface VestingSchedule {
+  startAt: string; // 释放开始时间（ISO）
+  cliffSeconds: number; // 锁定期，期间不释放
+  durationSeconds: number; // 从开始到全部释放的总时长（0 = 锁定期结束时一次释放）
+  intervalSeconds: number; // 解锁间隔
+}
+
+export interface VestingTranche {
+  trancheIndex: number;
+  unlockAt: string;
+  amount: string;
+  status: 'PENDING' | 'PROCESSING' | 'SENT' | 'FAILED';
+  txHash?: string;
+  errorMessage?: string;
+}
+
+export interface VestingScheduleEntry {
+  address: string;
+  totalAmount: string;
+  releasedAmount: string; // 已发放
+  unlockedAmount: string; // 已解锁、等待发送
+  lockedAmount: string; // 尚未解锁
+  failedAmount: string;
+  nextUnlockAt?: string;
+  tranches: VestingTranche[];
+}
+
+export interface CampaignResumeResponse {
+  success: boolean;
+  reconciliation: ReconciliationReport | null;
+}
+
 export interface TransactionOptions {
   status?: 'pending' | 'confirmed' | 'failed';
   limit?: number;
@@ -90,6 +288,8 @@ export interface EstimateRequest {
   tokenAddress: string;
   recipientCount: number;
   batchSize: number;
+  priorityFeeLevel?: SolanaPriorityLevel;
+  maxPriorityFeeLamports?: number;
 }
 
 export interface EstimateResponse {
@@ -127,11 +327,14 @@ export interface WalletData {
 
 export interface ActivityWallet {
   id: string;
+  walletId?: string;
   campaignId: string;
   campaignName: string;
   address: string;
   chain: string;
   status: string;
+  imported?: boolean;
+  external?: boolean;
   balances: Array<{
     tokenAddress: string;
     tokenSymbol: string;
@@ -144,7 +347,143 @@ export interface ActivityWallet {
   createdAt: string;
   updatedAt: string;
   lastBalanceUpdate?: string;
-  privateKeyBase64?: string;
+}
+
+export interface KeystoreExportRequest {
+  walletId: string;
+  masterPassphrase: string;
+  exportPassword?: string;
+}
+
+export interface KeystoreExportResult {
+  success: boolean;
+  filePath?: string;
+  format?: 'keystore-v3' | 'solana-keypair';
+  cancelled?: boolean;
+}
+
+export interface KeyAuditEntry {
+  id: number;
+  campaignId?: string;
+  walletAddress?: string;
+  action: string;
+  detail?: string;
+  createdAt: string;
+}
+
+// ============================================================================
+// Key Vault Types
+// ============================================================================
+
+export interface KeyVaultStatus {
+  initialized: boolean;
+  unlocked: boolean;
+  autoLockMinutes: number;
+  unlockExpiresAt?: string;
+  plaintextKeyCount: number;
+}
+
+// ============================================================================
+// HD Treasury Seed Types
+// ============================================================================
+
+export interface HDSeedStatus {
+  configured: boolean;
+  fingerprint?: string;
+  nextEvmIndex: number;
+  nextSolanaIndex: number;
+  derivedWalletCount: number;
+}
+
+export interface HDSeedCreateResult {
+  mnemonic: string;
+  status: HDSeedStatus;
+}
+
+export interface HDDiscoveryRequest {
+  chainIds?: number[];
+  gapLimit?: number;
+}
+
+export interface HDDiscoveredWallet {
+  chainType: 'evm' | 'solana';
+  index: number;
+  derivationPath: string;
+  address: string;
+  campaignId?: string;
+  campaignName?: string;
+  activeNetworks: string[];
+}
+
+export interface HDDiscoveryResult {
+  wallets: HDDiscoveredWallet[];
+  nextEvmIndex: number;
+  nextSolanaIndex: number;
+}
+
+// ============================================================================
+// External Signing Types
+// ============================================================================
+
+export type SigningPurpose = 'DEPLOY_CONTRACT' | 'APPROVE_TOKENS' | 'CREATE_TOKEN_ACCOUNTS' | 'BATCH_SEND';
+
+export interface SigningRequest {
+  id: string;
+  campaignId: string;
+  chainType: 'evm' | 'solana';
+  purpose: SigningPurpose;
+  batchNumber?: number;
+  fromAddress: string;
+  summary?: string;
+  filePath: string;
+  status: 'PENDING' | 'SIGNED' | 'BROADCAST' | 'EXPIRED' | 'CANCELLED' | 'FAILED';
+  txHash?: string;
+  errorMessage?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SignatureSubmitResult {
+  requestId: string;
+  status: 'SIGNED' | 'EXPIRED'; // EXPIRED: Solana 区块哈希已过期，已生成新的待签名请求
+}
+
+export interface UnsignedFileSaveResult {
+  success: boolean;
+  filePath?: string;
+  cancelled?: boolean;
+}
+
+// ============================================================================
+// Safe Multisig Types
+// ============================================================================
+
+export interface SafeBatch {
+  id: string;
+  campaignId: string;
+  safeAddress: string;
+  batchNumber: number;
+  recipientCount: number;
+  totalAmount: string;
+  filePath: string;
+  status: 'EXPORTED' | 'EXECUTED' | 'DISCARDED';
+  txHash?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SafeBatchExportResponse {
+  success: boolean;
+  cancelled?: boolean;
+  outputDir?: string;
+  batches?: SafeBatch[];
+}
+
+export interface SafeExecutionResult {
+  txHash: string;
+  safeAddress: string;
+  executedBatches: number[];
+  recipientCount: number;
 }
 
 export interface WalletListOptions {
@@ -334,6 +673,44 @@ export interface TokenInfo {
   symbol: string;
   decimals: number;
   totalSupply?: string;
+  standard?: TokenStandard; // EVM 通过 ERC-165 识别 NFT 合约
+  isNft?: boolean; // Solana：decimals 为 0 且供应量为 1 的 NFT mint
+  transferFeeBasisPoints?: number; // Solana Token-2022 转账手续费（基点）
+  unsupportedExtension?: string; // Solana Token-2022 中无法批量发送的扩展
+}
+
+// 接收地址类型检查：EOA、合约、Safe 多签、EIP-7702 委托账户
+export type RecipientAccountType = 'EOA' | 'CONTRACT' | 'SAFE' | 'EIP7702';
+
+export interface RecipientAccount {
+  address: string;
+  accountType: RecipientAccountType;
+  delegate?: string; // EIP-7702 委托的合约地址
+  rejectsNative?: boolean; // 原生代币活动：按发送金额模拟的调用回滚
+  reason?: string;
+  flagged: boolean; // 需要排除或确认后才能创建活动
+}
+
+export interface RecipientCheckResult {
+  checked: number;
+  counts: Record<RecipientAccountType, number>;
+  flaggedCount: number;
+  accounts: RecipientAccount[]; // 只列出非 EOA 地址
+}
+
+// EVM ERC20 代币行为探测：模拟转账检测手续费、识别 rebase 与黑名单，金额均为最小单位
+export interface TokenBehaviorReport {
+  simulated: boolean; // 找到持币地址并模拟了一笔转账
+  holderAddress?: string;
+  probeAmount?: string;
+  debitedAmount?: string; // 发送方实际扣减
+  receivedAmount?: string; // 接收方实际到账
+  transferFeeBasisPoints?: number; // 到账少于转账金额时的手续费（基点）
+  rebasingInterface?: string;
+  blocklistFunction?: string;
+  blockedAddresses: string[];
+  checkedAddresses: number;
+  warnings: string[];
 }
 
 export interface ValidateAddressRequest {
@@ -0,0 +1,61 @@
+import { ethers } from 'ethers';
+
+/**
+ * 领取式空投的 Merkle 树，与 contracts/src/MerkleDistributor.sol 的校验方式一致：
+ * 叶子为 keccak256(abi.encodePacked(index, account, amount))，父节点对两个子节点按大小排序后哈希，落单的节点直接上移
+ */
+export class MerkleTree {
+  private layers: string[][];
+
+  constructor(leaves: string[]) {
+    if (leaves.length === 0) {
+      throw new Error('Merkle tree needs at least one leaf');
+    }
+
+    this.layers = [leaves];
+    let current = leaves;
+    while (current.length > 1) {
+      const next: string[] = [];
+      for (let i = 0; i < current.length; i += 2) {
+        next.push(i + 1 < current.length ? MerkleTree.hashPair(current[i], current[i + 1]) : current[i]);
+      }
+      this.layers.push(next);
+      current = next;
+    }
+  }
+
+  static claimLeaf(index: number, account: string, amount: bigint): string {
+    return ethers.solidityPackedKeccak256(['uint256', 'address', 'uint256'], [index, account, amount]);
+  }
+
+  static hashPair(a: string, b: string): string {
+    // keccak256 输出为等长小写十六进制，字符串比较即数值比较
+    return a < b ? ethers.keccak256(ethers.concat([a, b])) : ethers.keccak256(ethers.concat([b, a]));
+  }
+
+  static verify(proof: string[], leaf: string, root: string): boolean {
+    return proof.reduce((node, sibling) => MerkleTree.hashPair(node, sibling), leaf) === root;
+  }
+
+  getRoot(): string {
+    return this.layers[this.layers.length - 1][0];
+  }
+
+  getProof(index: number): string[] {
+    if (index < 0 || index >= this.layers[0].length) {
+      throw new Error(`Leaf index ${index} is out of range`);
+    }
+
+    const proof: string[] = [];
+    let position = index;
+    for (let level = 0; level < this.layers.length - 1; level++) {
+      const layer = this.layers[level];
+      const sibling = position ^ 1;
+      if (sibling < layer.length) {
+        proof.push(layer[sibling]);
+      }
+      position = Math.floor(position / 2);
+    }
+    return proof;
+  }
+}
@@ -0,0 +1,81 @@
+import { ethers } from 'ethers';
+
+// 单个接收者最多拆分的解锁批次（每周解锁 10 年）
+export const MAX_VESTING_TRANCHES = 520;
+
+export interface VestingSchedule {
+  startAt: string; // ISO 时间，释放开始
+  cliffSeconds: number; // 锁定期，期间不释放
+  durationSeconds: number; // 从开始到全部释放的总时长
+  intervalSeconds: number; // 解锁间隔
+}
+
+export interface VestingTranche {
+  trancheIndex: number;
+  unlockAt: string; // ISO 时间
+  amount: string;
+}
+
+/**
+ * 校验释放计划，返回以秒为单位的开始时间
+ */
+export function validateVestingSchedule(schedule: VestingSchedule): number {
+  const start = Date.parse(schedule.startAt);
+  if (Number.isNaN(start)) {
+    throw new Error('Vesting start time is invalid');
+  }
+
+  const { cliffSeconds, durationSeconds, intervalSeconds } = schedule;
+  for (const [name, value] of [['cliff', cliffSeconds], ['duration', durationSeconds], ['interval', intervalSeconds]] as const) {
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`Vesting ${name} must be a non-negative whole number of seconds`);
+    }
+  }
+  if (durationSeconds > 0 && (intervalSeconds <= 0 || intervalSeconds > durationSeconds)) {
+    throw new Error('Vesting interval must be between 1 second and the vesting duration');
+  }
+  if (durationSeconds > 0 && Math.ceil(durationSeconds / intervalSeconds) > MAX_VESTING_TRANCHES) {
+    throw new Error(`Vesting schedule cannot have more than ${MAX_VESTING_TRANCHES} unlocks`);
+  }
+
+  return Math.floor(start / 1000);
+}
+
+/**
+ * 按锁定期 + 线性释放拆分解锁批次
+ *
+ * 解锁点为 start + k·interval（最后一个为 start + duration），已释放量按经过时间线性计算；
+ * 锁定期结束前累计的部分在锁定期后的第一个解锁点一次释放，最后一个批次补齐舍入余数。
+ * duration 为 0 或不超过锁定期时，全部金额在锁定期结束时一次释放。
+ */
+export function buildVestingTranches(amount: string, decimals: number, schedule: VestingSchedule): VestingTranche[] {
+  const start = validateVestingSchedule(schedule);
+  const total = ethers.parseUnits(amount, decimals);
+  const { cliffSeconds, durationSeconds, intervalSeconds } = schedule;
+  const toIso = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+  if (durationSeconds === 0 || cliffSeconds >= durationSeconds) {
+    return [{ trancheIndex: 0, unlockAt: toIso(start + cliffSeconds), amount: ethers.formatUnits(total, decimals) }];
+  }
+
+  const steps = Math.ceil(durationSeconds / intervalSeconds);
+  const tranches: VestingTranche[] = [];
+  let released = 0n;
+  for (let k = 1; k <= steps; k++) {
+    const elapsed = Math.min(k * intervalSeconds, durationSeconds);
+    if (elapsed < cliffSeconds) {
+      continue;
+    }
+
+    const vested = k === steps ? total : (total * BigInt(elapsed)) / BigInt(durationSeconds);
+    if (vested > released) {
+      tranches.push({
+        trancheIndex: tranches.length,
+        unlockAt: toIso(start + elapsed),
+        amount: ethers.formatUnits(vested - released, decimals),
+      });
+      released = vested;
+    }
+  }
+  return tranches;
+}
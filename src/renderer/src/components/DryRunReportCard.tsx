@@ -0,0 +1,80 @@
+import { DryRunReport, DryRunIssue } from '../types';
+
+const CATEGORY_LABELS: Record<DryRunIssue['category'], string> = {
+  INSUFFICIENT_BALANCE: '余额不足',
+  GAS_ERROR: 'Gas 错误',
+  NONCE_ERROR: 'Nonce 错误',
+  NETWORK_ERROR: '网络错误',
+  CONTRACT_REVERT: '交易回滚',
+  UNKNOWN_ERROR: '未知错误',
+};
+
+interface DryRunReportCardProps {
+  report: DryRunReport;
+  isSolana: boolean;
+  onClose: () => void;
+}
+
+/**
+ * 模拟发送结果：按当前链上状态模拟的所有待发送批次，列出有问题的地址
+ */
+export default function DryRunReportCard({ report, isSolana, onClose }: DryRunReportCardProps) {
+  const passed = report.failedBatches === 0 && report.warnings.length === 0;
+
+  return (
+    <div className="card bg-base-100 shadow-sm">
+      <div className="card-body">
+        <div className="flex items-center justify-between">
+          <h2 className="card-title flex items-center gap-2">
+            <span>🧪</span>
+            模拟发送结果
+            <span className="text-sm font-normal text-base-content/60">{new Date(report.createdAt).toLocaleString()}</span>
+          </h2>
+          <button onClick={onClose} className="btn btn-ghost btn-sm">✕</button>
+        </div>
+
+        <div className={`alert ${passed ? 'alert-success' : 'alert-warning'} text-sm`}>
+          <span>
+            共 {report.batchCount} 个批次、{report.recipientCount} 个地址：{report.passedBatches} 个批次模拟通过，{report.failedBatches} 个批次存在问题。
+            {report.passedBatches > 0 && ` 通过批次预计消耗 ${report.estimatedGas} ${isSolana ? 'compute units' : 'Gas'}。`}
+          </span>
+        </div>
+
+        {report.warnings.map(warning => (
+          <div key={warning} className="alert alert-info text-sm">
+            <span>{warning}</span>
+          </div>
+        ))}
+
+        {report.issues.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>批次</th>
+                  <th>地址</th>
+                  <th>金额</th>
+                  <th>类型</th>
+                  <th>原因</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.issues.map((issue, index) => (
+                  <tr key={`${issue.batchNumber}-${issue.address || 'batch'}-${index}`}>
+                    <td>#{issue.batchNumber}</td>
+                    <td className="font-mono text-xs break-all">{issue.address || '整个批次'}</td>
+                    <td>{issue.amount || '-'}</td>
+                    <td>
+                      <span className="badge badge-sm badge-error">{CATEGORY_LABELS[issue.category]}</span>
+                    </td>
+                    <td className="text-xs break-all">{issue.message}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { SigningRequest } from '../types';
+
+const PURPOSE_LABELS: Record<SigningRequest['purpose'], string> = {
+  DEPLOY_CONTRACT: '部署合约',
+  APPROVE_TOKENS: '代币授权',
+  CREATE_TOKEN_ACCOUNTS: '创建代币账户',
+  BATCH_SEND: '批量发送',
+};
+
+const STATUS_BADGES: Record<SigningRequest['status'], { label: string; className: string }> = {
+  PENDING: { label: '待签名', className: 'badge-warning' },
+  SIGNED: { label: '已签名', className: 'badge-info' },
+  BROADCAST: { label: '已广播', className: 'badge-success' },
+  EXPIRED: { label: '已过期', className: 'badge-ghost' },
+  CANCELLED: { label: '已取消', className: 'badge-ghost' },
+  FAILED: { label: '失败', className: 'badge-error' },
+};
+
+const REFRESH_INTERVAL_MS = 3000;
+
+interface ExternalSigningPanelProps {
+  campaignId: string;
+  isSolana: boolean;
+}
+
+/**
+ * 外部签名请求
+ * 未签名交易由主进程写入文件，签名结果在这里粘贴或选择文件导入，主进程校验后广播
+ */
+export default function ExternalSigningPanel({ campaignId, isSolana }: ExternalSigningPanelProps) {
+  const [requests, setRequests] = useState<SigningRequest[]>([]);
+  const [signedInputs, setSignedInputs] = useState<Record<string, string>>({});
+  const [busyRequestId, setBusyRequestId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadRequests();
+    const interval = setInterval(loadRequests, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [campaignId]);
+
+  const loadRequests = async () => {
+    try {
+      if (window.electronAPI?.signing) {
+        setRequests(await window.electronAPI.signing.listRequests(campaignId));
+      }
+    } catch (err) {
+      console.error('Failed to load signing requests:', err);
+    }
+  };
+
+  const runAction = async (requestId: string, action: () => Promise<void>) => {
+    setBusyRequestId(requestId);
+    setMessage(null);
+    try {
+      await action();
+      await loadRequests();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : '未知错误' });
+    } finally {
+      setBusyRequestId(null);
+    }
+  };
+
+  const handleSaveAs = (requestId: string) => {
+    runAction(requestId, async () => {
+      const result = await window.electronAPI.signing.saveUnsignedFile(requestId);
+      if (result.success && result.filePath) {
+        setMessage({ type: 'success', text: `未签名交易已保存到 ${result.filePath}` });
+      }
+    });
+  };
+
+  const handleSignedFile = (requestId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      setSignedInputs(prev => ({ ...prev, [requestId]: String(reader.result || '') }));
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleSubmit = (requestId: string) => {
+    runAction(requestId, async () => {
+      const result = await window.electronAPI.signing.submitSignature(requestId, signedInputs[requestId] || '');
+      setSignedInputs(prev => ({ ...prev, [requestId]: '' }));
+      setMessage(result.status === 'EXPIRED'
+        ? { type: 'error', text: '签名时区块哈希已过期，已生成新的待签名交易，请重新签名' }
+        : { type: 'success', text: '签名已验证，正在广播交易' });
+    });
+  };
+
+  const handleCancel = (requestId: string) => {
+    if (!confirm('取消后活动会暂停，未发送的批次保持待发送状态。确定取消吗？')) return;
+    runAction(requestId, async () => {
+      await window.electronAPI.signing.cancel(requestId);
+    });
+  };
+
+  const pendingRequests = requests.filter(request => request.status === 'PENDING');
+  const history = requests.filter(request => request.status !== 'PENDING').slice(0, 10);
+
+  return (
+    <div className="card bg-base-100 shadow-sm">
+      <div className="card-body">
+        <h2 className="card-title flex items-center gap-2">
+          <span>✍️</span>
+          外部签名
+        </h2>
+
+        <div className="text-sm text-base-content/70">
+          {isSolana
+            ? 'Solana 交易包含最近区块哈希，约 1 分钟后过期；过期后导入的签名会被拒绝并自动生成新的待签名交易。支持导入完整签名交易（base64/base58）或单独的 base58 签名。'
+            : '请按文件中的 unsignedSerialized 原样签名，不要修改 nonce 或 Gas 参数；导入 0x 开头的已签名交易或包含 signedTransaction 字段的 JSON 文件。'}
+        </div>
+
+        {message && (
+          <div className={`alert ${message.type === 'success' ? 'alert-success' : 'alert-error'} text-sm`}>
+            <span className="break-all">{message.text}</span>
+          </div>
+        )}
+
+        {pendingRequests.length === 0 ? (
+          <div className="text-sm text-base-content/60">当前没有等待签名的交易</div>
+        ) : (
+          pendingRequests.map(request => (
+            <div key={request.id} className="border border-warning/40 rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="font-medium">
+                  {PURPOSE_LABELS[request.purpose]}
+                  {request.batchNumber !== undefined && <span className="text-base-content/60 ml-2">批次 #{request.batchNumber}</span>}
+                </div>
+                <div className="badge badge-warning">待签名</div>
+              </div>
+              {request.summary && <div className="text-sm">{request.summary}</div>}
+              <div className="text-xs text-base-content/60 space-y-1">
+                <div>签名地址: <span className="font-mono break-all">{request.fromAddress}</span></div>
+                <div>未签名文件: <span className="font-mono break-all">{request.filePath}</span></div>
+              </div>
+              <textarea
+                className="textarea textarea-bordered w-full font-mono text-xs h-20"
+                placeholder="粘贴已签名交易，或选择签名文件"
+                value={signedInputs[request.id] || ''}
+                onChange={(e) => setSignedInputs(prev => ({ ...prev, [request.id]: e.target.value }))}
+                disabled={busyRequestId === request.id}
+                spellCheck={false}
+              />
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => handleSaveAs(request.id)}
+                  className="btn btn-sm btn-outline"
+                  disabled={busyRequestId === request.id}
+                >
+                  另存未签名文件
+                </button>
+                <input
+                  type="file"
+                  className="file-input file-input-bordered file-input-sm"
+                  onChange={(e) => handleSignedFile(request.id, e)}
+                  disabled={busyRequestId === request.id}
+                />
+                <button
+                  onClick={() => handleSubmit(request.id)}
+                  className="btn btn-sm btn-primary"
+                  disabled={busyRequestId === request.id || !(signedInputs[request.id] || '').trim()}
+                >
+                  {busyRequestId === request.id ? <span className="loading loading-spinner loading-xs"></span> : '导入签名并广播'}
+                </button>
+                <button
+                  onClick={() => handleCancel(request.id)}
+                  className="btn btn-sm btn-ghost"
+                  disabled={busyRequestId === request.id}
+                >
+                  取消
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+
+        {history.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>类型</th>
+                  <th>批次</th>
+                  <th>状态</th>
+                  <th>交易哈希</th>
+                  <th>时间</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map(request => (
+                  <tr key={request.id}>
+                    <td>{PURPOSE_LABELS[request.purpose]}</td>
+                    <td>{request.batchNumber ?? '-'}</td>
+                    <td>
+                      <div className={`badge badge-sm ${STATUS_BADGES[request.status].className}`} title={request.errorMessage}>
+                        {STATUS_BADGES[request.status].label}
+                      </div>
+                    </td>
+                    <td className="font-mono text-xs break-all">{request.txHash || '-'}</td>
+                    <td className="text-xs">{new Date(request.updatedAt).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
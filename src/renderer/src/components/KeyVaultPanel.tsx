@@ -0,0 +1,234 @@
+import { useEffect, useState } from 'react';
+import { KeyVaultStatus } from '../types';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export default function KeyVaultPanel() {
+  const [status, setStatus] = useState<KeyVaultStatus | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [autoLockMinutes, setAutoLockMinutes] = useState(15);
+  const [showChangePassphrase, setShowChangePassphrase] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStatus();
+    // 定期刷新以反映主进程的自动锁定
+    const interval = setInterval(loadStatus, 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      if (window.electronAPI?.vault) {
+        const vaultStatus = await window.electronAPI.vault.getStatus();
+        setStatus(vaultStatus);
+        setAutoLockMinutes(vaultStatus.autoLockMinutes);
+      }
+    } catch (err) {
+      console.error('Failed to load key vault status:', err);
+    }
+  };
+
+  const runAction = async (action: () => Promise<KeyVaultStatus | void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const result = await action();
+      if (result) {
+        setStatus(result);
+        setAutoLockMinutes(result.autoLockMinutes);
+      } else {
+        await loadStatus();
+      }
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setNewPassphrase('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '未知错误');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleInitialize = () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`主密码至少需要 ${MIN_PASSPHRASE_LENGTH} 个字符`);
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setError('两次输入的主密码不一致');
+      return;
+    }
+    runAction(() => window.electronAPI.vault.initialize(passphrase));
+  };
+
+  const handleUnlock = () => {
+    runAction(() => window.electronAPI.vault.unlock(passphrase));
+  };
+
+  const handleLock = () => {
+    runAction(() => window.electronAPI.vault.lock());
+  };
+
+  const handleSaveAutoLock = () => {
+    runAction(() => window.electronAPI.vault.setAutoLock(autoLockMinutes));
+  };
+
+  const handleChangePassphrase = () => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`新主密码至少需要 ${MIN_PASSPHRASE_LENGTH} 个字符`);
+      return;
+    }
+    runAction(async () => {
+      await window.electronAPI.vault.changePassphrase(passphrase, newPassphrase);
+      setShowChangePassphrase(false);
+      alert('主密码已修改');
+    });
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="card bg-base-100 shadow-sm mb-8">
+      <div className="card-body">
+        <div className="flex items-center justify-between">
+          <h2 className="card-title flex items-center gap-2">
+            <span>{status.unlocked ? '🔓' : '🔒'}</span>
+            密钥保险库
+          </h2>
+          {status.initialized && (
+            <div className={`badge ${status.unlocked ? 'badge-success' : 'badge-warning'}`}>
+              {status.unlocked ? '已解锁' : '已锁定'}
+            </div>
+          )}
+        </div>
+
+        {error && (
+          <div className="alert alert-error text-sm">
+            <span>{error}</span>
+          </div>
+        )}
+
+        {!status.initialized && (
+          <div className="space-y-3">
+            <div className="text-sm text-base-content/70">
+              设置主密码后，所有活动钱包私钥都会被加密存储。创建活动、发送、部署合约和回收资金前需要先解锁。
+              {status.plaintextKeyCount > 0 && (
+                <span className="text-warning"> 当前有 {status.plaintextKeyCount} 个私钥以明文保存，设置主密码后将自动加密。</span>
+              )}
+            </div>
+            <div className="text-xs text-error">主密码无法找回，遗忘后将无法使用已加密的私钥。</div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <input
+                type="password"
+                placeholder="主密码"
+                className="input input-bordered w-full"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                disabled={busy}
+              />
+              <input
+                type="password"
+                placeholder="确认主密码"
+                className="input input-bordered w-full"
+                value={confirmPassphrase}
+                onChange={(e) => setConfirmPassphrase(e.target.value)}
+                disabled={busy}
+              />
+            </div>
+            <button onClick={handleInitialize} className="btn btn-primary btn-sm" disabled={busy || !passphrase}>
+              {busy ? <span className="loading loading-spinner loading-xs"></span> : '🔐 设置主密码'}
+            </button>
+          </div>
+        )}
+
+        {status.initialized && !status.unlocked && (
+          <div className="flex gap-2">
+            <input
+              type="password"
+              placeholder="输入主密码解锁"
+              className="input input-bordered input-sm flex-1"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && passphrase && handleUnlock()}
+              disabled={busy}
+            />
+            <button onClick={handleUnlock} className="btn btn-primary btn-sm" disabled={busy || !passphrase}>
+              {busy ? <span className="loading loading-spinner loading-xs"></span> : '🔓 解锁'}
+            </button>
+          </div>
+        )}
+
+        {status.initialized && status.unlocked && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-sm text-base-content/70">
+                {status.unlockExpiresAt && `无操作将于 ${new Date(status.unlockExpiresAt).toLocaleTimeString('zh-CN')} 自动锁定`}
+              </span>
+              <div className="flex items-center gap-2 ml-auto">
+                <span className="text-sm">自动锁定</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={1440}
+                  className="input input-bordered input-sm w-20"
+                  value={autoLockMinutes}
+                  onChange={(e) => setAutoLockMinutes(parseInt(e.target.value) || 1)}
+                  disabled={busy}
+                />
+                <span className="text-sm">分钟</span>
+                <button onClick={handleSaveAutoLock} className="btn btn-ghost btn-sm" disabled={busy}>
+                  保存
+                </button>
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={handleLock} className="btn btn-warning btn-sm" disabled={busy}>
+                🔒 立即锁定
+              </button>
+              <button
+                onClick={() => setShowChangePassphrase(!showChangePassphrase)}
+                className="btn btn-ghost btn-sm"
+                disabled={busy}
+              >
+                修改主密码
+              </button>
+            </div>
+            {showChangePassphrase && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                <input
+                  type="password"
+                  placeholder="当前主密码"
+                  className="input input-bordered input-sm w-full"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  disabled={busy}
+                />
+                <input
+                  type="password"
+                  placeholder="新主密码"
+                  className="input input-bordered input-sm w-full"
+                  value={newPassphrase}
+                  onChange={(e) => setNewPassphrase(e.target.value)}
+                  disabled={busy}
+                />
+                <button
+                  onClick={handleChangePassphrase}
+                  className="btn btn-primary btn-sm"
+                  disabled={busy || !passphrase || !newPassphrase}
+                >
+                  确认修改
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
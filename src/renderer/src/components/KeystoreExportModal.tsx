@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { KeystoreExportResult } from '../types';
+
+const MIN_EXPORT_PASSWORD_LENGTH = 8;
+
+interface KeystoreExportModalProps {
+  walletId: string;
+  address: string;
+  isSolana: boolean;
+  onClose: () => void;
+}
+
+/**
+ * 导出钱包密钥文件
+ * 私钥只在主进程中解密并直接写入用户选择的文件，渲染进程永远拿不到私钥
+ */
+export default function KeystoreExportModal({ walletId, address, isSolana, onClose }: KeystoreExportModalProps) {
+  const [masterPassphrase, setMasterPassphrase] = useState('');
+  const [exportPassword, setExportPassword] = useState('');
+  const [confirmExportPassword, setConfirmExportPassword] = useState('');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<KeystoreExportResult | null>(null);
+
+  const handleExport = async () => {
+    if (!isSolana) {
+      if (exportPassword.length < MIN_EXPORT_PASSWORD_LENGTH) {
+        setError(`Keystore 密码至少需要 ${MIN_EXPORT_PASSWORD_LENGTH} 个字符`);
+        return;
+      }
+      if (exportPassword !== confirmExportPassword) {
+        setError('两次输入的 Keystore 密码不一致');
+        return;
+      }
+    }
+
+    setExporting(true);
+    setError(null);
+    try {
+      const exportResult = await window.electronAPI.wallet.exportKeystore({
+        walletId,
+        masterPassphrase,
+        exportPassword: isSolana ? undefined : exportPassword,
+      });
+      if (exportResult.success) {
+        setResult(exportResult);
+      }
+    } catch (err) {
+      console.error('Failed to export keystore:', err);
+      setError(err instanceof Error ? err.message : '未知错误');
+    } finally {
+      setMasterPassphrase('');
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="modal modal-open">
+      <div className="modal-box max-w-2xl">
+        <h3 className="font-bold text-lg mb-4 flex items-center gap-2">
+          <span>🔑</span>
+          <span>导出钱包密钥文件</span>
+        </h3>
+
+        {/* Wallet Address */}
+        <div className="mb-4">
+          <label className="label">
+            <span className="label-text font-semibold">钱包地址</span>
+          </label>
+          <div className="bg-base-200 px-4 py-3 rounded-lg font-mono text-sm break-all">
+            {address}
+          </div>
+        </div>
+
+        {result ? (
+          <div className="alert alert-success mb-4">
+            <div>
+              <div className="text-sm font-medium">密钥文件已保存</div>
+              <div className="text-xs font-mono break-all">{result.filePath}</div>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="alert alert-warning mb-4">
+              <svg xmlns="http://www.w3.org/2000/svg" className="stroke-current shrink-0 h-6 w-6" fill="none" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.732-.833-2.5 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
+              </svg>
+              <span className="text-sm">
+                {isSolana
+                  ? <><strong>安全警告：</strong>Solana keypair 文件未加密，任何获得该文件的人都可以控制钱包资金！</>
+                  : <><strong>安全提示：</strong>将导出使用下方密码加密的 Keystore 文件，请牢记该密码。</>}
+              </span>
+            </div>
+
+            {error && (
+              <div className="alert alert-error text-sm mb-4">
+                <span>{error}</span>
+              </div>
+            )}
+
+            <div className="space-y-3 mb-4">
+              <input
+                type="password"
+                placeholder="主密码（重新验证身份）"
+                className="input input-bordered w-full"
+                value={masterPassphrase}
+                onChange={(e) => setMasterPassphrase(e.target.value)}
+                disabled={exporting}
+              />
+              {!isSolana && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  <input
+                    type="password"
+                    placeholder="Keystore 密码"
+                    className="input input-bordered w-full"
+                    value={exportPassword}
+                    onChange={(e) => setExportPassword(e.target.value)}
+                    disabled={exporting}
+                  />
+                  <input
+                    type="password"
+                    placeholder="确认 Keystore 密码"
+                    className="input input-bordered w-full"
+                    value={confirmExportPassword}
+                    onChange={(e) => setConfirmExportPassword(e.target.value)}
+                    disabled={exporting}
+                  />
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {/* Security Tips */}
+        <div className="bg-base-200 p-4 rounded-lg mb-4">
+          <h4 className="font-semibold mb-2 text-sm">使用说明</h4>
+          <ul className="text-sm space-y-1 text-base-content/80">
+            <li>• EVM 钱包导出为 Keystore (JSON) 文件，可导入到 MetaMask、MyEtherWallet 等钱包</li>
+            <li>• Solana 钱包导出为 64 字节数组 keypair 文件，可用于 Solana CLI 或导入 Phantom、Solflare</li>
+            <li>• 每次导出都需要在系统对话框中确认，并记录到密钥审计日志</li>
+            <li>• 请将文件保存在安全的地方，不要通过互联网传输</li>
+          </ul>
+        </div>
+
+        {/* Modal Actions */}
+        <div className="modal-action">
+          <button onClick={onClose} className="btn btn-ghost" disabled={exporting}>
+            {result ? '完成' : '取消'}
+          </button>
+          {!result && (
+            <button
+              onClick={handleExport}
+              className="btn btn-primary"
+              disabled={exporting || !masterPassphrase}
+            >
+              {exporting ? <span className="loading loading-spinner loading-xs"></span> : '选择保存位置并导出'}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="modal-backdrop" onClick={() => !exporting && onClose()}></div>
+    </div>
+  );
+}
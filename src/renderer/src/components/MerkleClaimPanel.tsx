@@ -0,0 +1,141 @@
+import { useState } from 'react';
+
+interface MerkleClaimPanelProps {
+  campaignId: string;
+  tokenSymbol: string;
+  status: string;
+  distributorAddress?: string;
+  merkleRoot?: string;
+  claimExpiresAt?: string;
+  onChanged: () => void;
+}
+
+/**
+ * 领取式空投：部署并注资 Merkle 分发合约、导出领取证明、同步领取记录、过期后回收未领取部分
+ */
+export default function MerkleClaimPanel({
+  campaignId,
+  tokenSymbol,
+  status,
+  distributorAddress,
+  merkleRoot,
+  claimExpiresAt,
+  onChanged,
+}: MerkleClaimPanelProps) {
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const expired = !!claimExpiresAt && new Date(claimExpiresAt).getTime() <= Date.now();
+  const canDeploy = status === 'CREATED' || status === 'FUNDED';
+
+  const runAction = async (action: () => Promise<string | null>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const text = await action();
+      if (text) {
+        setMessage({ type: 'success', text });
+      }
+      onChanged();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : '未知错误' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeploy = () => {
+    if (!confirm(`部署领取分发合约并从活动钱包注入全部 ${tokenSymbol}？\n\n部署后接收者名单与金额无法修改。`)) return;
+    runAction(async () => {
+      const result = await window.electronAPI.campaign.deployDistributor(campaignId);
+      return `分发合约已部署: ${result.distributorAddress}，注资 ${result.totalAmount} ${tokenSymbol}`;
+    });
+  };
+
+  const handleSync = () => {
+    runAction(async () => {
+      const result = await window.electronAPI.campaign.syncClaims(campaignId);
+      return `新增 ${result.newClaims} 笔领取，已领取 ${result.claimedCount}/${result.totalRecipients}（同步到区块 ${result.syncedBlock}）`;
+    });
+  };
+
+  const handleExport = (format: 'json' | 'csv') => {
+    runAction(async () => {
+      const result = await window.electronAPI.campaign.exportClaimProofs(campaignId, format);
+      return result.success ? `已导出 ${result.count} 个领取证明到 ${result.filePath}` : null;
+    });
+  };
+
+  const handleSweep = () => {
+    runAction(async () => {
+      const result = await window.electronAPI.campaign.sweepUnclaimed(campaignId);
+      return `已回收 ${result.amount} ${tokenSymbol}，${result.unclaimedCount} 个地址未领取`;
+    });
+  };
+
+  return (
+    <div className="card bg-base-100 shadow-sm">
+      <div className="card-body">
+        <h2 className="card-title flex items-center gap-2">
+          <span>🌳</span>
+          领取式发放
+        </h2>
+
+        <div className="text-sm text-base-content/70">
+          所有接收者的地址与金额构成一棵 Merkle 树，分发合约只保存树根。接收者凭导出的证明在截止时间前自行领取 {tokenSymbol}，
+          同步领取记录后对应地址标记为已发送；截止后可将未领取的部分回收到活动钱包。
+        </div>
+
+        {message && (
+          <div className={`alert ${message.type === 'success' ? 'alert-success' : 'alert-error'} text-sm`}>
+            <span className="break-all">{message.text}</span>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+          <div>
+            <span className="text-base-content/60">领取截止: </span>
+            {claimExpiresAt ? new Date(claimExpiresAt).toLocaleString() : '-'}
+            {expired && <span className="badge badge-sm badge-warning ml-2">已截止</span>}
+          </div>
+          <div className="break-all">
+            <span className="text-base-content/60">分发合约: </span>
+            <span className="font-mono">{distributorAddress || '未部署'}</span>
+          </div>
+          {merkleRoot && (
+            <div className="md:col-span-2 break-all">
+              <span className="text-base-content/60">Merkle 根: </span>
+              <span className="font-mono">{merkleRoot}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {canDeploy && (
+            <button onClick={handleDeploy} className="btn btn-primary btn-sm" disabled={busy || expired}>
+              {busy ? <span className="loading loading-spinner loading-xs"></span> : '🚀 部署并注资分发合约'}
+            </button>
+          )}
+          {distributorAddress && (
+            <>
+              <button onClick={() => handleExport('json')} className="btn btn-outline btn-sm" disabled={busy}>
+                📤 导出证明 (JSON)
+              </button>
+              <button onClick={() => handleExport('csv')} className="btn btn-outline btn-sm" disabled={busy}>
+                📤 导出证明 (CSV)
+              </button>
+              <button onClick={handleSync} className="btn btn-outline btn-sm" disabled={busy}>
+                🔄 同步领取记录
+              </button>
+            </>
+          )}
+          {distributorAddress && expired && status !== 'COMPLETED' && (
+            <button onClick={handleSweep} className="btn btn-warning btn-sm" disabled={busy}>
+              ↩️ 回收未领取部分
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
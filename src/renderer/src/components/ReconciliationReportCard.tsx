@@ -0,0 +1,86 @@
+import { ReconciliationReport } from '../types';
+
+const TRIGGER_LABELS: Record<ReconciliationReport['trigger'], string> = {
+  STARTUP: '应用启动',
+  RESUME: '恢复活动',
+  NONCE_CONSUMED: '批次 nonce 被占用',
+};
+
+interface ReconciliationReportCardProps {
+  report: ReconciliationReport;
+}
+
+/**
+ * 最近一次中断批次对账的结果
+ * 只有找到链上证据的接收者才会标记为已发送或退回待发送，其余标记为失败等待人工核对
+ */
+export default function ReconciliationReportCard({ report }: ReconciliationReportCardProps) {
+  return (
+    <div className="card bg-base-100 shadow-sm">
+      <div className="card-body">
+        <h2 className="card-title flex items-center gap-2">
+          <span>🔍</span>
+          中断批次对账
+          <span className="text-sm font-normal text-base-content/60">
+            {TRIGGER_LABELS[report.trigger]} · {new Date(report.createdAt).toLocaleString()}
+          </span>
+        </h2>
+
+        <div className="stats stats-vertical lg:stats-horizontal shadow-sm">
+          <div className="stat">
+            <div className="stat-title">链上已到账</div>
+            <div className="stat-value text-success text-2xl">{report.sentCount}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">确认未发送，重新排队</div>
+            <div className="stat-value text-info text-2xl">{report.requeuedCount}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">需人工核对</div>
+            <div className="stat-value text-error text-2xl">{report.reviewCount}</div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">仍在途</div>
+            <div className="stat-value text-warning text-2xl">{report.inFlightCount}</div>
+          </div>
+        </div>
+
+        {report.reviewCount > 0 && (
+          <div className="alert alert-warning text-sm">
+            <span>需人工核对的地址已标记为失败。请先在区块浏览器确认是否到账，未到账时再使用“重试失败交易”。</span>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th>批次</th>
+                <th>地址数</th>
+                <th>结果</th>
+                <th>依据</th>
+                <th>交易哈希</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.batches.map(batch => (
+                <tr key={batch.batchNumber}>
+                  <td>#{batch.batchNumber}</td>
+                  <td>{batch.recipientCount}</td>
+                  <td className="space-x-1">
+                    {batch.sent > 0 && <span className="badge badge-sm badge-success">到账 {batch.sent}</span>}
+                    {batch.requeued > 0 && <span className="badge badge-sm badge-info">重新排队 {batch.requeued}</span>}
+                    {batch.review > 0 && <span className="badge badge-sm badge-error">待核对 {batch.review}</span>}
+                    {batch.inFlight > 0 && <span className="badge badge-sm badge-warning">在途 {batch.inFlight}</span>}
+                  </td>
+                  <td className="text-xs">{batch.reason}</td>
+                  <td className="font-mono text-xs break-all">{batch.txHash || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useState } from 'react';
+import { SafeBatch } from '../types';
+
+const STATUS_BADGES: Record<SafeBatch['status'], { label: string; className: string }> = {
+  EXPORTED: { label: '待执行', className: 'badge-warning' },
+  EXECUTED: { label: '已执行', className: 'badge-success' },
+  DISCARDED: { label: '已作废', className: 'badge-ghost' },
+};
+
+interface SafeBatchPanelProps {
+  campaignId: string;
+  tokenSymbol: string;
+  disabled: boolean;
+  onExecuted: () => void;
+}
+
+export default function SafeBatchPanel({ campaignId, tokenSymbol, disabled, onExecuted }: SafeBatchPanelProps) {
+  const [batches, setBatches] = useState<SafeBatch[]>([]);
+  const [safeAddress, setSafeAddress] = useState('');
+  const [txHash, setTxHash] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    loadBatches();
+  }, [campaignId]);
+
+  const loadBatches = async () => {
+    try {
+      if (window.electronAPI?.safe) {
+        const result = await window.electronAPI.safe.listBatches(campaignId);
+        setBatches(result);
+        if (result.length > 0) {
+          setSafeAddress(prev => prev || result[0].safeAddress);
+        }
+      }
+    } catch (err) {
+      console.error('Failed to load Safe batches:', err);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      await action();
+      await loadBatches();
+    } catch (err) {
+      setMessage({ type: 'error', text: err instanceof Error ? err.message : '未知错误' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = () => {
+    runAction(async () => {
+      const result = await window.electronAPI.safe.exportBatches(campaignId, safeAddress.trim());
+      if (result.success && result.batches) {
+        setMessage({ type: 'success', text: `已导出 ${result.batches.length} 个批次文件到 ${result.outputDir}` });
+      }
+    });
+  };
+
+  const handleIngest = () => {
+    runAction(async () => {
+      const result = await window.electronAPI.safe.ingestExecution(campaignId, txHash.trim());
+      setTxHash('');
+      setMessage({
+        type: 'success',
+        text: `批次 ${result.executedBatches.join(', ')} 已确认执行，${result.recipientCount} 个地址标记为已发送`
+      });
+      onExecuted();
+    });
+  };
+
+  const handleDiscard = (batch: SafeBatch) => {
+    if (!confirm(`作废批次 #${batch.batchNumber}？如果该批次之后仍在 Safe 中执行，接收者可能被重复发放。`)) return;
+    runAction(async () => {
+      await window.electronAPI.safe.discardBatch(batch.id);
+    });
+  };
+
+  const openBatches = batches.filter(batch => batch.status === 'EXPORTED');
+
+  return (
+    <div className="card bg-base-100 shadow-sm">
+      <div className="card-body">
+        <h2 className="card-title flex items-center gap-2">
+          <span>🛡️</span>
+          Safe 多签发放
+        </h2>
+
+        <div className="text-sm text-base-content/70">
+          将待发送的地址按批次导出为 Safe{'{'}Wallet{'}'} 交易构建器 (Transaction Builder) 文件，每个文件包含 approve 与 batchTransfer 调用，
+          由 Safe 直接向活动合约发放 {tokenSymbol}。Safe 执行后粘贴交易哈希，应用会解析链上记录并标记对应地址为已发送。
+        </div>
+
+        {message && (
+          <div className={`alert ${message.type === 'success' ? 'alert-success' : 'alert-error'} text-sm`}>
+            <span className="break-all">{message.text}</span>
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <input
+            type="text"
+            className="input input-bordered input-sm flex-1 min-w-[20rem] font-mono"
+            placeholder="Safe 地址 0x..."
+            value={safeAddress}
+            onChange={(e) => setSafeAddress(e.target.value)}
+            disabled={busy || disabled}
+          />
+          <button
+            onClick={handleExport}
+            className="btn btn-primary btn-sm"
+            disabled={busy || disabled || !safeAddress.trim()}
+            title={disabled ? '发送中的活动请先暂停' : undefined}
+          >
+            {busy ? <span className="loading loading-spinner loading-xs"></span> : '📤 导出批次文件'}
+          </button>
+        </div>
+
+        {openBatches.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            <input
+              type="text"
+              className="input input-bordered input-sm flex-1 min-w-[20rem] font-mono"
+              placeholder="Safe 执行交易哈希 0x..."
+              value={txHash}
+              onChange={(e) => setTxHash(e.target.value)}
+              disabled={busy}
+            />
+            <button onClick={handleIngest} className="btn btn-success btn-sm" disabled={busy || !txHash.trim()}>
+              {busy ? <span className="loading loading-spinner loading-xs"></span> : '✅ 导入执行结果'}
+            </button>
+          </div>
+        )}
+
+        {batches.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>批次</th>
+                  <th>地址数</th>
+                  <th>合计</th>
+                  <th>状态</th>
+                  <th>文件 / 交易哈希</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.map(batch => (
+                  <tr key={batch.id}>
+                    <td>#{batch.batchNumber}</td>
+                    <td>{batch.recipientCount}</td>
+                    <td>{batch.totalAmount} {tokenSymbol}</td>
+                    <td>
+                      <div className={`badge badge-sm ${STATUS_BADGES[batch.status].className}`}>
+                        {STATUS_BADGES[batch.status].label}
+                      </div>
+                    </td>
+                    <td className="font-mono text-xs break-all">{batch.txHash || batch.filePath}</td>
+                    <td>
+                      {batch.status === 'EXPORTED' && (
+                        <button onClick={() => handleDiscard(batch)} className="btn btn-ghost btn-xs" disabled={busy}>
+                          作废
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
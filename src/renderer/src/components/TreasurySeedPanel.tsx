@@ -0,0 +1,214 @@
+import { useEffect, useState } from 'react';
+import { HDSeedStatus, HDDiscoveryResult } from '../types';
+
+export default function TreasurySeedPanel() {
+  const [status, setStatus] = useState<HDSeedStatus | null>(null);
+  const [mode, setMode] = useState<'idle' | 'import'>('idle');
+  const [importPhrase, setImportPhrase] = useState('');
+  const [newMnemonic, setNewMnemonic] = useState<string | null>(null);
+  const [backedUp, setBackedUp] = useState(false);
+  const [discovery, setDiscovery] = useState<HDDiscoveryResult | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      if (window.electronAPI?.seed) {
+        setStatus(await window.electronAPI.seed.getStatus());
+      }
+    } catch (err) {
+      console.error('Failed to load treasury seed status:', err);
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '未知错误');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    runAction(async () => {
+      const result = await window.electronAPI.seed.create();
+      setNewMnemonic(result.mnemonic);
+      setBackedUp(false);
+      setStatus(result.status);
+    });
+  };
+
+  const handleImport = () => {
+    runAction(async () => {
+      const result = await window.electronAPI.seed.import(importPhrase);
+      setImportPhrase('');
+      setMode('idle');
+      setStatus(result);
+    });
+  };
+
+  const handleDiscover = () => {
+    runAction(async () => {
+      const result = await window.electronAPI.seed.discover();
+      setDiscovery(result);
+      await loadStatus();
+    });
+  };
+
+  const handleCloseMnemonic = () => {
+    setNewMnemonic(null);
+    setBackedUp(false);
+  };
+
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div className="card bg-base-100 shadow-sm mb-8">
+      <div className="card-body">
+        <div className="flex items-center justify-between">
+          <h2 className="card-title flex items-center gap-2">
+            <span>🌱</span>
+            HD 助记词
+          </h2>
+          {status.configured && (
+            <div className="badge badge-success">指纹 {status.fingerprint}</div>
+          )}
+        </div>
+
+        {error && (
+          <div className="alert alert-error text-sm">
+            <span>{error}</span>
+          </div>
+        )}
+
+        {!status.configured && (
+          <div className="space-y-3">
+            <div className="text-sm text-base-content/70">
+              可选：设置一份 BIP-39 助记词后，新活动钱包都将由它按 BIP-44 路径派生（EVM: m/44'/60'/0'/0/n，Solana: m/44'/501'/n'/0'），
+              只需备份这一份助记词即可恢复所有活动钱包。未设置时每个活动仍使用独立的随机私钥。需要先解锁密钥保险库。
+            </div>
+            {mode === 'import' ? (
+              <div className="space-y-2">
+                <textarea
+                  className="textarea textarea-bordered w-full font-mono text-sm"
+                  rows={3}
+                  placeholder="输入 12 或 24 个单词的助记词，用空格分隔"
+                  value={importPhrase}
+                  onChange={(e) => setImportPhrase(e.target.value)}
+                  disabled={busy}
+                />
+                <div className="flex gap-2">
+                  <button onClick={handleImport} className="btn btn-primary btn-sm" disabled={busy || !importPhrase.trim()}>
+                    {busy ? <span className="loading loading-spinner loading-xs"></span> : '导入'}
+                  </button>
+                  <button onClick={() => setMode('idle')} className="btn btn-ghost btn-sm" disabled={busy}>
+                    取消
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-2">
+                <button onClick={handleCreate} className="btn btn-primary btn-sm" disabled={busy}>
+                  {busy ? <span className="loading loading-spinner loading-xs"></span> : '✨ 生成新助记词'}
+                </button>
+                <button onClick={() => setMode('import')} className="btn btn-ghost btn-sm" disabled={busy}>
+                  导入已有助记词
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {status.configured && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-4 text-sm text-base-content/70">
+              <span>已派生活动钱包: {status.derivedWalletCount}</span>
+              <span>下一个 EVM 索引: {status.nextEvmIndex}</span>
+              <span>下一个 Solana 索引: {status.nextSolanaIndex}</span>
+            </div>
+            <div className="text-xs text-base-content/60">
+              恢复会按索引重新派生地址，并在已配置的网络上查找有交易或余额的钱包；找到的钱包也可以用同一份助记词导入 MetaMask 或 Phantom。
+            </div>
+            <button onClick={handleDiscover} className="btn btn-outline btn-sm" disabled={busy}>
+              {busy ? <span className="loading loading-spinner loading-xs"></span> : '🔍 扫描并恢复活动钱包'}
+            </button>
+
+            {discovery && (
+              discovery.wallets.length === 0 ? (
+                <div className="text-sm text-base-content/60">未发现已使用的派生钱包</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="table table-sm">
+                    <thead>
+                      <tr>
+                        <th>派生路径</th>
+                        <th>地址</th>
+                        <th>活动</th>
+                        <th>链上活动</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {discovery.wallets.map((wallet) => (
+                        <tr key={`${wallet.chainType}-${wallet.index}`}>
+                          <td className="font-mono text-xs">{wallet.derivationPath}</td>
+                          <td className="font-mono text-xs break-all">{wallet.address}</td>
+                          <td>{wallet.campaignName || <span className="text-base-content/50">本地无记录</span>}</td>
+                          <td className="text-xs">{wallet.activeNetworks.join(', ') || '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* New Mnemonic Backup Modal */}
+      {newMnemonic && (
+        <div className="modal modal-open">
+          <div className="modal-box max-w-2xl">
+            <h3 className="font-bold text-lg mb-4">备份助记词</h3>
+            <div className="alert alert-warning mb-4 text-sm">
+              <span>
+                <strong>只显示这一次：</strong>请抄写在纸上并离线保存。任何拿到助记词的人都可以控制所有由它派生的活动钱包。
+              </span>
+            </div>
+            <div className="grid grid-cols-3 md:grid-cols-4 gap-2 mb-4">
+              {newMnemonic.split(' ').map((word, index) => (
+                <div key={index} className="bg-base-200 rounded px-2 py-1 font-mono text-sm">
+                  <span className="text-base-content/50 mr-1">{index + 1}.</span>{word}
+                </div>
+              ))}
+            </div>
+            <label className="label cursor-pointer justify-start gap-2">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-sm"
+                checked={backedUp}
+                onChange={(e) => setBackedUp(e.target.checked)}
+              />
+              <span className="label-text">我已离线备份助记词</span>
+            </label>
+            <div className="modal-action">
+              <button onClick={handleCloseMnemonic} className="btn btn-primary" disabled={!backedUp}>
+                完成
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { Fragment, useEffect, useState } from 'react';
+import { VestingSchedule, VestingScheduleEntry, VestingTranche } from '../types';
+
+const TRANCHE_BADGES: Record<VestingTranche['status'], { label: string; className: string }> = {
+  PENDING: { label: '待发送', className: 'badge-ghost' },
+  PROCESSING: { label: '发送中', className: 'badge-info' },
+  SENT: { label: '已发放', className: 'badge-success' },
+  FAILED: { label: '失败', className: 'badge-error' },
+};
+
+interface VestingSchedulePanelProps {
+  campaignId: string;
+  tokenSymbol: string;
+  vesting: VestingSchedule;
+  refreshKey: number; // 发送进度变化时重新加载
+}
+
+function formatDays(seconds: number): string {
+  const days = seconds / (24 * 60 * 60);
+  return `${Number.isInteger(days) ? days : days.toFixed(2)} 天`;
+}
+
+/**
+ * 锁仓释放计划：按接收者汇总已发放、已解锁待发送和仍锁定的金额，可展开查看每个解锁批次
+ */
+export default function VestingSchedulePanel({ campaignId, tokenSymbol, vesting, refreshKey }: VestingSchedulePanelProps) {
+  const [entries, setEntries] = useState<VestingScheduleEntry[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [campaignId, refreshKey]);
+
+  const loadSchedule = async () => {
+    try {
+      setEntries(await window.electronAPI.campaign.getVestingSchedule(campaignId));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '未知错误');
+    }
+  };
+
+  const nextUnlockAt = entries
+    .map(entry => entry.nextUnlockAt)
+    .filter((value): value is string => !!value)
+    .sort()[0];
+
+  return (
+    <div className="card bg-base-100 shadow-sm">
+      <div className="card-body">
+        <h2 className="card-title flex items-center gap-2">
+          <span>⏳</span>
+          释放计划
+        </h2>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+          <div>
+            <span className="text-base-content/60">开始: </span>
+            {new Date(vesting.startAt).toLocaleString()}
+          </div>
+          <div>
+            <span className="text-base-content/60">锁定期: </span>
+            {formatDays(vesting.cliffSeconds)}
+          </div>
+          <div>
+            <span className="text-base-content/60">总时长: </span>
+            {formatDays(vesting.durationSeconds)}
+          </div>
+          <div>
+            <span className="text-base-content/60">下次解锁: </span>
+            {nextUnlockAt ? new Date(nextUnlockAt).toLocaleString() : '-'}
+          </div>
+        </div>
+
+        {error && (
+          <div className="alert alert-error text-sm">
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th>接收地址</th>
+                <th className="text-right">总额</th>
+                <th className="text-right">已发放</th>
+                <th className="text-right">已解锁待发送</th>
+                <th className="text-right">锁定中</th>
+                <th>下次解锁</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <Fragment key={entry.address}>
+                  <tr
+                    className="hover cursor-pointer"
+                    onClick={() => setExpanded(prev => (prev === entry.address ? null : entry.address))}
+                  >
+                    <td className="font-mono text-xs">{entry.address}</td>
+                    <td className="text-right">{entry.totalAmount} {tokenSymbol}</td>
+                    <td className="text-right text-success">{entry.releasedAmount}</td>
+                    <td className="text-right">
+                      {entry.unlockedAmount}
+                      {entry.failedAmount !== '0' && (
+                        <span className="badge badge-sm badge-error ml-2">失败 {entry.failedAmount}</span>
+                      )}
+                    </td>
+                    <td className="text-right text-base-content/60">{entry.lockedAmount}</td>
+                    <td className="text-xs">{entry.nextUnlockAt ? new Date(entry.nextUnlockAt).toLocaleString() : '-'}</td>
+                  </tr>
+                  {expanded === entry.address && entry.tranches.map(tranche => (
+                    <tr key={`${entry.address}-${tranche.trancheIndex}`} className="bg-base-200/50 text-xs">
+                      <td className="pl-8">第 {tranche.trancheIndex + 1} 期</td>
+                      <td className="text-right">{tranche.amount}</td>
+                      <td colSpan={2}>{new Date(tranche.unlockAt).toLocaleString()}</td>
+                      <td>
+                        <span className={`badge badge-sm ${TRANCHE_BADGES[tranche.status].className}`}>
+                          {TRANCHE_BADGES[tranche.status].label}
+                        </span>
+                      </td>
+                      <td className="font-mono break-all" title={tranche.errorMessage}>
+                        {tranche.txHash ? `${tranche.txHash.slice(0, 10)}...${tranche.txHash.slice(-8)}` : tranche.errorMessage || ''}
+                      </td>
+                    </tr>
+                  ))}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
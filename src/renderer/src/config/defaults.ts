@@ -9,7 +9,7 @@ export const DEFAULTS = {
     chain: '56',          // Default to BSC
     batchSize: {
       evm: 100,           // EVM 默认 100 笔/批
-      solana: 10,         // Solana 默认 10 笔/批 (简化的保守值)
+      solana: 20,         // Solana 默认 20 笔/批 (v0 交易按大小打包，一批可能拆成多笔交易)
     },
     sendInterval: {
       evm: '20000',       // EVM 默认 20 秒
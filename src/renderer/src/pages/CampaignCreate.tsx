@@ -1,11 +1,11 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useCampaign } from '../contexts/CampaignContext';
-import { Campaign, CSVValidationResult, TokenInfo } from '../types';
-import { parseCSV } from '../utils/csvValidator';
+import { Campaign, CSVValidationResult, TokenInfo, TokenBehaviorReport, RecipientAccount, RecipientAccountType, RecipientCheckResult, ImportedWalletFormat, SolanaPriorityLevel } from '../types';
+import { parseCSV, inspectRecipients } from '../utils/csvValidator';
 import BigNumber from 'bignumber.js';
 import { DEFAULTS } from '../config/defaults';
-import { isSolanaChain, validateAddressForChain, NATIVE_TOKEN_ADDRESSES } from '../utils/chainTypeUtils';
+import { isSolanaChain, isNativeToken, validateAddressForChain, NATIVE_TOKEN_ADDRESSES } from '../utils/chainTypeUtils';
 
 interface CampaignFormData {
   name: string;
@@ -13,9 +13,67 @@ interface CampaignFormData {
   chain: string;
   tokenAddress: string;
   batchSize: number;
+  pipelineDepth: number;
+  batchMode: 'ATOMIC' | 'BEST_EFFORT';
+  isolateFailures: boolean;
+  netDelivery: boolean; // 转账手续费代币：手续费由发送方承担
+  distributionMode: 'PUSH' | 'MERKLE_CLAIM';
+  claimExpiresAt: string; // datetime-local 输入值（本地时间）
+  vestingEnabled: boolean;
+  vestingStartAt: string; // datetime-local 输入值（本地时间）
+  vestingCliffDays: number;
+  vestingDurationDays: number;
+  vestingIntervalDays: number;
+  stuckTimeoutSeconds: number;
+  maxFeePerGasGwei: string;
+  priorityFeeLevel: SolanaPriorityLevel;
+  maxPriorityFeeLamports: string; // Solana 每笔交易的优先费上限，空值表示不限制
   sendInterval: string;
 }
 
+const IMPORT_FORMATS: Record<'evm' | 'solana', Array<{ value: ImportedWalletFormat; label: string; placeholder: string }>> = {
+  evm: [
+    { value: 'evm-private-key', label: '私钥 (Hex)', placeholder: '0x...' },
+    { value: 'evm-keystore', label: 'Keystore 文件 (JSON)', placeholder: '{"version":3,"crypto":{...}}' },
+  ],
+  solana: [
+    { value: 'solana-keypair-json', label: 'Keypair 数组 (JSON)', placeholder: '[12,34,56,...]' },
+    { value: 'solana-base58', label: '私钥 (Base58)', placeholder: '5Kb8kLf9...' },
+  ],
+};
+
+const ACCOUNT_TYPE_LABELS: Record<RecipientAccountType, string> = {
+  EOA: '外部账户',
+  CONTRACT: '合约',
+  SAFE: 'Safe 多签',
+  EIP7702: 'EIP-7702 委托',
+};
+
+function describeRecipientAccount(account: RecipientAccount): string {
+  if (account.rejectsNative) {
+    return `拒收原生代币，会导致整批回滚${account.reason ? `：${account.reason}` : ''}`;
+  }
+  const native = account.rejectsNative === false ? '，可接收原生代币' : '';
+  switch (account.accountType) {
+    case 'SAFE':
+      return `Safe 多签钱包${native}`;
+    case 'EIP7702':
+      return `外部账户，代码委托给 ${account.delegate}${native}`;
+    default:
+      return account.rejectsNative === false ? '合约地址，可接收原生代币' : '合约地址，收到的代币可能无法转出';
+  }
+}
+
+// 多代币空投中主代币之外的代币，最多再加 4 个（共 5 个）
+interface ExtraToken {
+  address: string;
+  info: TokenInfo | null;
+  error: string;
+  loading: boolean;
+}
+
+const MAX_EXTRA_TOKENS = 4;
+
 interface ChainOption {
   id: string;
   name: string;
@@ -33,6 +91,21 @@ export default function CampaignCreate() {
     chain: DEFAULTS.CAMPAIGN_FORM.chain,
     tokenAddress: '',
     batchSize: DEFAULTS.CAMPAIGN_FORM.batchSize.evm,
+    pipelineDepth: 1,
+    batchMode: 'ATOMIC',
+    isolateFailures: true,
+    netDelivery: false,
+    distributionMode: 'PUSH',
+    claimExpiresAt: '',
+    vestingEnabled: false,
+    vestingStartAt: '',
+    vestingCliffDays: 0,
+    vestingDurationDays: 365,
+    vestingIntervalDays: 30,
+    stuckTimeoutSeconds: 180,
+    maxFeePerGasGwei: '',
+    priorityFeeLevel: 'normal',
+    maxPriorityFeeLamports: '',
     sendInterval: DEFAULTS.CAMPAIGN_FORM.sendInterval.evm
   });
   const [csvContent, setCsvContent] = useState<string>('');
@@ -48,6 +121,23 @@ export default function CampaignCreate() {
   const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null);
   const [isFetchingToken, setIsFetchingToken] = useState(false);
   const [tokenInfoError, setTokenInfoError] = useState<string>('');
+  const [extraTokens, setExtraTokens] = useState<ExtraToken[]>([]);
+  const [tokenBehavior, setTokenBehavior] = useState<TokenBehaviorReport | null>(null);
+  const [isProbingToken, setIsProbingToken] = useState(false);
+  const [recipientCheck, setRecipientCheck] = useState<RecipientCheckResult | null>(null);
+  const [isCheckingRecipients, setIsCheckingRecipients] = useState(false);
+  const [excludedRecipients, setExcludedRecipients] = useState<Set<string>>(new Set());
+  const [flaggedConfirmed, setFlaggedConfirmed] = useState(false);
+
+  // 发送钱包：新建活动钱包、导入自有钱包，或由外部签名者离线签名
+  const [walletMode, setWalletMode] = useState<'new' | 'import' | 'external'>('new');
+  const [externalSignerAddress, setExternalSignerAddress] = useState('');
+  const [importFormat, setImportFormat] = useState<ImportedWalletFormat>('evm-private-key');
+  const [importSecret, setImportSecret] = useState('');
+  const [importPassword, setImportPassword] = useState('');
+  const [importPreview, setImportPreview] = useState<string | null>(null);
+  const [importError, setImportError] = useState('');
+  const [isValidatingImport, setIsValidatingImport] = useState(false);
 
   useEffect(() => {
     loadChains();
@@ -86,6 +176,41 @@ export default function CampaignCreate() {
     }
   };
 
+  // 多代币空投的附加代币：地址格式正确后获取代币信息（原生代币直接使用链的符号）
+  const updateExtraToken = (index: number, address: string) => {
+    const trimmed = address.trim();
+    const selectedChain = availableChains.find(c => c.id === formData.chain);
+    const isNative = isNativeToken(trimmed);
+    const error = trimmed && !isNative && !validateAddressForChain(trimmed, (selectedChain || {}) as any) ? '请输入有效的代币合约地址' : '';
+    const info: TokenInfo | null = isNative
+      ? { name: selectedChain?.name || 'Native Token', symbol: selectedChain?.symbol || 'ETH', decimals: 18, address: trimmed, chainType: 'evm' }
+      : null;
+    const loading = !!trimmed && !error && !isNative;
+    setExtraTokens(prev => prev.map((token, i) => i === index ? { address, info, error, loading } : token));
+    if (loading) {
+      fetchExtraTokenInfo(index, trimmed);
+    }
+  };
+
+  const fetchExtraTokenInfo = async (index: number, address: string) => {
+    let info: TokenInfo | null = null;
+    let error = '';
+    try {
+      info = await window.electronAPI.token.getInfo(address, formData.chain);
+      if (!info) {
+        error = '无法获取代币信息，请检查合约地址是否正确';
+      } else if (info.isNft || (info.standard && info.standard !== 'ERC20')) {
+        error = '多代币空投只支持 ERC20 代币和原生代币';
+      }
+    } catch (fetchError) {
+      error = `获取代币信息失败: ${fetchError instanceof Error ? fetchError.message : '未知错误'}`;
+    }
+    // 地址在获取期间被修改时丢弃旧结果
+    setExtraTokens(prev => prev.map((token, i) => i === index && token.address.trim() === address
+      ? { ...token, info: error ? null : info, error, loading: false }
+      : token));
+  };
+
   const loadChains = async () => {
     try {
       setChainsLoading(true);
@@ -163,6 +288,48 @@ export default function CampaignCreate() {
     }
   };
 
+  // 切换链类型后重置导入格式和校验结果
+  useEffect(() => {
+    setImportFormat(isSolanaChain(formData.chain) ? 'solana-keypair-json' : 'evm-private-key');
+    setImportPreview(null);
+    setImportError('');
+  }, [formData.chain]);
+
+  const resetImportPreview = () => {
+    setImportPreview(null);
+    setImportError('');
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      setImportSecret(String(reader.result || ''));
+      resetImportPreview();
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleValidateImport = async () => {
+    if (!formData.chain || !importSecret.trim()) return;
+    setIsValidatingImport(true);
+    setImportError('');
+    try {
+      const preview = await window.electronAPI.wallet.previewImport(
+        { format: importFormat, secret: importSecret, password: importPassword || undefined },
+        formData.chain
+      );
+      setImportPreview(preview.address);
+    } catch (error) {
+      setImportPreview(null);
+      setImportError(error instanceof Error ? error.message : '未知错误');
+    } finally {
+      setIsValidatingImport(false);
+    }
+  };
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
 
@@ -178,6 +345,8 @@ export default function CampaignCreate() {
         batchSize: isSolana ? DEFAULTS.CAMPAIGN_FORM.batchSize.solana : DEFAULTS.CAMPAIGN_FORM.batchSize.evm,
         sendInterval: isSolana ? DEFAULTS.CAMPAIGN_FORM.sendInterval.solana : DEFAULTS.CAMPAIGN_FORM.sendInterval.evm
       }));
+      // 附加代币的地址只在原链上有效
+      setExtraTokens([]);
 
       // 重新获取代币信息
       if (formData.tokenAddress && !tokenAddressError) {
@@ -219,14 +388,44 @@ export default function CampaignCreate() {
     }
   };
 
+  // NFT 合约（ERC-165 识别）按 地址,tokenId[,数量] 解析 CSV
+  const tokenStandard = tokenInfo?.standard || 'ERC20';
+  const isNFT = tokenStandard !== 'ERC20';
+  // 多代币空投（EVM ERC20 / 原生代币）：CSV 每行按代币顺序填写多个金额
+  const isMultiToken = extraTokens.length > 0 && !isSolanaChain(formData.chain) && !isNFT;
+  const tokenLegCount = isMultiToken ? extraTokens.length + 1 : 1;
+  const tokenLegSymbols = [tokenInfo?.symbol || '主代币', ...extraTokens.map((token, index) => token.info?.symbol || `代币${index + 2}`)];
+
+  // 代币标准或代币数量在粘贴 CSV 之后才变化时，按新的格式重新解析
+  useEffect(() => {
+    if (csvContent.trim()) {
+      validateCSVContent(csvContent);
+    }
+  }, [tokenStandard, tokenLegCount]);
+
+  // 代币或接收者变化后需要重新检测代币行为
+  useEffect(() => {
+    setTokenBehavior(null);
+  }, [tokenInfo, csvData]);
+
+  // 接收者、链或代币变化后需要重新检查地址类型（原生代币活动的检查项不同）
+  useEffect(() => {
+    setRecipientCheck(null);
+    setExcludedRecipients(new Set());
+    setFlaggedConfirmed(false);
+  }, [csvData, formData.chain, formData.tokenAddress]);
+
   const handleCSVContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const content = e.target.value;
     setCsvContent(content);
+    validateCSVContent(content);
+  };
 
+  const validateCSVContent = (content: string) => {
     if (content.trim()) {
       try {
         // Use unified CSV validator (no headers expected for textarea input)
-        const validation = parseCSV(content, { hasHeaders: false });
+        const validation = parseCSV(content, { hasHeaders: false, tokenStandard, tokenLegCount });
 
         setCsvData(validation.data);  // 使用所有数据而不是 sampleData
         setCsvValidation(validation);
@@ -247,6 +446,11 @@ export default function CampaignCreate() {
     }
   };
 
+  // 领取式空投目前只支持 EVM 链；NFT 空投与多代币空投只支持直接发送
+  const isMerkleClaim = formData.distributionMode === 'MERKLE_CLAIM' && !isSolanaChain(formData.chain) && !isNFT && !isMultiToken;
+  const isVesting = formData.vestingEnabled && !isMerkleClaim && !isNFT && !isMultiToken;
+  const DAY_SECONDS = 24 * 60 * 60;
+
   const validateForm = () => {
     if (!formData.name.trim()) {
       alert('请输入活动名称');
@@ -264,6 +468,26 @@ export default function CampaignCreate() {
       alert(tokenAddressError);
       return false;
     }
+    if (tokenInfo?.unsupportedExtension) {
+      alert(`该代币启用了 ${tokenInfo.unsupportedExtension} 扩展，无法批量发送`);
+      return false;
+    }
+    if (isMultiToken) {
+      if (extraTokens.some(token => token.loading)) {
+        alert('正在获取附加代币信息，请稍候');
+        return false;
+      }
+      const invalid = extraTokens.find(token => !token.info || token.error);
+      if (invalid) {
+        alert(invalid.error || '请填写附加代币地址');
+        return false;
+      }
+      const addresses = [formData.tokenAddress, ...extraTokens.map(token => token.address)].map(address => address.trim().toLowerCase());
+      if (new Set(addresses).size !== addresses.length) {
+        alert('多代币空投的代币不能重复');
+        return false;
+      }
+    }
     if (!csvContent.trim()) {
       alert('请输入CSV内容');
       return false;
@@ -272,6 +496,44 @@ export default function CampaignCreate() {
       alert('CSV内容格式不正确');
       return false;
     }
+    if (getSelectedChainType() === 'solana' && formData.maxPriorityFeeLamports.trim()
+      && !/^[1-9]\d*$/.test(formData.maxPriorityFeeLamports.trim())) {
+      alert('优先费上限必须是正整数（lamports）');
+      return false;
+    }
+    if (walletMode === 'import' && !importPreview) {
+      alert('请先验证要导入的钱包');
+      return false;
+    }
+    if (walletMode === 'external' && !validateAddressForChain(externalSignerAddress.trim(), formData.chain)) {
+      alert('请输入有效的外部签名地址');
+      return false;
+    }
+    if (isMerkleClaim) {
+      if (walletMode === 'external') {
+        alert('领取式空投需要使用本机签名的活动钱包');
+        return false;
+      }
+      const expiresAt = new Date(formData.claimExpiresAt).getTime();
+      if (Number.isNaN(expiresAt) || expiresAt <= Date.now()) {
+        alert('请设置晚于当前时间的领取截止时间');
+        return false;
+      }
+    }
+    if (isVesting) {
+      if (Number.isNaN(new Date(formData.vestingStartAt).getTime())) {
+        alert('请设置释放开始时间');
+        return false;
+      }
+      if (tokenInfo?.decimals === undefined) {
+        alert('请先获取代币信息，锁仓释放需要代币精度拆分解锁批次');
+        return false;
+      }
+      if (formData.vestingDurationDays > 0 && (formData.vestingIntervalDays <= 0 || formData.vestingIntervalDays > formData.vestingDurationDays)) {
+        alert('解锁间隔必须大于 0 且不超过释放总时长');
+        return false;
+      }
+    }
     return true;
   };
 
@@ -280,6 +542,28 @@ export default function CampaignCreate() {
 
     if (!validateForm()) return;
 
+    // EVM 活动创建前检查接收地址类型（未检查过时自动检查），标记的合约地址必须排除或确认
+    if (getSelectedChainType() === 'evm') {
+      let check = recipientCheck;
+      if (!check) {
+        try {
+          check = await runRecipientCheck();
+        } catch (error) {
+          if (!confirm(`检查接收地址失败: ${error instanceof Error ? error.message : '未知错误'}\n\n仍要创建活动吗？`)) return;
+        }
+      }
+      const pendingFlagged = check ? getPendingFlagged(check) : [];
+      if (pendingFlagged.length > 0 && !flaggedConfirmed) {
+        alert(`有 ${pendingFlagged.length} 个标记的合约接收地址，请在“接收地址检查”中排除或确认后再创建`);
+        return;
+      }
+    }
+    const recipients = csvData.filter(row => !excludedRecipients.has(row.address.toLowerCase()));
+    if (recipients.length === 0) {
+      alert('排除后没有剩余的接收地址');
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -291,9 +575,39 @@ export default function CampaignCreate() {
         tokenSymbol: tokenInfo?.symbol,
         tokenName: tokenInfo?.name,
         tokenDecimals: tokenInfo?.decimals,
+        tokenStandard,
+        tokenLegs: isMultiToken
+          ? [
+              { tokenAddress: formData.tokenAddress, tokenSymbol: tokenInfo?.symbol, tokenDecimals: tokenInfo?.decimals },
+              ...extraTokens.map(token => ({ tokenAddress: token.address.trim(), tokenSymbol: token.info?.symbol, tokenDecimals: token.info?.decimals })),
+            ]
+          : undefined,
         batchSize: formData.batchSize,
+        // 外部签名需要逐笔签名，流水线只对本机签名生效
+        pipelineDepth: walletMode === 'external' ? 1 : formData.pipelineDepth,
+        // 多代币批次只有原子模式；各代币金额按 CSV 发送，不按到账金额反推
+        batchMode: isNFT || isMultiToken ? 'ATOMIC' : formData.batchMode,
+        isolateFailures: formData.isolateFailures,
+        netDelivery: !!transferFeeBasisPoints && formData.netDelivery && !isMultiToken,
+        distributionMode: isMerkleClaim ? 'MERKLE_CLAIM' : 'PUSH',
+        claimExpiresAt: isMerkleClaim ? new Date(formData.claimExpiresAt).toISOString() : undefined,
+        vesting: isVesting
+          ? {
+              startAt: new Date(formData.vestingStartAt).toISOString(),
+              cliffSeconds: Math.round(formData.vestingCliffDays * DAY_SECONDS),
+              durationSeconds: Math.round(formData.vestingDurationDays * DAY_SECONDS),
+              intervalSeconds: Math.round(formData.vestingIntervalDays * DAY_SECONDS),
+            }
+          : undefined,
+        stuckTimeoutSeconds: formData.stuckTimeoutSeconds,
+        maxFeePerGasGwei: formData.maxFeePerGasGwei.trim() || undefined,
+        ...getPriorityFeeSettings(),
         sendInterval: Number(formData.sendInterval),
-        recipients: csvData  // 使用解析后的数据数组
+        recipients,  // 解析后的数据，不含已排除的合约地址
+        importedWallet: walletMode === 'import'
+          ? { format: importFormat, secret: importSecret, password: importPassword || undefined }
+          : undefined,
+        externalSignerAddress: walletMode === 'external' ? externalSignerAddress.trim() : undefined
       };
 
       if (window.electronAPI?.campaign) {
@@ -309,6 +623,46 @@ export default function CampaignCreate() {
     }
   };
 
+  const runRecipientCheck = async (): Promise<RecipientCheckResult> => {
+    setIsCheckingRecipients(true);
+    try {
+      // 多代币空投包含原生代币时按原生代币活动检查（找出拒收原生代币的合约）
+      const nativeLegIndex = isMultiToken ? extraTokens.findIndex(token => isNativeToken(token.address.trim())) : -1;
+      const result = nativeLegIndex >= 0
+        ? await inspectRecipients(csvData, formData.chain, extraTokens[nativeLegIndex].address.trim(), nativeLegIndex + 1)
+        : await inspectRecipients(csvData, formData.chain, formData.tokenAddress, isMultiToken ? 0 : undefined);
+      setRecipientCheck(result);
+      return result;
+    } finally {
+      setIsCheckingRecipients(false);
+    }
+  };
+
+  const handleCheckRecipients = async () => {
+    try {
+      await runRecipientCheck();
+    } catch (error) {
+      console.error('Failed to check recipients:', error);
+      alert(`检查失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  };
+
+  const getPendingFlagged = (check: RecipientCheckResult) =>
+    check.accounts.filter(account => account.flagged && !excludedRecipients.has(account.address.toLowerCase()));
+
+  const toggleExcludedRecipient = (address: string) => {
+    setExcludedRecipients(prev => {
+      const next = new Set(prev);
+      const key = address.toLowerCase();
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
   const handleEstimate = async () => {
     if (!formData.chain || !formData.tokenAddress || !csvValidation?.isValid) {
       alert('请先填写完整的表单信息并确保CSV数据有效');
@@ -322,6 +676,7 @@ export default function CampaignCreate() {
         tokenAddress: formData.tokenAddress,
         recipientCount: csvValidation.validRecords,
         batchSize: formData.batchSize,
+        ...getPriorityFeeSettings(),
       };
 
       if (window.electronAPI?.campaign) {
@@ -340,11 +695,45 @@ export default function CampaignCreate() {
     return availableChains.find(c => c.id === chainId) || { name: 'Unknown', symbol: '', type: 'evm' };
   };
 
+  // Solana 优先费策略，EVM 活动不传
+  const getPriorityFeeSettings = () => {
+    if (getSelectedChainType() !== 'solana') {
+      return {};
+    }
+    const maxLamports = formData.maxPriorityFeeLamports.trim();
+    return {
+      priorityFeeLevel: formData.priorityFeeLevel,
+      maxPriorityFeeLamports: maxLamports ? Number(maxLamports) : undefined,
+    };
+  };
+
   const getSelectedChainType = () => {
     const selectedChain = availableChains.find(c => c.id === formData.chain);
     return selectedChain?.type || 'evm';
   };
 
+  // EVM ERC20 代币在创建前可以检测转账手续费、rebase 与黑名单；创建活动时主进程会再检测一次并保存结果
+  const canProbeToken = getSelectedChainType() === 'evm' && !!tokenInfo && !isNFT && !isNativeToken(formData.tokenAddress);
+  const transferFeeBasisPoints = tokenInfo?.transferFeeBasisPoints || tokenBehavior?.transferFeeBasisPoints;
+
+  const handleProbeToken = async () => {
+    setIsProbingToken(true);
+    try {
+      const report = await window.electronAPI.token.probeBehavior(
+        formData.tokenAddress,
+        formData.chain,
+        csvData.map(row => row.address),
+        walletMode === 'external' ? externalSignerAddress.trim() || undefined : undefined
+      );
+      setTokenBehavior(report);
+    } catch (error) {
+      console.error('Failed to probe token behavior:', error);
+      alert(`检测失败: ${error instanceof Error ? error.message : '未知错误'}`);
+    } finally {
+      setIsProbingToken(false);
+    }
+  };
+
   return (
     <div className="p-6 max-w-6xl mx-auto">
       {/* Header */}
@@ -493,8 +882,22 @@ export default function CampaignCreate() {
                           </div>
                         </div>
                         <div className="text-right">
-                          <div className="text-xs opacity-70">精度</div>
-                          <div className="text-sm font-mono">{tokenInfo.decimals}</div>
+                          {isNFT ? (
+                            <>
+                              <div className="text-xs opacity-70">代币标准</div>
+                              <div className="badge badge-sm badge-secondary">{tokenStandard === 'ERC721' ? 'ERC-721' : 'ERC-1155'}</div>
+                            </>
+                          ) : tokenInfo.isNft ? (
+                            <>
+                              <div className="text-xs opacity-70">代币类型</div>
+                              <div className="badge badge-sm badge-secondary">NFT</div>
+                            </>
+                          ) : (
+                            <>
+                              <div className="text-xs opacity-70">精度</div>
+                              <div className="text-sm font-mono">{tokenInfo.decimals}</div>
+                            </>
+                          )}
                         </div>
                       </div>
                       <div className="mt-2 text-xs opacity-60">
@@ -502,8 +905,19 @@ export default function CampaignCreate() {
                           <span>链类型: {tokenInfo.chainType === 'evm' ? 'EVM' : 'Solana'}</span>
                           <span>•</span>
                           <span className="font-mono">{tokenInfo.address.substring(0, 8)}...{tokenInfo.address.substring(tokenInfo.address.length - 6)}</span>
+                          {!!tokenInfo.transferFeeBasisPoints && (
+                            <>
+                              <span>•</span>
+                              <span>转账手续费 {tokenInfo.transferFeeBasisPoints / 100}%</span>
+                            </>
+                          )}
                         </div>
                       </div>
+                      {tokenInfo.unsupportedExtension && (
+                        <div className="alert alert-error mt-2 py-2">
+                          <span className="text-xs">该代币启用了 {tokenInfo.unsupportedExtension} 扩展，无法批量发送</span>
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
@@ -518,6 +932,57 @@ export default function CampaignCreate() {
                     </div>
                   </div>
                 )}
+
+                {/* 多代币空投：同一批次中向接收者发送多种代币 */}
+                {tokenInfo && !isNFT && getSelectedChainType() === 'evm' && (
+                  <div className="mt-3 space-y-2">
+                    {extraTokens.map((token, index) => (
+                      <div key={index}>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="text"
+                            value={token.address}
+                            onChange={(e) => updateExtraToken(index, e.target.value)}
+                            placeholder={`代币 ${index + 2} 合约地址`}
+                            className={`input input-bordered input-sm flex-1 font-mono ${token.error ? 'input-error' : ''}`}
+                            style={{ border: '1px solid #d1d5db', backgroundColor: '#ffffff' }}
+                          />
+                          <button type="button" className="btn btn-xs btn-outline" onClick={() => updateExtraToken(index, NATIVE_TOKEN_ADDRESSES.EVM)}>
+                            原生代币
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-xs btn-ghost"
+                            onClick={() => setExtraTokens(prev => prev.filter((_, i) => i !== index))}
+                          >
+                            移除
+                          </button>
+                        </div>
+                        <div className="mt-1 text-xs">
+                          {token.loading && <span className="text-info">正在获取代币信息...</span>}
+                          {token.error && <span className="text-error">{token.error}</span>}
+                          {token.info && !token.loading && (
+                            <span className="opacity-70">{token.info.name} ({token.info.symbol}) · 精度 {token.info.decimals}</span>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                    {extraTokens.length < MAX_EXTRA_TOKENS && (
+                      <button
+                        type="button"
+                        className="btn btn-xs btn-outline"
+                        onClick={() => setExtraTokens(prev => [...prev, { address: '', info: null, error: '', loading: false }])}
+                      >
+                        + 添加代币（多代币空投）
+                      </button>
+                    )}
+                    {isMultiToken && (
+                      <div className="text-xs text-base-content/60">
+                        CSV 每行依次填写 {tokenLegSymbols.join('、')} 的金额，空值或 0 表示不发该代币；多代币空投按原子批次直接发送，不支持领取式与锁仓释放
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
 
               <div className="md:col-span-2">
@@ -537,6 +1002,128 @@ export default function CampaignCreate() {
           </div>
         </div>
 
+        {/* Sender Wallet */}
+        <div className="collapse collapse-arrow bg-base-100 shadow-sm">
+          <input type="checkbox" defaultChecked className="min-w-fit" />
+          <div className="collapse-title text-lg font-semibold flex items-center gap-3">
+            <span className="text-xl">👛</span>
+            发送钱包
+          </div>
+          <div className="collapse-content">
+            <div className="space-y-4 mt-4">
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setWalletMode('new')}
+                  className={`btn btn-sm ${walletMode === 'new' ? 'btn-primary' : 'btn-outline'}`}
+                >
+                  创建新的活动钱包
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setWalletMode('import')}
+                  className={`btn btn-sm ${walletMode === 'import' ? 'btn-primary' : 'btn-outline'}`}
+                >
+                  使用自有钱包
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setWalletMode('external')}
+                  className={`btn btn-sm ${walletMode === 'external' ? 'btn-primary' : 'btn-outline'}`}
+                >
+                  外部签名（不保存私钥）
+                </button>
+              </div>
+
+              {walletMode === 'new' ? (
+                <div className="text-sm text-base-content/70">
+                  系统会为此活动创建独立钱包，创建后需要向该钱包充值。
+                </div>
+              ) : walletMode === 'external' ? (
+                <div className="space-y-3">
+                  <div className="text-sm text-base-content/70">
+                    本机不保存任何私钥。每笔交易（部署、授权、批量发送）都会导出为未签名交易文件，
+                    由硬件钱包或离线电脑签名后再导入，本机校验后广播并继续记录发送结果。
+                  </div>
+                  <input
+                    type="text"
+                    className="input input-bordered w-full font-mono text-sm"
+                    placeholder={isSolanaChain(formData.chain) ? '签名者 Solana 地址' : '签名者地址 0x...'}
+                    value={externalSignerAddress}
+                    onChange={(e) => setExternalSignerAddress(e.target.value)}
+                    autoComplete="off"
+                    spellCheck={false}
+                  />
+                  {externalSignerAddress.trim() && !validateAddressForChain(externalSignerAddress.trim(), formData.chain) && (
+                    <div className="text-sm text-error">地址格式不正确</div>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <div className="text-sm text-base-content/70">
+                    直接从已有资金的钱包发送，无需先转入一次性地址。私钥经主密码加密保存，回收资金时需要单独确认，不会自动转出。
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {IMPORT_FORMATS[isSolanaChain(formData.chain) ? 'solana' : 'evm'].map(format => (
+                      <button
+                        key={format.value}
+                        type="button"
+                        onClick={() => { setImportFormat(format.value); resetImportPreview(); }}
+                        className={`btn btn-xs ${importFormat === format.value ? 'btn-secondary' : 'btn-outline'}`}
+                      >
+                        {format.label}
+                      </button>
+                    ))}
+                  </div>
+                  <textarea
+                    className="textarea textarea-bordered w-full font-mono text-xs h-24"
+                    placeholder={IMPORT_FORMATS[isSolanaChain(formData.chain) ? 'solana' : 'evm'].find(f => f.value === importFormat)?.placeholder}
+                    value={importSecret}
+                    onChange={(e) => { setImportSecret(e.target.value); resetImportPreview(); }}
+                    autoComplete="off"
+                    spellCheck={false}
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    {(importFormat === 'evm-keystore' || importFormat === 'solana-keypair-json') && (
+                      <input
+                        type="file"
+                        accept=".json,application/json"
+                        className="file-input file-input-bordered file-input-sm"
+                        onChange={handleImportFile}
+                      />
+                    )}
+                    {importFormat === 'evm-keystore' && (
+                      <input
+                        type="password"
+                        className="input input-bordered input-sm"
+                        placeholder="Keystore 密码"
+                        value={importPassword}
+                        onChange={(e) => { setImportPassword(e.target.value); resetImportPreview(); }}
+                      />
+                    )}
+                    <button
+                      type="button"
+                      onClick={handleValidateImport}
+                      className="btn btn-sm btn-outline"
+                      disabled={isValidatingImport || !formData.chain || !importSecret.trim()}
+                    >
+                      {isValidatingImport ? <span className="loading loading-spinner loading-xs"></span> : '验证钱包'}
+                    </button>
+                  </div>
+                  {importPreview && (
+                    <div className="text-sm text-success">
+                      ✓ 钱包地址: <span className="font-mono">{importPreview}</span>
+                    </div>
+                  )}
+                  {importError && (
+                    <div className="text-sm text-error">{importError}</div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
         {/* Batch Settings */}
         <div className="collapse collapse-arrow bg-base-100 shadow-sm">
           <input type="checkbox" defaultChecked className="min-w-fit" />
@@ -556,9 +1143,8 @@ export default function CampaignCreate() {
                     const selectedChain = availableChains.find(c => c.id === formData.chain);
                     const isSolana = selectedChain?.type === 'solana';
                     if (isSolana) {
-                      // Solana网络 - 简化配置
-      // 统一批量大小：ATA创建和转账使用相同的批量设置
-                      return [5, 10].map(size => (
+                      // Solana网络 - 本机签名按交易大小把一个批次打包成一笔或多笔 v0 交易
+                      return [5, 10, 20, 50].map(size => (
                         <button
                           key={size}
                           type="button"
@@ -637,7 +1223,266 @@ export default function CampaignCreate() {
                 {availableChains.find(c => c.id === formData.chain)?.type === 'solana' && (
                   <div className="mt-2">
                     <span className="text-xs text-warning">
-                      <strong>⚡ Solana限制：</strong>每批支持5-10个地址（ATA创建和转账使用相同配置）
+                      <strong>⚡ Solana：</strong>本机签名按交易大小打包，一批可能拆成多笔交易；外部签名每批是一笔交易，建议不超过 10 个地址
+                    </span>
+                  </div>
+                )}
+
+                {availableChains.find(c => c.id === formData.chain)?.type === 'solana' && (
+                  <div className="mt-6">
+                    <div className="mb-3">
+                      <span className="text-sm font-medium">优先费</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {([
+                        { value: 'economy', label: '经济' },
+                        { value: 'normal', label: '标准' },
+                        { value: 'urgent', label: '加急' },
+                      ] as const).map(level => (
+                        <button
+                          key={level.value}
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, priorityFeeLevel: level.value }))}
+                          className={`btn ${formData.priorityFeeLevel === level.value ? 'btn-primary' : 'btn-outline'}`}
+                        >
+                          {level.label}
+                        </button>
+                      ))}
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        className="input input-bordered w-56"
+                        placeholder="单笔上限 lamports（可选）"
+                        value={formData.maxPriorityFeeLamports}
+                        onChange={(e) => setFormData(prev => ({ ...prev, maxPriorityFeeLamports: e.target.value }))}
+                      />
+                    </div>
+                    <div className="mt-2">
+                      <span className="text-xs text-base-content/60">
+                        按最近涉及相同账户的交易费率定价（经济/标准/加急分别取 25%/50%/90% 分位），计算单元上限按模拟消耗设置；网络拥堵时提高档位可避免交易被丢弃
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {availableChains.find(c => c.id === formData.chain)?.type !== 'solana' && walletMode !== 'external' && (
+                  <div className="mt-6">
+                    <div className="mb-3">
+                      <span className="text-sm font-medium">流水线深度（同时在途批次）</span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {[1, 2, 3, 5].map(depth => (
+                        <button
+                          key={depth}
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, pipelineDepth: depth }))}
+                          className={`btn ${formData.pipelineDepth === depth ? 'btn-primary' : 'btn-outline'}`}
+                        >
+                          {depth === 1 ? '1（逐批确认）' : depth}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="mt-2">
+                      <span className="text-xs text-base-content/60">
+                        大于 1 时不等待上一批确认即发送下一批，按 nonce 顺序上链
+                      </span>
+                    </div>
+
+                    <div className="mt-6 mb-3">
+                      <span className="text-sm font-medium">卡住交易自动加速</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {[60, 180, 300, 600].map(seconds => (
+                        <button
+                          key={seconds}
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, stuckTimeoutSeconds: seconds }))}
+                          className={`btn ${formData.stuckTimeoutSeconds === seconds ? 'btn-primary' : 'btn-outline'}`}
+                        >
+                          {seconds / 60}分钟
+                        </button>
+                      ))}
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        className="input input-bordered w-48"
+                        placeholder="费用上限 Gwei（可选）"
+                        value={formData.maxFeePerGasGwei}
+                        onChange={(e) => setFormData(prev => ({ ...prev, maxFeePerGasGwei: e.target.value }))}
+                      />
+                    </div>
+                    <div className="mt-2">
+                      <span className="text-xs text-base-content/60">
+                        交易超过设定时间未上链时以更高的 maxFeePerGas 重发（相同 nonce），不超过费用上限；也可在活动详情中手动加速或取消
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {availableChains.find(c => c.id === formData.chain)?.type !== 'solana' && !isNFT && !isMultiToken && (
+                  <div className="mt-6">
+                    <div className="mb-3">
+                      <span className="text-sm font-medium">发放方式</span>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {([
+                        { value: 'PUSH', label: '直接发送' },
+                        { value: 'MERKLE_CLAIM', label: '领取式（Merkle 证明）' },
+                      ] as const).map(mode => (
+                        <button
+                          key={mode.value}
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, distributionMode: mode.value }))}
+                          className={`btn ${formData.distributionMode === mode.value ? 'btn-primary' : 'btn-outline'}`}
+                        >
+                          {mode.label}
+                        </button>
+                      ))}
+                      {isMerkleClaim && (
+                        <input
+                          type="datetime-local"
+                          className="input input-bordered w-60"
+                          value={formData.claimExpiresAt}
+                          onChange={(e) => setFormData(prev => ({ ...prev, claimExpiresAt: e.target.value }))}
+                        />
+                      )}
+                    </div>
+                    <div className="mt-2">
+                      <span className="text-xs text-base-content/60">
+                        领取式只需一笔交易部署并注资分发合约，接收者凭导出的证明自行领取（自付 Gas）；截止时间后可回收未领取的部分
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {isSolanaChain(formData.chain) && !isNFT && !isMultiToken && (
+                  <div className="mt-6">
+                    <span className="text-xs text-base-content/60">
+                      Solana 暂不支持领取式发放（没有对应的链上领取程序），只能直接发送
+                    </span>
+                  </div>
+                )}
+
+                {!isMerkleClaim && !isNFT && !isMultiToken && (
+                  <div className="mt-6">
+                    <label className="label cursor-pointer justify-start gap-2">
+                      <input
+                        type="checkbox"
+                        className="checkbox checkbox-sm"
+                        checked={formData.vestingEnabled}
+                        onChange={(e) => setFormData(prev => ({ ...prev, vestingEnabled: e.target.checked }))}
+                      />
+                      <span className="text-sm font-medium">锁仓释放（按计划分批解锁发送）</span>
+                    </label>
+                    {isVesting && (
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mt-2">
+                        <div>
+                          <div className="text-xs text-base-content/60 mb-1">释放开始时间</div>
+                          <input
+                            type="datetime-local"
+                            className="input input-bordered w-full"
+                            value={formData.vestingStartAt}
+                            onChange={(e) => setFormData(prev => ({ ...prev, vestingStartAt: e.target.value }))}
+                          />
+                        </div>
+                        <div>
+                          <div className="text-xs text-base-content/60 mb-1">锁定期（天）</div>
+                          <input
+                            type="number"
+                            min={0}
+                            className="input input-bordered w-full"
+                            value={formData.vestingCliffDays}
+                            onChange={(e) => setFormData(prev => ({ ...prev, vestingCliffDays: Math.max(0, Number(e.target.value) || 0) }))}
+                          />
+                        </div>
+                        <div>
+                          <div className="text-xs text-base-content/60 mb-1">释放总时长（天）</div>
+                          <input
+                            type="number"
+                            min={0}
+                            className="input input-bordered w-full"
+                            value={formData.vestingDurationDays}
+                            onChange={(e) => setFormData(prev => ({ ...prev, vestingDurationDays: Math.max(0, Number(e.target.value) || 0) }))}
+                          />
+                        </div>
+                        <div>
+                          <div className="text-xs text-base-content/60 mb-1">解锁间隔（天）</div>
+                          <input
+                            type="number"
+                            min={1}
+                            className="input input-bordered w-full"
+                            value={formData.vestingIntervalDays}
+                            onChange={(e) => setFormData(prev => ({ ...prev, vestingIntervalDays: Math.max(0, Number(e.target.value) || 0) }))}
+                          />
+                        </div>
+                      </div>
+                    )}
+                    <div className="mt-2">
+                      <span className="text-xs text-base-content/60">
+                        每个接收者的金额按锁定期 + 线性释放拆分为多个解锁批次；活动开始后，到期的批次由应用自动发送（应用需保持运行且主密码已解锁）
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {availableChains.find(c => c.id === formData.chain)?.type !== 'solana' && !isMerkleClaim && !isNFT && !isMultiToken && (
+                  <div className="mt-6">
+                    <div className="mb-3">
+                      <span className="text-sm font-medium">批次模式</span>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {([
+                        { value: 'ATOMIC', label: '原子（全部成功或全部回滚）' },
+                        { value: 'BEST_EFFORT', label: '尽力发送（跳过失败地址）' },
+                      ] as const).map(mode => (
+                        <button
+                          key={mode.value}
+                          type="button"
+                          onClick={() => setFormData(prev => ({ ...prev, batchMode: mode.value }))}
+                          className={`btn ${formData.batchMode === mode.value ? 'btn-primary' : 'btn-outline'}`}
+                        >
+                          {mode.label}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="mt-2">
+                      <span className="text-xs text-base-content/60">
+                        尽力发送时无法到账的地址（黑名单、无法接收转账的合约等）被跳过并单独标记为失败，其余地址照常到账；原生代币的跳过金额退回发送钱包
+                      </span>
+                    </div>
+                  </div>
+                )}
+
+                {!isMerkleClaim && (availableChains.find(c => c.id === formData.chain)?.type === 'solana' || formData.batchMode === 'ATOMIC' || isNFT || isMultiToken) && (
+                  <div className="mt-6">
+                    <label className="label cursor-pointer justify-start gap-2">
+                      <input
+                        type="checkbox"
+                        className="checkbox checkbox-sm"
+                        checked={formData.isolateFailures}
+                        onChange={(e) => setFormData(prev => ({ ...prev, isolateFailures: e.target.checked }))}
+                      />
+                      <span className="text-sm font-medium">失败隔离</span>
+                    </label>
+                    <span className="text-xs text-base-content/60">
+                      批次因个别地址回滚（黑名单、无法接收转账的合约等）失败时，二分模拟找出这些地址并只将其标记为失败，其余地址继续发送
+                    </span>
+                  </div>
+                )}
+
+                {!!transferFeeBasisPoints && !isMerkleClaim && !isMultiToken && (
+                  <div className="mt-6">
+                    <label className="label cursor-pointer justify-start gap-2">
+                      <input
+                        type="checkbox"
+                        className="checkbox checkbox-sm"
+                        checked={formData.netDelivery}
+                        onChange={(e) => setFormData(prev => ({ ...prev, netDelivery: e.target.checked }))}
+                      />
+                      <span className="text-sm font-medium">按到账金额发送</span>
+                    </label>
+                    <span className="text-xs text-base-content/60">
+                      代币每笔转账收取 {transferFeeBasisPoints / 100}% 手续费。开启后按手续费反推发送金额，接收者实际到账 CSV 中的金额，手续费由活动钱包承担；关闭时接收者到账金额扣除手续费
                     </span>
                   </div>
                 )}
@@ -663,7 +1508,13 @@ export default function CampaignCreate() {
                   onChange={handleCSVContentChange}
                   className="textarea textarea-bordered font-mono text-sm h-96 resize-none w-full"
                   style={{ border: '1px solid #d1d5db', backgroundColor: '#ffffff' }}
-                  placeholder="请粘贴CSV内容，格式：地址,金额&#10;&#10;示例（EVM地址）：&#10;0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb,100.5&#10;0xdAC17F958D2ee523a2206206994597C13D831ec7,200&#10;&#10;示例（Solana地址）：&#10;7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU,50.25&#10;DYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK,150"
+                  placeholder={isMultiToken
+                    ? `请粘贴CSV内容，格式：地址,${tokenLegSymbols.map(symbol => `${symbol}金额`).join(',')}\n\n示例：\n0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb,${tokenLegSymbols.map((_, i) => i === 0 ? '100' : '0.5').join(',')}\n0xdAC17F958D2ee523a2206206994597C13D831ec7,${tokenLegSymbols.map((_, i) => i === 0 ? '' : '2').join(',')}`
+                    : tokenStandard === 'ERC721'
+                    ? '请粘贴CSV内容，格式：地址,tokenId（每行转出 1 个 NFT，同一地址可出现多行）\n\n示例：\n0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb,1024\n0xdAC17F958D2ee523a2206206994597C13D831ec7,1025'
+                    : tokenStandard === 'ERC1155'
+                      ? '请粘贴CSV内容，格式：地址,tokenId,数量\n\n示例：\n0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb,7,2\n0xdAC17F958D2ee523a2206206994597C13D831ec7,8,1'
+                      : '请粘贴CSV内容，格式：地址,金额\n\n示例（EVM地址）：\n0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb,100.5\n0xdAC17F958D2ee523a2206206994597C13D831ec7,200\n\n示例（Solana地址）：\n7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU,50.25\nDYw8jCTfwHNRJhhmFcbXvVDTqWMEVFBX6ZKUmG5CNSKK,150'}
                   required
                 />
               </div>
@@ -695,14 +1546,25 @@ export default function CampaignCreate() {
                           <div className="stat-value text-2xl">{csvValidation.validRecords}</div>
                         </div>
 
-                        <div className="stat bg-base-200 rounded-lg p-4">
-                          <div className="stat-title text-xs">总代币数</div>
-                          <div className="stat-value text-2xl">
-                            {csvData.reduce((sum, item) => {
-                              return sum.plus(new BigNumber(item.amount || 0));
-                            }, new BigNumber(0)).toString()}
+                        {isMultiToken ? tokenLegSymbols.map((symbol, legIndex) => (
+                          <div key={legIndex} className="stat bg-base-200 rounded-lg p-4">
+                            <div className="stat-title text-xs">{symbol} 总数</div>
+                            <div className="stat-value text-2xl">
+                              {csvData.reduce((sum, item) => {
+                                return sum.plus(new BigNumber(item.amounts?.[legIndex] || 0));
+                              }, new BigNumber(0)).toString()}
+                            </div>
                           </div>
-                        </div>
+                        )) : (
+                          <div className="stat bg-base-200 rounded-lg p-4">
+                            <div className="stat-title text-xs">{isNFT ? 'NFT 总数' : '总代币数'}</div>
+                            <div className="stat-value text-2xl">
+                              {csvData.reduce((sum, item) => {
+                                return sum.plus(new BigNumber(item.amount || 0));
+                              }, new BigNumber(0)).toString()}
+                            </div>
+                          </div>
+                        )}
 
                         <div className="stat bg-base-200 rounded-lg p-4">
                           <div className="stat-title text-xs">批次数量</div>
@@ -773,6 +1635,177 @@ export default function CampaignCreate() {
           </div>
         </div>
 
+        {/* Recipient Account Check */}
+        {csvValidation?.isValid && getSelectedChainType() === 'evm' && (
+          <div className="bg-base-100 shadow-sm rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <span className="text-xl">🔍</span>
+                <h2 className="text-lg font-semibold">接收地址检查</h2>
+              </div>
+              <button
+                type="button"
+                onClick={handleCheckRecipients}
+                disabled={isCheckingRecipients || !formData.chain || !formData.tokenAddress}
+                className="btn btn-sm btn-outline"
+              >
+                {isCheckingRecipients ? (
+                  <>
+                    <span className="loading loading-spinner loading-xs"></span>
+                    检查中...
+                  </>
+                ) : (
+                  '开始检查'
+                )}
+              </button>
+            </div>
+
+            {recipientCheck ? (
+              <div className="space-y-3">
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(ACCOUNT_TYPE_LABELS) as RecipientAccountType[]).map(type => (
+                    <span key={type} className="badge badge-outline">
+                      {ACCOUNT_TYPE_LABELS[type]} {recipientCheck.counts[type]}
+                    </span>
+                  ))}
+                  {excludedRecipients.size > 0 && (
+                    <span className="badge badge-neutral">已排除 {excludedRecipients.size}</span>
+                  )}
+                </div>
+
+                {recipientCheck.accounts.length === 0 ? (
+                  <div className="alert alert-success text-sm">
+                    <span>全部 {recipientCheck.checked} 个地址都是普通外部账户</span>
+                  </div>
+                ) : (
+                  <>
+                    <div className="overflow-x-auto max-h-64">
+                      <table className="table table-xs">
+                        <thead>
+                          <tr>
+                            <th>排除</th>
+                            <th>地址</th>
+                            <th>类型</th>
+                            <th>说明</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {recipientCheck.accounts.map(account => (
+                            <tr key={account.address} className={account.flagged ? 'bg-warning/10' : ''}>
+                              <td>
+                                <input
+                                  type="checkbox"
+                                  className="checkbox checkbox-xs"
+                                  checked={excludedRecipients.has(account.address.toLowerCase())}
+                                  onChange={() => toggleExcludedRecipient(account.address)}
+                                />
+                              </td>
+                              <td className="font-mono">{account.address}</td>
+                              <td>{ACCOUNT_TYPE_LABELS[account.accountType]}</td>
+                              <td className="break-all">{describeRecipientAccount(account)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+
+                    {getPendingFlagged(recipientCheck).length > 0 && (
+                      <label className="label cursor-pointer justify-start gap-2">
+                        <input
+                          type="checkbox"
+                          className="checkbox checkbox-sm checkbox-warning"
+                          checked={flaggedConfirmed}
+                          onChange={(e) => setFlaggedConfirmed(e.target.checked)}
+                        />
+                        <span className="text-sm">
+                          已确认保留的 {getPendingFlagged(recipientCheck).length} 个标记地址可以正常接收
+                        </span>
+                      </label>
+                    )}
+                  </>
+                )}
+              </div>
+            ) : (
+              <div className="text-sm text-base-content/60">
+                查询每个接收地址的链上代码，识别合约、Safe 多签与 EIP-7702 委托账户；原生代币活动还会按发送金额模拟转账，找出拒收原生代币的合约。创建活动前会自动检查
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Token Behavior Probe */}
+        {csvValidation?.isValid && canProbeToken && (
+          <div className="bg-base-100 shadow-sm rounded-lg p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-3">
+                <span className="text-xl">🔬</span>
+                <h2 className="text-lg font-semibold">代币行为检测</h2>
+              </div>
+              <button
+                type="button"
+                onClick={handleProbeToken}
+                disabled={isProbingToken}
+                className="btn btn-sm btn-outline"
+              >
+                {isProbingToken ? (
+                  <>
+                    <span className="loading loading-spinner loading-xs"></span>
+                    检测中...
+                  </>
+                ) : (
+                  '开始检测'
+                )}
+              </button>
+            </div>
+
+            {tokenBehavior ? (
+              <div className="space-y-3">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="stat bg-base-200 rounded-lg p-4">
+                    <div className="stat-title text-xs">转账手续费</div>
+                    <div className="stat-value text-2xl">
+                      {!tokenBehavior.simulated ? '-' : tokenBehavior.transferFeeBasisPoints ? `${tokenBehavior.transferFeeBasisPoints / 100}%` : '无'}
+                    </div>
+                    <div className="stat-desc">{tokenBehavior.simulated ? '模拟转账测得' : '未能模拟转账'}</div>
+                  </div>
+                  <div className="stat bg-base-200 rounded-lg p-4">
+                    <div className="stat-title text-xs">Rebase</div>
+                    <div className="stat-value text-2xl">{tokenBehavior.rebasingInterface ? '是' : '未发现'}</div>
+                    <div className="stat-desc font-mono">{tokenBehavior.rebasingInterface || '-'}</div>
+                  </div>
+                  <div className="stat bg-base-200 rounded-lg p-4">
+                    <div className="stat-title text-xs">黑名单</div>
+                    <div className="stat-value text-2xl">
+                      {tokenBehavior.blocklistFunction ? `${tokenBehavior.blockedAddresses.length} 个地址` : '未发现'}
+                    </div>
+                    <div className="stat-desc font-mono">
+                      {tokenBehavior.blocklistFunction ? `已检查 ${tokenBehavior.checkedAddresses} 个地址` : '-'}
+                    </div>
+                  </div>
+                </div>
+
+                {tokenBehavior.warnings.length > 0 ? (
+                  <div className="alert alert-warning text-sm">
+                    <ul className="list-disc list-inside space-y-1">
+                      {tokenBehavior.warnings.map((warning, index) => (
+                        <li key={index} className="break-all">{warning}</li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : (
+                  <div className="alert alert-success text-sm">
+                    <span>未发现转账手续费、rebase 或黑名单问题</span>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className="text-sm text-base-content/60">
+                模拟一笔转账检测转账手续费，识别 rebase 代币与黑名单函数，并检查所有接收地址是否已被拉黑。结果会作为警告随活动保存
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Campaign Estimation */}
         {csvValidation?.isValid && (
           <div className="bg-base-100 shadow-sm rounded-lg p-6">
@@ -810,7 +1843,9 @@ export default function CampaignCreate() {
                   <div className="stat bg-base-200 rounded-lg p-4">
                     <div className="stat-title text-xs">Gas 成本 ({estimation.tokenSymbol})</div>
                     <div className="stat-value text-2xl">{estimation.estimatedGasCost}</div>
-                    <div className="stat-desc">本位币成本</div>
+                    <div className="stat-desc">
+                      {estimation.priorityFee ? `含优先费 ${estimation.priorityFee}（${estimation.computeUnitPrice} µLamports/CU）` : '本位币成本'}
+                    </div>
                   </div>
 
                   <div className="stat bg-base-200 rounded-lg p-4">
@@ -1,8 +1,15 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { EVMChain, ChainInfo } from '../types';
+import { EVMChain, ChainInfo, ReconciliationReport, DryRunReport, VestingSchedule, TokenLeg } from '../types';
 import BigNumber from 'bignumber.js';
-import { isSolanaChain, exportPrivateKey, isNativeToken, NATIVE_TOKEN_ADDRESSES } from '../utils/chainTypeUtils';
+import { isSolanaChain, isNativeToken, NATIVE_TOKEN_ADDRESSES } from '../utils/chainTypeUtils';
+import KeystoreExportModal from '../components/KeystoreExportModal';
+import ExternalSigningPanel from '../components/ExternalSigningPanel';
+import SafeBatchPanel from '../components/SafeBatchPanel';
+import MerkleClaimPanel from '../components/MerkleClaimPanel';
+import VestingSchedulePanel from '../components/VestingSchedulePanel';
+import ReconciliationReportCard from '../components/ReconciliationReportCard';
+import DryRunReportCard from '../components/DryRunReportCard';
 
 
 interface Campaign {
@@ -19,10 +26,19 @@ interface Campaign {
   failedRecipients: number;
   totalAmount?: string;
   walletAddress?: string;
+  walletId?: string;
+  walletImported?: boolean;
+  signingMode?: 'LOCAL' | 'EXTERNAL';
   contractAddress?: string;
+  distributionMode?: 'PUSH' | 'MERKLE_CLAIM';
+  claimExpiresAt?: string;
+  merkleRoot?: string;
+  distributorAddress?: string;
+  vesting?: VestingSchedule;
+  tokenWarnings?: string[]; // 创建时代币行为探测发现的问题
+  tokenLegs?: TokenLeg[]; // 多代币活动的代币列表
   createdAt: string;
   updatedAt: string;
-  walletPrivateKeyBase64?: string;
 }
 
 interface TransactionRecord {
@@ -33,6 +49,7 @@ interface TransactionRecord {
   txHash?: string;
   gasUsed?: string;
   error?: string;
+  replaced?: boolean; // 由加速/取消产生的替换交易
   createdAt: string;
 }
 
@@ -42,10 +59,19 @@ interface Recipient {
   status: 'success' | 'sending' | 'pending' | 'failed';
   txHash?: string;
   error?: string;
+  tokenId?: string; // NFT 活动的 token ID
+  legIndex?: number; // 多代币活动中记录所属的代币
   createdAt?: string;
   updatedAt?: string;
 }
 
+// 每个批次只显示最新的一笔交易：已被替换或正在被加速交易替换的原交易不单独列出
+function getBatchTransactions(transactions: any[]): any[] {
+  const batchSends = transactions.filter(tx => tx.txType === 'BATCH_SEND' && tx.status !== 'REPLACED');
+  const superseded = new Set(batchSends.map(tx => tx.replacesTxHash).filter(Boolean));
+  return batchSends.filter(tx => !superseded.has(tx.txHash));
+}
+
 export default function CampaignDetail() {
   const { id } = useParams();
   const navigate = useNavigate();
@@ -54,6 +80,9 @@ export default function CampaignDetail() {
   const [transactions, setTransactions] = useState<TransactionRecord[]>([]);
   const [recipients, setRecipients] = useState<Recipient[]>([]);
   const [chains, setChains] = useState<ChainInfo[]>([]);
+  const [reconciliation, setReconciliation] = useState<ReconciliationReport | null>(null);
+  const [dryRunReport, setDryRunReport] = useState<DryRunReport | null>(null);
+  const [isDryRunning, setIsDryRunning] = useState(false);
   const [loading, setLoading] = useState(true);
   const [isPaused, setIsPaused] = useState(false);
 
@@ -68,14 +97,14 @@ export default function CampaignDetail() {
   });
   const [totalAirdropAmount, setTotalAirdropAmount] = useState<string>('0');
   const [isRefreshingBalance, setIsRefreshingBalance] = useState(false);
-  const [showPrivateKeyModal, setShowPrivateKeyModal] = useState(false);
-  const [exportedWallet, setExportedWallet] = useState<{ address: string; privateKey: string } | null>(null);
-  const [copied, setCopied] = useState(false);
+  const [showKeystoreModal, setShowKeystoreModal] = useState(false);
 
   // Withdrawal states
   const [showWithdrawModal, setShowWithdrawModal] = useState(false);
-  const [withdrawType, setWithdrawType] = useState<'tokens' | 'native'>('tokens');
+  const [withdrawType, setWithdrawType] = useState<'tokens' | 'native' | 'finalize'>('tokens');
   const [withdrawRecipient, setWithdrawRecipient] = useState('');
+  const [withdrawTokenAddress, setWithdrawTokenAddress] = useState(''); // 多代币活动回收的代币，空值为主代币
+  const [allowImportedWithdraw, setAllowImportedWithdraw] = useState(false);
   const [isWithdrawing, setIsWithdrawing] = useState(false);
 
   // Transaction filter states
@@ -86,7 +115,7 @@ export default function CampaignDetail() {
   const [deploymentProgress, setDeploymentProgress] = useState('');
   const [deploymentError, setDeploymentError] = useState<string | null>(null);
   const [showDeploymentModal, setShowDeploymentModal] = useState(false);
-  const [deploymentResult, setDeploymentResult] = useState<{ contractAddress: string; transactionHash: string } | null>(null);
+  const [deploymentResult, setDeploymentResult] = useState<{ contractAddress: string; transactionHash: string; reused: boolean } | null>(null);
 
   // Utility function to get native token symbol from database
   const getNativeTokenSymbol = (chainId: string): string => {
@@ -195,10 +224,11 @@ export default function CampaignDetail() {
       }
 
       // Load all data in parallel for better performance
-      const [detailsResult, txResult, recipientsResult] = await Promise.allSettled([
+      const [detailsResult, txResult, recipientsResult, reconciliationResult] = await Promise.allSettled([
         window.electronAPI.campaign.getDetails(id),
         window.electronAPI.campaign.getTransactions(id),
-        window.electronAPI.campaign.getRecipients(id)
+        window.electronAPI.campaign.getRecipients(id),
+        window.electronAPI.campaign.getReconciliationReports(id)
       ]);
 
       // Process campaign details (critical - must succeed)
@@ -214,7 +244,7 @@ export default function CampaignDetail() {
 
       // Process transactions (non-critical)
       if (txResult.status === 'fulfilled' && txResult.value && Array.isArray(txResult.value)) {
-        const batchTransactions = txResult.value.filter((tx: any) => tx.txType === 'BATCH_SEND');
+        const batchTransactions = getBatchTransactions(txResult.value);
         setTransactions(batchTransactions.map((tx: any, index: number) => ({
           id: tx.id.toString(),
           batchNumber: index + 1, // Sequential batch number: first transaction = batch 1
@@ -222,6 +252,7 @@ export default function CampaignDetail() {
           addressCount: tx.recipientCount || 0,
           txHash: tx.txHash,
           gasUsed: tx.gasUsed?.toString(),
+          replaced: !!tx.replacesTxHash,
           createdAt: tx.createdAt,
         })));
       } else {
@@ -246,6 +277,8 @@ export default function CampaignDetail() {
           transactionHash: r.txHash,
           gasUsed: r.gasUsed,
           error: r.errorMessage,
+          tokenId: r.tokenId,
+          legIndex: r.legIndex,
           createdAt: r.createdAt,
           updatedAt: r.updatedAt,
         }));
@@ -263,6 +296,13 @@ export default function CampaignDetail() {
         setTotalAirdropAmount('0');
       }
 
+      // Process reconciliation reports (non-critical, latest first)
+      if (reconciliationResult.status === 'fulfilled' && Array.isArray(reconciliationResult.value)) {
+        setReconciliation(reconciliationResult.value[0] || null);
+      } else {
+        console.error('Failed to load reconciliation reports:', reconciliationResult.status === 'rejected' ? reconciliationResult.reason : 'Unknown error');
+      }
+
       // Refresh wallet balances after loading campaign data
       try {
         await refreshBalances();
@@ -286,6 +326,7 @@ export default function CampaignDetail() {
           transactionHash: r.txHash,
           gasUsed: r.gasUsed,
           error: r.errorMessage,
+          tokenId: r.tokenId,
           createdAt: r.createdAt,
           updatedAt: r.updatedAt,
         }));
@@ -319,6 +360,8 @@ export default function CampaignDetail() {
           transactionHash: r.txHash,
           gasUsed: r.gasUsed,
           error: r.errorMessage,
+          tokenId: r.tokenId,
+          legIndex: r.legIndex,
           createdAt: r.createdAt,
           updatedAt: r.updatedAt,
         }));
@@ -378,8 +421,11 @@ export default function CampaignDetail() {
           await loadCampaign(true); // Silent refresh after pause
         } else if (campaign.status === 'PAUSED') {
           // Resume campaign
-          await window.electronAPI.campaign.resume(id);
-          alert('活动已恢复');
+          const result = await window.electronAPI.campaign.resume(id);
+          const report = result?.reconciliation;
+          alert(report
+            ? `活动已恢复。中断批次对账：${report.sentCount} 个地址链上已到账，${report.requeuedCount} 个重新排队，${report.reviewCount} 个需人工核对，${report.inFlightCount} 个仍在途`
+            : '活动已恢复');
           await loadCampaign(true); // Silent refresh after resume
         }
       }
@@ -404,6 +450,26 @@ export default function CampaignDetail() {
     }
   };
 
+  const handleReplaceTransaction = async (txHash: string, action: 'speedUp' | 'cancel') => {
+    if (!id) return;
+
+    const message = action === 'speedUp'
+      ? '以更高的 Gas 费用重新发送该批次（相同 nonce）？'
+      : '发送 0 金额的自转账替换该批次交易？取消成功后该批次的地址会标记为失败，可通过“重试失败交易”重新发送。';
+    if (!confirm(message)) return;
+
+    try {
+      const result = action === 'speedUp'
+        ? await window.electronAPI.campaign.speedUpTransaction(id, txHash)
+        : await window.electronAPI.campaign.cancelTransaction(id, txHash);
+      alert(`替换交易已发送: ${result.txHash}`);
+      await handleRefreshTransactions();
+    } catch (error) {
+      console.error('Failed to replace transaction:', error);
+      alert((action === 'speedUp' ? '加速失败: ' : '取消失败: ') + (error instanceof Error ? error.message : '未知错误'));
+    }
+  };
+
   const handleStartCampaign = async () => {
     if (!campaign || !id) return;
 
@@ -428,6 +494,20 @@ export default function CampaignDetail() {
     }
   };
 
+  const handleDryRun = async () => {
+    if (!id) return;
+
+    setIsDryRunning(true);
+    try {
+      setDryRunReport(await window.electronAPI.campaign.dryRun(id));
+    } catch (error) {
+      console.error('Failed to dry-run campaign:', error);
+      alert('模拟发送失败: ' + (error instanceof Error ? error.message : '未知错误'));
+    } finally {
+      setIsDryRunning(false);
+    }
+  };
+
   const handleDeployContract = async () => {
     if (!campaign || !id || !campaign.walletAddress || !campaign.chain) return;
 
@@ -483,7 +563,7 @@ export default function CampaignDetail() {
 
         const result = await window.electronAPI.campaign.deployContract(id);
 
-        setDeploymentProgress('合约部署成功！');
+        setDeploymentProgress(result.reused ? '已复用本链合约' : '合约部署成功！');
         setDeploymentResult(result);
 
         // 刷新活动状态
@@ -647,51 +727,24 @@ export default function CampaignDetail() {
     );
   };
 
-  const handleExportPrivateKey = async () => {
-    if (!campaign?.walletPrivateKeyBase64) {
-      alert('该活动没有可导出的私钥');
+  const handleExportKeystore = () => {
+    if (!campaign?.walletId) {
+      alert('该活动没有可导出的钱包');
       return;
     }
-
-    try {
-      // 使用统一的私钥导出函数
-      const privateKeyDisplay = await exportPrivateKey(campaign.walletPrivateKeyBase64 || '', campaign);
-
-      // 显示自定义私钥弹窗
-      setExportedWallet({
-        address: campaign.walletAddress || '',
-        privateKey: privateKeyDisplay
-      });
-      setShowPrivateKeyModal(true);
-      setCopied(false);
-    } catch (error) {
-      console.error('Failed to export private key:', error);
-      alert('导出私钥失败: ' + (error instanceof Error ? error.message : '未知错误'));
-    }
-  };
-
-  const handleCopyPrivateKey = () => {
-    if (exportedWallet?.privateKey) {
-      navigator.clipboard.writeText(exportedWallet.privateKey);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    }
-  };
-
-  const handleCopyAddress = () => {
-    if (exportedWallet?.address) {
-      navigator.clipboard.writeText(exportedWallet.address);
-    }
+    setShowKeystoreModal(true);
   };
 
   // Withdrawal handlers
-  const handleOpenWithdrawModal = (type: 'tokens' | 'native') => {
-    if (!campaign?.walletPrivateKeyBase64) {
-      alert('该活动没有可用的私钥，无法进行资金回收');
+  const handleOpenWithdrawModal = (type: 'tokens' | 'native' | 'finalize') => {
+    if (!campaign?.walletAddress) {
+      alert('该活动没有可用的钱包，无法进行资金回收');
       return;
     }
     setWithdrawType(type);
     setWithdrawRecipient('');
+    setWithdrawTokenAddress('');
+    setAllowImportedWithdraw(false);
     setShowWithdrawModal(true);
   };
 
@@ -705,10 +758,28 @@ export default function CampaignDetail() {
     try {
       let result;
       if (withdrawType === 'tokens') {
-        result = await window.electronAPI.campaign.withdrawTokens(campaign.id, withdrawRecipient);
-        alert(`代币回收成功!\n交易哈希: ${result.txHash}\n回收数量: ${result.amount} ${campaign.tokenSymbol}`);
+        result = await window.electronAPI.campaign.withdrawTokens(campaign.id, withdrawRecipient, {
+          allowImportedWallet: allowImportedWithdraw,
+          tokenAddress: withdrawTokenAddress || undefined
+        });
+        alert(`代币回收成功!\n交易哈希: ${result.txHash}\n回收数量: ${result.amount} ${withdrawTokenSymbol}`);
+      } else if (withdrawType === 'finalize') {
+        const finalized = await window.electronAPI.campaign.finalizeWallet(campaign.id, withdrawRecipient, { allowImportedWallet: allowImportedWithdraw });
+        const lines = [
+          '钱包已结束!',
+          `回收租金: ${(Number(finalized.rentRecoveredLamports) / 1e9).toFixed(6)} SOL`,
+          `转出 SOL: ${(Number(finalized.solSwept) / 1e9).toFixed(6)} SOL`,
+          `关闭代币账户: ${finalized.closedTokenAccounts.length} 个`,
+          `关闭查找表: ${finalized.closedLookupTables.length} 个`,
+        ];
+        finalized.sweptTokens.forEach(token => lines.push(`转出代币 ${token.mint}: ${token.amount}`));
+        if (finalized.pendingLookupTables.length > 0) {
+          lines.push(`\n${finalized.pendingLookupTables.length} 个查找表已停用，需等待约 512 个 slot（数分钟）后再次结束钱包才能关闭，SOL 暂未转出`);
+        }
+        finalized.skippedAccounts.forEach(account => lines.push(`跳过 ${account.address}: ${account.reason}`));
+        alert(lines.join('\n'));
       } else {
-        result = await window.electronAPI.campaign.withdrawNative(campaign.id, withdrawRecipient);
+        result = await window.electronAPI.campaign.withdrawNative(campaign.id, withdrawRecipient, { allowImportedWallet: allowImportedWithdraw });
         const nativeTokenSymbol = getNativeTokenSymbol(campaign.chain);
         alert(`${nativeTokenSymbol} 原生代币回收成功!\n交易哈希: ${result.txHash}\n回收数量: ${result.amount} ${nativeTokenSymbol}`);
       }
@@ -723,11 +794,22 @@ export default function CampaignDetail() {
     }
   };
 
-  const handleCloseModal = () => {
-    setShowPrivateKeyModal(false);
-    setExportedWallet(null);
-    setCopied(false);
-  };
+
+  // 多代币活动按代币统计完成情况（接收者按代币拆成多条记录）
+  const tokenLegProgress = (campaign?.tokenLegs || []).map((leg, legIndex) => {
+    const legRecipients = recipients.filter(recipient => (recipient.legIndex ?? 0) === legIndex);
+    const sum = (rows: Recipient[]) => rows.reduce((total, row) => total.plus(row.amount || '0'), new BigNumber(0));
+    const sent = legRecipients.filter(recipient => recipient.status === 'success');
+    return {
+      ...leg,
+      total: legRecipients.length,
+      sent: sent.length,
+      failed: legRecipients.filter(recipient => recipient.status === 'failed').length,
+      totalAmount: sum(legRecipients),
+      sentAmount: sum(sent),
+    };
+  });
+  const withdrawTokenSymbol = campaign?.tokenLegs?.find(leg => leg.tokenAddress === withdrawTokenAddress)?.tokenSymbol || campaign?.tokenSymbol;
 
   // Helper function to get transaction explorer URL
   const getTransactionUrl = (txHash: string): string => {
@@ -782,7 +864,7 @@ export default function CampaignDetail() {
     try {
       const txData = await window.electronAPI.campaign.getTransactions(id, { limit: 100 });
       if (txData && Array.isArray(txData)) {
-        const batchTransactions = txData.filter((tx: any) => tx.txType === 'BATCH_SEND');
+        const batchTransactions = getBatchTransactions(txData);
         setTransactions(batchTransactions.map((tx: any, index: number) => ({
           id: tx.id.toString(),
           batchNumber: index + 1,
@@ -790,6 +872,7 @@ export default function CampaignDetail() {
           addressCount: tx.recipientCount || 0,
           txHash: tx.txHash,
           gasUsed: tx.gasUsed?.toString(),
+          replaced: !!tx.replacesTxHash,
           createdAt: tx.createdAt,
         })));
       }
@@ -1044,6 +1127,7 @@ export default function CampaignDetail() {
 
   const progressPercentage = Math.round((campaign.completedRecipients / campaign.totalRecipients) * 100);
   const remainingRecipients = campaign.totalRecipients - campaign.completedRecipients - campaign.failedRecipients;
+  const isMerkleClaim = campaign.distributionMode === 'MERKLE_CLAIM';
 
   return (
     <div className="p-6 max-w-7xl mx-auto">
@@ -1054,7 +1138,7 @@ export default function CampaignDetail() {
         </div>
       </div>
         <div className="flex gap-2">
-          {campaign && (campaign.status === 'CREATED' || campaign.status === 'FUNDED') && !isSolanaChain(campaign) && (
+          {campaign && (campaign.status === 'CREATED' || campaign.status === 'FUNDED') && !isSolanaChain(campaign) && !isMerkleClaim && (
             <button
               onClick={handleDeployContract}
               className="btn btn-primary"
@@ -1080,7 +1164,17 @@ export default function CampaignDetail() {
               ✅ 标记为已充值
             </button>
           )}
-          {campaign && campaign.status === 'READY' && (
+          {campaign && (campaign.status === 'READY' || campaign.status === 'PAUSED') && !isMerkleClaim && (
+            <button
+              onClick={handleDryRun}
+              className="btn btn-outline"
+              disabled={isDryRunning}
+              title="按当前链上状态模拟所有待发送批次，不广播交易"
+            >
+              {isDryRunning ? <span className="loading loading-spinner loading-xs"></span> : '🧪 模拟发送'}
+            </button>
+          )}
+          {campaign && campaign.status === 'READY' && !isMerkleClaim && (
             <button
               onClick={handleStartCampaign}
               className="btn btn-success"
@@ -1114,6 +1208,13 @@ export default function CampaignDetail() {
           </button>
         </div>
 
+      {/* Dry run */}
+      {dryRunReport && (
+        <div className="mb-8">
+          <DryRunReportCard report={dryRunReport} isSolana={isSolanaChain(campaign)} onClose={() => setDryRunReport(null)} />
+        </div>
+      )}
+
       {/* Progress Section */}
       <div className="card bg-base-100 shadow-sm mb-8">
         <div className="card-body">
@@ -1329,28 +1430,43 @@ export default function CampaignDetail() {
               <div>
                 <div className="text-sm text-base-content/60 mb-2">私钥管理</div>
 
-                {campaign.walletPrivateKeyBase64 ? (
+                {campaign.walletAddress && campaign.signingMode === 'EXTERNAL' ? (
+                  <div className="alert alert-info">
+                    <div>
+                      <div className="text-sm font-medium">外部签名</div>
+                      <div className="text-xs">本机不保存该钱包的私钥，交易需在外部签名后导入；无法导出密钥或在应用内回收资金</div>
+                    </div>
+                  </div>
+                ) : campaign.walletAddress ? (
                   <>
                     <div className="alert alert-success">
                       <svg xmlns="http://www.w3.org/2000/svg" className="stroke-current shrink-0 h-6 w-6" fill="none" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                       </svg>
                       <div>
-                        <div className="text-sm font-medium">私钥已保存</div>
-                        <div className="text-xs">可以导出私钥来控制钱包资金</div>
+                        <div className="text-sm font-medium">私钥已加密保存</div>
+                        <div className="text-xs">私钥仅在主进程中使用，可导出为加密的密钥文件</div>
                       </div>
                     </div>
                     <button
-                      onClick={handleExportPrivateKey}
+                      onClick={handleExportKeystore}
                       className="btn btn-primary btn-sm w-full mt-3"
                     >
-                      🔑 导出私钥
+                      🔑 导出密钥文件
                     </button>
 
                     {/* Withdrawal buttons */}
                     <div className="divider my-3"></div>
                     <div className="text-sm text-base-content/60 mb-2">资金回收</div>
                     {/* 判断是否是原生代币 */}
+                    {isSolanaChain(campaign) && (campaign.status === 'COMPLETED' || campaign.status === 'FAILED') && (
+                      <button
+                        onClick={() => handleOpenWithdrawModal('finalize')}
+                        className="btn btn-outline btn-warning btn-sm w-full mb-2"
+                      >
+                        🧹 结束钱包（回收租金）
+                      </button>
+                    )}
                     {!isNativeToken(campaign.tokenAddress) ? (
                       // 非原生代币：显示两个按钮
                       <div className="grid grid-cols-2 gap-2">
@@ -1403,6 +1519,103 @@ export default function CampaignDetail() {
         </div>
       </div>
 
+      {/* Token Behavior Warnings */}
+      {!!campaign.tokenWarnings?.length && (
+        <div className="alert alert-warning mb-8">
+          <div>
+            <div className="text-sm font-medium">代币行为提示</div>
+            <ul className="list-disc list-inside text-xs space-y-1 mt-1">
+              {campaign.tokenWarnings.map((warning, index) => (
+                <li key={index} className="break-all">{warning}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {/* Multi-token progress */}
+      {tokenLegProgress.length > 0 && (
+        <div className="card bg-base-100 shadow-sm mb-8">
+          <div className="card-body">
+            <h3 className="card-title text-base">多代币发送进度</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {tokenLegProgress.map(leg => (
+                <div key={leg.tokenAddress} className="bg-base-200 rounded-lg p-4">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">{leg.tokenSymbol || `${leg.tokenAddress.substring(0, 8)}...`}</span>
+                    <span className="text-xs text-base-content/60">{leg.sent}/{leg.total} 条已发送</span>
+                  </div>
+                  <progress className="progress progress-primary w-full mt-2" value={leg.sent} max={Math.max(leg.total, 1)}></progress>
+                  <div className="text-xs text-base-content/60 mt-1">
+                    已发送 {leg.sentAmount.toFixed()} / {leg.totalAmount.toFixed()}
+                    {leg.failed > 0 && <span className="text-error ml-2">失败 {leg.failed} 条</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* External Signing */}
+      {campaign.signingMode === 'EXTERNAL' && (
+        <div className="mb-8">
+          <ExternalSigningPanel campaignId={campaign.id} isSolana={isSolanaChain(campaign)} />
+        </div>
+      )}
+
+      {/* Reconciliation of interrupted batches */}
+      {reconciliation && (
+        <div className="mb-8">
+          <ReconciliationReportCard report={reconciliation} />
+        </div>
+      )}
+
+      {/* Merkle Claim */}
+      {isMerkleClaim && (
+        <div className="mb-8">
+          <MerkleClaimPanel
+            campaignId={campaign.id}
+            tokenSymbol={campaign.tokenSymbol}
+            status={campaign.status}
+            distributorAddress={campaign.distributorAddress}
+            merkleRoot={campaign.merkleRoot}
+            claimExpiresAt={campaign.claimExpiresAt}
+            onChanged={() => {
+              loadCampaign(true);
+              loadRecipients();
+            }}
+          />
+        </div>
+      )}
+
+      {/* Vesting Schedule */}
+      {campaign.vesting && (
+        <div className="mb-8">
+          <VestingSchedulePanel
+            campaignId={campaign.id}
+            tokenSymbol={campaign.tokenSymbol}
+            vesting={campaign.vesting}
+            refreshKey={campaign.completedRecipients + campaign.failedRecipients}
+          />
+        </div>
+      )}
+
+      {/* Safe Multisig */}
+      {!isSolanaChain(campaign) && campaign.contractAddress && (
+        <div className="mb-8">
+          <SafeBatchPanel
+            campaignId={campaign.id}
+            tokenSymbol={campaign.tokenSymbol}
+            disabled={campaign.status === 'SENDING'}
+            onExecuted={() => {
+              loadCampaign(true);
+              loadRecipients();
+            }}
+          />
+        </div>
+      )}
+
       {/* Transaction Records */}
       <div className="card bg-base-100 shadow-sm mb-8">
         <div className="card-body">
@@ -1447,6 +1660,7 @@ export default function CampaignDetail() {
                       {tx.status === 'sending' && <div className="badge badge-info gap-1">🔄 发送中</div>}
                       {tx.status === 'pending' && <div className="badge badge-warning gap-1">⏳ 待发送</div>}
                       {tx.status === 'failed' && <div className="badge badge-error gap-1">❌ 失败</div>}
+                      {tx.replaced && <div className="badge badge-ghost badge-sm mt-1" title="该交易替换了同 nonce 的原交易">已替换</div>}
                     </td>
                     <td className="py-4">
                       <div className="font-medium">{tx.addressCount}</div>
@@ -1488,6 +1702,24 @@ export default function CampaignDetail() {
                             🔍
                           </a>
                         )}
+                        {tx.status === 'sending' && tx.txHash && !isSolanaChain(campaign) && campaign.signingMode !== 'EXTERNAL' && (
+                          <>
+                            <button
+                              className="btn btn-ghost btn-sm"
+                              title="加速（提高 Gas 费用重发）"
+                              onClick={() => handleReplaceTransaction(tx.txHash!, 'speedUp')}
+                            >
+                              ⚡
+                            </button>
+                            <button
+                              className="btn btn-ghost btn-sm"
+                              title="取消交易"
+                              onClick={() => handleReplaceTransaction(tx.txHash!, 'cancel')}
+                            >
+                              ✖
+                            </button>
+                          </>
+                        )}
                         {tx.status === 'failed' && (
                           <button
                             className="btn btn-ghost btn-sm"
@@ -1550,6 +1782,9 @@ export default function CampaignDetail() {
                     </td>
                     <td className="py-4">
                       <div className="font-medium">{recipient.amount}</div>
+                      {recipient.tokenId && (
+                        <div className="text-xs font-mono text-base-content/60">#{recipient.tokenId}</div>
+                      )}
                     </td>
                     <td className="py-4">
                       {recipient.status === 'success' && <div className="badge badge-success gap-1">✅</div>}
@@ -1592,97 +1827,20 @@ export default function CampaignDetail() {
         </div>
       </div>
 
-      {/* Private Key Export Modal */}
-      {showPrivateKeyModal && exportedWallet && (
-        <div className="modal modal-open">
-          <div className="modal-box max-w-2xl">
-            <h3 className="font-bold text-lg mb-4 flex items-center gap-2">
-              <span>🔑</span>
-              <span>导出私钥</span>
-            </h3>
-
-            {/* Warning Alert */}
-            <div className="alert alert-warning mb-4">
-              <svg xmlns="http://www.w3.org/2000/svg" className="stroke-current shrink-0 h-6 w-6" fill="none" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.732-.833-2.5 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
-              </svg>
-              <span className="text-sm">
-                <strong>安全警告：</strong>私钥拥有您钱包的完全控制权，请妥善保管，切勿分享给他人！
-              </span>
-            </div>
-
-            {/* Wallet Address */}
-            <div className="mb-4">
-              <label className="label">
-                <span className="label-text font-semibold">钱包地址</span>
-              </label>
-              <div className="flex gap-2">
-                <div className="flex-1 bg-base-200 px-4 py-3 rounded-lg font-mono text-sm break-all">
-                  {exportedWallet.address}
-                </div>
-                <button
-                  onClick={handleCopyAddress}
-                  className="btn btn-square btn-outline"
-                  title="复制地址"
-                >
-                  📋
-                </button>
-              </div>
-            </div>
-
-            {/* Private Key */}
-            <div className="mb-6">
-              <label className="label">
-                <span className="label-text font-semibold">私钥 (Private Key)</span>
-              </label>
-              <div className="flex gap-2">
-                <div className="flex-1 bg-error/10 border-2 border-error/30 px-4 py-3 rounded-lg font-mono text-sm break-all">
-                  {exportedWallet.privateKey}
-                </div>
-                <button
-                  onClick={handleCopyPrivateKey}
-                  className={`btn btn-square ${copied ? 'btn-success' : 'btn-error'}`}
-                  title="复制私钥"
-                >
-                  {copied ? '✓' : '📋'}
-                </button>
-              </div>
-              {copied && (
-                <div className="text-success text-sm mt-2 flex items-center gap-1">
-                  <span>✓</span>
-                  <span>私钥已复制到剪贴板</span>
-                </div>
-              )}
-            </div>
-
-            {/* Security Tips */}
-            <div className="bg-base-200 p-4 rounded-lg mb-4">
-              <h4 className="font-semibold mb-2 text-sm">安全提示</h4>
-              <ul className="text-sm space-y-1 text-base-content/80">
-                <li>• EVM私钥可以导入到 MetaMask、Trust Wallet 等钱包</li>
-                <li>• Solana私钥为64字节数组格式，可导入到 Phantom、Solflare 等钱包</li>
-                <li>• 格式示例：[135,23,98,189,91,220,102,232,69,78,173,75,129,198,30,190,...]</li>
-                <li>• 请将私钥保存在安全的地方（如密码管理器）</li>
-                <li>• 不要截图或通过互联网传输私钥</li>
-                <li>• 任何拥有私钥的人都可以控制钱包资金</li>
-              </ul>
-            </div>
-
-            {/* Modal Actions */}
-            <div className="modal-action">
-              <button onClick={handleCloseModal} className="btn btn-primary">
-                我已安全保存
-              </button>
-            </div>
-          </div>
-          <div className="modal-backdrop" onClick={handleCloseModal}></div>
-        </div>
+      {/* Keystore Export Modal */}
+      {showKeystoreModal && campaign?.walletId && campaign.walletAddress && (
+        <KeystoreExportModal
+          walletId={campaign.walletId}
+          address={campaign.walletAddress}
+          isSolana={isSolanaChain(campaign)}
+          onClose={() => setShowKeystoreModal(false)}
+        />
       )}
 
       {/* Contract Deployment Modal */}
       {showDeploymentModal && (
         <div className="modal modal-open">
-          <div className="modal-box max-w-lg">
+          <div className={`modal-box ${campaign?.signingMode === 'EXTERNAL' ? 'max-w-3xl' : 'max-w-lg'}`}>
             <div className="flex items-center justify-between mb-4">
               <h3 className="font-bold text-lg flex items-center gap-2">
                 <span>🚀</span>
@@ -1716,6 +1874,13 @@ export default function CampaignDetail() {
               )}
             </div>
 
+            {/* 外部签名：部署交易需要在这里导入签名 */}
+            {isDeploying && campaign?.signingMode === 'EXTERNAL' && (
+              <div className="mb-6">
+                <ExternalSigningPanel campaignId={campaign.id} isSolana={isSolanaChain(campaign)} />
+              </div>
+            )}
+
             {/* Error Section */}
             {deploymentError && (
               <div className="alert alert-error mb-6">
@@ -1736,7 +1901,7 @@ export default function CampaignDetail() {
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
                 <div>
-                  <h3 className="font-bold">合约部署成功！</h3>
+                  <h3 className="font-bold">{deploymentResult.reused ? '已复用本链合约' : '合约部署成功！'}</h3>
                   <div className="text-sm mt-1">
                     <div className="mb-1">
                       <strong>合约地址:</strong>
@@ -1744,12 +1909,16 @@ export default function CampaignDetail() {
                         {deploymentResult.contractAddress}
                       </div>
                     </div>
-                    <div>
-                      <strong>交易哈希:</strong>
-                      <div className="font-mono text-xs bg-success/10 p-1 rounded mt-1 break-all">
-                        {deploymentResult.transactionHash}
+                    {deploymentResult.reused ? (
+                      <div>本链已有代码一致的批量转账合约，无需部署交易</div>
+                    ) : (
+                      <div>
+                        <strong>交易哈希:</strong>
+                        <div className="font-mono text-xs bg-success/10 p-1 rounded mt-1 break-all">
+                          {deploymentResult.transactionHash}
+                        </div>
                       </div>
-                    </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -1813,7 +1982,7 @@ export default function CampaignDetail() {
         <div className="modal modal-open">
           <div className="modal-box">
             <h3 className="font-bold text-lg mb-4">
-              {withdrawType === 'tokens' ? '💰 回收剩余代币' : '💎 回收剩余原生代币'}
+              {withdrawType === 'tokens' ? '💰 回收剩余代币' : withdrawType === 'finalize' ? '🧹 结束钱包并回收租金' : '💎 回收剩余原生代币'}
             </h3>
 
             {/* Warning */}
@@ -1823,20 +1992,45 @@ export default function CampaignDetail() {
               </svg>
               <span className="text-sm">
                 {withdrawType === 'tokens'
-                  ? `将钱包中的所有剩余 ${campaign?.tokenSymbol} 代币转移到指定地址`
-                  : '将钱包中的剩余原生代币转移到指定地址（会保留gas费用）'}
+                  ? `将钱包中的所有剩余 ${withdrawTokenSymbol} 代币转移到指定地址`
+                  : withdrawType === 'finalize'
+                    ? '转出所有剩余代币，关闭代币账户和地址查找表回收租金，最后将全部 SOL 转到指定地址。结束后钱包不能再用于发送'
+                    : '将钱包中的剩余原生代币转移到指定地址（会保留gas费用）'}
               </span>
             </div>
 
+            {/* Multi-token campaigns choose which ERC20 token to withdraw */}
+            {withdrawType === 'tokens' && !!campaign?.tokenLegs && (
+              <div className="form-control w-full mb-4">
+                <label className="label">
+                  <span className="label-text font-medium">回收代币</span>
+                </label>
+                <select
+                  className="select select-bordered w-full"
+                  value={withdrawTokenAddress}
+                  onChange={(e) => setWithdrawTokenAddress(e.target.value)}
+                  disabled={isWithdrawing}
+                >
+                  {campaign.tokenLegs.filter(leg => !isNativeToken(leg.tokenAddress)).map(leg => (
+                    <option key={leg.tokenAddress} value={leg.tokenAddress === campaign.tokenAddress ? '' : leg.tokenAddress}>
+                      {leg.tokenSymbol || leg.tokenAddress}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
             {/* Current Balance */}
-            <div className="bg-base-200 p-3 rounded-lg mb-4">
-              <div className="text-sm text-base-content/60">当前余额</div>
-              <div className="text-lg font-bold">
-                {withdrawType === 'tokens'
-                  ? `${parseFloat(walletBalances.token.current).toFixed(4)} ${campaign?.tokenSymbol}`
-                  : `${parseFloat(walletBalances.native.current).toFixed(6)} ${getNativeTokenSymbol(campaign.chain)}`}
+            {!withdrawTokenAddress && (
+              <div className="bg-base-200 p-3 rounded-lg mb-4">
+                <div className="text-sm text-base-content/60">当前余额</div>
+                <div className="text-lg font-bold">
+                  {withdrawType === 'tokens'
+                    ? `${parseFloat(walletBalances.token.current).toFixed(4)} ${campaign?.tokenSymbol}`
+                    : `${parseFloat(walletBalances.native.current).toFixed(6)} ${getNativeTokenSymbol(campaign.chain)}`}
+                </div>
               </div>
-            </div>
+            )}
 
             {/* Recipient Address Input */}
             <div className="form-control w-full mb-4">
@@ -1853,6 +2047,20 @@ export default function CampaignDetail() {
               />
             </div>
 
+            {/* Imported wallet requires an explicit choice */}
+            {campaign?.walletImported && (
+              <label className="label cursor-pointer justify-start gap-2 mb-4">
+                <input
+                  type="checkbox"
+                  className="checkbox checkbox-warning checkbox-sm"
+                  checked={allowImportedWithdraw}
+                  onChange={(e) => setAllowImportedWithdraw(e.target.checked)}
+                  disabled={isWithdrawing}
+                />
+                <span className="label-text text-sm">此活动使用导入的自有钱包，我确认要从该钱包转出资金</span>
+              </label>
+            )}
+
             {/* Modal Actions */}
             <div className="modal-action">
               <button
@@ -1865,7 +2073,7 @@ export default function CampaignDetail() {
               <button
                 onClick={handleWithdraw}
                 className="btn btn-warning"
-                disabled={isWithdrawing || !withdrawRecipient}
+                disabled={isWithdrawing || !withdrawRecipient || (!!campaign?.walletImported && !allowImportedWithdraw)}
               >
                 {isWithdrawing ? '处理中...' : '确认回收'}
               </button>
@@ -6,7 +6,10 @@ import {
   EVMChain,
   ChainInfo
 } from '../types';
-import { isSolanaChain, exportPrivateKey, getChainDisplayName, getChainDisplayBadge } from '../utils/chainTypeUtils';
+import { isSolanaChain, getChainDisplayName, getChainDisplayBadge } from '../utils/chainTypeUtils';
+import KeyVaultPanel from '../components/KeyVaultPanel';
+import TreasurySeedPanel from '../components/TreasurySeedPanel';
+import KeystoreExportModal from '../components/KeystoreExportModal';
 
 export default function WalletManagement() {
   const navigate = useNavigate();
@@ -16,9 +19,7 @@ export default function WalletManagement() {
   const [loading, setLoading] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize] = useState(10);
-  const [showPrivateKeyModal, setShowPrivateKeyModal] = useState(false);
-  const [exportedWallet, setExportedWallet] = useState<{ address: string; privateKey: string } | null>(null);
-  const [copied, setCopied] = useState(false);
+  const [exportingWallet, setExportingWallet] = useState<ActivityWallet | null>(null);
 
   useEffect(() => {
     loadWallets();
@@ -79,47 +80,12 @@ export default function WalletManagement() {
     navigate(`/campaign/${wallet.campaignId}`);
   };
 
-  const handleExportWallet = async (wallet: ActivityWallet) => {
-    if (!wallet.privateKeyBase64) {
-      alert('该钱包没有可导出的私钥');
+  const handleExportWallet = (wallet: ActivityWallet) => {
+    if (!wallet.walletId) {
+      alert('该钱包不可导出');
       return;
     }
-
-    try {
-      // 使用统一的私钥导出函数
-      const privateKeyDisplay = await exportPrivateKey(wallet.privateKeyBase64 || '', wallet as any);
-
-      // 显示自定义私钥弹窗
-      setExportedWallet({
-        address: wallet.address,
-        privateKey: privateKeyDisplay
-      });
-      setShowPrivateKeyModal(true);
-      setCopied(false);
-    } catch (error) {
-      console.error('Failed to export wallet:', error);
-      alert('获取私钥失败，请重试');
-    }
-  };
-
-  const handleCopyPrivateKey = () => {
-    if (exportedWallet?.privateKey) {
-      navigator.clipboard.writeText(exportedWallet.privateKey);
-      setCopied(true);
-      setTimeout(() => setCopied(false), 2000);
-    }
-  };
-
-  const handleCopyAddress = () => {
-    if (exportedWallet?.address) {
-      navigator.clipboard.writeText(exportedWallet.address);
-    }
-  };
-
-  const handleCloseModal = () => {
-    setShowPrivateKeyModal(false);
-    setExportedWallet(null);
-    setCopied(false);
+    setExportingWallet(wallet);
   };
 
   const getStatusBadge = (status: string) => {
@@ -190,11 +156,17 @@ export default function WalletManagement() {
         <div>
           <h3 className="font-bold">活动钱包管理说明</h3>
           <div className="text-sm">
-            系统为每个活动创建独立的钱包，确保隐私和安全性。使用外部钱包（如 MetaMask）为活动钱包充值。活动完成后，可以手动导出私钥以恢复剩余资金。
+            系统为每个活动创建独立的钱包，确保隐私和安全性。使用外部钱包（如 MetaMask）为活动钱包充值。活动完成后，可以回收剩余资金或导出加密的密钥文件。
           </div>
         </div>
       </div>
 
+      {/* Key Vault */}
+      <KeyVaultPanel />
+
+      {/* HD Treasury Seed */}
+      <TreasurySeedPanel />
+
       {/* Wallet Statistics */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-8">
         <div className="stat bg-base-100 rounded-lg shadow-sm">
@@ -247,6 +219,12 @@ export default function WalletManagement() {
                       <div className="bg-base-200 px-2 py-1 rounded text-xs font-mono break-all max-w-xs">
                         {wallet.address}
                       </div>
+                      {wallet.imported && (
+                        <div className="badge badge-outline badge-sm" title="用户导入的自有钱包">导入</div>
+                      )}
+                      {wallet.external && (
+                        <div className="badge badge-outline badge-sm" title="私钥由外部签名器保管，本机不保存">外部签名</div>
+                      )}
                       <button
                         onClick={() => {
                           navigator.clipboard.writeText(wallet.address);
@@ -274,12 +252,14 @@ export default function WalletManagement() {
                       >
                         👁️ 详情
                       </button>
-                      <button
-                        onClick={() => handleExportWallet(wallet)}
-                        className="btn btn-ghost btn-xs"
-                      >
-                        🔑 导出
-                      </button>
+                      {!wallet.external && (
+                        <button
+                          onClick={() => handleExportWallet(wallet)}
+                          className="btn btn-ghost btn-xs"
+                        >
+                          🔑 导出
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -340,7 +320,8 @@ export default function WalletManagement() {
           <div className="text-sm">
             <ul className="list-disc list-inside space-y-1 mt-2">
               <li>每个活动使用独立钱包，防止地址关联分析</li>
-              <li>私钥以加密格式存储在本地数据库中</li>
+              <li>私钥使用主密码派生的密钥 (scrypt + AES-256-GCM) 加密存储在本地数据库中</li>
+              <li>私钥仅在主进程中解密使用，界面上不会显示私钥；所有密钥操作都会记录审计日志</li>
               <li>活动结束后建议及时回收剩余资金</li>
               <li>不要在公共电脑上使用本应用</li>
             </ul>
@@ -348,91 +329,14 @@ export default function WalletManagement() {
         </div>
       </div>
 
-      {/* Private Key Export Modal */}
-      {showPrivateKeyModal && exportedWallet && (
-        <div className="modal modal-open">
-          <div className="modal-box max-w-2xl">
-            <h3 className="font-bold text-lg mb-4 flex items-center gap-2">
-              <span>🔑</span>
-              <span>导出私钥</span>
-            </h3>
-
-            {/* Warning Alert */}
-            <div className="alert alert-warning mb-4">
-              <svg xmlns="http://www.w3.org/2000/svg" className="stroke-current shrink-0 h-6 w-6" fill="none" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-2.5L13.732 4c-.77-.833-1.732-.833-2.5 0L3.732 16.5c-.77.833.192 2.5 1.732 2.5z" />
-              </svg>
-              <span className="text-sm">
-                <strong>安全警告：</strong>私钥拥有您钱包的完全控制权，请妥善保管，切勿分享给他人！
-              </span>
-            </div>
-
-            {/* Wallet Address */}
-            <div className="mb-4">
-              <label className="label">
-                <span className="label-text font-semibold">钱包地址</span>
-              </label>
-              <div className="flex gap-2">
-                <div className="flex-1 bg-base-200 px-4 py-3 rounded-lg font-mono text-sm break-all">
-                  {exportedWallet.address}
-                </div>
-                <button
-                  onClick={handleCopyAddress}
-                  className="btn btn-square btn-outline"
-                  title="复制地址"
-                >
-                  📋
-                </button>
-              </div>
-            </div>
-
-            {/* Private Key */}
-            <div className="mb-6">
-              <label className="label">
-                <span className="label-text font-semibold">私钥 (Private Key)</span>
-              </label>
-              <div className="flex gap-2">
-                <div className="flex-1 bg-error/10 border-2 border-error/30 px-4 py-3 rounded-lg font-mono text-sm break-all">
-                  {exportedWallet.privateKey}
-                </div>
-                <button
-                  onClick={handleCopyPrivateKey}
-                  className={`btn btn-square ${copied ? 'btn-success' : 'btn-error'}`}
-                  title="复制私钥"
-                >
-                  {copied ? '✓' : '📋'}
-                </button>
-              </div>
-              {copied && (
-                <div className="text-success text-sm mt-2 flex items-center gap-1">
-                  <span>✓</span>
-                  <span>私钥已复制到剪贴板</span>
-                </div>
-              )}
-            </div>
-
-            {/* Security Tips */}
-            <div className="bg-base-200 p-4 rounded-lg mb-4">
-              <h4 className="font-semibold mb-2 text-sm">安全提示</h4>
-              <ul className="text-sm space-y-1 text-base-content/80">
-                <li>• EVM私钥可以导入到 MetaMask、Trust Wallet 等钱包</li>
-                <li>• Solana私钥为64字节数组格式，可导入到 Phantom、Solflare 等钱包</li>
-                <li>• 格式示例：[135,23,98,189,91,220,102,232,69,78,173,75,129,198,30,190,...]</li>
-                <li>• 请将私钥保存在安全的地方（如密码管理器）</li>
-                <li>• 不要截图或通过互联网传输私钥</li>
-                <li>• 任何拥有私钥的人都可以控制钱包资金</li>
-              </ul>
-            </div>
-
-            {/* Modal Actions */}
-            <div className="modal-action">
-              <button onClick={handleCloseModal} className="btn btn-primary">
-                我已安全保存
-              </button>
-            </div>
-          </div>
-          <div className="modal-backdrop" onClick={handleCloseModal}></div>
-        </div>
+      {/* Keystore Export Modal */}
+      {exportingWallet?.walletId && (
+        <KeystoreExportModal
+          walletId={exportingWallet.walletId}
+          address={exportingWallet.address}
+          isSolana={isSolanaChain(exportingWallet.chain)}
+          onClose={() => setExportingWallet(null)}
+        />
       )}
     </div>
   );
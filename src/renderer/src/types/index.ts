@@ -10,20 +10,56 @@ export interface ElectronAPI {
     updateStatus: (id: string, status: CampaignStatus) => Promise<{ success: boolean }>;
     start: (id: string) => Promise<{ success: boolean }>;
     pause: (id: string) => Promise<{ success: boolean }>;
-    resume: (id: string) => Promise<{ success: boolean }>;
-    deployContract: (campaignId: string) => Promise<{ success: boolean; contractAddress: string; transactionHash: string; gasUsed: string }>;
+    resume: (id: string) => Promise<{ success: boolean; reconciliation: ReconciliationReport | null }>;
+    deployContract: (campaignId: string) => Promise<{ success: boolean; contractAddress: string; transactionHash: string; gasUsed: string; reused: boolean }>;
     onProgress: (callback: (data: ProgressData) => void) => void;
     estimate: (data: any) => Promise<CampaignEstimate>;
     retryFailedTransactions: (campaignId: string) => Promise<{ success: boolean; retried: number }>;
-    withdrawTokens: (campaignId: string, recipientAddress: string) => Promise<{ txHash: string; amount: string }>;
-    withdrawNative: (campaignId: string, recipientAddress: string) => Promise<{ txHash: string; amount: string }>;
+    speedUpTransaction: (campaignId: string, txHash: string) => Promise<{ success: boolean; txHash: string }>;
+    cancelTransaction: (campaignId: string, txHash: string) => Promise<{ success: boolean; txHash: string }>;
+    getReconciliationReports: (campaignId: string) => Promise<ReconciliationReport[]>;
+    dryRun: (campaignId: string) => Promise<DryRunReport>;
+    deployDistributor: (campaignId: string) => Promise<MerkleDeploymentResponse>;
+    syncClaims: (campaignId: string) => Promise<ClaimSyncResult>;
+    exportClaimProofs: (campaignId: string, format: 'json' | 'csv') => Promise<ClaimProofExportResponse>;
+    sweepUnclaimed: (campaignId: string) => Promise<SweepUnclaimedResponse>;
+    getVestingSchedule: (campaignId: string) => Promise<VestingScheduleEntry[]>;
+    withdrawTokens: (campaignId: string, recipientAddress: string, options?: { allowImportedWallet?: boolean; tokenAddress?: string }) => Promise<{ txHash: string; amount: string }>;
+    withdrawNative: (campaignId: string, recipientAddress: string, options?: { allowImportedWallet?: boolean }) => Promise<{ txHash: string; amount: string }>;
+    finalizeWallet: (campaignId: string, recipientAddress: string, options?: { allowImportedWallet?: boolean }) => Promise<FinalizeWalletResult>;
   };
   wallet: {
-    create: (type?: string) => Promise<{ address: string; privateKeyBase64: string }>;
     list: (options?: any) => Promise<{ wallets: ActivityWallet[]; total: number } | ActivityWallet[]>;
     getBalance: (address: string, chain: string, tokenAddress?: string, tokenDecimals?: number) => Promise<BalanceData>;
-    exportEVMPrivateKey: (privateKeyBase64: string) => Promise<{ success: boolean; privateKey: string }>;
-    exportSolanaPrivateKey: (privateKeyBase64: string) => Promise<{ success: boolean; privateKey: string }>;
+    exportKeystore: (request: KeystoreExportRequest) => Promise<KeystoreExportResult>;
+    getKeyAuditLog: (limit?: number) => Promise<KeyAuditEntry[]>;
+    previewImport: (input: ImportedWalletInput, chain: string) => Promise<{ address: string; type: 'evm' | 'solana' }>;
+  };
+  vault: {
+    getStatus: () => Promise<KeyVaultStatus>;
+    initialize: (passphrase: string) => Promise<KeyVaultStatus>;
+    unlock: (passphrase: string) => Promise<KeyVaultStatus>;
+    lock: () => Promise<KeyVaultStatus>;
+    changePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<{ success: boolean }>;
+    setAutoLock: (minutes: number) => Promise<KeyVaultStatus>;
+  };
+  seed: {
+    getStatus: () => Promise<HDSeedStatus>;
+    create: () => Promise<{ mnemonic: string; status: HDSeedStatus }>;
+    import: (mnemonic: string) => Promise<HDSeedStatus>;
+    discover: (request?: { chainIds?: number[]; gapLimit?: number }) => Promise<HDDiscoveryResult>;
+  };
+  signing: {
+    listRequests: (campaignId: string) => Promise<SigningRequest[]>;
+    submitSignature: (requestId: string, signedTransaction: string) => Promise<{ requestId: string; status: 'SIGNED' | 'EXPIRED' }>;
+    cancel: (requestId: string) => Promise<{ success: boolean }>;
+    saveUnsignedFile: (requestId: string) => Promise<{ success: boolean; filePath?: string; cancelled?: boolean }>;
+  };
+  safe: {
+    exportBatches: (campaignId: string, safeAddress: string) => Promise<{ success: boolean; cancelled?: boolean; outputDir?: string; batches?: SafeBatch[] }>;
+    listBatches: (campaignId: string) => Promise<SafeBatch[]>;
+    ingestExecution: (campaignId: string, txHash: string) => Promise<{ txHash: string; safeAddress: string; executedBatches: number[]; recipientCount: number }>;
+    discardBatch: (batchId: string) => Promise<{ success: boolean }>;
   };
   chain: {
     getEVMChains: (onlyEnabled?: boolean) => Promise<EVMChain[]>;
@@ -43,10 +79,10 @@ export interface ElectronAPI {
     estimateGas: (config: any) => Promise<any>;
     getTransactionStatus: (txHash: string, rpcUrl: string) => Promise<any>;
     batchTransfer: (config: any) => Promise<any>;
+    classifyRecipients: (chainId: string, addresses: string[], tokenAddress: string, amounts?: string[]) => Promise<RecipientCheckResult>;
   };
   solana: {
     getBalance: (address: string, rpcUrl: string, tokenAddress?: string) => Promise<{ success: boolean; balance: string }>;
-    batchTransfer: (config: any) => Promise<any>;
     getTransactionStatus: (signature: string, rpcUrl: string) => Promise<any>;
     getTokenInfo: (tokenAddress: string, rpcUrl: string) => Promise<TokenInfo | null>;
   };
@@ -74,6 +110,7 @@ export interface ElectronAPI {
     getInfo: (tokenAddress: string, chainId: string) => Promise<TokenInfo | null>;
     validateAddress: (tokenAddress: string, chainId: string) => Promise<{ isValid: boolean; chainType?: 'evm' | 'solana'; error?: string }>;
     getMultipleInfo: (tokenAddresses: string[], chainId: string) => Promise<TokenInfo[]>;
+    probeBehavior: (tokenAddress: string, chainId: string, addresses: string[], senderAddress?: string) => Promise<TokenBehaviorReport>;
   };
 }
 
@@ -131,6 +168,10 @@ export interface Campaign {
   tokenAddress: string;
   tokenSymbol: string;
   tokenDecimals: number;
+  tokenStandard?: TokenStandard; // ERC721 / ERC1155 为 NFT 空投
+  netDelivery?: boolean; // 转账手续费代币：接收者实际到账 CSV 中的金额
+  tokenWarnings?: string[]; // 创建时代币行为探测发现的问题（手续费、rebase、黑名单）
+  tokenLegs?: TokenLeg[]; // 多代币活动的代币列表，第一个为主代币
   status: 'CREATED' | 'FUNDED' | 'READY' | 'SENDING' | 'PAUSED' | 'COMPLETED' | 'FAILED';
   totalRecipients: number;
   completedRecipients: number;
@@ -138,7 +179,10 @@ export interface Campaign {
   totalAmount: string;
   completedAmount: string;
   walletAddress?: string;
-  walletPrivateKeyBase64?: string;
+  walletId?: string; // 主进程签名句柄，私钥不会发送到渲染进程
+  derivationIndex?: number; // HD 派生索引（由助记词派生的钱包）
+  walletImported?: boolean; // 用户导入的自有钱包
+  signingMode?: 'LOCAL' | 'EXTERNAL'; // EXTERNAL: 交易由离线签名者签名，本机不保存私钥
   contractAddress?: string;
   contractDeployedAt?: string;
   startDate?: string;
@@ -150,6 +194,18 @@ export interface Campaign {
   gasUsed: string;
   gasEstimate: string;
   batchSize: number;
+  pipelineDepth?: number; // EVM 同时在途的批次数
+  batchMode?: 'ATOMIC' | 'BEST_EFFORT'; // EVM 批次模式：原子或尽力发送
+  isolateFailures?: boolean; // 批次回滚时二分定位失败的接收者
+  distributionMode?: 'PUSH' | 'MERKLE_CLAIM'; // MERKLE_CLAIM: 接收者通过 Merkle 证明自行领取
+  claimExpiresAt?: string; // 领取截止时间
+  merkleRoot?: string;
+  distributorAddress?: string; // Merkle 分发合约地址
+  vesting?: VestingSchedule; // 锁仓释放计划
+  stuckTimeoutSeconds?: number; // EVM 交易超过该时间未上链自动加速
+  maxFeePerGasGwei?: string; // EVM 加速时的费用上限 (Gwei)
+  priorityFeeLevel?: SolanaPriorityLevel; // Solana 优先费档位
+  maxPriorityFeeLamports?: number; // Solana 每笔交易的优先费上限 (lamports)
   sendInterval: number;
   recipients?: Recipient[];
   transactions?: Transaction[];
@@ -164,10 +220,20 @@ export interface Recipient {
   transactionHash?: string;
   gasUsed?: string;
   error?: string;
+  trancheIndex?: number; // 锁仓释放的解锁批次序号
+  unlockAt?: string; // 解锁时间
+  tokenId?: string; // NFT 活动的 token ID
+  legIndex?: number; // 多代币活动中记录所属的代币（tokenLegs 下标）
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TokenLeg {
+  tokenAddress: string; // 原生代币为零地址
+  tokenSymbol?: string;
+  tokenDecimals: number;
+}
+
 export interface Transaction {
   id: string;
   campaignId: string;
@@ -201,11 +267,54 @@ export interface TokenInfo {
   decimals: number;
   address: string;
   chainType: 'evm' | 'solana';
+  standard?: TokenStandard; // EVM 通过 ERC-165 识别 NFT 合约
+  isNft?: boolean; // Solana：decimals 为 0 且供应量为 1 的 NFT mint
+  transferFeeBasisPoints?: number; // Solana Token-2022 转账手续费（基点）
+  unsupportedExtension?: string; // Solana Token-2022 中无法批量发送的扩展
+}
+
+// 接收地址类型检查：EOA、合约、Safe 多签、EIP-7702 委托账户
+export type RecipientAccountType = 'EOA' | 'CONTRACT' | 'SAFE' | 'EIP7702';
+
+export interface RecipientAccount {
+  address: string;
+  accountType: RecipientAccountType;
+  delegate?: string; // EIP-7702 委托的合约地址
+  rejectsNative?: boolean; // 原生代币活动：按发送金额模拟的调用回滚
+  reason?: string;
+  flagged: boolean; // 需要排除或确认后才能创建活动
 }
 
+export interface RecipientCheckResult {
+  checked: number;
+  counts: Record<RecipientAccountType, number>;
+  flaggedCount: number;
+  accounts: RecipientAccount[]; // 只列出非 EOA 地址
+}
+
+// EVM ERC20 代币行为探测：模拟转账检测手续费、识别 rebase 与黑名单，金额均为最小单位
+export interface TokenBehaviorReport {
+  simulated: boolean; // 找到持币地址并模拟了一笔转账
+  holderAddress?: string;
+  probeAmount?: string;
+  debitedAmount?: string; // 发送方实际扣减
+  receivedAmount?: string; // 接收方实际到账
+  transferFeeBasisPoints?: number; // 到账少于转账金额时的手续费（基点）
+  rebasingInterface?: string;
+  blocklistFunction?: string;
+  blockedAddresses: string[];
+  checkedAddresses: number;
+  warnings: string[];
+}
+
+export type TokenStandard = 'ERC20' | 'ERC721' | 'ERC1155';
+
+export type SolanaPriorityLevel = 'economy' | 'normal' | 'urgent';
+
 export interface CSVRow {
   address: string;
   amount: string;
+  tokenId?: string; // NFT 空投的 token ID
 }
 
 export interface CSVValidationResult {
@@ -219,7 +328,7 @@ export interface CSVValidationResult {
 
 export interface CSVValidationError {
   row: number;
-  field: 'address' | 'amount';
+  field: 'address' | 'amount' | 'tokenId';
   value: string;
   error: string;
 }
@@ -304,13 +413,223 @@ export interface SolanaRPC {
 
 
 // Wallet Management types
+export interface KeyVaultStatus {
+  initialized: boolean;
+  unlocked: boolean;
+  autoLockMinutes: number;
+  unlockExpiresAt?: string;
+  plaintextKeyCount: number;
+}
+
+export type ImportedWalletFormat = 'evm-private-key' | 'evm-keystore' | 'solana-keypair-json' | 'solana-base58';
+
+export interface ImportedWalletInput {
+  format: ImportedWalletFormat;
+  secret: string;
+  password?: string;
+}
+
+export interface HDSeedStatus {
+  configured: boolean;
+  fingerprint?: string;
+  nextEvmIndex: number;
+  nextSolanaIndex: number;
+  derivedWalletCount: number;
+}
+
+export interface HDDiscoveredWallet {
+  chainType: 'evm' | 'solana';
+  index: number;
+  derivationPath: string;
+  address: string;
+  campaignId?: string;
+  campaignName?: string;
+  activeNetworks: string[];
+}
+
+export interface HDDiscoveryResult {
+  wallets: HDDiscoveredWallet[];
+  nextEvmIndex: number;
+  nextSolanaIndex: number;
+}
+
+export interface KeystoreExportRequest {
+  walletId: string;
+  masterPassphrase: string;
+  exportPassword?: string;
+}
+
+export interface KeystoreExportResult {
+  success: boolean;
+  filePath?: string;
+  format?: 'keystore-v3' | 'solana-keypair';
+  cancelled?: boolean;
+}
+
+export interface KeyAuditEntry {
+  id: number;
+  campaignId?: string;
+  walletAddress?: string;
+  action: string;
+  detail?: string;
+  createdAt: string;
+}
+
+export interface SigningRequest {
+  id: string;
+  campaignId: string;
+  chainType: 'evm' | 'solana';
+  purpose: 'DEPLOY_CONTRACT' | 'APPROVE_TOKENS' | 'CREATE_TOKEN_ACCOUNTS' | 'BATCH_SEND';
+  batchNumber?: number;
+  fromAddress: string;
+  summary?: string;
+  filePath: string;
+  status: 'PENDING' | 'SIGNED' | 'BROADCAST' | 'EXPIRED' | 'CANCELLED' | 'FAILED';
+  txHash?: string;
+  errorMessage?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SafeBatch {
+  id: string;
+  campaignId: string;
+  safeAddress: string;
+  batchNumber: number;
+  recipientCount: number;
+  totalAmount: string;
+  filePath: string;
+  status: 'EXPORTED' | 'EXECUTED' | 'DISCARDED';
+  txHash?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DryRunIssue {
+  batchNumber: number;
+  address?: string; // 为空表示整个批次的问题
+  amount?: string;
+  category: 'INSUFFICIENT_BALANCE' | 'GAS_ERROR' | 'NONCE_ERROR' | 'NETWORK_ERROR' | 'CONTRACT_REVERT' | 'UNKNOWN_ERROR';
+  message: string;
+}
+
+export interface DryRunReport {
+  campaignId: string;
+  batchCount: number;
+  recipientCount: number;
+  passedBatches: number;
+  failedBatches: number;
+  estimatedGas: string;
+  warnings: string[];
+  issues: DryRunIssue[];
+  createdAt: string;
+}
+
+// 领取式空投（Merkle 分发合约）
+export interface MerkleDeploymentResponse {
+  success: boolean;
+  distributorAddress: string;
+  merkleRoot: string;
+  totalAmount: string;
+  deployTxHash?: string;
+  fundTxHash?: string;
+}
+
+export interface ClaimSyncResult {
+  newClaims: number;
+  claimedCount: number;
+  totalRecipients: number;
+  syncedBlock: number;
+  completed: boolean;
+}
+
+export interface ClaimProofExportResponse {
+  success: boolean;
+  cancelled?: boolean;
+  filePath?: string;
+  format?: 'json' | 'csv';
+  count?: number;
+}
+
+export interface SweepUnclaimedResponse {
+  success: boolean;
+  txHash: string;
+  amount: string;
+  unclaimedCount: number;
+}
+
+// Solana 活动结束后回收租金：转出剩余代币、关闭代币账户和地址查找表
+export interface FinalizeWalletResult {
+  sweptTokens: Array<{ mint: string; amount: string; transactionHash: string }>;
+  closedTokenAccounts: string[];
+  closedLookupTables: string[];
+  pendingLookupTables: string[]; // 查找表停用后需等待约 512 个 slot 才能关闭
+  skippedAccounts: Array<{ address: string; reason: string }>;
+  rentRecoveredLamports: string;
+  solSwept: string; // lamports，有查找表尚未关闭时为 0
+  transactionHashes: string[];
+}
+
+// 锁仓释放：每个接收者的金额按计划拆分为多个解锁批次
+export interface VestingSchedule {
+  startAt: string; // 释放开始时间（ISO）
+  cliffSeconds: number; // 锁定期，期间不释放
+  durationSeconds: number; // 从开始到全部释放的总时长（0 = 锁定期结束时一次释放）
+  intervalSeconds: number; // 解锁间隔
+}
+
+export interface VestingTranche {
+  trancheIndex: number;
+  unlockAt: string;
+  amount: string;
+  status: 'PENDING' | 'PROCESSING' | 'SENT' | 'FAILED';
+  txHash?: string;
+  errorMessage?: string;
+}
+
+export interface VestingScheduleEntry {
+  address: string;
+  totalAmount: string;
+  releasedAmount: string; // 已发放
+  unlockedAmount: string; // 已解锁、等待发送
+  lockedAmount: string; // 尚未解锁
+  failedAmount: string;
+  nextUnlockAt?: string;
+  tranches: VestingTranche[];
+}
+
+export interface ReconciledBatch {
+  batchNumber: number;
+  recipientCount: number;
+  sent: number;
+  requeued: number;
+  review: number;
+  inFlight: number;
+  txHash?: string;
+  reason: string;
+}
+
+export interface ReconciliationReport {
+  id: string;
+  campaignId: string;
+  trigger: 'STARTUP' | 'RESUME' | 'NONCE_CONSUMED';
+  sentCount: number;
+  requeuedCount: number;
+  reviewCount: number;
+  inFlightCount: number;
+  batches: ReconciledBatch[];
+  createdAt: string;
+}
+
 export interface ActivityWallet {
   id: string;
+  walletId?: string;
+  imported?: boolean;
+  external?: boolean;
   campaignId: string;
   campaignName: string;
   address: string;
   chain: string;
-  privateKeyBase64?: string;
   balances: WalletBalance[];
   status: string;
   totalBalance: string;
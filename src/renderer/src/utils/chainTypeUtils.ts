@@ -120,50 +120,6 @@ export function validateAddressForChain(address: string, info: ChainInfo | Walle
   }
 }
 
-/**
- * Base64解码为字节数组
- */
-function base64ToBytes(base64: string): Uint8Array {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-/**
- * 字节数组转十六进制字符串
- */
-function bytesToHex(bytes: Uint8Array): string {
-  return Array.from(bytes)
-    .map(byte => byte.toString(16).padStart(2, '0'))
-    .join('');
-}
-
-/**
- * 导出私钥 - 根据链类型转换格式
- */
-export function exportPrivateKey(privateKeyBase64: string, info: ChainInfo | WalletInfo | CampaignInfo | string | number): string {
-  if (!privateKeyBase64) return '';
-
-  try {
-    const privateKeyBytes = base64ToBytes(privateKeyBase64);
-
-    if (isSolanaChain(info)) {
-      // Solana私钥导出（JSON数组格式）
-      return JSON.stringify(Array.from(privateKeyBytes));
-    } else {
-      // EVM私钥导出（32字节hex，带0x前缀）
-      const privateKeyHex = bytesToHex(privateKeyBytes);
-      return `0x${privateKeyHex}`;
-    }
-  } catch (error) {
-    console.error('Failed to export private key:', error);
-    return 'Export failed';
-  }
-}
-
 /**
  * 获取链显示名称
  * 优先使用提供的链信息，避免硬编码
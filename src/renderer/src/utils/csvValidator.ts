@@ -1,11 +1,19 @@
 /**
  * 统一的CSV验证和处理工具
  * 支持无头部格式和有头部格式的CSV文件
+ * NFT 空投的无头部格式：ERC721 为 地址,tokenId；ERC1155 为 地址,tokenId,数量
+ * 多代币空投的无头部格式：地址,金额1,金额2,...（按代币顺序，空值或 0 表示不发该代币）
  */
 
+import type { RecipientCheckResult } from '../types';
+
+export type CSVTokenStandard = 'ERC20' | 'ERC721' | 'ERC1155';
+
 export interface CSVRow {
   address: string;
   amount: string;
+  tokenId?: string; // NFT 空投的 token ID（十进制）
+  amounts?: string[]; // 多代币空投按代币顺序的金额，amount 为其中第一个非零金额
 }
 
 export interface CSVValidationResult {
@@ -20,7 +28,7 @@ export interface CSVValidationResult {
 
 export interface CSVValidationError {
   row: number;
-  field: 'address' | 'amount';
+  field: 'address' | 'amount' | 'tokenId';
   value: string;
   error: string;
 }
@@ -29,6 +37,8 @@ export interface CSVParseOptions {
   hasHeaders?: boolean; // 是否包含头部行
   skipEmptyLines?: boolean; // 是否跳过空行
   trim?: boolean; // 是否去除空白字符
+  tokenStandard?: CSVTokenStandard; // 默认 ERC20；NFT 需要 tokenId 列
+  tokenLegCount?: number; // 多代币空投的代币数量，每行按顺序读取同样数量的金额列
 }
 
 /**
@@ -66,6 +76,19 @@ export function validateAmount(amount: string): { isValid: boolean; value?: numb
   return { isValid: true, value: numValue };
 }
 
+/**
+ * 验证 NFT token ID（十进制非负整数）
+ */
+export function validateTokenId(tokenId: string): boolean {
+  return /^\d+$/.test(tokenId.trim());
+}
+
+// token_id / tokenId / token id 等写法都视为 tokenId 列
+function isTokenIdHeader(header: string): boolean {
+  const normalized = header.toLowerCase().replace(/[\s_-]/g, '');
+  return normalized === 'tokenid' || normalized === 'id';
+}
+
 /**
  * 解析CSV内容
  */
@@ -76,8 +99,14 @@ export function parseCSV(
   const {
     hasHeaders = false,
     skipEmptyLines = true,
-    trim = true
+    trim = true,
+    tokenStandard = 'ERC20',
+    tokenLegCount = 1
   } = options;
+  const isNFT = tokenStandard !== 'ERC20';
+  const isMultiToken = !isNFT && tokenLegCount > 1;
+  // ERC721 每行转出一个 token，数量列可省略
+  const amountRequired = tokenStandard !== 'ERC721';
 
   try {
     const lines = content.split('\n').filter(line => {
@@ -108,13 +137,29 @@ export function parseCSV(
 
       // 验证必需的列
       if (!headers.some(h => h.toLowerCase().includes('address')) ||
-          !headers.some(h => h.toLowerCase().includes('amount'))) {
+          (amountRequired && !headers.some(h => h.toLowerCase().includes('amount'))) ||
+          (isNFT && !headers.some(isTokenIdHeader))) {
+        const required = isNFT ? (amountRequired ? 'address、tokenId和amount' : 'address和tokenId') : 'address和amount';
         return {
           isValid: false,
           totalRecords: lines.length - 1,
           validRecords: 0,
           invalidRecords: lines.length - 1,
-          errors: [{ row: 1, field: 'address', value: headers.join(','), error: 'CSV必须包含address和amount列' }],
+          errors: [{ row: 1, field: 'address', value: headers.join(','), error: `CSV必须包含${required}列` }],
+          sampleData: [],
+          data: []
+        };
+      }
+
+      // 多代币空投按顺序读取包含 amount 的列
+      const amountColumns = headers.filter(h => h.toLowerCase().includes('amount')).length;
+      if (isMultiToken && amountColumns < tokenLegCount) {
+        return {
+          isValid: false,
+          totalRecords: lines.length - 1,
+          validRecords: 0,
+          invalidRecords: lines.length - 1,
+          errors: [{ row: 1, field: 'amount', value: headers.join(','), error: `多代币空投需要${tokenLegCount}个amount列，当前只有${amountColumns}个` }],
           sampleData: [],
           data: []
         };
@@ -135,26 +180,43 @@ export function parseCSV(
 
       const values = line.split(',').map(v => trim ? v.trim() : v);
 
-      if (values.length < 2) {
-        errors.push({ row: lineNum, field: 'address', value: line, error: '格式错误，需要包含地址和金额' });
+      if (values.length < 2 || (!hasHeaders && tokenStandard === 'ERC1155' && values.length < 3)) {
+        const expected = isNFT ? (amountRequired ? '地址、tokenId和数量' : '地址和tokenId') : '地址和金额';
+        errors.push({ row: lineNum, field: 'address', value: line, error: `格式错误，需要包含${expected}` });
         continue;
       }
 
       let address: string;
       let amount: string;
-
-      if (hasHeaders) {
+      let tokenId: string | undefined;
+      let amounts: string[] | undefined;
+
+      if (isMultiToken) {
+        const amountIndexes = hasHeaders
+          ? headers.map((h, index) => h.toLowerCase().includes('amount') ? index : -1).filter(index => index !== -1).slice(0, tokenLegCount)
+          : Array.from({ length: tokenLegCount }, (_, index) => index + 1);
+        address = hasHeaders ? values[headers.findIndex(h => h.toLowerCase().includes('address'))] ?? '' : values[0];
+        amounts = amountIndexes.map(index => values[index] ?? '');
+        amount = amounts.find(value => validateAmount(value).isValid) ?? '';
+      } else if (hasHeaders) {
         // 根据头部找到对应的列
         const addressIndex = headers.findIndex(h => h.toLowerCase().includes('address'));
         const amountIndex = headers.findIndex(h => h.toLowerCase().includes('amount'));
+        const tokenIdIndex = headers.findIndex(isTokenIdHeader);
 
-        if (addressIndex === -1 || amountIndex === -1) {
-          errors.push({ row: lineNum, field: 'address', value: values.join(','), error: '无法找到address或amount列' });
+        if (addressIndex === -1 || (amountRequired && amountIndex === -1) || (isNFT && tokenIdIndex === -1)) {
+          errors.push({ row: lineNum, field: 'address', value: values.join(','), error: '无法找到address、amount或tokenId列' });
           continue;
         }
 
         address = values[addressIndex];
-        amount = values[amountIndex];
+        amount = amountIndex === -1 ? '1' : values[amountIndex] ?? '';
+        tokenId = isNFT ? values[tokenIdIndex] ?? '' : undefined;
+      } else if (isNFT) {
+        // 无头部 NFT 格式：地址,tokenId[,数量]
+        address = values[0];
+        tokenId = values[1];
+        amount = tokenStandard === 'ERC1155' ? values[2] : '1';
       } else {
         // 无头部格式，第一列是地址，第二列是金额
         address = values[0];
@@ -168,7 +230,34 @@ export function parseCSV(
         continue;
       }
 
+      if (tokenId !== undefined && !validateTokenId(tokenId)) {
+        errors.push({ row: lineNum, field: 'tokenId', value: tokenId, error: 'tokenId必须是十进制整数' });
+        continue;
+      }
+
+      if (amounts) {
+        const invalid = amounts.find(value => value !== '' && !/^\d+(\.\d+)?$/.test(value.trim()));
+        if (invalid !== undefined) {
+          errors.push({ row: lineNum, field: 'amount', value: invalid, error: '金额必须是非负数字' });
+          continue;
+        }
+        if (!amount) {
+          errors.push({ row: lineNum, field: 'amount', value: amounts.join(','), error: '至少需要一个大于0的金额' });
+          continue;
+        }
+        data.push({ address: address.trim(), amount: amount.trim(), amounts: amounts.map(value => value.trim()) });
+        continue;
+      }
+
       // 验证金额
+      if (tokenStandard === 'ERC721' && amount.trim() !== '1') {
+        errors.push({ row: lineNum, field: 'amount', value: amount, error: 'ERC721每行只能转出1个token' });
+        continue;
+      }
+      if (tokenStandard === 'ERC1155' && (!/^\d+$/.test(amount.trim()) || /^0+$/.test(amount.trim()))) {
+        errors.push({ row: lineNum, field: 'amount', value: amount, error: 'ERC1155数量必须是大于0的整数' });
+        continue;
+      }
       const amountValidation = validateAmount(amount);
       if (!amountValidation.isValid) {
         errors.push({ row: lineNum, field: 'amount', value: amount, error: '金额必须是大于0的数字' });
@@ -177,7 +266,8 @@ export function parseCSV(
 
       data.push({
         address: address.trim(),
-        amount: amount.trim()
+        amount: amount.trim(),
+        ...(tokenId !== undefined ? { tokenId: tokenId.trim() } : {})
       });
     }
 
@@ -204,6 +294,20 @@ export function parseCSV(
   }
 }
 
+/**
+ * 检查解析出的 EVM 接收地址类型（合约、Safe、EIP-7702 委托账户）。链上代码由主进程批量查询并缓存；
+ * 原生代币活动还会按每行的发送金额模拟调用，找出拒收原生代币的合约。legIndex 为多代币空投中原生代币的位置
+ */
+export async function inspectRecipients(rows: CSVRow[], chainId: string, tokenAddress: string, legIndex?: number): Promise<RecipientCheckResult> {
+  const evmRows = rows.filter(row => validateAddress(row.address).type === 'evm');
+  return window.electronAPI.blockchain.classifyRecipients(
+    chainId,
+    evmRows.map(row => row.address),
+    tokenAddress,
+    evmRows.map(row => (legIndex === undefined ? row.amount : row.amounts?.[legIndex]) || '')
+  );
+}
+
 /**
  * 从文件读取并解析CSV（用于文件上传场景）
  */
@@ -55,7 +55,7 @@ export interface ElectronAPI {
     getById: (id: string) => Promise<import('../main/types/ipc').Campaign | null>;
     start: (id: string) => Promise<void>;
     pause: (id: string) => Promise<void>;
-    resume: (id: string) => Promise<void>;
+    resume: (id: string) => Promise<import('../main/types/ipc').CampaignResumeResponse>;
     updateStatus: (id: string, status: string) => Promise<void>;
     getDetails: (id: string) => Promise<import('../main/types/ipc').CampaignDetails | null>;
     getTransactions: (id: string, options?: import('../main/types/ipc').TransactionOptions) => Promise<import('../main/types/ipc').Transaction[]>;
@@ -63,31 +63,71 @@ export interface ElectronAPI {
     estimate: (request: import('../main/types/ipc').EstimateRequest) => Promise<import('../main/types/ipc').EstimateResponse>;
     deployContract: (id: string) => Promise<string>;
     retryFailedTransactions: (id: string) => Promise<void>;
-    withdrawTokens: (campaignId: string, recipientAddress: string) => Promise<string>;
-    withdrawNative: (campaignId: string, recipientAddress: string) => Promise<string>;
+    speedUpTransaction: (campaignId: string, txHash: string) => Promise<import('../main/types/ipc').TransactionReplacementResponse>;
+    cancelTransaction: (campaignId: string, txHash: string) => Promise<import('../main/types/ipc').TransactionReplacementResponse>;
+    getReconciliationReports: (campaignId: string) => Promise<import('../main/types/ipc').ReconciliationReport[]>;
+    dryRun: (campaignId: string) => Promise<import('../main/types/ipc').DryRunReport>;
+    deployDistributor: (campaignId: string) => Promise<import('../main/types/ipc').MerkleDeploymentResponse>;
+    syncClaims: (campaignId: string) => Promise<import('../main/types/ipc').ClaimSyncResult>;
+    exportClaimProofs: (campaignId: string, format: 'json' | 'csv') => Promise<import('../main/types/ipc').ClaimProofExportResponse>;
+    sweepUnclaimed: (campaignId: string) => Promise<import('../main/types/ipc').SweepUnclaimedResponse>;
+    getVestingSchedule: (campaignId: string) => Promise<import('../main/types/ipc').VestingScheduleEntry[]>;
+    withdrawTokens: (campaignId: string, recipientAddress: string, options?: import('../main/types/ipc').WithdrawOptions) => Promise<string>;
+    withdrawNative: (campaignId: string, recipientAddress: string, options?: import('../main/types/ipc').WithdrawOptions) => Promise<string>;
+    finalizeWallet: (campaignId: string, recipientAddress: string, options?: import('../main/types/ipc').WithdrawOptions) => Promise<import('../main/types/ipc').FinalizeWalletResult>;
     onProgress: (callback: (data: import('../main/types/ipc').CampaignProgress) => void) => void;
   };
 
   solana: {
     getBalance: (rpcUrl: string, walletAddress: string, tokenAddress?: string) => Promise<string>;
-    batchTransfer: (rpcUrl: string, privateKeyBase64: string, recipients: string[], amounts: string[], tokenAddress: string) => Promise<unknown>;
     getTransactionStatus: (rpcUrl: string, transactionHash: string) => Promise<import('../main/types/ipc').TransactionStatus>;
     getTokenInfo: (rpcUrl: string, tokenAddress: string) => Promise<import('../main/types/ipc').SolanaTokenInfo>;
   };
 
   wallet: {
-    create: (type?: 'evm' | 'solana') => Promise<import('../main/types/ipc').WalletData>;
     getBalance: (address: string, chain: string, tokenAddress?: string) => Promise<string>;
     list: (options?: import('../main/types/ipc').WalletListOptions) => Promise<import('../main/types/ipc').WalletListResponse>;
     getBalances: (campaignId: string) => Promise<import('../main/types/ipc').WalletBalance>;
-    exportEVMPrivateKey: (privateKeyBase64: string) => Promise<string>;
-    exportSolanaPrivateKey: (privateKeyBase64: string) => Promise<string>;
+    exportKeystore: (request: import('../main/types/ipc').KeystoreExportRequest) => Promise<import('../main/types/ipc').KeystoreExportResult>;
+    getKeyAuditLog: (limit?: number) => Promise<import('../main/types/ipc').KeyAuditEntry[]>;
+    previewImport: (input: import('../main/types/ipc').ImportedWalletInput, chain: string) => Promise<{ address: string; type: 'evm' | 'solana' }>;
+  };
+
+  vault: {
+    getStatus: () => Promise<import('../main/types/ipc').KeyVaultStatus>;
+    initialize: (passphrase: string) => Promise<import('../main/types/ipc').KeyVaultStatus>;
+    unlock: (passphrase: string) => Promise<import('../main/types/ipc').KeyVaultStatus>;
+    lock: () => Promise<import('../main/types/ipc').KeyVaultStatus>;
+    changePassphrase: (currentPassphrase: string, newPassphrase: string) => Promise<{ success: boolean }>;
+    setAutoLock: (minutes: number) => Promise<import('../main/types/ipc').KeyVaultStatus>;
+  };
+
+  seed: {
+    getStatus: () => Promise<import('../main/types/ipc').HDSeedStatus>;
+    create: () => Promise<import('../main/types/ipc').HDSeedCreateResult>;
+    import: (mnemonic: string) => Promise<import('../main/types/ipc').HDSeedStatus>;
+    discover: (request?: import('../main/types/ipc').HDDiscoveryRequest) => Promise<import('../main/types/ipc').HDDiscoveryResult>;
+  };
+
+  signing: {
+    listRequests: (campaignId: string) => Promise<import('../main/types/ipc').SigningRequest[]>;
+    submitSignature: (requestId: string, signedTransaction: string) => Promise<import('../main/types/ipc').SignatureSubmitResult>;
+    cancel: (requestId: string) => Promise<{ success: boolean }>;
+    saveUnsignedFile: (requestId: string) => Promise<import('../main/types/ipc').UnsignedFileSaveResult>;
+  };
+
+  safe: {
+    exportBatches: (campaignId: string, safeAddress: string) => Promise<import('../main/types/ipc').SafeBatchExportResponse>;
+    listBatches: (campaignId: string) => Promise<import('../main/types/ipc').SafeBatch[]>;
+    ingestExecution: (campaignId: string, txHash: string) => Promise<import('../main/types/ipc').SafeExecutionResult>;
+    discardBatch: (batchId: string) => Promise<{ success: boolean }>;
   };
 
   blockchain: {
     getBalance: (address: string, chain: string, tokenAddress?: string) => Promise<string>;
     estimateGas: (chain: string, fromAddress: string, toAddress: string, tokenAddress: string, recipientCount: number) => Promise<string>;
     getTransactionStatus: (txHash: string, chain: string) => Promise<import('../main/types/ipc').TransactionStatus>;
+    classifyRecipients: (chainId: string, addresses: string[], tokenAddress: string, amounts?: string[]) => Promise<import('../main/types/ipc').RecipientCheckResult>;
   };
 
   chain: {
@@ -125,6 +165,7 @@ export interface ElectronAPI {
     getInfo: (tokenAddress: string, chainId: string) => Promise<import('../main/types/ipc').TokenInfo>;
     validateAddress: (tokenAddress: string, chainId: string) => Promise<boolean>;
     getMultipleInfo: (tokenAddresses: string[], chainId: string) => Promise<import('../main/types/ipc').TokenInfo[]>;
+    probeBehavior: (tokenAddress: string, chainId: string, addresses: string[], senderAddress?: string) => Promise<import('../main/types/ipc').TokenBehaviorReport>;
   };
 }
 